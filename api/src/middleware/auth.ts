@@ -1,11 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import User, { IUser } from '../models/User';
+import Workspace, { IWorkspace, WorkspaceRole } from '../models/Workspace';
+import { ensurePersonalWorkspace, hasRole, memberRole } from '../services/workspaceService';
 
 export interface AuthRequest extends Request {
   user?: IUser;
+  // Set by authorize()
+  workspace?: IWorkspace;
+  workspaceRole?: WorkspaceRole;
 }
 
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+// Access tokens are short-lived; sessions are kept alive with refresh tokens (see services/sessionService)
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set in environment variables');
+  }
+  return secret;
+};
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
@@ -29,7 +46,7 @@ export const authenticate = async (
 
     try {
       // Verify token
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as { id: string };
+      const decoded = jwt.verify(token, getJwtSecret()) as { id: string; tokenVersion?: number };
       
       // Get user from database
       const user = await User.findById(decoded.id).select('+password');
@@ -42,9 +59,30 @@ export const authenticate = async (
         return;
       }
 
+      // Issued before the user signed out of all devices
+      if ((decoded.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+        res.status(401).json({
+          success: false,
+          error: 'Token has been revoked',
+          code: 'TOKEN_REVOKED'
+        });
+        return;
+      }
+
       req.user = user;
       next();
     } catch (jwtError) {
+      if (jwtError instanceof jwt.TokenExpiredError) {
+        res.status(401).json({
+          success: false,
+          error: 'Token has expired',
+          code: 'TOKEN_EXPIRED'
+        });
+        return;
+      }
+      if (!(jwtError instanceof jwt.JsonWebTokenError)) {
+        throw jwtError;
+      }
       res.status(401).json({
         success: false,
         error: 'Token is invalid'
@@ -59,12 +97,70 @@ export const authenticate = async (
   }
 };
 
-export const generateToken = (userId: string): string => {
-  const secret = process.env.JWT_SECRET || 'fallback-secret';
-  const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
+/**
+ * Resolves the workspace a request works in and checks the user's role in it.
+ * The workspace comes from the :workspaceId route parameter, then the
+ * X-Workspace-Id header, and defaults to the user's personal workspace.
+ * Workspaces the user is not a member of answer 404, as if they did not exist.
+ * Must run after authenticate.
+ */
+export const authorize = (minimumRole: WorkspaceRole) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const workspaceId = req.params.workspaceId || req.get(WORKSPACE_HEADER);
+
+    let workspace: IWorkspace | null;
+    if (workspaceId) {
+      workspace = mongoose.isValidObjectId(workspaceId) ? await Workspace.findById(workspaceId) : null;
+    } else {
+      workspace = await ensurePersonalWorkspace(req.user!);
+    }
+
+    const role = workspace ? memberRole(workspace, req.user!._id) : undefined;
+    if (!workspace || !role) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found',
+        code: 'WORKSPACE_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!hasRole(role, minimumRole)) {
+      res.status(403).json({
+        success: false,
+        error: `This action needs the ${minimumRole} role in the workspace`,
+        code: 'INSUFFICIENT_ROLE'
+      });
+      return;
+    }
+
+    // Records belong to the resolved workspace and user, never to ones named in the body
+    if (req.body && typeof req.body === 'object') {
+      delete req.body.workspaceId;
+      delete req.body.userId;
+    }
+
+    req.workspace = workspace;
+    req.workspaceRole = role;
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error during authorization'
+    });
+  }
+};
+
+export const generateToken = (userId: string, tokenVersion = 0): string => {
+  const secret = getJwtSecret();
+  const expiresIn = process.env.JWT_EXPIRES_IN || '15m';
   
   return jwt.sign(
-    { id: userId },
+    { id: userId, tokenVersion },
     secret,
     { expiresIn } as any
   );
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AccountTokenPurpose = 'verify-email' | 'reset-password';
+
+// A single-use token emailed to the user. Only its hash is stored.
+export interface IAccountToken extends Document {
+  tokenHash: string;
+  purpose: AccountTokenPurpose;
+  userId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const accountTokenSchema = new Schema<IAccountToken>({
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  purpose: {
+    type: String,
+    enum: ['verify-email', 'reset-password'],
+    required: [true, 'Token purpose is required']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  usedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+accountTokenSchema.index({ userId: 1, purpose: 1 });
+// Expired tokens are removed by MongoDB
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAccountToken>('AccountToken', accountTokenSchema);
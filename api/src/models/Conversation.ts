@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// The chat history of one Lovable project. Its messages are stored as
+// ConversationMessage records so they can be appended and searched one by one.
+export interface IConversation extends Document {
+  lovableProjectId: string;
+  projectId?: mongoose.Types.ObjectId;
+  title?: string;
+  url?: string;
+  messageCount: number;
+  nextSequence: number;
+  lastMessageAt?: Date;
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const conversationSchema = new Schema<IConversation>({
+  lovableProjectId: {
+    type: String,
+    required: [true, 'Lovable project ID is required'],
+    trim: true,
+    maxlength: [100, 'Lovable project ID cannot exceed 100 characters']
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project'
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Title cannot exceed 500 characters']
+  },
+  url: {
+    type: String,
+    trim: true
+  },
+  messageCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Reserved before messages are inserted, so concurrent syncs never share a sequence
+  nextSequence: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastMessageAt: {
+    type: Date
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+conversationSchema.index({ workspaceId: 1, lovableProjectId: 1 }, { unique: true });
+conversationSchema.index({ workspaceId: 1, projectId: 1 });
+conversationSchema.index({ workspaceId: 1, lastMessageAt: -1 });
+conversationSchema.index({ userId: 1 });
+
+export default mongoose.model<IConversation>('Conversation', conversationSchema);
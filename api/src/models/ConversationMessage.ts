@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IFileEdit } from './Document';
+
+export type MessageSender = 'user' | 'ai';
+
+export interface IMessageAttachment {
+  type: 'image' | 'file';
+  url: string;
+  name?: string;
+}
+
+// A prompt (umsg_...) or response (aimsg_...) in a Lovable conversation
+export interface IConversationMessage extends Document {
+  conversationId: mongoose.Types.ObjectId;
+  messageId: string;
+  sender: MessageSender;
+  text: string;
+  attachments: IMessageAttachment[];
+  fileEdits: IFileEdit[];
+  actions: string[];
+  sequence: number;
+  timestamp?: Date;
+  capturedBy: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const messageAttachmentSchema = new Schema<IMessageAttachment>({
+  type: {
+    type: String,
+    enum: ['image', 'file'],
+    required: true
+  },
+  url: {
+    type: String,
+    required: true,
+    maxlength: [2000, 'Attachment URL cannot exceed 2000 characters']
+  },
+  name: {
+    type: String,
+    maxlength: [500, 'Attachment name cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const fileEditSchema = new Schema<IFileEdit>({
+  path: {
+    type: String,
+    required: true,
+    maxlength: [500, 'File path cannot exceed 500 characters']
+  },
+  action: {
+    type: String,
+    enum: ['created', 'edited', 'deleted', 'renamed'],
+    required: true
+  }
+}, { _id: false });
+
+const conversationMessageSchema = new Schema<IConversationMessage>({
+  conversationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Conversation',
+    required: [true, 'Conversation ID is required']
+  },
+  messageId: {
+    type: String,
+    required: [true, 'Message ID is required'],
+    trim: true,
+    maxlength: [100, 'Message ID cannot exceed 100 characters']
+  },
+  sender: {
+    type: String,
+    enum: ['user', 'ai'],
+    required: [true, 'Sender is required']
+  },
+  // Empty for messages that only contain attachments
+  text: {
+    type: String,
+    default: '',
+    maxlength: [20000, 'Message text cannot exceed 20000 characters']
+  },
+  attachments: {
+    type: [messageAttachmentSchema],
+    default: []
+  },
+  // Files changed and other steps taken by a response, as listed in the editor
+  fileEdits: {
+    type: [fileEditSchema],
+    default: []
+  },
+  actions: {
+    type: [String],
+    default: []
+  },
+  // Order in which the messages were first captured
+  sequence: {
+    type: Number,
+    required: [true, 'Sequence is required'],
+    min: 0
+  },
+  timestamp: {
+    type: Date
+  },
+  capturedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Capturing user is required']
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+conversationMessageSchema.index({ conversationId: 1, messageId: 1 }, { unique: true });
+conversationMessageSchema.index({ conversationId: 1, sequence: 1 });
+conversationMessageSchema.index({ workspaceId: 1, text: 'text' });
+
+export default mongoose.model<IConversationMessage>('ConversationMessage', conversationMessageSchema);
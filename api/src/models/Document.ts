@@ -1,14 +1,37 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type FileEditAction = 'created' | 'edited' | 'deleted' | 'renamed';
+
+// A file the AI changed while answering a prompt
+export interface IFileEdit {
+  path: string;
+  action: FileEditAction;
+}
+
 export interface IConversationMessage {
   sender: 'user' | 'ai';
   text: string;
   timestamp?: string;
+  fileEdits?: IFileEdit[];
+  // Other steps the AI took, e.g. "Installed @dnd-kit/core"
+  actions?: string[];
+}
+
+// A page of the app found by crawling its preview
+export interface ISiteMapPage {
+  route: string;
+  title?: string;
+  // Links followed from the page the crawl started on
+  depth: number;
+  // Routes of the app this page links to
+  links: string[];
+  // Headings, forms, buttons and other UI on the page, as text
+  structure: string;
 }
 
 export interface IConversationData {
   userMessages?: Array<{ sender: 'user'; text: string; timestamp?: string }>;
-  aiMessages?: Array<{ sender: 'ai'; text: string; timestamp?: string }>;
+  aiMessages?: Array<{ sender: 'ai'; text: string; timestamp?: string; fileEdits?: IFileEdit[]; actions?: string[] }>;
   mergedMessages: IConversationMessage[];
   url?: string;
   title?: string;
@@ -19,19 +42,32 @@ export interface IDocument extends Document {
   title: string;
   content: string;
   documentType: 'requirement' | 'specification' | 'plan' | 'documentation' | 'other';
+  generationType?: 'requirements' | 'specs' | 'guides' | 'api' | 'faq';
   customPrompt?: string;
+  projectContext?: string;
   url?: string;
   htmlContent?: string;
   conversationData?: IConversationData;
+  siteMap?: ISiteMapPage[];
+  currentVersion?: number;
   userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const FileEditSchema = new Schema<IFileEdit>({
+  path: { type: String, required: true },
+  action: { type: String, enum: ['created', 'edited', 'deleted', 'renamed'], required: true }
+}, { _id: false });
+
 const ConversationMessageSchema = new Schema({
   sender: { type: String, enum: ['user', 'ai'] },
   text: { type: String },
-  timestamp: { type: String }
+  timestamp: { type: String },
+  fileEdits: { type: [FileEditSchema], default: undefined },
+  actions: { type: [String], default: undefined }
 });
 
 const UserMessageSchema = new Schema({
@@ -43,7 +79,9 @@ const UserMessageSchema = new Schema({
 const AiMessageSchema = new Schema({
   sender: { type: String, enum: ['ai'] },
   text: { type: String },
-  timestamp: { type: String }
+  timestamp: { type: String },
+  fileEdits: { type: [FileEditSchema], default: undefined },
+  actions: { type: [String], default: undefined }
 });
 
 const ConversationDataSchema = new Schema({
@@ -54,6 +92,14 @@ const ConversationDataSchema = new Schema({
   title: { type: String }
 });
 
+const SiteMapPageSchema = new Schema<ISiteMapPage>({
+  route: { type: String, required: true },
+  title: { type: String },
+  depth: { type: Number, min: 0 },
+  links: { type: [String], default: [] },
+  structure: { type: String }
+}, { _id: false });
+
 const DocumentSchema = new Schema({
   title: { type: String, required: true },
   content: { type: String, required: true },
@@ -62,13 +108,30 @@ const DocumentSchema = new Schema({
     enum: ['requirement', 'specification', 'plan', 'documentation', 'other'],
     required: true 
   },
+  // The type the document was generated as, used when regenerating it
+  generationType: { type: String, enum: ['requirements', 'specs', 'guides', 'api', 'faq'] },
   customPrompt: { type: String },
+  // Used again when regenerating
+  projectContext: { type: String },
   url: { type: String },
   htmlContent: { type: String },
   conversationData: { type: ConversationDataSchema, required: false },
-  userId: { type: mongoose.Types.ObjectId, ref: 'User', required: true }
+  // Pages crawled from the app's preview, used again when regenerating
+  siteMap: { type: [SiteMapPageSchema], default: undefined },
+  // Number of the latest DocumentVersion; unset on documents created before versioning
+  currentVersion: { type: Number, min: 1 },
+  userId: { type: mongoose.Types.ObjectId, ref: 'User', required: true },
+  workspaceId: { type: mongoose.Types.ObjectId, ref: 'Workspace', required: true },
+  projectId: { type: mongoose.Types.ObjectId, ref: 'Project' }
 }, {
   timestamps: true
 });
 
+// Index for better query performance
+DocumentSchema.index({ workspaceId: 1, createdAt: -1 });
+DocumentSchema.index({ workspaceId: 1, projectId: 1 });
+DocumentSchema.index({ userId: 1 });
+// Full-text search; title matches rank highest
+DocumentSchema.index({ workspaceId: 1, title: 'text', content: 'text' }, { weights: { title: 5, content: 1 } });
+
 export default mongoose.model<IDocument>('Document', DocumentSchema); 
\ No newline at end of file
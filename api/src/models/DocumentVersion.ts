@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DocumentVersionSource = 'generated' | 'edit' | 'regenerate';
+
+// A snapshot of a document after it was generated, edited or regenerated. Versions are never changed afterwards.
+export interface IDocumentVersion extends Document {
+  documentId: mongoose.Types.ObjectId;
+  version: number;
+  title: string;
+  content: string;
+  customPrompt?: string;
+  source: DocumentVersionSource;
+  userId: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const documentVersionSchema = new Schema<IDocumentVersion>({
+  documentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Document',
+    required: [true, 'Document ID is required'],
+    immutable: true
+  },
+  version: {
+    type: Number,
+    required: [true, 'Version number is required'],
+    min: [1, 'Version number must be at least 1'],
+    immutable: true
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    immutable: true
+  },
+  content: {
+    type: String,
+    required: [true, 'Content is required'],
+    immutable: true
+  },
+  customPrompt: {
+    type: String,
+    immutable: true
+  },
+  source: {
+    type: String,
+    enum: ['generated', 'edit', 'regenerate'],
+    required: [true, 'Version source is required'],
+    immutable: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for better query performance
+documentVersionSchema.index({ documentId: 1, version: 1 }, { unique: true });
+documentVersionSchema.index({ userId: 1, documentId: 1 });
+
+export default mongoose.model<IDocumentVersion>('DocumentVersion', documentVersionSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A Lovable app, identified by the project ID in its editor and preview URLs
+// (lovable.dev/projects/PROJECT_ID, id-preview--PROJECT_ID.lovable.app). Tasks,
+// tests, test cases, test sessions and documents can belong to a project.
+export interface IProject extends Document {
+  name: string;
+  lovableProjectId: string;
+  url?: string;
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const projectSchema = new Schema<IProject>({
+  name: {
+    type: String,
+    required: [true, 'Project name is required'],
+    trim: true,
+    maxlength: [200, 'Project name cannot exceed 200 characters']
+  },
+  lovableProjectId: {
+    type: String,
+    required: [true, 'Lovable project ID is required'],
+    trim: true,
+    maxlength: [100, 'Lovable project ID cannot exceed 100 characters']
+  },
+  url: {
+    type: String,
+    trim: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+projectSchema.index({ workspaceId: 1, lovableProjectId: 1 }, { unique: true });
+projectSchema.index({ workspaceId: 1, name: 1 });
+projectSchema.index({ userId: 1 });
+
+export default mongoose.model<IProject>('Project', projectSchema);
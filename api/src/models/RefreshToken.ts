@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A server-side refresh token. Only a hash of the token is stored; each use rotates it
+// into a new token of the same family, so reuse of an old token can be detected.
+export interface IRefreshToken extends Document {
+  tokenHash: string;
+  family: string;
+  userId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  family: {
+    type: String,
+    required: [true, 'Token family is required']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  revokedAt: {
+    type: Date
+  },
+  replacedBy: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+  ip: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+refreshTokenSchema.index({ userId: 1, revokedAt: 1 });
+refreshTokenSchema.index({ family: 1 });
+// Expired tokens are removed by MongoDB
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
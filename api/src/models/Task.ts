@@ -1,17 +1,44 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface ITaskNote {
+  clientId?: string;
+  content: string;
+  createdAt: Date;
+}
+
 export interface ITask extends Document {
   title: string;
   description?: string;
   status: 'todo' | 'in_progress' | 'completed' | 'cancelled';
-  priority: 'low' | 'medium' | 'high';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
   dueDate?: Date;
   tags: string[];
+  notes: ITaskNote[];
+  clientId?: string; // ID assigned by the extension, used to make offline creates idempotent
   userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const taskNoteSchema = new Schema<ITaskNote>({
+  clientId: {
+    type: String,
+    trim: true
+  },
+  content: {
+    type: String,
+    required: [true, 'Note content is required'],
+    trim: true,
+    maxlength: [1000, 'Note cannot exceed 1000 characters']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 const taskSchema = new Schema<ITask>({
   title: {
     type: String,
@@ -31,7 +58,7 @@ const taskSchema = new Schema<ITask>({
   },
   priority: {
     type: String,
-    enum: ['low', 'medium', 'high'],
+    enum: ['low', 'medium', 'high', 'urgent'],
     default: 'medium'
   },
   dueDate: {
@@ -42,17 +69,43 @@ const taskSchema = new Schema<ITask>({
     trim: true,
     maxlength: [50, 'Tag cannot exceed 50 characters']
   }],
+  notes: {
+    type: [taskNoteSchema],
+    default: []
+  },
+  clientId: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Client ID cannot exceed 100 characters']
+  },
   userId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: [true, 'User ID is required']
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project'
   }
 }, {
   timestamps: true
 });
 
 // Index for better query performance
-taskSchema.index({ userId: 1, status: 1 });
-taskSchema.index({ userId: 1, createdAt: -1 });
+taskSchema.index({ workspaceId: 1, status: 1 });
+taskSchema.index({ workspaceId: 1, createdAt: -1 });
+taskSchema.index({ workspaceId: 1, clientId: 1 });
+taskSchema.index({ workspaceId: 1, projectId: 1 });
+taskSchema.index({ userId: 1 });
+// Full-text search; title matches rank highest
+taskSchema.index(
+  { workspaceId: 1, title: 'text', description: 'text', tags: 'text', 'notes.content': 'text' },
+  { weights: { title: 5, tags: 3, description: 1, 'notes.content': 1 } }
+);
 
 export default mongoose.model<ITask>('Task', taskSchema); 
\ No newline at end of file
@@ -1,5 +1,22 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface ITestStepProgress {
+  index: number;
+  action: string;
+  description?: string;
+  status: 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+  duration?: number; // in milliseconds
+  errorMessage?: string;
+}
+
+export interface ITestArtifact {
+  type: 'screenshot' | 'console' | 'html';
+  name: string;
+  path: string;
+  stepIndex?: number;
+  createdAt: Date;
+}
+
 export interface ITest extends Document {
   name: string;
   description?: string;
@@ -8,13 +25,71 @@ export interface ITest extends Document {
   duration?: number; // in milliseconds
   errorMessage?: string;
   testData?: any; // Store test configuration or data
+  targetUrl?: string; // Page the steps in testData are run against
+  startedAt?: Date;
+  finishedAt?: Date;
+  leaseExpiresAt?: Date; // Renewed while a run is in progress; a running test past it was abandoned
+  progress: ITestStepProgress[];
+  artifacts: ITestArtifact[];
   tags: string[];
   userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
   taskId?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const testStepProgressSchema = new Schema<ITestStepProgress>({
+  index: {
+    type: Number,
+    required: true
+  },
+  action: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'passed', 'failed', 'skipped'],
+    default: 'pending'
+  },
+  duration: {
+    type: Number,
+    min: [0, 'Duration cannot be negative']
+  },
+  errorMessage: {
+    type: String,
+    maxlength: [2000, 'Error message cannot exceed 2000 characters']
+  }
+}, { _id: false });
+
+const testArtifactSchema = new Schema<ITestArtifact>({
+  type: {
+    type: String,
+    enum: ['screenshot', 'console', 'html'],
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  path: {
+    type: String,
+    required: true
+  },
+  stepIndex: {
+    type: Number
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const testSchema = new Schema<ITest>({
   name: {
     type: String,
@@ -48,6 +123,28 @@ const testSchema = new Schema<ITest>({
   testData: {
     type: Schema.Types.Mixed
   },
+  targetUrl: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Target URL cannot exceed 2000 characters']
+  },
+  startedAt: {
+    type: Date
+  },
+  finishedAt: {
+    type: Date
+  },
+  leaseExpiresAt: {
+    type: Date
+  },
+  progress: {
+    type: [testStepProgressSchema],
+    default: []
+  },
+  artifacts: {
+    type: [testArtifactSchema],
+    default: []
+  },
   tags: [{
     type: String,
     trim: true,
@@ -58,6 +155,15 @@ const testSchema = new Schema<ITest>({
     ref: 'User',
     required: [true, 'User ID is required']
   },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project'
+  },
   taskId: {
     type: Schema.Types.ObjectId,
     ref: 'Task'
@@ -67,9 +173,16 @@ const testSchema = new Schema<ITest>({
 });
 
 // Index for better query performance
-testSchema.index({ userId: 1, status: 1 });
-testSchema.index({ userId: 1, type: 1 });
+testSchema.index({ workspaceId: 1, status: 1 });
+testSchema.index({ workspaceId: 1, type: 1 });
 testSchema.index({ taskId: 1 });
-testSchema.index({ userId: 1, createdAt: -1 });
+testSchema.index({ workspaceId: 1, createdAt: -1 });
+testSchema.index({ workspaceId: 1, projectId: 1 });
+testSchema.index({ userId: 1 });
+// Full-text search; name matches rank highest
+testSchema.index(
+  { workspaceId: 1, name: 'text', description: 'text', tags: 'text', errorMessage: 'text' },
+  { weights: { name: 5, tags: 3, description: 1, errorMessage: 1 } }
+);
 
 export default mongoose.model<ITest>('Test', testSchema); 
\ No newline at end of file
@@ -0,0 +1,161 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TestCaseResult = 'pass' | 'fail' | 'pending';
+
+export interface ITestCaseStep {
+  clientId?: string;
+  description: string;
+}
+
+export interface ITestCaseHistoryEntry {
+  result: TestCaseResult;
+  executedAt: Date;
+  sessionId?: mongoose.Types.ObjectId;
+  executedBy?: mongoose.Types.ObjectId;
+}
+
+export interface ITestCase extends Document {
+  title: string;
+  description?: string;
+  steps: ITestCaseStep[];
+  expectedResult?: string;
+  priority: 'low' | 'medium' | 'high';
+  result: TestCaseResult;
+  executedAt?: Date;
+  notes?: string;
+  history: ITestCaseHistoryEntry[];
+  tags: string[];
+  clientId?: string; // ID assigned by the extension, used to make replayed creates idempotent
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const testCaseStepSchema = new Schema<ITestCaseStep>({
+  clientId: {
+    type: String,
+    trim: true
+  },
+  description: {
+    type: String,
+    required: [true, 'Step description is required'],
+    trim: true,
+    maxlength: [1000, 'Step description cannot exceed 1000 characters']
+  }
+});
+
+const testCaseHistorySchema = new Schema<ITestCaseHistoryEntry>({
+  result: {
+    type: String,
+    enum: ['pass', 'fail', 'pending'],
+    required: [true, 'Result is required']
+  },
+  executedAt: {
+    type: Date,
+    default: Date.now
+  },
+  sessionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'TestSession'
+  },
+  executedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+});
+
+const testCaseSchema = new Schema<ITestCase>({
+  title: {
+    type: String,
+    required: [true, 'Test case title is required'],
+    trim: true,
+    maxlength: [200, 'Test case title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Test case description cannot exceed 2000 characters']
+  },
+  steps: {
+    type: [testCaseStepSchema],
+    default: []
+  },
+  expectedResult: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Expected result cannot exceed 2000 characters']
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  result: {
+    type: String,
+    enum: ['pass', 'fail', 'pending'],
+    default: 'pending'
+  },
+  executedAt: {
+    type: Date
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Notes cannot exceed 2000 characters']
+  },
+  history: {
+    type: [testCaseHistorySchema],
+    default: []
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    maxlength: [50, 'Tag cannot exceed 50 characters']
+  }],
+  clientId: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Client ID cannot exceed 100 characters']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project'
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+testCaseSchema.index({ workspaceId: 1, result: 1 });
+testCaseSchema.index({ workspaceId: 1, createdAt: -1 });
+testCaseSchema.index({ workspaceId: 1, clientId: 1 });
+testCaseSchema.index({ workspaceId: 1, projectId: 1 });
+testCaseSchema.index({ userId: 1 });
+testCaseSchema.index({ 'history.sessionId': 1 });
+// Full-text search; title matches rank highest
+testCaseSchema.index(
+  {
+    workspaceId: 1,
+    title: 'text',
+    description: 'text',
+    tags: 'text',
+    'steps.description': 'text',
+    expectedResult: 'text',
+    notes: 'text'
+  },
+  { weights: { title: 5, tags: 3, description: 1, 'steps.description': 1, expectedResult: 1, notes: 1 } }
+);
+
+export default mongoose.model<ITestCase>('TestCase', testCaseSchema);
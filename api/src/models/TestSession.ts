@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITestSession extends Document {
+  name?: string;
+  status: 'active' | 'paused' | 'finished' | 'terminated';
+  startedAt: Date;
+  finishedAt?: Date;
+  clientId?: string;
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const testSessionSchema = new Schema<ITestSession>({
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Session name cannot exceed 200 characters']
+  },
+  status: {
+    type: String,
+    enum: ['active', 'paused', 'finished', 'terminated'],
+    default: 'active'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: {
+    type: Date
+  },
+  clientId: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Client ID cannot exceed 100 characters']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project'
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+testSessionSchema.index({ workspaceId: 1, status: 1 });
+testSessionSchema.index({ workspaceId: 1, startedAt: -1 });
+testSessionSchema.index({ workspaceId: 1, clientId: 1 });
+testSessionSchema.index({ workspaceId: 1, projectId: 1 });
+testSessionSchema.index({ userId: 1 });
+
+export default mongoose.model<ITestSession>('TestSession', testSessionSchema);
@@ -6,6 +6,11 @@ export interface IUser extends Document {
   password: string;
   name: string;
   isActive: boolean;
+  // Unset for accounts created before email verification existed; those count as verified
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
+  // Bumped to invalidate every access token issued so far ("sign out all devices")
+  tokenVersion: number;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -38,6 +43,16 @@ const userSchema = new Schema<IUser>({
   isActive: {
     type: Boolean,
     default: true
+  },
+  emailVerified: {
+    type: Boolean
+  },
+  emailVerifiedAt: {
+    type: Date
+  },
+  tokenVersion: {
+    type: Number,
+    default: 0
   }
 }, {
   timestamps: true
@@ -65,6 +80,7 @@ userSchema.methods.comparePassword = async function(candidatePassword: string):
 userSchema.methods.toJSON = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.tokenVersion;
   return userObject;
 };
 
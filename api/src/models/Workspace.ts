@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface IWorkspaceMember {
+  userId: mongoose.Types.ObjectId;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+// Tasks, tests, test cases, test sessions and documents belong to a workspace. Every user
+// has a personal workspace, which holds their records from before workspaces existed and
+// cannot be shared.
+export interface IWorkspace extends Document {
+  name: string;
+  personal: boolean;
+  ownerId: mongoose.Types.ObjectId;
+  members: IWorkspaceMember[];
+  // When the owner's records from before workspaces existed were moved in (personal workspaces only)
+  migratedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const workspaceMemberSchema = new Schema<IWorkspaceMember>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  role: {
+    type: String,
+    enum: ['owner', 'editor', 'viewer'],
+    required: [true, 'Role is required']
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const workspaceSchema = new Schema<IWorkspace>({
+  name: {
+    type: String,
+    required: [true, 'Workspace name is required'],
+    trim: true,
+    maxlength: [100, 'Workspace name cannot exceed 100 characters']
+  },
+  personal: {
+    type: Boolean,
+    default: false,
+    immutable: true
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Owner ID is required'],
+    immutable: true
+  },
+  members: {
+    type: [workspaceMemberSchema],
+    default: []
+  },
+  migratedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+workspaceSchema.index({ 'members.userId': 1 });
+// One personal workspace per user
+workspaceSchema.index({ ownerId: 1 }, { unique: true, partialFilterExpression: { personal: true } });
+
+export default mongoose.model<IWorkspace>('Workspace', workspaceSchema);
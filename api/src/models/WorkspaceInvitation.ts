@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type InvitationRole = 'editor' | 'viewer';
+
+// An invitation to join a workspace, addressed to an email rather than an account so
+// people can be invited before they sign up. It is accepted by the user with that email.
+export interface IWorkspaceInvitation extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  email: string;
+  role: InvitationRole;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const workspaceInvitationSchema = new Schema<IWorkspaceInvitation>({
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: [true, 'Workspace ID is required']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ['editor', 'viewer'],
+    required: [true, 'Role is required']
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Inviting user is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  }
+}, {
+  timestamps: true
+});
+
+// Index for better query performance
+workspaceInvitationSchema.index({ workspaceId: 1, email: 1 }, { unique: true });
+workspaceInvitationSchema.index({ email: 1 });
+// Expired invitations are removed by MongoDB
+workspaceInvitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IWorkspaceInvitation>('WorkspaceInvitation', workspaceInvitationSchema);
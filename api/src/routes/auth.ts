@@ -1,10 +1,54 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import User from '../models/User';
-import { generateToken, authenticate, AuthRequest } from '../middleware/auth';
+import User, { IUser } from '../models/User';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { createSession, endAllSessions, endSession, InvalidRefreshTokenError, refreshSession } from '../services/sessionService';
+import {
+  consumeAccountToken,
+  issueAccountToken,
+  RESET_PASSWORD_TOKEN_MINUTES,
+  VERIFY_EMAIL_TOKEN_HOURS
+} from '../services/accountTokenService';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../services/emailService';
 
 const router = express.Router();
 
+const clientInfo = (req: express.Request) => ({
+  userAgent: req.get('user-agent'),
+  ip: req.ip
+});
+
+const emailValidator = body('email')
+  .isEmail()
+  .normalizeEmail()
+  .withMessage('Please enter a valid email');
+
+const accountTokenValidator = body('token')
+  .isString()
+  .trim()
+  .notEmpty()
+  .withMessage('Token is required');
+
+// Failures are only logged: the user can ask for the email again
+const sendVerification = async (user: IUser) => {
+  try {
+    const token = await issueAccountToken((user as any)._id, 'verify-email');
+    await sendVerificationEmail(user.email, user.name, token, VERIFY_EMAIL_TOKEN_HOURS);
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+  }
+};
+
+// Same answer whether or not the address has an account, so it cannot be used to look accounts up
+const EMAIL_SENT_MESSAGE = 'If an account exists for this email, we have sent it a code.';
+
+const refreshTokenValidators = [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required')
+];
+
 /**
  * @swagger
  * components:
@@ -33,6 +77,10 @@ const router = express.Router();
  *           type: boolean
  *         token:
  *           type: string
+ *           description: Short-lived access token (JWT_EXPIRES_IN, default 15 minutes)
+ *         refreshToken:
+ *           type: string
+ *           description: Exchange at /api/auth/refresh for a new token pair. Single use.
  *         user:
  *           $ref: '#/components/schemas/User'
  *     LoginRequest:
@@ -62,6 +110,24 @@ const router = express.Router();
  *         password:
  *           type: string
  *           minLength: 6
+ *     RegisterResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *         message:
+ *           type: string
+ *         verificationRequired:
+ *           type: boolean
+ *         user:
+ *           $ref: '#/components/schemas/User'
+ *     RefreshRequest:
+ *       type: object
+ *       required:
+ *         - refreshToken
+ *       properties:
+ *         refreshToken:
+ *           type: string
  */
 
 /**
@@ -69,6 +135,7 @@ const router = express.Router();
  * /api/auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: Emails a verification code. The account can sign in once the code is confirmed at /api/auth/verify-email.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -78,11 +145,11 @@ const router = express.Router();
  *             $ref: '#/components/schemas/RegisterRequest'
  *     responses:
  *       201:
- *         description: User registered successfully
+ *         description: User registered, verification email sent
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthResponse'
+ *               $ref: '#/components/schemas/RegisterResponse'
  *       400:
  *         description: Validation error or user already exists
  *       500:
@@ -93,10 +160,7 @@ router.post('/register', [
     .trim()
     .isLength({ min: 2, max: 50 })
     .withMessage('Name must be between 2 and 50 characters'),
-  body('email')
-    .isEmail()
-    .normalizeEmail()
-    .withMessage('Please enter a valid email'),
+  emailValidator,
   body('password')
     .isLength({ min: 6 })
     .withMessage('Password must be at least 6 characters')
@@ -124,15 +188,15 @@ router.post('/register', [
     }
 
     // Create new user
-    const user = new User({ name, email, password });
+    const user = new User({ name, email, password, emailVerified: false });
     await user.save();
 
-    // Generate token
-    const token = generateToken((user as any)._id.toString());
+    await sendVerification(user);
 
     res.status(201).json({
       success: true,
-      token,
+      message: 'Account created. Enter the verification code we emailed you to sign in.',
+      verificationRequired: true,
       user
     });
 
@@ -167,14 +231,13 @@ router.post('/register', [
  *         description: Validation error
  *       401:
  *         description: Invalid credentials
+ *       403:
+ *         description: Email address not verified yet (code EMAIL_NOT_VERIFIED)
  *       500:
  *         description: Server error
  */
 router.post('/login', [
-  body('email')
-    .isEmail()
-    .normalizeEmail()
-    .withMessage('Please enter a valid email'),
+  emailValidator,
   body('password')
     .exists()
     .withMessage('Password is required')
@@ -210,12 +273,21 @@ router.post('/login', [
       });
     }
 
-    // Generate token
-    const token = generateToken((user as any)._id.toString());
+    if (user.emailVerified === false) {
+      return res.status(403).json({
+        success: false,
+        error: 'Please verify your email address before signing in',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    // Start a session
+    const { token, refreshToken } = await createSession(user, clientInfo(req));
 
     res.json({
       success: true,
       token,
+      refreshToken,
       user
     });
 
@@ -227,6 +299,277 @@ router.post('/login', [
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Confirm an email address with the code sent at registration
+ *     description: Signs the user in, so the response carries a new token pair.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error, or the code is invalid, expired or already used
+ *       500:
+ *         description: Server error
+ */
+router.post('/verify-email', [accountTokenValidator], async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = await consumeAccountToken(req.body.token, 'verify-email');
+    const user = userId ? await User.findById(userId) : null;
+    if (!user || !user.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Verification code is invalid or has expired',
+        code: 'INVALID_TOKEN'
+      });
+    }
+
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+
+    const { token, refreshToken } = await createSession(user, clientInfo(req));
+
+    res.json({
+      success: true,
+      token,
+      refreshToken,
+      user
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while verifying email'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification code
+ *     description: Earlier codes stop working. The response is the same whether or not the email has an unverified account.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *       400:
+ *         description: Validation error
+ *       500:
+ *         description: Server error
+ */
+router.post('/resend-verification', [emailValidator], async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const user = await User.findOne({ email: req.body.email });
+    if (user && user.isActive && user.emailVerified === false) {
+      await sendVerification(user);
+    }
+
+    res.json({
+      success: true,
+      message: EMAIL_SENT_MESSAGE
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while sending verification email'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Email a password reset code
+ *     description: The response is the same whether or not the email has an account.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *       400:
+ *         description: Validation error
+ *       500:
+ *         description: Server error
+ */
+router.post('/forgot-password', [emailValidator], async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const user = await User.findOne({ email: req.body.email });
+    if (user && user.isActive) {
+      try {
+        const token = await issueAccountToken((user as any)._id, 'reset-password');
+        await sendPasswordResetEmail(user.email, user.name, token, RESET_PASSWORD_TOKEN_MINUTES);
+      } catch (error) {
+        console.error('Error sending password reset email:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: EMAIL_SENT_MESSAGE
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while requesting password reset'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset code
+ *     description: Signs the user out on all devices. Also confirms the email address, since the code was delivered to it.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Validation error, or the code is invalid, expired or already used
+ *       500:
+ *         description: Server error
+ */
+router.post('/reset-password', [
+  accountTokenValidator,
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters')
+], async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = await consumeAccountToken(req.body.token, 'reset-password');
+    const user = userId ? await User.findById(userId) : null;
+    if (!user || !user.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Reset code is invalid or has expired',
+        code: 'INVALID_TOKEN'
+      });
+    }
+
+    user.password = req.body.password;
+    if (user.emailVerified === false) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    await endAllSessions((user as any)._id);
+
+    res.json({
+      success: true,
+      message: 'Your password has been reset. Please sign in with your new password.'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while resetting password'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/auth/me:
@@ -266,4 +609,160 @@ router.get('/me', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access token and refresh token
+ *     description: The refresh token is single use. Reusing a token that was already exchanged ends the session.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshRequest'
+ *     responses:
+ *       200:
+ *         description: New token pair issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Refresh token is invalid, expired or revoked
+ *       500:
+ *         description: Server error
+ */
+router.post('/refresh', refreshTokenValidators, async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { token, refreshToken, user } = await refreshSession(req.body.refreshToken, clientInfo(req));
+
+    res.json({
+      success: true,
+      token,
+      refreshToken,
+      user
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidRefreshTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message,
+        code: 'INVALID_REFRESH_TOKEN'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Server error while refreshing session'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out by revoking the session's refresh token
+ *     description: Works without a valid access token, so an expired session can still be ended.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshRequest'
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       400:
+ *         description: Validation error
+ *       500:
+ *         description: Server error
+ */
+router.post('/logout', refreshTokenValidators, async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    await endSession(req.body.refreshToken);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error during logout'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Sign out of all devices
+ *     description: Revokes every refresh token of the user and invalidates all access tokens issued so far, including the one used for this request.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 revokedSessions:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post('/logout-all', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const revokedSessions = await endAllSessions(req.user!._id as any);
+
+    res.json({
+      success: true,
+      message: 'Signed out of all devices',
+      revokedSessions
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while signing out of all devices'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
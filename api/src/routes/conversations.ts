@@ -0,0 +1,705 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Conversation from '../models/Conversation';
+import ConversationMessage from '../models/ConversationMessage';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { findOrCreateProject, projectIdQueryValidator } from '../services/projectService';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+// Largest batch the extension may sync at once
+const MAX_SYNC_MESSAGES = 200;
+
+// Compares a synced message with the stored one
+const contentKey = (message: {
+  text?: string;
+  attachments?: { url: string }[];
+  fileEdits?: { path: string; action: string }[];
+  actions?: string[];
+}): string =>
+  JSON.stringify([
+    message.text || '',
+    (message.attachments || []).map(({ url }) => url),
+    (message.fileEdits || []).map(({ path, action }) => `${action} ${path}`),
+    message.actions || []
+  ]);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Conversation:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         lovableProjectId:
+ *           type: string
+ *         projectId:
+ *           type: string
+ *         title:
+ *           type: string
+ *         url:
+ *           type: string
+ *         messageCount:
+ *           type: integer
+ *         lastMessageAt:
+ *           type: string
+ *           format: date-time
+ *         userId:
+ *           type: string
+ *           description: User who first synced the conversation
+ *         workspaceId:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     MessageAttachment:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [image, file]
+ *         url:
+ *           type: string
+ *         name:
+ *           type: string
+ *     FileEdit:
+ *       type: object
+ *       properties:
+ *         path:
+ *           type: string
+ *         action:
+ *           type: string
+ *           enum: [created, edited, deleted, renamed]
+ *     ConversationMessage:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         conversationId:
+ *           type: string
+ *         messageId:
+ *           type: string
+ *           description: The message's data-message-id in the Lovable editor (umsg_... or aimsg_...)
+ *         sender:
+ *           type: string
+ *           enum: [user, ai]
+ *         text:
+ *           type: string
+ *         attachments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/MessageAttachment'
+ *         fileEdits:
+ *           type: array
+ *           description: Files the response changed
+ *           items:
+ *             $ref: '#/components/schemas/FileEdit'
+ *         actions:
+ *           type: array
+ *           description: Other steps the response took, e.g. "Installed @dnd-kit/core"
+ *           items:
+ *             type: string
+ *         sequence:
+ *           type: integer
+ *           description: Order in which the messages were first synced
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *         capturedBy:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   get:
+ *     summary: Get the synced Lovable conversations of the workspace
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Filter by project
+ *       - in: query
+ *         name: lovableProjectId
+ *         schema:
+ *           type: string
+ *         description: Filter by Lovable project ID
+ *     responses:
+ *       200:
+ *         description: Conversations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Conversation'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authorize('viewer'), [
+  projectIdQueryValidator(),
+  query('lovableProjectId').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Invalid Lovable project ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const filter: any = { workspaceId: req.workspace!._id };
+    if (req.query.projectId) filter.projectId = req.query.projectId;
+    if (req.query.lovableProjectId) filter.lovableProjectId = req.query.lovableProjectId;
+
+    const conversations = await Conversation.find(filter)
+      .select('-nextSequence')
+      .sort({ lastMessageAt: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: conversations
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching conversations'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/conversations/sync:
+ *   post:
+ *     summary: Add newly scraped messages to a Lovable project's conversation
+ *     description: |
+ *       Messages are identified by their message ID, so the same messages can be synced repeatedly.
+ *       New messages are appended in the order given; messages whose content changed
+ *       since the last sync (e.g. a response that was still streaming) are updated. The project and
+ *       conversation are created on the first sync.
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lovableProjectId
+ *               - messages
+ *             properties:
+ *               lovableProjectId:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               projectName:
+ *                 type: string
+ *                 description: Name for the project if it is created
+ *               messages:
+ *                 type: array
+ *                 maxItems: 200
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - messageId
+ *                     - sender
+ *                   properties:
+ *                     messageId:
+ *                       type: string
+ *                     sender:
+ *                       type: string
+ *                       enum: [user, ai]
+ *                     text:
+ *                       type: string
+ *                       maxLength: 20000
+ *                       description: Required unless the message has attachments
+ *                     attachments:
+ *                       type: array
+ *                       maxItems: 20
+ *                       items:
+ *                         $ref: '#/components/schemas/MessageAttachment'
+ *                     fileEdits:
+ *                       type: array
+ *                       maxItems: 200
+ *                       items:
+ *                         $ref: '#/components/schemas/FileEdit'
+ *                     actions:
+ *                       type: array
+ *                       maxItems: 50
+ *                       items:
+ *                         type: string
+ *                     timestamp:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       200:
+ *         description: Messages synced successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     conversationId:
+ *                       type: string
+ *                     projectId:
+ *                       type: string
+ *                     added:
+ *                       type: integer
+ *                     updated:
+ *                       type: integer
+ *                     messageCount:
+ *                       type: integer
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/sync', authorize('editor'), [
+  body('lovableProjectId')
+    .trim()
+    .matches(/^[\w-]{1,100}$/)
+    .withMessage('Lovable project ID is required and may only contain letters, numbers, dashes and underscores'),
+  body('url')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('URL must be a valid URL'),
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Title cannot exceed 500 characters'),
+  body('projectName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Project name must be between 1 and 200 characters'),
+  body('messages')
+    .isArray({ min: 1, max: MAX_SYNC_MESSAGES })
+    .withMessage(`Messages must be an array of 1 to ${MAX_SYNC_MESSAGES} messages`),
+  body('messages.*.messageId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Message ID must be between 1 and 100 characters'),
+  body('messages.*.sender')
+    .isIn(['user', 'ai'])
+    .withMessage('Sender must be user or ai'),
+  body('messages.*')
+    .custom((message) => (typeof message?.text === 'string' && message.text.trim() !== '')
+      || (Array.isArray(message?.attachments) && message.attachments.length > 0))
+    .withMessage('Message text or an attachment is required'),
+  body('messages.*.text')
+    .optional()
+    .isString()
+    .withMessage('Message text must be a string')
+    .isLength({ max: 20000 })
+    .withMessage('Message text cannot exceed 20000 characters'),
+  body('messages.*.attachments')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Attachments must be an array of at most 20 attachments'),
+  body('messages.*.attachments.*.type')
+    .isIn(['image', 'file'])
+    .withMessage('Attachment type must be image or file'),
+  body('messages.*.attachments.*.url')
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .isLength({ max: 2000 })
+    .withMessage('Attachment URL must be a valid http(s) URL'),
+  body('messages.*.attachments.*.name')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Attachment name cannot exceed 500 characters'),
+  body('messages.*.fileEdits')
+    .optional()
+    .isArray({ max: 200 })
+    .withMessage('File edits must be an array of at most 200 file edits'),
+  body('messages.*.fileEdits.*.path')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('File edit path must be between 1 and 500 characters'),
+  body('messages.*.fileEdits.*.action')
+    .isIn(['created', 'edited', 'deleted', 'renamed'])
+    .withMessage('File edit action must be created, edited, deleted or renamed'),
+  body('messages.*.actions')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Actions must be an array of at most 50 actions'),
+  body('messages.*.actions.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Each action must be between 1 and 200 characters'),
+  body('messages.*.timestamp')
+    .optional()
+    .isISO8601()
+    .withMessage('Timestamp must be a valid date')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { lovableProjectId, url, title, projectName } = req.body;
+    const workspaceId = req.workspace!._id as any;
+
+    const { project } = await findOrCreateProject(workspaceId, req.user!._id as any, {
+      lovableProjectId,
+      name: projectName,
+      url
+    });
+
+    const conversation = await Conversation.findOneAndUpdate(
+      { workspaceId, lovableProjectId },
+      {
+        $set: Object.fromEntries(Object.entries({ projectId: project._id, url, title })
+          .filter(([, value]) => value !== undefined)),
+        $setOnInsert: { userId: req.user!._id }
+      },
+      {
+        new: true,
+        upsert: true,
+        runValidators: true,
+        setDefaultsOnInsert: true
+      }
+    );
+
+    // A message scraped twice in one batch keeps its latest content
+    const messages = new Map<string, any>();
+    for (const message of req.body.messages) {
+      messages.set(message.messageId, {
+        ...message,
+        text: message.text || '',
+        attachments: (message.attachments || []).map(({ type, url, name }: any) => ({ type, url, name })),
+        fileEdits: (message.fileEdits || []).map(({ path, action }: any) => ({ path, action })),
+        actions: message.actions || []
+      });
+    }
+
+    const existing = await ConversationMessage.find({
+      conversationId: conversation._id,
+      messageId: { $in: [...messages.keys()] }
+    }).select('messageId text attachments fileEdits actions').lean();
+    const existingContent = new Map(existing.map((message) => [message.messageId, contentKey(message)]));
+
+    const added = [...messages.values()].filter((message) => !existingContent.has(message.messageId));
+    const changed = [...messages.values()].filter((message) =>
+      existingContent.has(message.messageId) && existingContent.get(message.messageId) !== contentKey(message)
+    );
+
+    let firstSequence = 0;
+    if (added.length > 0) {
+      const reserved = await Conversation.findByIdAndUpdate(
+        conversation._id,
+        { $inc: { nextSequence: added.length } },
+        { new: true }
+      );
+      firstSequence = reserved!.nextSequence - added.length;
+    }
+
+    let addedCount = 0;
+    let updatedCount = 0;
+    if (added.length > 0 || changed.length > 0) {
+      // Upserts keep a message synced concurrently from another tab from being stored twice
+      const result = await ConversationMessage.bulkWrite([
+        ...added.map((message, index) => ({
+          updateOne: {
+            filter: { conversationId: conversation._id, messageId: message.messageId },
+            update: {
+              $setOnInsert: {
+                sender: message.sender,
+                text: message.text,
+                attachments: message.attachments,
+                fileEdits: message.fileEdits,
+                actions: message.actions,
+                sequence: firstSequence + index,
+                timestamp: message.timestamp,
+                capturedBy: req.user!._id,
+                workspaceId
+              }
+            },
+            upsert: true
+          }
+        })),
+        ...changed.map((message) => ({
+          updateOne: {
+            filter: { conversationId: conversation._id, messageId: message.messageId },
+            update: {
+              $set: {
+                text: message.text,
+                attachments: message.attachments,
+                fileEdits: message.fileEdits,
+                actions: message.actions
+              }
+            }
+          }
+        }))
+      ], { ordered: false });
+
+      addedCount = result.upsertedCount;
+      updatedCount = result.modifiedCount;
+    }
+
+    const updatedConversation = addedCount > 0 || updatedCount > 0
+      ? await Conversation.findByIdAndUpdate(
+        conversation._id,
+        { $inc: { messageCount: addedCount }, $set: { lastMessageAt: new Date() } },
+        { new: true }
+      )
+      : conversation;
+
+    res.json({
+      success: true,
+      data: {
+        conversationId: conversation._id,
+        projectId: project._id,
+        added: addedCount,
+        updated: updatedCount,
+        messageCount: updatedConversation!.messageCount
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while syncing conversation'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   get:
+ *     summary: Get a conversation with its messages in order
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Conversation ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *         description: Number of messages per page
+ *     responses:
+ *       200:
+ *         description: Conversation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Conversation'
+ *                     - type: object
+ *                       properties:
+ *                         messages:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ConversationMessage'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     pages:
+ *                       type: integer
+ *       404:
+ *         description: Conversation not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid conversation ID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('Limit must be between 1 and 500')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const conversation = await Conversation.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).select('-nextSequence').lean();
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const skip = (page - 1) * limit;
+
+    const filter = { conversationId: conversation._id };
+    const [messages, total] = await Promise.all([
+      ConversationMessage.find(filter)
+        .select('-workspaceId')
+        .sort({ sequence: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      ConversationMessage.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...conversation,
+        messages
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching conversation'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   delete:
+ *     summary: Delete a conversation and its messages
+ *     description: Messages still shown in the Lovable editor are synced again the next time it is open with the extension.
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Conversation ID
+ *     responses:
+ *       200:
+ *         description: Conversation deleted successfully
+ *       404:
+ *         description: Conversation not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/:id', authorize('editor'), [
+  param('id').isMongoId().withMessage('Invalid conversation ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const conversation = await Conversation.findOneAndDelete({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found'
+      });
+    }
+
+    await ConversationMessage.deleteMany({ conversationId: conversation._id });
+
+    res.json({
+      success: true,
+      message: 'Conversation deleted successfully'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while deleting conversation'
+    });
+  }
+});
+
+export default router;
@@ -1,15 +1,190 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import AIService from '../services/aiService';
-import Document from '../models/Document';
-import { Document as DocxDocument, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import AIService, { AIConfigurationError, AIOutputValidationError, ConversationData, createAIService } from '../services/aiService';
+import Document, { IDocument } from '../models/Document';
+import DocumentVersion, { DocumentVersionSource } from '../models/DocumentVersion';
+import { diffLines } from '../services/textDiff';
+import { Packer } from 'docx';
+import { markdownToDocx } from '../services/docxConverter';
+import { attachmentDisposition, exportDocument, ExportFormat } from '../services/documentExport';
+import { projectIdBodyValidator, projectIdQueryValidator } from '../services/projectService';
+import { siteMapBodyValidators } from '../services/siteMap';
+import { MAX_HTML_CONTENT_LENGTH } from '../services/htmlCondenser';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+const generateDocumentValidators = [
+  body('htmlContent')
+    .trim()
+    .isLength({ min: 10, max: MAX_HTML_CONTENT_LENGTH })
+    .withMessage(`HTML content is required and must be between 10 and ${MAX_HTML_CONTENT_LENGTH} characters`),
+  body('conversationData')
+    .optional()
+    .isObject()
+    .withMessage('Conversation data must be an object'),
+  body('documentType')
+    .isIn(['requirements', 'specs', 'guides', 'api', 'faq'])
+    .withMessage('Document type is required and must be valid'),
+  body('customPrompt')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Custom prompt cannot exceed 2000 characters'),
+  body('projectContext')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Project context cannot exceed 2000 characters'),
+  body('url')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('URL must be a valid URL'),
+  body('provider')
+    .optional()
+    .isIn(['gemini', 'openai', 'mock'])
+    .withMessage('Provider must be gemini, openai or mock'),
+  body('model')
+    .optional()
+    .trim()
+    .matches(/^[\w.:\/-]{1,100}$/)
+    .withMessage('Model must be a valid model name'),
+  ...siteMapBodyValidators(),
+  projectIdBodyValidator()
+];
+
+// Generation types map onto the coarser set of types stored on Document
+const toStoredDocumentType = (documentType: string) =>
+  documentType === 'requirements' ? 'requirement' :
+  documentType === 'specs' ? 'specification' :
+  documentType === 'guides' ? 'documentation' :
+  documentType === 'api' ? 'documentation' : 'other';
+
+// Records a freshly generated document as version 1
+const saveInitialVersion = async (document: IDocument) => {
+  await DocumentVersion.create({
+    documentId: document._id,
+    version: 1,
+    title: document.title,
+    content: document.content,
+    customPrompt: document.customPrompt,
+    source: 'generated',
+    userId: document.userId
+  });
+};
+
+/**
+ * Applies changes to a document and records the result as a new version by
+ * `authorId`. The version number is taken with an atomic $inc, so concurrent
+ * edits never share one. Documents from before versioning first get their
+ * current text saved as version 1, so their history starts from what was
+ * originally generated.
+ */
+const saveDocumentVersion = async (
+  document: IDocument,
+  changes: Partial<Pick<IDocument, 'title' | 'content' | 'customPrompt' | 'documentType' | 'generationType'>>,
+  source: DocumentVersionSource,
+  authorId: unknown
+): Promise<IDocument | null> => {
+  if (!document.currentVersion) {
+    try {
+      await saveInitialVersion(document);
+    } catch (error: any) {
+      // Another request recorded the baseline first
+      if (error?.code !== 11000) throw error;
+    }
+    await Document.updateOne({ _id: document._id, currentVersion: { $exists: false } }, { $set: { currentVersion: 1 } });
+  }
+
+  const updated = await Document.findOneAndUpdate(
+    { _id: document._id, workspaceId: document.workspaceId },
+    { $set: changes, $inc: { currentVersion: 1 } },
+    { new: true, runValidators: true }
+  );
+
+  if (!updated) {
+    return null;
+  }
+
+  await DocumentVersion.create({
+    documentId: updated._id,
+    version: updated.currentVersion,
+    title: updated.title,
+    content: updated.content,
+    customPrompt: updated.customPrompt,
+    source,
+    userId: authorId
+  });
+
+  return updated;
+};
+
+// Looks up one version of a workspace's document; documents from before versioning only have version 1, their current text
+const findDocumentVersion = async (documentId: string, workspaceId: unknown, version: number) => {
+  const document = await Document.findOne({ _id: documentId, workspaceId })
+    .select('title content customPrompt userId currentVersion createdAt')
+    .lean();
+  if (!document) {
+    return null;
+  }
+
+  const stored = await DocumentVersion.findOne({ documentId, version }).lean();
+  if (stored) {
+    return stored;
+  }
+
+  if (version !== 1 || document.currentVersion) {
+    return null;
+  }
+
+  return {
+    documentId: document._id,
+    version: 1,
+    title: document.title,
+    content: document.content,
+    customPrompt: document.customPrompt,
+    source: 'generated' as const,
+    userId: document.userId,
+    createdAt: document.createdAt
+  };
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SiteMapPage:
+ *       type: object
+ *       required:
+ *         - route
+ *         - depth
+ *         - links
+ *         - structure
+ *       properties:
+ *         route:
+ *           type: string
+ *           description: Path, query and hash of the page, e.g. /settings?tab=billing
+ *         title:
+ *           type: string
+ *         depth:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 10
+ *           description: Links followed from the page the crawl started on
+ *         links:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Routes of the app this page links to
+ *         structure:
+ *           type: string
+ *           description: Headings, forms, buttons and other UI on the page, as text
+ */
+
 /**
  * @swagger
  * /api/documents/generate-ai:
@@ -27,10 +202,11 @@ router.use(authenticate);
  *             properties:
  *               htmlContent:
  *                 type: string
- *                 description: HTML content of the page
+ *                 maxLength: 2000000
+ *                 description: HTML content of the page; condensed into an outline sized for the model before it is sent
  *               conversationData:
  *                 type: object
- *                 description: Conversation data with user and AI messages
+ *                 description: Conversation data with user and AI messages. AI messages may list the fileEdits and actions they made, which the generated document cites by prompt number
  *               documentType:
  *                 type: string
  *                 enum: [requirements, specs, guides, api, faq]
@@ -41,6 +217,21 @@ router.use(authenticate);
  *               projectContext:
  *                 type: string
  *                 description: Additional project context
+ *               siteMap:
+ *                 type: array
+ *                 description: Other pages of the app, crawled by the extension; htmlContent is then the page the crawl started on. Stored with the document and used again when regenerating
+ *                 items:
+ *                   $ref: '#/components/schemas/SiteMapPage'
+ *               projectId:
+ *                 type: string
+ *                 description: Project the generated document belongs to
+ *               provider:
+ *                 type: string
+ *                 enum: [gemini, openai, mock]
+ *                 description: AI provider to use instead of the server default (must be configured on the server)
+ *               model:
+ *                 type: string
+ *                 description: Model to try first; the provider's fallback models are used if it fails
  *             required:
  *               - htmlContent
  *               - documentType
@@ -69,35 +260,10 @@ router.use(authenticate);
  *         description: Unauthorized
  *       500:
  *         description: Server error
+ *       502:
+ *         description: The AI kept returning output that does not match the document schema (code AI_INVALID_OUTPUT, details lists the problems); nothing is saved
  */
-router.post('/generate-ai', [
-  body('htmlContent')
-    .trim()
-    .isLength({ min: 10 })
-    .withMessage('HTML content is required and must be at least 10 characters'),
-  body('conversationData')
-    .optional()
-    .isObject()
-    .withMessage('Conversation data must be an object'),
-  body('documentType')
-    .isIn(['requirements', 'specs', 'guides', 'api', 'faq'])
-    .withMessage('Document type is required and must be valid'),
-  body('customPrompt')
-    .optional()
-    .trim()
-    .isLength({ max: 2000 })
-    .withMessage('Custom prompt cannot exceed 2000 characters'),
-  body('projectContext')
-    .optional()
-    .trim()
-    .isLength({ max: 2000 })
-    .withMessage('Project context cannot exceed 2000 characters'),
-  body('url')
-    .optional()
-    .trim()
-    .isURL()
-    .withMessage('URL must be a valid URL')
-], async (req: AuthRequest, res) => {
+router.post('/generate-ai', authorize('editor'), generateDocumentValidators, async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -108,41 +274,50 @@ router.post('/generate-ai', [
       });
     }
 
-    const { htmlContent, conversationData, documentType, customPrompt, projectContext } = req.body;
-    const geminiKey = process.env.GEMINI_KEY;
+    const { htmlContent, conversationData, documentType, customPrompt, projectContext, siteMap, provider, model } = req.body;
 
-    if (!geminiKey) {
-      return res.status(500).json({
-        success: false,
-        error: 'AI service not configured properly'
-      });
+    let aiService: AIService;
+    try {
+      aiService = createAIService({ provider, model });
+    } catch (error) {
+      if (error instanceof AIConfigurationError) {
+        // Asking for a provider this server does not offer is a client error
+        return res.status(provider ? 400 : 500).json({
+          success: false,
+          error: provider ? error.message : 'AI service not configured properly'
+        });
+      }
+      throw error;
     }
-
-    const aiService = new AIService('gemini', geminiKey);
     const generatedDocument = await aiService.generateDocument(
       htmlContent,
       conversationData,
       documentType,
       customPrompt,
-      projectContext
+      projectContext,
+      siteMap
     );
 
     // Save document to database
     const document = new Document({
       title: generatedDocument.title,
       content: generatedDocument.content,
-      documentType: documentType === 'requirements' ? 'requirement' : 
-                   documentType === 'specs' ? 'specification' : 
-                   documentType === 'guides' ? 'documentation' :
-                   documentType === 'api' ? 'documentation' : 'other',
+      documentType: toStoredDocumentType(documentType),
+      generationType: documentType,
       customPrompt,
+      projectContext,
       url: req.body.url,
       htmlContent,
       conversationData,
-      userId: req.user!._id
+      siteMap,
+      currentVersion: 1,
+      userId: req.user!._id,
+      workspaceId: req.workspace!._id,
+      projectId: req.body.projectId
     });
 
     const savedDocument = await document.save();
+    await saveInitialVersion(savedDocument);
 
     res.json({
       success: true,
@@ -156,6 +331,16 @@ router.post('/generate-ai', [
 
   } catch (error) {
     console.error('Error generating AI document:', error);
+
+    if (error instanceof AIOutputValidationError) {
+      return res.status(502).json({
+        success: false,
+        error: 'AI returned an invalid response. Please try again.',
+        code: 'AI_INVALID_OUTPUT',
+        details: error.issues
+      });
+    }
+
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Server error while generating document'
@@ -163,46 +348,176 @@ router.post('/generate-ai', [
   }
 });
 
-// Helper function to convert markdown to DOCX paragraphs
-const convertMarkdownToDocxParagraphs = (markdownContent: string): any[] => {
-  return markdownContent.split('\n').map(line => {
-    if (line.trim() === '') {
-      return new Paragraph({ text: '' });
-    }
-    
-    // Handle headings
-    if (line.startsWith('# ')) {
-      return new Paragraph({
-        text: line.substring(2),
-        heading: HeadingLevel.HEADING_1,
+/**
+ * @swagger
+ * /api/documents/generate-ai/stream:
+ *   post:
+ *     summary: Generate a document with AI and stream it as it is written
+ *     description: |
+ *       Takes the same body as /api/documents/generate-ai and responds with server-sent events.
+ *       `token` events carry `{ text }` markdown chunks in order. The stream ends with a `done` event carrying the
+ *       saved document (the same data as /api/documents/generate-ai), or an `error` event with `{ error, code?, details? }`.
+ *       Closing the connection cancels generation, and nothing is saved.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - htmlContent
+ *               - documentType
+ *     responses:
+ *       200:
+ *         description: Event stream of token, done and error events
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post('/generate-ai/stream', authorize('editor'), generateDocumentValidators, async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
       });
-    } else if (line.startsWith('## ')) {
-      return new Paragraph({
-        text: line.substring(3),
-        heading: HeadingLevel.HEADING_2,
+    }
+
+    const { htmlContent, conversationData, documentType, customPrompt, projectContext, siteMap, provider, model } = req.body;
+
+    let aiService: AIService;
+    try {
+      aiService = createAIService({ provider, model });
+    } catch (error) {
+      if (error instanceof AIConfigurationError) {
+        return res.status(provider ? 400 : 500).json({
+          success: false,
+          error: provider ? error.message : 'AI service not configured properly'
+        });
+      }
+      throw error;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const sendEvent = (event: 'token' | 'done' | 'error', data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // The client closing the connection is how generation gets cancelled
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    try {
+      const generatedDocument = await aiService.streamDocument(
+        { onToken: (text) => sendEvent('token', { text }), signal: controller.signal },
+        htmlContent,
+        conversationData,
+        documentType,
+        customPrompt,
+        projectContext,
+        siteMap
+      );
+
+      const document = new Document({
+        title: generatedDocument.title,
+        content: generatedDocument.content,
+        documentType: toStoredDocumentType(documentType),
+        generationType: documentType,
+        customPrompt,
+        projectContext,
+        url: req.body.url,
+        htmlContent,
+        conversationData,
+        siteMap,
+        currentVersion: 1,
+        userId: req.user!._id,
+        workspaceId: req.workspace!._id,
+        projectId: req.body.projectId
       });
-    } else if (line.startsWith('### ')) {
-      return new Paragraph({
-        text: line.substring(4),
-        heading: HeadingLevel.HEADING_3,
+
+      const savedDocument = await document.save();
+      await saveInitialVersion(savedDocument);
+
+      sendEvent('done', {
+        ...generatedDocument,
+        documentId: savedDocument._id,
+        createdAt: savedDocument.createdAt
       });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('[AI] Document stream cancelled by client.');
+        return;
+      }
+
+      console.error('Error streaming AI document:', error);
+      if (error instanceof AIOutputValidationError) {
+        sendEvent('error', {
+          error: 'AI returned an invalid response. Please try again.',
+          code: 'AI_INVALID_OUTPUT',
+          details: error.issues
+        });
+      } else {
+        sendEvent('error', {
+          error: error instanceof Error ? error.message : 'Server error while generating document'
+        });
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    console.error('Error streaming AI document:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Server error while generating document'
+    });
+  }
+});
+
+// Document content plus a metadata section, as DOCX
+const buildDocx = (document: IDocument) => {
+  let markdownContent = document.content;
+  
+  // Add metadata section if available
+  if (document.conversationData || document.htmlContent || document.url) {
+    markdownContent += '\n\n---\n\n## Document Metadata\n\n';
+    
+    if (document.url) {
+      markdownContent += `**Source URL:** ${document.url}\n\n`;
     }
     
-    // Handle bold text **text**
-    if (line.includes('**')) {
-      const parts = line.split('**');
-      const runs = parts.map((part, index) => 
-        new TextRun({
-          text: part,
-          bold: index % 2 === 1
-        })
-      );
-      return new Paragraph({ children: runs });
+    if (document.conversationData && document.conversationData.mergedMessages && document.conversationData.mergedMessages.length > 0) {
+      markdownContent += `**Conversation Summary:** ${document.conversationData.mergedMessages.length} messages captured from conversation\n\n`;
     }
     
-    // Regular paragraph
-    return new Paragraph({ text: line });
-  });
+    markdownContent += `**Generated:** ${new Date(document.createdAt).toLocaleString()}\n\n`;
+  }
+
+  return markdownToDocx(markdownContent, { title: document.title });
 };
 
 /**
@@ -233,14 +548,14 @@ const convertMarkdownToDocxParagraphs = (markdownContent: string): any[] => {
  *       500:
  *         description: Server error
  */
-router.get('/:id/docx', async (req: AuthRequest, res) => {
+router.get('/:id/docx', authorize('viewer'), async (req: AuthRequest, res) => {
   try {
     const documentId = req.params.id;
     
     // Find document in database
     const document = await Document.findOne({
       _id: documentId,
-      userId: req.user!._id
+      workspaceId: req.workspace!._id
     });
 
     if (!document) {
@@ -250,40 +565,14 @@ router.get('/:id/docx', async (req: AuthRequest, res) => {
       });
     }
 
-    // Prepare markdown content with document metadata
-    let markdownContent = `# ${document.title}\n\n${document.content}`;
-    
-    // Add metadata section if available
-    if (document.conversationData || document.htmlContent || document.url) {
-      markdownContent += '\n\n---\n\n## Document Metadata\n\n';
-      
-      if (document.url) {
-        markdownContent += `**Source URL:** ${document.url}\n\n`;
-      }
-      
-      if (document.conversationData && document.conversationData.mergedMessages && document.conversationData.mergedMessages.length > 0) {
-        markdownContent += `**Conversation Summary:** ${document.conversationData.mergedMessages.length} messages captured from conversation\n\n`;
-      }
-      
-      markdownContent += `**Generated:** ${new Date(document.createdAt).toLocaleString()}\n\n`;
-    }
-
-    // Convert markdown to DOCX using docx library
-    const paragraphs = convertMarkdownToDocxParagraphs(markdownContent);
-
-    const docxDocument = new DocxDocument({
-      sections: [{
-        properties: {},
-        children: paragraphs,
-      }],
-    });
+    const docxDocument = buildDocx(document);
 
     // Generate buffer
     const buffer = await Packer.toBuffer(docxDocument);
     
     // Set headers for file download
     res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
-    res.setHeader('Content-Disposition', `attachment; filename="${document.title}.docx"`);
+    res.setHeader('Content-Disposition', attachmentDisposition(document.title, 'docx'));
     res.setHeader('Content-Length', buffer.length);
     
     // Send the buffer
@@ -298,6 +587,115 @@ router.get('/:id/docx', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/documents/{id}/export:
+ *   get:
+ *     summary: Download a document as PDF, HTML, Markdown, DOCX or a zip bundle
+ *     description: |
+ *       The zip bundle contains `document.md`, `conversation.md` (the captured conversation transcript, if any),
+ *       the captured page snapshot (`page-snapshot.html` or `page-snapshot.json`) and `metadata.json`.
+ *       PDF export needs `CHROMIUM_PATH` to be configured on the server.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pdf, html, md, zip, docx]
+ *         description: Export format
+ *     responses:
+ *       200:
+ *         description: Exported file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           text/markdown:
+ *             schema:
+ *               type: string
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ *       501:
+ *         description: PDF export is not configured on this server
+ */
+router.get('/:id/export', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid document ID'),
+  query('format').isIn(['pdf', 'html', 'md', 'zip', 'docx']).withMessage('Format must be pdf, html, md, zip or docx')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const format = req.query.format as ExportFormat | 'docx';
+
+    if (format === 'pdf' && !process.env.CHROMIUM_PATH) {
+      return res.status(501).json({
+        success: false,
+        error: 'PDF export is not available: CHROMIUM_PATH is not configured'
+      });
+    }
+
+    const document = await Document.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    const exported = format === 'docx'
+      ? {
+        body: await Packer.toBuffer(buildDocx(document)),
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        extension: 'docx'
+      }
+      : await exportDocument(document, format);
+
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader('Content-Disposition', attachmentDisposition(document.title, exported.extension));
+    res.send(exported.body);
+
+  } catch (error) {
+    console.error('Error exporting document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while exporting document'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/documents:
@@ -306,6 +704,12 @@ router.get('/:id/docx', async (req: AuthRequest, res) => {
  *     tags: [Documents]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Filter by project
  *     responses:
  *       200:
  *         description: Documents retrieved successfully
@@ -321,15 +725,29 @@ router.get('/:id/docx', async (req: AuthRequest, res) => {
  *                   items:
  *                     type: object
  */
-router.get('/', async (req: AuthRequest, res) => {
+router.get('/', authorize('viewer'), [
+  projectIdQueryValidator()
+], async (req: AuthRequest, res) => {
   try {
-    const documents = await Document.find({ userId: req.user!._id })
-      .sort({ createdAt: -1 })
-      .select('-htmlContent -conversationData'); // Exclude large fields for list view
-
-    res.json({
-      success: true,
-      data: documents
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const filter: any = { workspaceId: req.workspace!._id };
+    if (req.query.projectId) filter.projectId = req.query.projectId;
+
+    const documents = await Document.find(filter)
+      .sort({ createdAt: -1 })
+      .select('-htmlContent -conversationData'); // Exclude large fields for list view
+
+    res.json({
+      success: true,
+      data: documents
     });
 
   } catch (error) {
@@ -341,4 +759,709 @@ router.get('/', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/documents/{id}:
+ *   get:
+ *     summary: Get a document, including the page content and conversation it was generated from
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *     responses:
+ *       200:
+ *         description: Document retrieved successfully
+ *       400:
+ *         description: Invalid document ID
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid document ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const document = await Document.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: document
+    });
+
+  } catch (error) {
+    console.error('Error fetching document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching document'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}:
+ *   put:
+ *     summary: Edit a document's title or content
+ *     description: Every change is saved as a new version; unchanged values do not create one.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *                 description: Markdown content
+ *     responses:
+ *       200:
+ *         description: Document updated successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ */
+router.put('/:id', authorize('editor'), [
+  param('id').isMongoId().withMessage('Invalid document ID'),
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Title must be between 1 and 200 characters'),
+  body('content')
+    .optional()
+    .isString()
+    .custom((value: string) => value.trim().length > 0)
+    .withMessage('Content cannot be empty')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const document = await Document.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    const changes: { title?: string; content?: string } = {};
+    if (req.body.title !== undefined && req.body.title !== document.title) changes.title = req.body.title;
+    if (req.body.content !== undefined && req.body.content !== document.content) changes.content = req.body.content;
+
+    if (Object.keys(changes).length === 0) {
+      return res.json({
+        success: true,
+        data: document
+      });
+    }
+
+    const updated = await saveDocumentVersion(document, changes, 'edit', req.user!._id);
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: updated
+    });
+
+  } catch (error) {
+    console.error('Error updating document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while updating document'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}:
+ *   delete:
+ *     summary: Delete a document and its version history
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *     responses:
+ *       200:
+ *         description: Document deleted successfully
+ *       400:
+ *         description: Invalid document ID
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/:id', authorize('editor'), [
+  param('id').isMongoId().withMessage('Invalid document ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const document = await Document.findOneAndDelete({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    await DocumentVersion.deleteMany({ documentId: document._id });
+
+    res.json({
+      success: true,
+      message: 'Document deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while deleting document'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}/versions:
+ *   get:
+ *     summary: List the versions of a document, newest first (without content)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *     responses:
+ *       200:
+ *         description: Versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       version:
+ *                         type: integer
+ *                       title:
+ *                         type: string
+ *                       customPrompt:
+ *                         type: string
+ *                       source:
+ *                         type: string
+ *                         enum: [generated, edit, regenerate]
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/versions', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid document ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const document = await Document.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).select('title customPrompt currentVersion createdAt');
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    const versions = await DocumentVersion.find({ documentId: document._id })
+      .sort({ version: -1 })
+      .select('-content')
+      .lean();
+
+    // Documents from before versioning have one implicit version: their current text
+    const data = versions.length > 0 ? versions : [{
+      documentId: document._id,
+      version: 1,
+      title: document.title,
+      customPrompt: document.customPrompt,
+      source: 'generated',
+      createdAt: document.createdAt
+    }];
+
+    res.json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    console.error('Error fetching document versions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching document versions'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}/versions/{version}:
+ *   get:
+ *     summary: Get one version of a document, including its content
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version number
+ *     responses:
+ *       200:
+ *         description: Version retrieved successfully
+ *       404:
+ *         description: Document or version not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/versions/:version', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid document ID'),
+  param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const version = await findDocumentVersion(req.params.id, req.workspace!._id, parseInt(req.params.version));
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document version not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: version
+    });
+
+  } catch (error) {
+    console.error('Error fetching document version:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching document version'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}/diff:
+ *   get:
+ *     summary: Compare two versions of a document line by line
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Older version (defaults to the version before `to`)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Newer version (defaults to the current version)
+ *     responses:
+ *       200:
+ *         description: Diff computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     from:
+ *                       type: integer
+ *                     to:
+ *                       type: integer
+ *                     title:
+ *                       type: object
+ *                       properties:
+ *                         from:
+ *                           type: string
+ *                         to:
+ *                           type: string
+ *                     added:
+ *                       type: integer
+ *                       description: Number of added lines
+ *                     removed:
+ *                       type: integer
+ *                       description: Number of removed lines
+ *                     changes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           type:
+ *                             type: string
+ *                             enum: [added, removed, unchanged]
+ *                           lines:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Document or version not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/diff', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid document ID'),
+  query('from').optional().isInt({ min: 1 }).withMessage('From must be a positive integer'),
+  query('to').optional().isInt({ min: 1 }).withMessage('To must be a positive integer')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const document = await Document.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).select('currentVersion');
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    const to = parseInt(req.query.to as string) || document.currentVersion || 1;
+    const from = parseInt(req.query.from as string) || Math.max(to - 1, 1);
+
+    const [fromVersion, toVersion] = await Promise.all([
+      findDocumentVersion(req.params.id, req.workspace!._id, from),
+      findDocumentVersion(req.params.id, req.workspace!._id, to)
+    ]);
+
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document version not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        title: { from: fromVersion.title, to: toVersion.title },
+        ...diffLines(fromVersion.content, toVersion.content)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error comparing document versions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error while comparing document versions'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}/regenerate:
+ *   post:
+ *     summary: Regenerate a document from its stored page content, project context, site map and conversation
+ *     description: The result replaces the document's title and content and is saved as a new version.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Document ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               customPrompt:
+ *                 type: string
+ *                 description: New prompt; the document's previous prompt is reused if omitted
+ *               documentType:
+ *                 type: string
+ *                 enum: [requirements, specs, guides, api, faq]
+ *                 description: Defaults to the type the document was generated as
+ *               provider:
+ *                 type: string
+ *                 enum: [gemini, openai, mock]
+ *               model:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Document regenerated successfully
+ *       400:
+ *         description: Validation error, or the document has no stored page content
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ *       502:
+ *         description: The AI kept returning output that does not match the document schema (code AI_INVALID_OUTPUT); the document is unchanged
+ */
+router.post('/:id/regenerate', authorize('editor'), [
+  param('id').isMongoId().withMessage('Invalid document ID'),
+  body('customPrompt')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Custom prompt cannot exceed 2000 characters'),
+  body('documentType')
+    .optional()
+    .isIn(['requirements', 'specs', 'guides', 'api', 'faq'])
+    .withMessage('Document type must be valid'),
+  body('provider')
+    .optional()
+    .isIn(['gemini', 'openai', 'mock'])
+    .withMessage('Provider must be gemini, openai or mock'),
+  body('model')
+    .optional()
+    .trim()
+    .matches(/^[\w.:\/-]{1,100}$/)
+    .withMessage('Model must be a valid model name')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const document = await Document.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    if (!document.htmlContent) {
+      return res.status(400).json({
+        success: false,
+        error: 'Document has no stored page content to regenerate from'
+      });
+    }
+
+    const { provider, model } = req.body;
+    const documentType = req.body.documentType || document.generationType || 'requirements';
+    const customPrompt = req.body.customPrompt !== undefined ? req.body.customPrompt || undefined : document.customPrompt;
+
+    let aiService: AIService;
+    try {
+      aiService = createAIService({ provider, model });
+    } catch (error) {
+      if (error instanceof AIConfigurationError) {
+        return res.status(provider ? 400 : 500).json({
+          success: false,
+          error: provider ? error.message : 'AI service not configured properly'
+        });
+      }
+      throw error;
+    }
+
+    const { conversationData, siteMap } = document.toObject();
+    const generatedDocument = await aiService.generateDocument(
+      document.htmlContent,
+      conversationData?.mergedMessages?.length ? conversationData as ConversationData : undefined,
+      documentType,
+      customPrompt,
+      document.projectContext,
+      siteMap?.length ? siteMap : undefined
+    );
+
+    const updated = await saveDocumentVersion(document, {
+      title: generatedDocument.title,
+      content: generatedDocument.content,
+      customPrompt,
+      documentType: toStoredDocumentType(documentType),
+      generationType: documentType
+    }, 'regenerate', req.user!._id);
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: updated,
+      message: `Regenerated ${documentType} document as version ${updated.currentVersion}`
+    });
+
+  } catch (error) {
+    console.error('Error regenerating document:', error);
+
+    if (error instanceof AIOutputValidationError) {
+      return res.status(502).json({
+        success: false,
+        error: 'AI returned an invalid response. Please try again.',
+        code: 'AI_INVALID_OUTPUT',
+        details: error.issues
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Server error while regenerating document'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,454 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Project from '../models/Project';
+import Task from '../models/Task';
+import Test from '../models/Test';
+import TestCase from '../models/TestCase';
+import TestSession from '../models/TestSession';
+import Document from '../models/Document';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { findOrCreateProject, unassignProjectRecords } from '../services/projectService';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Project:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         lovableProjectId:
+ *           type: string
+ *           description: Project ID from the Lovable editor URL (lovable.dev/projects/ID) and preview URL (id-preview--ID.lovable.app)
+ *         url:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         workspaceId:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/projects:
+ *   get:
+ *     summary: Get the projects of the workspace
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: lovableProjectId
+ *         schema:
+ *           type: string
+ *         description: Find the project for a Lovable project ID
+ *     responses:
+ *       200:
+ *         description: Projects retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Project'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authorize('viewer'), [
+  query('lovableProjectId').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Invalid Lovable project ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const filter: any = { workspaceId: req.workspace!._id };
+    if (req.query.lovableProjectId) filter.lovableProjectId = req.query.lovableProjectId;
+
+    const projects = await Project.find(filter)
+      .sort({ name: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: projects
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching projects'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/projects:
+ *   post:
+ *     summary: Add a Lovable project to the workspace
+ *     description: Adding a Lovable project ID that the workspace already has returns the existing project.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lovableProjectId
+ *             properties:
+ *               lovableProjectId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the Lovable project ID
+ *               url:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The project already existed
+ *       201:
+ *         description: Project created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/', authorize('editor'), [
+  body('lovableProjectId')
+    .trim()
+    .matches(/^[\w-]{1,100}$/)
+    .withMessage('Lovable project ID is required and may only contain letters, numbers, dashes and underscores'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Name must be between 1 and 200 characters'),
+  body('url')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('URL must be a valid URL')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { lovableProjectId, name, url } = req.body;
+    const { project, created } = await findOrCreateProject(req.workspace!._id as any, req.user!._id as any, {
+      lovableProjectId,
+      name,
+      url
+    });
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: project
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while creating project'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/projects/{id}:
+ *   get:
+ *     summary: Get a project with the number of records in it
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Project retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Project'
+ *                     - type: object
+ *                       properties:
+ *                         counts:
+ *                           type: object
+ *                           properties:
+ *                             tasks:
+ *                               type: integer
+ *                             tests:
+ *                               type: integer
+ *                             testCases:
+ *                               type: integer
+ *                             testSessions:
+ *                               type: integer
+ *                             documents:
+ *                               type: integer
+ *       404:
+ *         description: Project not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id', authorize('viewer'), [
+  param('id').isMongoId().withMessage('Invalid project ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const project = await Project.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).lean();
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+    }
+
+    const filter = { workspaceId: req.workspace!._id, projectId: project._id };
+    const [tasks, tests, testCases, testSessions, documents] = await Promise.all([
+      Task.countDocuments(filter),
+      Test.countDocuments(filter),
+      TestCase.countDocuments(filter),
+      TestSession.countDocuments(filter),
+      Document.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...project,
+        counts: { tasks, tests, testCases, testSessions, documents }
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching project'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/projects/{id}:
+ *   put:
+ *     summary: Rename a project or change its URL
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Project updated successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Project not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/:id', authorize('editor'), [
+  param('id').isMongoId().withMessage('Invalid project ID'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Name must be between 1 and 200 characters'),
+  body('url')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('URL must be a valid URL')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    // The Lovable project ID identifies the project and cannot change
+    const { name, url } = req.body;
+    const project = await Project.findOneAndUpdate(
+      {
+        _id: req.params.id,
+        workspaceId: req.workspace!._id
+      },
+      Object.fromEntries(Object.entries({ name, url }).filter(([, value]) => value !== undefined)),
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: project
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while updating project'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/projects/{id}:
+ *   delete:
+ *     summary: Delete a project
+ *     description: Tasks, tests, test cases, test sessions and documents of the project are kept and no longer belong to a project.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Project deleted successfully
+ *       404:
+ *         description: Project not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/:id', authorize('editor'), [
+  param('id').isMongoId().withMessage('Invalid project ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const project = await Project.findOneAndDelete({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+    }
+
+    await unassignProjectRecords(project._id as any);
+
+    res.json({
+      success: true,
+      message: 'Project deleted successfully'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while deleting project'
+    });
+  }
+});
+
+export default router;
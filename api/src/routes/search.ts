@@ -0,0 +1,195 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { projectIdQueryValidator } from '../services/projectService';
+import {
+  MAX_SEARCH_RESULTS,
+  SEARCH_RESULT_TYPES,
+  SearchResultType,
+  searchWorkspace
+} from '../services/searchService';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SearchResult:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [document, conversation, task, test, testCase]
+ *         id:
+ *           type: string
+ *           description: ID of the matching record; for conversations, of the matching message
+ *         title:
+ *           type: string
+ *         snippet:
+ *           type: string
+ *           description: Part of the record around the first match
+ *         highlights:
+ *           type: array
+ *           description: Character ranges of the matched words in the snippet
+ *           items:
+ *             type: object
+ *             properties:
+ *               start:
+ *                 type: integer
+ *               end:
+ *                 type: integer
+ *         score:
+ *           type: number
+ *           description: Relevance; results are sorted by it
+ *         projectId:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         conversationId:
+ *           type: string
+ *           description: Conversation of a matching message
+ *         messageId:
+ *           type: string
+ *           description: Lovable message ID of a matching message
+ */
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Search the workspace's documents, conversation messages, tasks, tests and test cases
+ *     description: |
+ *       Uses MongoDB text search, so words are matched in any form ("login" also finds "logins"),
+ *       "quoted phrases" must appear as written and words starting with - are excluded. Results of
+ *       all types are ranked together, with matches in titles ranked highest. Only the best 500
+ *       matches can be paged through.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Comma-separated types to search (document, conversation, task, test, testCase); all by default
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only records created at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only records created at or before this time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Matching records, best first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SearchResult'
+ *                 pagination:
+ *                   type: object
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authorize('viewer'), [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Search query is required and cannot exceed 200 characters'),
+  query('type')
+    .optional()
+    .isString()
+    .custom((value: string) => value.split(',').every((type) => SEARCH_RESULT_TYPES.includes(type.trim() as SearchResultType)))
+    .withMessage(`Type must be a comma-separated list of: ${SEARCH_RESULT_TYPES.join(', ')}`),
+  projectIdQueryValidator(),
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const types = req.query.type
+      ? [...new Set((req.query.type as string).split(',').map((type) => type.trim() as SearchResultType))]
+      : undefined;
+
+    const { results, total } = await searchWorkspace(req.workspace!._id as any, req.query.q as string, {
+      types,
+      projectId: req.query.projectId as string | undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+      page,
+      limit
+    });
+
+    res.json({
+      success: true,
+      data: results,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(Math.min(total, MAX_SEARCH_RESULTS) / limit)
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while searching'
+    });
+  }
+});
+
+export default router;
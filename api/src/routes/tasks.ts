@@ -1,13 +1,23 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
 import Task from '../models/Task';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { projectIdBodyValidator, projectIdQueryValidator } from '../services/projectService';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Ownership, workspace and timestamps are set by the server; sync relies on updatedAt
+const pickEditableFields = (payload: any) => {
+  const { title, description, status, priority, dueDate, tags, notes, clientId, projectId } = payload;
+  return Object.fromEntries(
+    Object.entries({ title, description, status, priority, dueDate, tags, notes, clientId, projectId })
+      .filter(([, value]) => value !== undefined)
+  );
+};
+
 /**
  * @swagger
  * components:
@@ -26,7 +36,7 @@ router.use(authenticate);
  *           enum: [todo, in_progress, completed, cancelled]
  *         priority:
  *           type: string
- *           enum: [low, medium, high]
+ *           enum: [low, medium, high, urgent]
  *         dueDate:
  *           type: string
  *           format: date-time
@@ -34,6 +44,14 @@ router.use(authenticate);
  *           type: array
  *           items:
  *             type: string
+ *         notes:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TaskNote'
+ *         clientId:
+ *           type: string
+ *         projectId:
+ *           type: string
  *         userId:
  *           type: string
  *         createdAt:
@@ -42,6 +60,16 @@ router.use(authenticate);
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     TaskNote:
+ *       type: object
+ *       properties:
+ *         clientId:
+ *           type: string
+ *         content:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
  *     CreateTaskRequest:
  *       type: object
  *       required:
@@ -56,7 +84,7 @@ router.use(authenticate);
  *           enum: [todo, in_progress, completed, cancelled]
  *         priority:
  *           type: string
- *           enum: [low, medium, high]
+ *           enum: [low, medium, high, urgent]
  *         dueDate:
  *           type: string
  *           format: date-time
@@ -64,6 +92,17 @@ router.use(authenticate);
  *           type: array
  *           items:
  *             type: string
+ *         notes:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TaskNote'
+ *         clientId:
+ *           type: string
+ *           description: Client-generated ID. Creating a task with a clientId that already exists updates that task instead.
+ *         projectId:
+ *           type: string
+ *           nullable: true
+ *           description: Project the task belongs to; null removes it from its project
  */
 
 /**
@@ -85,9 +124,14 @@ router.use(authenticate);
  *         name: priority
  *         schema:
  *           type: string
- *           enum: [low, medium, high]
+ *           enum: [low, medium, high, urgent]
  *         description: Filter by task priority
  *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Filter by project
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -128,11 +172,12 @@ router.use(authenticate);
  *       401:
  *         description: Unauthorized
  */
-router.get('/', [
+router.get('/', authorize('viewer'), [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('status').optional().isIn(['todo', 'in_progress', 'completed', 'cancelled']).withMessage('Invalid status'),
-  query('priority').optional().isIn(['low', 'medium', 'high']).withMessage('Invalid priority')
+  query('priority').optional().isIn(['low', 'medium', 'high', 'urgent']).withMessage('Invalid priority'),
+  projectIdQueryValidator()
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -149,9 +194,10 @@ router.get('/', [
     const skip = (page - 1) * limit;
 
     // Build filter
-    const filter: any = { userId: req.user?._id };
+    const filter: any = { workspaceId: req.workspace!._id };
     if (req.query.status) filter.status = req.query.status;
     if (req.query.priority) filter.priority = req.query.priority;
+    if (req.query.projectId) filter.projectId = req.query.projectId;
 
     // Get tasks with pagination
     const [tasks, total] = await Promise.all([
@@ -197,6 +243,17 @@ router.get('/', [
  *           schema:
  *             $ref: '#/components/schemas/CreateTaskRequest'
  *     responses:
+ *       200:
+ *         description: A task with the same clientId already existed and was updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
  *       201:
  *         description: Task created successfully
  *         content:
@@ -213,7 +270,7 @@ router.get('/', [
  *       401:
  *         description: Unauthorized
  */
-router.post('/', [
+router.post('/', authorize('editor'), [
   body('title')
     .trim()
     .isLength({ min: 1, max: 200 })
@@ -229,7 +286,7 @@ router.post('/', [
     .withMessage('Invalid status'),
   body('priority')
     .optional()
-    .isIn(['low', 'medium', 'high'])
+    .isIn(['low', 'medium', 'high', 'urgent'])
     .withMessage('Invalid priority'),
   body('dueDate')
     .optional()
@@ -238,7 +295,21 @@ router.post('/', [
   body('tags')
     .optional()
     .isArray()
-    .withMessage('Tags must be an array')
+    .withMessage('Tags must be an array'),
+  body('notes')
+    .optional()
+    .isArray()
+    .withMessage('Notes must be an array'),
+  body('notes.*.content')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Each note must be between 1 and 1000 characters'),
+  body('clientId')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Client ID must be between 1 and 100 characters'),
+  projectIdBodyValidator()
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -250,9 +321,34 @@ router.post('/', [
       });
     }
 
+    const fields = pickEditableFields(req.body);
+
+    // Replayed creates from an offline client carry the same clientId; update instead of duplicating
+    if (fields.clientId) {
+      const existing = await Task.findOneAndUpdate(
+        {
+          clientId: fields.clientId,
+          workspaceId: req.workspace!._id
+        },
+        fields,
+        {
+          new: true,
+          runValidators: true
+        }
+      );
+
+      if (existing) {
+        return res.json({
+          success: true,
+          data: existing
+        });
+      }
+    }
+
     const taskData = {
-      ...req.body,
-      userId: req.user?._id
+      ...fields,
+      userId: req.user?._id,
+      workspaceId: req.workspace!._id
     };
 
     const task = new Task(taskData);
@@ -303,11 +399,11 @@ router.post('/', [
  *       401:
  *         description: Unauthorized
  */
-router.get('/:id', async (req: AuthRequest, res) => {
+router.get('/:id', authorize('viewer'), async (req: AuthRequest, res) => {
   try {
     const task = await Task.findOne({
       _id: req.params.id,
-      userId: req.user?._id
+      workspaceId: req.workspace!._id
     });
 
     if (!task) {
@@ -368,7 +464,7 @@ router.get('/:id', async (req: AuthRequest, res) => {
  *       401:
  *         description: Unauthorized
  */
-router.put('/:id', [
+router.put('/:id', authorize('editor'), [
   body('title')
     .optional()
     .trim()
@@ -385,7 +481,7 @@ router.put('/:id', [
     .withMessage('Invalid status'),
   body('priority')
     .optional()
-    .isIn(['low', 'medium', 'high'])
+    .isIn(['low', 'medium', 'high', 'urgent'])
     .withMessage('Invalid priority'),
   body('dueDate')
     .optional()
@@ -394,7 +490,21 @@ router.put('/:id', [
   body('tags')
     .optional()
     .isArray()
-    .withMessage('Tags must be an array')
+    .withMessage('Tags must be an array'),
+  body('notes')
+    .optional()
+    .isArray()
+    .withMessage('Notes must be an array'),
+  body('notes.*.content')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Each note must be between 1 and 1000 characters'),
+  body('clientId')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Client ID must be between 1 and 100 characters'),
+  projectIdBodyValidator()
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -409,9 +519,9 @@ router.put('/:id', [
     const task = await Task.findOneAndUpdate(
       {
         _id: req.params.id,
-        userId: req.user?._id
+        workspaceId: req.workspace!._id
       },
-      req.body,
+      pickEditableFields(req.body),
       {
         new: true,
         runValidators: true
@@ -461,11 +571,11 @@ router.put('/:id', [
  *       401:
  *         description: Unauthorized
  */
-router.delete('/:id', async (req: AuthRequest, res) => {
+router.delete('/:id', authorize('editor'), async (req: AuthRequest, res) => {
   try {
     const task = await Task.findOneAndDelete({
       _id: req.params.id,
-      userId: req.user?._id
+      workspaceId: req.workspace!._id
     });
 
     if (!task) {
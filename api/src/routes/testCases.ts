@@ -0,0 +1,721 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import TestCase from '../models/TestCase';
+import TestSession from '../models/TestSession';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { projectIdBodyValidator, projectIdQueryValidator } from '../services/projectService';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TestCase:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         title:
+ *           type: string
+ *         description:
+ *           type: string
+ *         steps:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               clientId:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *         expectedResult:
+ *           type: string
+ *         priority:
+ *           type: string
+ *           enum: [low, medium, high]
+ *         result:
+ *           type: string
+ *           enum: [pass, fail, pending]
+ *         executedAt:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
+ *         history:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TestCaseHistoryEntry'
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         clientId:
+ *           type: string
+ *         projectId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     TestCaseHistoryEntry:
+ *       type: object
+ *       properties:
+ *         result:
+ *           type: string
+ *           enum: [pass, fail, pending]
+ *         executedAt:
+ *           type: string
+ *           format: date-time
+ *         sessionId:
+ *           type: string
+ *         executedBy:
+ *           type: string
+ *     CreateTestCaseRequest:
+ *       type: object
+ *       required:
+ *         - title
+ *       properties:
+ *         title:
+ *           type: string
+ *         description:
+ *           type: string
+ *         steps:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               clientId:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *         expectedResult:
+ *           type: string
+ *         priority:
+ *           type: string
+ *           enum: [low, medium, high]
+ *         notes:
+ *           type: string
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         clientId:
+ *           type: string
+ *           description: Client-generated ID. Creating a test case with a clientId that already exists updates it instead.
+ *         projectId:
+ *           type: string
+ *           nullable: true
+ *           description: Project the test case belongs to; null removes it from its project
+ */
+
+const testCaseValidators = (isUpdate: boolean) => [
+  (isUpdate ? body('title').optional() : body('title'))
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Title is required and must be between 1 and 200 characters'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Description cannot exceed 2000 characters'),
+  body('steps')
+    .optional()
+    .isArray()
+    .withMessage('Steps must be an array'),
+  body('steps.*.description')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Each step must be between 1 and 1000 characters'),
+  body('expectedResult')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Expected result cannot exceed 2000 characters'),
+  body('priority')
+    .optional()
+    .isIn(['low', 'medium', 'high'])
+    .withMessage('Invalid priority'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Notes cannot exceed 2000 characters'),
+  body('tags')
+    .optional()
+    .isArray()
+    .withMessage('Tags must be an array'),
+  body('clientId')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Client ID must be between 1 and 100 characters'),
+  projectIdBodyValidator()
+];
+
+// Results and history are only changed through POST /:id/results
+const pickEditableFields = (payload: any) => {
+  const { title, description, steps, expectedResult, priority, notes, tags, clientId, projectId } = payload;
+  return Object.fromEntries(
+    Object.entries({ title, description, steps, expectedResult, priority, notes, tags, clientId, projectId })
+      .filter(([, value]) => value !== undefined)
+  );
+};
+
+/**
+ * @swagger
+ * /api/test-cases:
+ *   get:
+ *     summary: Get all manual test cases for the authenticated user
+ *     tags: [Test Cases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: result
+ *         schema:
+ *           type: string
+ *           enum: [pass, fail, pending]
+ *         description: Filter by latest result
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high]
+ *         description: Filter by priority
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Filter by tag
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Filter by project
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of test cases per page
+ *     responses:
+ *       200:
+ *         description: Test cases retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TestCase'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     pages:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authorize('viewer'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('result').optional().isIn(['pass', 'fail', 'pending']).withMessage('Invalid result'),
+  query('priority').optional().isIn(['low', 'medium', 'high']).withMessage('Invalid priority'),
+  query('tag').optional().isString().withMessage('Tag must be a string'),
+  projectIdQueryValidator()
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    // Build filter
+    const filter: any = { workspaceId: req.workspace!._id };
+    if (req.query.result) filter.result = req.query.result;
+    if (req.query.priority) filter.priority = req.query.priority;
+    if (req.query.tag) filter.tags = req.query.tag;
+    if (req.query.projectId) filter.projectId = req.query.projectId;
+
+    const [testCases, total] = await Promise.all([
+      TestCase.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      TestCase.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: testCases,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching test cases'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-cases:
+ *   post:
+ *     summary: Create a new manual test case
+ *     tags: [Test Cases]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTestCaseRequest'
+ *     responses:
+ *       200:
+ *         description: A test case with the same clientId already existed and was updated
+ *       201:
+ *         description: Test case created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TestCase'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/', authorize('editor'), testCaseValidators(false), async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const fields = pickEditableFields(req.body);
+
+    if (fields.clientId) {
+      const existing = await TestCase.findOneAndUpdate(
+        {
+          clientId: fields.clientId,
+          workspaceId: req.workspace!._id
+        },
+        fields,
+        {
+          new: true,
+          runValidators: true
+        }
+      );
+
+      if (existing) {
+        return res.json({
+          success: true,
+          data: existing
+        });
+      }
+    }
+
+    const testCase = new TestCase({
+      ...fields,
+      userId: req.user?._id,
+      workspaceId: req.workspace!._id
+    });
+    await testCase.save();
+
+    res.status(201).json({
+      success: true,
+      data: testCase
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while creating test case'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-cases/{id}:
+ *   get:
+ *     summary: Get a specific test case by ID
+ *     tags: [Test Cases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test case ID
+ *     responses:
+ *       200:
+ *         description: Test case retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TestCase'
+ *       404:
+ *         description: Test case not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id', authorize('viewer'), async (req: AuthRequest, res) => {
+  try {
+    const testCase = await TestCase.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!testCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test case not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: testCase
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching test case'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-cases/{id}:
+ *   put:
+ *     summary: Update a specific test case
+ *     tags: [Test Cases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test case ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTestCaseRequest'
+ *     responses:
+ *       200:
+ *         description: Test case updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TestCase'
+ *       404:
+ *         description: Test case not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/:id', authorize('editor'), testCaseValidators(true), async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const testCase = await TestCase.findOneAndUpdate(
+      {
+        _id: req.params.id,
+        workspaceId: req.workspace!._id
+      },
+      pickEditableFields(req.body),
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    if (!testCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test case not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: testCase
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while updating test case'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-cases/{id}:
+ *   delete:
+ *     summary: Delete a specific test case
+ *     tags: [Test Cases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test case ID
+ *     responses:
+ *       200:
+ *         description: Test case deleted successfully
+ *       404:
+ *         description: Test case not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/:id', authorize('editor'), async (req: AuthRequest, res) => {
+  try {
+    const testCase = await TestCase.findOneAndDelete({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!testCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test case not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Test case deleted successfully'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while deleting test case'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-cases/{id}/results:
+ *   post:
+ *     summary: Record the result of a manual test run
+ *     tags: [Test Cases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test case ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - result
+ *             properties:
+ *               result:
+ *                 type: string
+ *                 enum: [pass, fail, pending]
+ *               sessionId:
+ *                 type: string
+ *                 description: Test session the run belongs to
+ *               executedAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Result recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TestCase'
+ *       400:
+ *         description: Validation error or the session had already ended
+ *       404:
+ *         description: Test case or session not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/:id/results', authorize('editor'), [
+  body('result')
+    .isIn(['pass', 'fail', 'pending'])
+    .withMessage('Result is required and must be valid'),
+  body('sessionId')
+    .optional()
+    .isMongoId()
+    .withMessage('Session ID must be a valid MongoDB ObjectId'),
+  body('executedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Executed at must be a valid date')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { result, sessionId } = req.body;
+    const executedAt = req.body.executedAt ? new Date(req.body.executedAt) : new Date();
+
+    if (sessionId) {
+      const session = await TestSession.findOne({
+        _id: sessionId,
+        workspaceId: req.workspace!._id
+      });
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Test session not found'
+        });
+      }
+
+      // Results recorded offline may arrive after the session was closed; only reject runs made afterwards
+      if (session.finishedAt && executedAt > session.finishedAt) {
+        return res.status(400).json({
+          success: false,
+          error: 'Test session had already ended'
+        });
+      }
+    }
+
+    const testCase = await TestCase.findOneAndUpdate(
+      {
+        _id: req.params.id,
+        workspaceId: req.workspace!._id
+      },
+      {
+        result,
+        executedAt,
+        $push: {
+          history: {
+            result,
+            executedAt,
+            sessionId,
+            executedBy: req.user?._id
+          }
+        }
+      },
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    if (!testCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test case not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: testCase
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while recording test result'
+    });
+  }
+});
+
+export default router;
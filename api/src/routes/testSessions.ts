@@ -0,0 +1,538 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import TestSession from '../models/TestSession';
+import TestCase from '../models/TestCase';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { projectIdBodyValidator, projectIdQueryValidator } from '../services/projectService';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TestSession:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [active, paused, finished, terminated]
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ *         clientId:
+ *           type: string
+ *         projectId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     CreateTestSessionRequest:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [active, paused, finished, terminated]
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ *         clientId:
+ *           type: string
+ *           description: Client-generated ID. Creating a session with a clientId that already exists updates it instead.
+ *         projectId:
+ *           type: string
+ *           nullable: true
+ *           description: Project the session belongs to; null removes it from its project
+ */
+
+const testSessionValidators = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Session name cannot exceed 200 characters'),
+  body('status')
+    .optional()
+    .isIn(['active', 'paused', 'finished', 'terminated'])
+    .withMessage('Invalid status'),
+  body('startedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Started at must be a valid date'),
+  body('finishedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Finished at must be a valid date'),
+  body('clientId')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Client ID must be between 1 and 100 characters'),
+  projectIdBodyValidator()
+];
+
+// Closing a session stamps finishedAt unless the client already sent one
+const withFinishedAt = (payload: any) => {
+  const { name, status, startedAt, finishedAt, clientId, projectId } = payload;
+  const fields: any = Object.fromEntries(
+    Object.entries({ name, status, startedAt, finishedAt, clientId, projectId })
+      .filter(([, value]) => value !== undefined)
+  );
+
+  if ((status === 'finished' || status === 'terminated') && !fields.finishedAt) {
+    fields.finishedAt = new Date();
+  }
+
+  return fields;
+};
+
+/**
+ * @swagger
+ * /api/test-sessions:
+ *   get:
+ *     summary: Get all test sessions for the authenticated user
+ *     tags: [Test Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, paused, finished, terminated]
+ *         description: Filter by session status
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Filter by project
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of sessions per page
+ *     responses:
+ *       200:
+ *         description: Test sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TestSession'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     pages:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authorize('viewer'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('status').optional().isIn(['active', 'paused', 'finished', 'terminated']).withMessage('Invalid status'),
+  projectIdQueryValidator()
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    // Build filter
+    const filter: any = { workspaceId: req.workspace!._id };
+    if (req.query.status) filter.status = req.query.status;
+    if (req.query.projectId) filter.projectId = req.query.projectId;
+
+    const [sessions, total] = await Promise.all([
+      TestSession.find(filter)
+        .sort({ startedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      TestSession.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: sessions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching test sessions'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-sessions:
+ *   post:
+ *     summary: Start a new test session
+ *     tags: [Test Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTestSessionRequest'
+ *     responses:
+ *       200:
+ *         description: A session with the same clientId already existed and was updated
+ *       201:
+ *         description: Test session created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TestSession'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/', authorize('editor'), testSessionValidators, async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const fields = withFinishedAt(req.body);
+
+    if (fields.clientId) {
+      const existing = await TestSession.findOneAndUpdate(
+        {
+          clientId: fields.clientId,
+          workspaceId: req.workspace!._id
+        },
+        fields,
+        {
+          new: true,
+          runValidators: true
+        }
+      );
+
+      if (existing) {
+        return res.json({
+          success: true,
+          data: existing
+        });
+      }
+    }
+
+    const session = new TestSession({
+      ...fields,
+      userId: req.user?._id,
+      workspaceId: req.workspace!._id
+    });
+    await session.save();
+
+    res.status(201).json({
+      success: true,
+      data: session
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while creating test session'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-sessions/{id}:
+ *   get:
+ *     summary: Get a test session together with the results recorded in it
+ *     tags: [Test Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test session ID
+ *     responses:
+ *       200:
+ *         description: Test session retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/TestSession'
+ *                     - type: object
+ *                       properties:
+ *                         results:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               testCaseId:
+ *                                 type: string
+ *                               title:
+ *                                 type: string
+ *                               result:
+ *                                 type: string
+ *                                 enum: [pass, fail, pending]
+ *                               executedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *       404:
+ *         description: Test session not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id', authorize('viewer'), async (req: AuthRequest, res) => {
+  try {
+    const session = await TestSession.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).lean();
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test session not found'
+      });
+    }
+
+    const testCases = await TestCase.find({
+      workspaceId: req.workspace!._id,
+      'history.sessionId': session._id
+    }).select('title history').lean();
+
+    const results = testCases
+      .flatMap((testCase) => testCase.history
+        .filter((entry) => entry.sessionId?.toString() === session._id.toString())
+        .map((entry) => ({
+          testCaseId: testCase._id,
+          title: testCase.title,
+          result: entry.result,
+          executedAt: entry.executedAt
+        })))
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+
+    res.json({
+      success: true,
+      data: {
+        ...session,
+        results
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching test session'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-sessions/{id}:
+ *   put:
+ *     summary: Update a test session (rename, pause, resume, finish or terminate)
+ *     tags: [Test Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTestSessionRequest'
+ *     responses:
+ *       200:
+ *         description: Test session updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TestSession'
+ *       404:
+ *         description: Test session not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/:id', authorize('editor'), testSessionValidators, async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const session = await TestSession.findOneAndUpdate(
+      {
+        _id: req.params.id,
+        workspaceId: req.workspace!._id
+      },
+      withFinishedAt(req.body),
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: session
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while updating test session'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/test-sessions/{id}:
+ *   delete:
+ *     summary: Delete a test session
+ *     description: Results recorded during the session are kept on their test cases.
+ *     tags: [Test Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test session ID
+ *     responses:
+ *       200:
+ *         description: Test session deleted successfully
+ *       404:
+ *         description: Test session not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/:id', authorize('editor'), async (req: AuthRequest, res) => {
+  try {
+    const session = await TestSession.findOneAndDelete({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Test session deleted successfully'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while deleting test session'
+    });
+  }
+});
+
+export default router;
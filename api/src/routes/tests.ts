@@ -1,14 +1,36 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
 import Test from '../models/Test';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import AIService from '../services/aiService';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { projectIdBodyValidator, projectIdQueryValidator } from '../services/projectService';
+import { siteMapBodyValidators } from '../services/siteMap';
+import { MAX_HTML_CONTENT_LENGTH } from '../services/htmlCondenser';
+import AIService, { AIConfigurationError, AIOutputValidationError, createAIService } from '../services/aiService';
+import {
+  checkTestTargets,
+  executeTestRun,
+  getTestRunner,
+  initialProgress,
+  notRunningFilter,
+  parseTestDefinition,
+  runLeaseExpiry,
+  TestDefinitionError
+} from '../services/testRunner';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Fields only the test runner may write; artifact paths are served from disk, and a lease keeps others from claiming a run
+const withoutRunFields = (payload: any) => {
+  const { progress, artifacts, startedAt, finishedAt, leaseExpiresAt, ...fields } = payload;
+  return fields;
+};
+
+// Only the test runner marks a test as running, through POST /:id/run
+const CLIENT_STATUSES = ['pending', 'passed', 'failed', 'skipped'];
+
 /**
  * @swagger
  * components:
@@ -34,6 +56,23 @@ router.use(authenticate);
  *           type: string
  *         testData:
  *           type: object
+ *           description: "Runnable steps: { steps: [{ action, selector, value, url, description }], targetUrl, timeout }"
+ *         targetUrl:
+ *           type: string
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ *         progress:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TestStepProgress'
+ *         artifacts:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TestArtifact'
  *         tags:
  *           type: array
  *           items:
@@ -42,6 +81,8 @@ router.use(authenticate);
  *           type: string
  *         taskId:
  *           type: string
+ *         projectId:
+ *           type: string
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -63,19 +104,53 @@ router.use(authenticate);
  *           enum: [unit, integration, e2e, manual]
  *         status:
  *           type: string
- *           enum: [pending, running, passed, failed, skipped]
+ *           enum: [pending, passed, failed, skipped]
  *         duration:
  *           type: number
  *         errorMessage:
  *           type: string
  *         testData:
  *           type: object
+ *         targetUrl:
+ *           type: string
  *         tags:
  *           type: array
  *           items:
  *             type: string
  *         taskId:
  *           type: string
+ *         projectId:
+ *           type: string
+ *           nullable: true
+ *     TestStepProgress:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *         action:
+ *           type: string
+ *         description:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, running, passed, failed, skipped]
+ *         duration:
+ *           type: number
+ *         errorMessage:
+ *           type: string
+ *     TestArtifact:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [screenshot, console, html]
+ *         name:
+ *           type: string
+ *         stepIndex:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
  */
 
 /**
@@ -105,6 +180,11 @@ router.use(authenticate);
  *           type: string
  *         description: Filter by task ID
  *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Filter by project
+ *       - in: query
  *         name: tags
  *         schema:
  *           type: string
@@ -150,12 +230,13 @@ router.use(authenticate);
  *       401:
  *         description: Unauthorized
  */
-router.get('/', [
+router.get('/', authorize('viewer'), [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('status').optional().isIn(['pending', 'running', 'passed', 'failed', 'skipped']).withMessage('Invalid status'),
   query('type').optional().isIn(['unit', 'integration', 'e2e', 'manual']).withMessage('Invalid type'),
   query('tags').optional().isString().withMessage('Tags must be a string (comma-separated) or array'),
+  projectIdQueryValidator(),
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -172,10 +253,11 @@ router.get('/', [
     const skip = (page - 1) * limit;
 
     // Build filter
-    const filter: any = { userId: req.user?._id };
+    const filter: any = { workspaceId: req.workspace!._id };
     if (req.query.status) filter.status = req.query.status;
     if (req.query.type) filter.type = req.query.type;
     if (req.query.taskId) filter.taskId = req.query.taskId;
+    if (req.query.projectId) filter.projectId = req.query.projectId;
     if (req.query.tags) {
       let tags: string[] = [];
       if (Array.isArray(req.query.tags)) {
@@ -249,7 +331,7 @@ router.get('/', [
  *       401:
  *         description: Unauthorized
  */
-router.post('/', [
+router.post('/', authorize('editor'), [
   body('name')
     .trim()
     .isLength({ min: 1, max: 200 })
@@ -264,8 +346,8 @@ router.post('/', [
     .withMessage('Type is required and must be valid'),
   body('status')
     .optional()
-    .isIn(['pending', 'running', 'passed', 'failed', 'skipped'])
-    .withMessage('Invalid status'),
+    .isIn(CLIENT_STATUSES)
+    .withMessage(`Status must be one of ${CLIENT_STATUSES.join(', ')}; only the test runner sets running`),
   body('duration')
     .optional()
     .isNumeric()
@@ -282,7 +364,12 @@ router.post('/', [
   body('taskId')
     .optional()
     .isMongoId()
-    .withMessage('Task ID must be a valid MongoDB ObjectId')
+    .withMessage('Task ID must be a valid MongoDB ObjectId'),
+  body('targetUrl')
+    .optional()
+    .isURL({ protocols: ['http', 'https'], require_tld: false })
+    .withMessage('Target URL must be a valid http(s) URL'),
+  projectIdBodyValidator()
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -295,8 +382,9 @@ router.post('/', [
     }
 
     const testData = {
-      ...req.body,
-      userId: req.user?._id
+      ...withoutRunFields(req.body),
+      userId: req.user?._id,
+      workspaceId: req.workspace!._id
     };
 
     const test = new Test(testData);
@@ -347,11 +435,11 @@ router.post('/', [
  *       401:
  *         description: Unauthorized
  */
-router.get('/:id', async (req: AuthRequest, res) => {
+router.get('/:id', authorize('viewer'), async (req: AuthRequest, res) => {
   try {
     const test = await Test.findOne({
       _id: req.params.id,
-      userId: req.user?._id
+      workspaceId: req.workspace!._id
     }).populate('taskId', 'title');
 
     if (!test) {
@@ -412,7 +500,7 @@ router.get('/:id', async (req: AuthRequest, res) => {
  *       401:
  *         description: Unauthorized
  */
-router.put('/:id', [
+router.put('/:id', authorize('editor'), [
   body('name')
     .optional()
     .trim()
@@ -429,8 +517,8 @@ router.put('/:id', [
     .withMessage('Invalid type'),
   body('status')
     .optional()
-    .isIn(['pending', 'running', 'passed', 'failed', 'skipped'])
-    .withMessage('Invalid status'),
+    .isIn(CLIENT_STATUSES)
+    .withMessage(`Status must be one of ${CLIENT_STATUSES.join(', ')}; only the test runner sets running`),
   body('duration')
     .optional()
     .isNumeric()
@@ -447,7 +535,12 @@ router.put('/:id', [
   body('taskId')
     .optional()
     .isMongoId()
-    .withMessage('Task ID must be a valid MongoDB ObjectId')
+    .withMessage('Task ID must be a valid MongoDB ObjectId'),
+  body('targetUrl')
+    .optional()
+    .isURL({ protocols: ['http', 'https'], require_tld: false })
+    .withMessage('Target URL must be a valid http(s) URL'),
+  projectIdBodyValidator()
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -462,9 +555,9 @@ router.put('/:id', [
     const test = await Test.findOneAndUpdate(
       {
         _id: req.params.id,
-        userId: req.user?._id
+        workspaceId: req.workspace!._id
       },
-      req.body,
+      withoutRunFields(req.body),
       {
         new: true,
         runValidators: true
@@ -514,11 +607,11 @@ router.put('/:id', [
  *       401:
  *         description: Unauthorized
  */
-router.delete('/:id', async (req: AuthRequest, res) => {
+router.delete('/:id', authorize('editor'), async (req: AuthRequest, res) => {
   try {
     const test = await Test.findOneAndDelete({
       _id: req.params.id,
-      userId: req.user?._id
+      workspaceId: req.workspace!._id
     });
 
     if (!test) {
@@ -546,6 +639,7 @@ router.delete('/:id', async (req: AuthRequest, res) => {
  * /api/tests/{id}/run:
  *   post:
  *     summary: Run a specific test
+ *     description: Starts the steps in testData against the target URL in headless Chromium. Poll /api/tests/{id}/progress for the outcome.
  *     tags: [Tests]
  *     security:
  *       - bearerAuth: []
@@ -557,7 +651,7 @@ router.delete('/:id', async (req: AuthRequest, res) => {
  *           type: string
  *         description: Test ID
  *     responses:
- *       200:
+ *       202:
  *         description: Test execution started
  *         content:
  *           application/json:
@@ -568,22 +662,71 @@ router.delete('/:id', async (req: AuthRequest, res) => {
  *                   type: boolean
  *                 data:
  *                   $ref: '#/components/schemas/Test'
+ *       400:
+ *         description: Test type cannot be run automatically, testData has no runnable steps, or it targets a private or local network
  *       404:
  *         description: Test not found
+ *       409:
+ *         description: Test is already running
  *       401:
  *         description: Unauthorized
  */
-router.post('/:id/run', async (req: AuthRequest, res) => {
+router.post('/:id/run', authorize('editor'), async (req: AuthRequest, res) => {
   try {
+    const existing = await Test.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test not found'
+      });
+    }
+
+    const runner = getTestRunner(existing.type);
+    if (!runner) {
+      return res.status(400).json({
+        success: false,
+        error: `Tests of type ${existing.type} cannot be run automatically`
+      });
+    }
+
+    let definition;
+    try {
+      definition = parseTestDefinition(existing.testData, existing.targetUrl);
+      await checkTestTargets(definition);
+    } catch (error) {
+      if (error instanceof TestDefinitionError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+      throw error;
+    }
+
+    // Only one run at a time; the status check and update happen atomically. A run whose lease expired was abandoned.
     const test = await Test.findOneAndUpdate(
       {
-        _id: req.params.id,
-        userId: req.user?._id
+        _id: existing._id,
+        workspaceId: req.workspace!._id,
+        ...notRunningFilter()
       },
       {
-        status: 'running',
-        duration: undefined,
-        errorMessage: undefined
+        $set: {
+          status: 'running',
+          startedAt: new Date(),
+          leaseExpiresAt: runLeaseExpiry(),
+          progress: initialProgress(definition),
+          artifacts: []
+        },
+        $unset: {
+          duration: 1,
+          errorMessage: 1,
+          finishedAt: 1
+        }
       },
       {
         new: true,
@@ -592,16 +735,16 @@ router.post('/:id/run', async (req: AuthRequest, res) => {
     );
 
     if (!test) {
-      return res.status(404).json({
+      return res.status(409).json({
         success: false,
-        error: 'Test not found'
+        error: 'Test is already running'
       });
     }
 
-    // Here you would integrate with your actual test runner
-    // For now, we'll just update the status
+    // Runs in the background; progress and the final status are written to the test
+    executeTestRun(test._id.toString(), runner, definition);
 
-    res.json({
+    res.status(202).json({
       success: true,
       data: test,
       message: 'Test execution started'
@@ -615,6 +758,166 @@ router.post('/:id/run', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/tests/{id}/progress:
+ *   get:
+ *     summary: Get the progress of the latest run of a test
+ *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test ID
+ *     responses:
+ *       200:
+ *         description: Run progress retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     status:
+ *                       type: string
+ *                       enum: [pending, running, passed, failed, skipped]
+ *                     completedSteps:
+ *                       type: integer
+ *                     totalSteps:
+ *                       type: integer
+ *                     duration:
+ *                       type: number
+ *                     errorMessage:
+ *                       type: string
+ *                     startedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     finishedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     steps:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TestStepProgress'
+ *                     artifacts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TestArtifact'
+ *       404:
+ *         description: Test not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id/progress', authorize('viewer'), async (req: AuthRequest, res) => {
+  try {
+    const test = await Test.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).select('status progress artifacts duration errorMessage startedAt finishedAt').lean();
+
+    if (!test) {
+      return res.status(404).json({
+        success: false,
+        error: 'Test not found'
+      });
+    }
+
+    const steps = test.progress || [];
+
+    res.json({
+      success: true,
+      data: {
+        status: test.status,
+        completedSteps: steps.filter((step) => step.status !== 'pending' && step.status !== 'running').length,
+        totalSteps: steps.length,
+        duration: test.duration,
+        errorMessage: test.errorMessage,
+        startedAt: test.startedAt,
+        finishedAt: test.finishedAt,
+        steps,
+        // File paths stay on the server; artifacts are downloaded by name
+        artifacts: (test.artifacts || []).map(({ path: _path, ...artifact }) => artifact)
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching test progress'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tests/{id}/artifacts/{name}:
+ *   get:
+ *     summary: Download an artifact (screenshot or console log) from the latest run
+ *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Test ID
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Artifact name
+ *     responses:
+ *       200:
+ *         description: Artifact file
+ *       404:
+ *         description: Test or artifact not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id/artifacts/:name', authorize('viewer'), async (req: AuthRequest, res) => {
+  try {
+    const test = await Test.findOne({
+      _id: req.params.id,
+      workspaceId: req.workspace!._id
+    }).select('artifacts').lean();
+
+    const artifact = test?.artifacts?.find((item) => item.name === req.params.name);
+
+    if (!artifact) {
+      return res.status(404).json({
+        success: false,
+        error: 'Artifact not found'
+      });
+    }
+
+    res.sendFile(artifact.path, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          error: 'Artifact not found'
+        });
+      }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching test artifact'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/tests/generate-ai:
@@ -634,10 +937,23 @@ router.post('/:id/run', async (req: AuthRequest, res) => {
  *             properties:
  *               htmlContent:
  *                 type: string
- *                 description: HTML structure of the application to test
+ *                 maxLength: 2000000
+ *                 description: HTML structure of the application to test; condensed into an outline sized for the model before it is sent
  *               projectContext:
  *                 type: string
  *                 description: Optional project context information
+ *               siteMap:
+ *                 type: array
+ *                 description: Other pages of the app, crawled by the extension; htmlContent is then the page the crawl started on
+ *                 items:
+ *                   $ref: '#/components/schemas/SiteMapPage'
+ *               provider:
+ *                 type: string
+ *                 enum: [gemini, openai, mock]
+ *                 description: AI provider to use instead of the server default (must be configured on the server)
+ *               model:
+ *                 type: string
+ *                 description: Model to try first; the provider's fallback models are used if it fails
  *     responses:
  *       200:
  *         description: Test cases generated successfully
@@ -659,11 +975,21 @@ router.post('/:id/run', async (req: AuthRequest, res) => {
  *                         type: string
  *                       steps:
  *                         type: array
+ *                         description: Steps in the form testData takes, so they can be run by the test runner
  *                         items:
  *                           type: object
  *                           properties:
  *                             description:
  *                               type: string
+ *                             action:
+ *                               type: string
+ *                               enum: [goto, click, type, select, waitFor, wait, assertText, assertVisible, assertUrl, screenshot]
+ *                             selector:
+ *                               type: string
+ *                             value:
+ *                               type: string
+ *                             url:
+ *                               type: string
  *                       expectedResult:
  *                         type: string
  *                       priority:
@@ -675,17 +1001,29 @@ router.post('/:id/run', async (req: AuthRequest, res) => {
  *         description: Unauthorized
  *       500:
  *         description: AI service error
+ *       502:
+ *         description: The AI kept returning output that does not match the test case schema (code AI_INVALID_OUTPUT, details lists the problems)
  */
-router.post('/generate-ai', [
+router.post('/generate-ai', authorize('editor'), [
   body('htmlContent')
     .trim()
-    .isLength({ min: 10 })
-    .withMessage('HTML content is required and must be at least 10 characters'),
+    .isLength({ min: 10, max: MAX_HTML_CONTENT_LENGTH })
+    .withMessage(`HTML content is required and must be between 10 and ${MAX_HTML_CONTENT_LENGTH} characters`),
   body('projectContext')
     .optional()
     .trim()
     .isLength({ max: 2000 })
-    .withMessage('Project context cannot exceed 2000 characters')
+    .withMessage('Project context cannot exceed 2000 characters'),
+  ...siteMapBodyValidators(),
+  body('provider')
+    .optional()
+    .isIn(['gemini', 'openai', 'mock'])
+    .withMessage('Provider must be gemini, openai or mock'),
+  body('model')
+    .optional()
+    .trim()
+    .matches(/^[\w.:\/-]{1,100}$/)
+    .withMessage('Model must be a valid model name')
 ], async (req: AuthRequest, res) => {
   try {
     const errors = validationResult(req);
@@ -697,18 +1035,22 @@ router.post('/generate-ai', [
       });
     }
 
-    const { htmlContent, projectContext } = req.body;
-    const geminiKey = process.env.GEMINI_KEY;
+    const { htmlContent, projectContext, siteMap, provider, model } = req.body;
 
-    if (!geminiKey) {
-      return res.status(500).json({
-        success: false,
-        error: 'AI service not configured properly'
-      });
+    let aiService: AIService;
+    try {
+      aiService = createAIService({ provider, model });
+    } catch (error) {
+      if (error instanceof AIConfigurationError) {
+        // Asking for a provider this server does not offer is a client error
+        return res.status(provider ? 400 : 500).json({
+          success: false,
+          error: provider ? error.message : 'AI service not configured properly'
+        });
+      }
+      throw error;
     }
-
-    const aiService = new AIService('gemini', geminiKey);
-    const generatedTestCases = await aiService.generateTestCases(htmlContent, projectContext);
+    const generatedTestCases = await aiService.generateTestCases(htmlContent, projectContext, siteMap);
 
     res.json({
       success: true,
@@ -718,6 +1060,15 @@ router.post('/generate-ai', [
 
   } catch (error) {
     console.error('Error generating AI test cases:', error);
+
+    if (error instanceof AIOutputValidationError) {
+      return res.status(502).json({
+        success: false,
+        error: 'AI returned an invalid response. Please try again.',
+        code: 'AI_INVALID_OUTPUT',
+        details: error.issues
+      });
+    }
     
     // Provide more specific error messages
     let errorMessage = 'Server error while generating test cases';
@@ -0,0 +1,172 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import mongoose from 'mongoose';
+import Workspace, { IWorkspace } from '../models/Workspace';
+import User from '../models/User';
+import { authenticate, authorize, AuthRequest, generateToken } from '../middleware/auth';
+import workspaceRoutes from './workspaces';
+
+const ids = {
+  owner: new mongoose.Types.ObjectId(),
+  editor: new mongoose.Types.ObjectId(),
+  viewer: new mongoose.Types.ObjectId(),
+  outsider: new mongoose.Types.ObjectId()
+};
+type Person = keyof typeof ids;
+
+let workspaces: IWorkspace[];
+let server: http.Server;
+let baseUrl: string;
+
+const app = express();
+app.use(express.json());
+app.use('/api/workspaces', workspaceRoutes);
+// Echoes what a record route would be left with after authorize
+app.post('/api/records', authenticate, authorize('editor'), (req: AuthRequest, res) => {
+  res.json({ workspaceId: req.workspace!._id, role: req.workspaceRole, body: req.body });
+});
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = 'test-secret';
+  server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  workspaces = [
+    new Workspace({
+      name: 'Acme',
+      ownerId: ids.owner,
+      members: [
+        { userId: ids.owner, role: 'owner' },
+        { userId: ids.editor, role: 'editor' },
+        { userId: ids.viewer, role: 'viewer' }
+      ]
+    }),
+    new Workspace({
+      name: "Owner's workspace",
+      personal: true,
+      ownerId: ids.owner,
+      members: [{ userId: ids.owner, role: 'owner' }]
+    })
+  ];
+
+  jest.spyOn(User, 'findById').mockImplementation(((id: unknown) => ({
+    select: async () => ({ _id: id, name: 'Member', isActive: true, tokenVersion: 0 })
+  })) as any);
+  jest.spyOn(Workspace, 'findById').mockImplementation((async (id: unknown) =>
+    workspaces.find(({ _id }) => String(_id) === String(id)) || null) as any);
+  jest.spyOn(Workspace.prototype, 'save').mockImplementation(async function (this: IWorkspace) {
+    return this;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const call = async (person: Person, method: string, path: string, body?: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${generateToken(ids[person].toString())}`,
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const acme = () => workspaces[0];
+
+describe('authorize', () => {
+  it('lets members act up to their role', async () => {
+    const rename = (person: Person) => call(person, 'PUT', `/workspaces/${acme()._id}`, { name: `Renamed by ${person}` });
+
+    expect((await rename('viewer')).body).toMatchObject({ code: 'INSUFFICIENT_ROLE' });
+    expect((await rename('editor')).status).toBe(403);
+    expect(await rename('owner')).toMatchObject({ status: 200, body: { data: { name: 'Renamed by owner', role: 'owner' } } });
+
+    const headers = { 'X-Workspace-Id': acme()._id.toString() };
+    expect((await call('viewer', 'POST', '/records', {}, headers)).status).toBe(403);
+    expect(await call('editor', 'POST', '/records', {}, headers)).toMatchObject({ status: 200, body: { role: 'editor' } });
+  });
+
+  it('answers 404 for workspaces the user is not a member of, as for ones that do not exist', async () => {
+    for (const path of [`/workspaces/${acme()._id}`, `/workspaces/${new mongoose.Types.ObjectId()}`, '/workspaces/not-an-id']) {
+      expect(await call('outsider', 'PUT', path, { name: 'Mine now' })).toMatchObject({
+        status: 404,
+        body: { code: 'WORKSPACE_NOT_FOUND' }
+      });
+    }
+    expect(acme().name).toBe('Acme');
+  });
+
+  it('ignores workspace and user IDs in the body', async () => {
+    const headers = { 'X-Workspace-Id': acme()._id.toString() };
+    const body = { title: 'Task', workspaceId: workspaces[1]._id, userId: ids.owner };
+
+    expect((await call('editor', 'POST', '/records', body, headers)).body).toEqual({
+      workspaceId: acme()._id.toString(),
+      role: 'editor',
+      body: { title: 'Task' }
+    });
+  });
+});
+
+describe('members', () => {
+  const members = (workspace: IWorkspace) =>
+    Object.fromEntries(workspace.members.map(({ userId, role }) => [userId.toString(), role]));
+
+  it('keeps the last owner from being demoted or leaving', async () => {
+    const path = `/workspaces/${acme()._id}/members/${ids.owner}`;
+
+    expect(await call('owner', 'PUT', path, { role: 'editor' })).toMatchObject({
+      status: 400,
+      body: { error: 'A workspace needs at least one owner. Make someone else an owner first.' }
+    });
+    expect(await call('owner', 'DELETE', path)).toMatchObject({
+      status: 400,
+      body: { error: 'The last owner cannot leave. Make someone else an owner or delete the workspace.' }
+    });
+    expect(await call('owner', 'DELETE', `/workspaces/${workspaces[1]._id}/members/${ids.owner}`)).toMatchObject({
+      status: 400,
+      body: { error: 'You cannot leave your personal workspace' }
+    });
+    expect(members(acme())[ids.owner.toString()]).toBe('owner');
+  });
+
+  it('lets an owner step down once there is another owner', async () => {
+    expect((await call('owner', 'PUT', `/workspaces/${acme()._id}/members/${ids.editor}`, { role: 'owner' })).status).toBe(200);
+    expect((await call('owner', 'PUT', `/workspaces/${acme()._id}/members/${ids.owner}`, { role: 'viewer' })).status).toBe(200);
+
+    expect(members(acme())).toEqual({
+      [ids.owner.toString()]: 'viewer',
+      [ids.editor.toString()]: 'owner',
+      [ids.viewer.toString()]: 'viewer'
+    });
+  });
+
+  it('only lets owners remove other members, while anyone may leave', async () => {
+    expect(await call('editor', 'DELETE', `/workspaces/${acme()._id}/members/${ids.viewer}`)).toMatchObject({
+      status: 403,
+      body: { code: 'INSUFFICIENT_ROLE' }
+    });
+    expect(await call('viewer', 'DELETE', `/workspaces/${acme()._id}/members/${ids.viewer}`)).toMatchObject({
+      status: 200,
+      body: { message: 'You left the workspace' }
+    });
+    expect(await call('owner', 'DELETE', `/workspaces/${acme()._id}/members/${ids.editor}`)).toMatchObject({
+      status: 200,
+      body: { message: 'Member removed' }
+    });
+    expect(Object.keys(members(acme()))).toEqual([ids.owner.toString()]);
+  });
+});
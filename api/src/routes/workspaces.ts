@@ -0,0 +1,952 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import Workspace, { IWorkspace } from '../models/Workspace';
+import WorkspaceInvitation from '../models/WorkspaceInvitation';
+import User from '../models/User';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { deleteWorkspaceRecords, ensurePersonalWorkspace, memberRole, ownerCount } from '../services/workspaceService';
+import { sendWorkspaceInvitationEmail } from '../services/emailService';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+const INVITATION_DAYS = 7;
+
+// The workspace as seen by the requesting user, with their role in it
+const withRole = (workspace: IWorkspace, userId: unknown) => ({
+  ...workspace.toObject(),
+  role: memberRole(workspace, userId)
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Workspace:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         personal:
+ *           type: boolean
+ *           description: Every user has one personal workspace, which cannot be shared or deleted
+ *         ownerId:
+ *           type: string
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [owner, editor, viewer]
+ *               joinedAt:
+ *                 type: string
+ *                 format: date-time
+ *         role:
+ *           type: string
+ *           enum: [owner, editor, viewer]
+ *           description: Role of the requesting user
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     WorkspaceInvitation:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         workspaceId:
+ *           type: string
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [editor, viewer]
+ *         invitedBy:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/workspaces/invitations:
+ *   get:
+ *     summary: List pending invitations addressed to the current user's email
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invitations retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/invitations', async (req: AuthRequest, res) => {
+  try {
+    const invitations = await WorkspaceInvitation.find({
+      email: req.user!.email,
+      expiresAt: { $gt: new Date() }
+    })
+      .populate('workspaceId', 'name')
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: invitations
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching invitations'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/invitations/{invitationId}/accept:
+ *   post:
+ *     summary: Accept an invitation and join its workspace
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Joined the workspace
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Workspace'
+ *       404:
+ *         description: Invitation not found or expired
+ *       500:
+ *         description: Server error
+ */
+router.post('/invitations/:invitationId/accept', [
+  param('invitationId').isMongoId().withMessage('Invalid invitation ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    // Deleted as it is read, so an invitation is accepted at most once
+    const invitation = await WorkspaceInvitation.findOneAndDelete({
+      _id: req.params.invitationId,
+      email: req.user!.email,
+      expiresAt: { $gt: new Date() }
+    });
+
+    const workspace = invitation && await Workspace.findById(invitation.workspaceId);
+    if (!invitation || !workspace) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invitation not found or expired'
+      });
+    }
+
+    // Already a member: keep the existing role
+    const updated = await Workspace.findOneAndUpdate(
+      { _id: workspace._id, 'members.userId': { $ne: req.user!._id } },
+      { $push: { members: { userId: req.user!._id, role: invitation.role, joinedAt: new Date() } } },
+      { new: true }
+    ) || workspace;
+
+    res.json({
+      success: true,
+      data: withRole(updated, req.user!._id)
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while accepting invitation'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/invitations/{invitationId}/decline:
+ *   post:
+ *     summary: Decline an invitation
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation declined
+ *       404:
+ *         description: Invitation not found
+ *       500:
+ *         description: Server error
+ */
+router.post('/invitations/:invitationId/decline', [
+  param('invitationId').isMongoId().withMessage('Invalid invitation ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const invitation = await WorkspaceInvitation.findOneAndDelete({
+      _id: req.params.invitationId,
+      email: req.user!.email
+    });
+
+    if (!invitation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while declining invitation'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces:
+ *   get:
+ *     summary: List the workspaces the current user is a member of
+ *     description: The personal workspace is created on first use and always listed first.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Workspaces retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Workspace'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    await ensurePersonalWorkspace(req.user!);
+
+    const workspaces = await Workspace.find({ 'members.userId': req.user!._id })
+      .sort({ personal: -1, name: 1 });
+
+    res.json({
+      success: true,
+      data: workspaces.map((workspace) => withRole(workspace, req.user!._id))
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching workspaces'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces:
+ *   post:
+ *     summary: Create a team workspace owned by the current user
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       201:
+ *         description: Workspace created
+ *       400:
+ *         description: Validation error
+ *       500:
+ *         description: Server error
+ */
+router.post('/', [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Workspace name must be between 1 and 100 characters')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const workspace = await Workspace.create({
+      name: req.body.name,
+      ownerId: req.user!._id,
+      members: [{ userId: req.user!._id, role: 'owner' }]
+    });
+
+    res.status(201).json({
+      success: true,
+      data: withRole(workspace, req.user!._id)
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while creating workspace'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}:
+ *   get:
+ *     summary: Get a workspace with its members
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Workspace retrieved successfully
+ *       404:
+ *         description: Workspace not found or not a member
+ *       500:
+ *         description: Server error
+ */
+router.get('/:workspaceId', authorize('viewer'), async (req: AuthRequest, res) => {
+  try {
+    const workspace = req.workspace!;
+    const data = withRole(workspace, req.user!._id);
+    await workspace.populate('members.userId', 'name email');
+
+    res.json({
+      success: true,
+      data: { ...data, members: workspace.toObject().members }
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching workspace'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}:
+ *   put:
+ *     summary: Rename a workspace
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Workspace updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Only owners can rename a workspace
+ *       404:
+ *         description: Workspace not found
+ *       500:
+ *         description: Server error
+ */
+router.put('/:workspaceId', authorize('owner'), [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Workspace name must be between 1 and 100 characters')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const workspace = req.workspace!;
+    workspace.name = req.body.name;
+    await workspace.save();
+
+    res.json({
+      success: true,
+      data: withRole(workspace, req.user!._id)
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while updating workspace'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}:
+ *   delete:
+ *     summary: Delete a team workspace and everything in it
+ *     description: Deletes the workspace's tasks, tests, test cases, test sessions, documents and pending invitations. Personal workspaces cannot be deleted.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Workspace deleted
+ *       400:
+ *         description: Personal workspaces cannot be deleted
+ *       403:
+ *         description: Only owners can delete a workspace
+ *       404:
+ *         description: Workspace not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/:workspaceId', authorize('owner'), async (req: AuthRequest, res) => {
+  try {
+    const workspace = req.workspace!;
+
+    if (workspace.personal) {
+      return res.status(400).json({
+        success: false,
+        error: 'Personal workspaces cannot be deleted'
+      });
+    }
+
+    await Workspace.deleteOne({ _id: workspace._id });
+    await Promise.all([
+      deleteWorkspaceRecords(workspace._id as any),
+      WorkspaceInvitation.deleteMany({ workspaceId: workspace._id })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Workspace deleted successfully'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while deleting workspace'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}/invitations:
+ *   get:
+ *     summary: List a workspace's pending invitations
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitations retrieved successfully
+ *       403:
+ *         description: Only owners can see invitations
+ *       404:
+ *         description: Workspace not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:workspaceId/invitations', authorize('owner'), async (req: AuthRequest, res) => {
+  try {
+    const invitations = await WorkspaceInvitation.find({
+      workspaceId: req.workspace!._id,
+      expiresAt: { $gt: new Date() }
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: invitations
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while fetching invitations'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}/invitations:
+ *   post:
+ *     summary: Invite someone to a workspace by email
+ *     description: Inviting the same email again replaces the pending invitation and sends a new email.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [editor, viewer]
+ *     responses:
+ *       201:
+ *         description: Invitation created and emailed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/WorkspaceInvitation'
+ *       400:
+ *         description: Validation error, personal workspace, or already a member
+ *       403:
+ *         description: Only owners can invite
+ *       404:
+ *         description: Workspace not found
+ *       500:
+ *         description: Server error
+ */
+router.post('/:workspaceId/invitations', authorize('owner'), [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please enter a valid email'),
+  body('role')
+    .isIn(['editor', 'viewer'])
+    .withMessage('Role must be editor or viewer')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const workspace = req.workspace!;
+
+    if (workspace.personal) {
+      return res.status(400).json({
+        success: false,
+        error: 'Personal workspaces cannot be shared. Create a team workspace instead.'
+      });
+    }
+
+    const invitee = await User.findOne({ email: req.body.email }).select('_id');
+    if (invitee && memberRole(workspace, invitee._id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'This person is already a member of the workspace'
+      });
+    }
+
+    const invitation = await WorkspaceInvitation.findOneAndUpdate(
+      { workspaceId: workspace._id, email: req.body.email },
+      {
+        role: req.body.role,
+        invitedBy: req.user!._id,
+        expiresAt: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000)
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    try {
+      await sendWorkspaceInvitationEmail(req.body.email, req.user!.name, workspace.name, req.body.role);
+    } catch (error) {
+      // The invitation still shows up in the extension of the invited user
+      console.error('Error sending workspace invitation email:', error);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: invitation
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while creating invitation'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       403:
+ *         description: Only owners can revoke invitations
+ *       404:
+ *         description: Workspace or invitation not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/:workspaceId/invitations/:invitationId', authorize('owner'), [
+  param('invitationId').isMongoId().withMessage('Invalid invitation ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const invitation = await WorkspaceInvitation.findOneAndDelete({
+      _id: req.params.invitationId,
+      workspaceId: req.workspace!._id
+    });
+
+    if (!invitation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while revoking invitation'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}/members/{userId}:
+ *   put:
+ *     summary: Change a member's role
+ *     description: A workspace always keeps at least one owner.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [owner, editor, viewer]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Validation error or the last owner would be demoted
+ *       403:
+ *         description: Only owners can change roles
+ *       404:
+ *         description: Workspace or member not found
+ *       500:
+ *         description: Server error
+ */
+router.put('/:workspaceId/members/:userId', authorize('owner'), [
+  param('userId').isMongoId().withMessage('Invalid user ID'),
+  body('role')
+    .isIn(['owner', 'editor', 'viewer'])
+    .withMessage('Role must be owner, editor or viewer')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const workspace = req.workspace!;
+    const member = workspace.members.find((entry) => entry.userId.equals(req.params.userId));
+
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    if (member.role === 'owner' && req.body.role !== 'owner' && ownerCount(workspace) === 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'A workspace needs at least one owner. Make someone else an owner first.'
+      });
+    }
+
+    member.role = req.body.role;
+    await workspace.save();
+
+    res.json({
+      success: true,
+      data: withRole(workspace, req.user!._id)
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while updating member'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/workspaces/{workspaceId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member, or leave the workspace
+ *     description: Owners can remove anyone; other members can only remove themselves. The last owner cannot leave.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       400:
+ *         description: The last owner cannot be removed
+ *       403:
+ *         description: Only owners can remove other members
+ *       404:
+ *         description: Workspace or member not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/:workspaceId/members/:userId', authorize('viewer'), [
+  param('userId').isMongoId().withMessage('Invalid user ID')
+], async (req: AuthRequest, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const workspace = req.workspace!;
+    const leaving = req.user!._id.toString() === req.params.userId;
+
+    if (!leaving && req.workspaceRole !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        error: 'This action needs the owner role in the workspace',
+        code: 'INSUFFICIENT_ROLE'
+      });
+    }
+
+    const member = workspace.members.find((entry) => entry.userId.equals(req.params.userId));
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    if (member.role === 'owner' && ownerCount(workspace) === 1) {
+      return res.status(400).json({
+        success: false,
+        error: workspace.personal
+          ? 'You cannot leave your personal workspace'
+          : 'The last owner cannot leave. Make someone else an owner or delete the workspace.'
+      });
+    }
+
+    workspace.members = workspace.members.filter((entry) => entry !== member);
+    await workspace.save();
+
+    res.json({
+      success: true,
+      message: leaving ? 'You left the workspace' : 'Member removed'
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error while removing member'
+    });
+  }
+});
+
+export default router;
@@ -7,21 +7,39 @@ import swaggerUi from 'swagger-ui-express';
 import swaggerJsdoc from 'swagger-jsdoc';
 
 import { connectDB } from './config/database';
+import { failAbandonedRuns } from './services/testRunner';
 import { errorHandler } from './middleware/errorHandler';
 import authRoutes from './routes/auth';
 import taskRoutes from './routes/tasks';
 import testRoutes from './routes/tests';
+import testCaseRoutes from './routes/testCases';
+import testSessionRoutes from './routes/testSessions';
 import documentRoutes from './routes/documents';
 import expertRoutes from './routes/experts';
+import workspaceRoutes from './routes/workspaces';
+import projectRoutes from './routes/projects';
+import conversationRoutes from './routes/conversations';
+import searchRoutes from './routes/search';
 
 // Load environment variables
 dotenv.config();
 
+// Tokens must not be signed with a guessable default
+if (!process.env.JWT_SECRET) {
+  console.error('❌ JWT_SECRET is not set in environment variables');
+  process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Connect to MongoDB
-connectDB();
+// Connect to MongoDB, then fail test runs a previous server process left behind
+connectDB()
+  .then(failAbandonedRuns)
+  .then((count) => {
+    if (count > 0) console.log(`⚠️  Marked ${count} interrupted test run(s) as failed`);
+  })
+  .catch((error) => console.error('❌ Failed to clean up interrupted test runs:', error));
 
 // Rate limiting
 const limiter = rateLimit({
@@ -90,8 +108,14 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/tests', testRoutes);
+app.use('/api/test-cases', testCaseRoutes);
+app.use('/api/test-sessions', testSessionRoutes);
 app.use('/api/documents', documentRoutes);
 app.use('/api/experts', expertRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/search', searchRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
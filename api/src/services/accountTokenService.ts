@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import AccountToken, { AccountTokenPurpose } from '../models/AccountToken';
+
+/**
+ * Single-use tokens for email verification and password reset. They are
+ * emailed in plain text and stored hashed; a new token replaces any earlier
+ * unused one of the same purpose.
+ */
+
+export const VERIFY_EMAIL_TOKEN_HOURS = 24;
+export const RESET_PASSWORD_TOKEN_MINUTES = 60;
+
+const TOKEN_LIFETIME_MS: Record<AccountTokenPurpose, number> = {
+  'verify-email': VERIFY_EMAIL_TOKEN_HOURS * 60 * 60 * 1000,
+  'reset-password': RESET_PASSWORD_TOKEN_MINUTES * 60 * 1000
+};
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export const issueAccountToken = async (
+  userId: mongoose.Types.ObjectId,
+  purpose: AccountTokenPurpose
+): Promise<string> => {
+  await AccountToken.deleteMany({ userId, purpose, usedAt: { $exists: false } });
+
+  const token = crypto.randomBytes(24).toString('base64url');
+  await AccountToken.create({
+    tokenHash: hashToken(token),
+    purpose,
+    userId,
+    expiresAt: new Date(Date.now() + TOKEN_LIFETIME_MS[purpose])
+  });
+
+  return token;
+};
+
+// Marks the token as used and returns its user, or null if it is unknown, expired or already used
+export const consumeAccountToken = async (
+  token: string,
+  purpose: AccountTokenPurpose
+): Promise<mongoose.Types.ObjectId | null> => {
+  const stored = await AccountToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() }
+  );
+
+  return stored ? stored.userId : null;
+};
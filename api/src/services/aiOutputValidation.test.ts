@@ -0,0 +1,64 @@
+import { AIOutputValidationError, parseTestCasesOutput } from './aiOutputValidation';
+
+const testCase = (steps: unknown[]) => ({
+  title: 'Sign in',
+  description: 'Signs in with valid credentials',
+  steps,
+  expectedResult: 'The dashboard is shown',
+  priority: 'high'
+});
+
+const issuesOf = (output: unknown): string[] => {
+  try {
+    parseTestCasesOutput(JSON.stringify(output));
+  } catch (error) {
+    if (error instanceof AIOutputValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('parseTestCasesOutput', () => {
+  it('returns steps with the action and its selector, value and url', () => {
+    const output = [testCase([
+      { description: 'Open the login page', action: 'goto', url: '/login' },
+      { description: 'Enter the email', action: 'type', selector: ' input[name=email] ', value: 'qa@example.com' },
+      { description: 'Wait a moment', action: 'wait', value: 500 },
+      { description: 'Submit', action: 'click', selector: 'button[type=submit]' }
+    ])];
+
+    expect(parseTestCasesOutput(`\`\`\`json\n${JSON.stringify(output)}\n\`\`\``)[0].steps).toEqual([
+      { description: 'Open the login page', action: 'goto', selector: undefined, value: undefined, url: '/login' },
+      { description: 'Enter the email', action: 'type', selector: 'input[name=email]', value: 'qa@example.com', url: undefined },
+      { description: 'Wait a moment', action: 'wait', selector: undefined, value: '500', url: undefined },
+      { description: 'Submit', action: 'click', selector: 'button[type=submit]', value: undefined, url: undefined }
+    ]);
+  });
+
+  it('reports steps the test runner could not perform', () => {
+    expect(issuesOf([testCase([
+      { description: 'Open the login page' },
+      { description: 'Press the button', action: 'press', selector: 'button' },
+      { description: 'Click submit', action: 'click' },
+      { description: 'Enter the email', action: 'type', selector: 'input' },
+      { description: '', action: 'screenshot' },
+      'Check the title'
+    ])])).toEqual([
+      'Test case 1, step 1: "action" must be one of goto, click, type, select, waitFor, wait, assertText, assertVisible, assertUrl, screenshot',
+      'Test case 1, step 2: "action" must be one of goto, click, type, select, waitFor, wait, assertText, assertVisible, assertUrl, screenshot',
+      'Test case 1, step 3: "selector" is required for the click action',
+      'Test case 1, step 4: "value" is required for the type action',
+      'Test case 1, step 5: "description" must be a non-empty string',
+      'Test case 1, step 6: must be an object with "description" and "action"'
+    ]);
+  });
+
+  it('reports missing test case fields', () => {
+    expect(issuesOf([{ title: 'No steps', steps: [], priority: 'urgent' }])).toEqual([
+      'Test case 1: "steps" must be a non-empty array',
+      'Test case 1: "expectedResult" must be a non-empty string',
+      'Test case 1: "priority" must be one of low, medium, high'
+    ]);
+    expect(issuesOf({ testCases: [] })).toEqual(['Response must be a JSON array of test cases']);
+  });
+});
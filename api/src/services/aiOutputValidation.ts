@@ -0,0 +1,233 @@
+import type { DocumentGenerated, TestCaseGenerated, TestCaseStepGenerated } from './aiService';
+import { SELECTOR_ACTIONS, STEP_ACTIONS, TestStepAction } from './testRunner';
+
+/**
+ * Schema checks for model output. Parsers either return data that matches
+ * TestCaseGenerated / DocumentGenerated or throw AIOutputValidationError with
+ * one message per problem, so the caller can re-ask the model with them.
+ */
+
+// Raised when a model's response does not match the expected structure
+export class AIOutputValidationError extends Error {
+  issues: string[];
+  rawOutput?: string;
+
+  constructor(issues: string[], rawOutput?: string) {
+    super(`AI response failed validation: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; ...' : ''}`);
+    this.name = 'AIOutputValidationError';
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+  }
+}
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const DOCUMENT_TYPES = ['requirements', 'specs', 'guides', 'api', 'faq'];
+const MAX_TEST_CASES = 20;
+const MAX_ISSUES = 20;
+// Steps whose action does nothing useful without a value
+const VALUE_ACTIONS: TestStepAction[] = ['type', 'select', 'assertText', 'assertUrl'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const stripCodeFences = (responseText: string): string => {
+  let jsonText = responseText.trim();
+
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  return jsonText;
+};
+
+const parseJson = (jsonText: string, responseText: string): unknown => {
+  try {
+    return JSON.parse(jsonText);
+  } catch (error) {
+    throw new AIOutputValidationError(
+      [`Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`],
+      responseText
+    );
+  }
+};
+
+const validateStep = (step: any, at: string, issues: string[]): TestCaseStepGenerated => {
+  if (!step || typeof step !== 'object' || Array.isArray(step)) {
+    issues.push(`${at}: must be an object with "description" and "action"`);
+    return step;
+  }
+  if (!isNonEmptyString(step.description)) {
+    issues.push(`${at}: "description" must be a non-empty string`);
+  }
+  if (!STEP_ACTIONS.includes(step.action)) {
+    issues.push(`${at}: "action" must be one of ${STEP_ACTIONS.join(', ')}`);
+  }
+  if (step.selector !== undefined && typeof step.selector !== 'string') {
+    issues.push(`${at}: "selector" must be a string`);
+  } else if (SELECTOR_ACTIONS.includes(step.action) && !isNonEmptyString(step.selector)) {
+    issues.push(`${at}: "selector" is required for the ${step.action} action`);
+  }
+  if (step.value !== undefined && typeof step.value !== 'string' && typeof step.value !== 'number') {
+    issues.push(`${at}: "value" must be a string`);
+  } else if (VALUE_ACTIONS.includes(step.action) && (step.value === undefined || step.value === '')) {
+    issues.push(`${at}: "value" is required for the ${step.action} action`);
+  }
+  if (step.url !== undefined && typeof step.url !== 'string') {
+    issues.push(`${at}: "url" must be a string`);
+  }
+
+  return {
+    description: isNonEmptyString(step.description) ? step.description.trim() : step.description,
+    action: step.action,
+    selector: isNonEmptyString(step.selector) ? step.selector.trim() : undefined,
+    value: typeof step.value === 'number' ? String(step.value) : step.value,
+    url: isNonEmptyString(step.url) ? step.url.trim() : undefined
+  };
+};
+
+export const validateTestCases = (value: unknown): { testCases: TestCaseGenerated[]; issues: string[] } => {
+  const issues: string[] = [];
+
+  if (!Array.isArray(value)) {
+    return { testCases: [], issues: ['Response must be a JSON array of test cases'] };
+  }
+  if (value.length === 0) {
+    issues.push('Response must contain at least one test case');
+  }
+  if (value.length > MAX_TEST_CASES) {
+    issues.push(`Response must contain at most ${MAX_TEST_CASES} test cases`);
+  }
+
+  const testCases = value.map((item: any, index): TestCaseGenerated => {
+    const at = `Test case ${index + 1}`;
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      issues.push(`${at} must be an object`);
+      return item;
+    }
+    if (!isNonEmptyString(item.title)) {
+      issues.push(`${at}: "title" must be a non-empty string`);
+    } else if (item.title.length > 200) {
+      issues.push(`${at}: "title" must be at most 200 characters`);
+    }
+    if (item.description !== undefined && typeof item.description !== 'string') {
+      issues.push(`${at}: "description" must be a string`);
+    }
+    if (!Array.isArray(item.steps) || item.steps.length === 0) {
+      issues.push(`${at}: "steps" must be a non-empty array`);
+    }
+    if (!isNonEmptyString(item.expectedResult)) {
+      issues.push(`${at}: "expectedResult" must be a non-empty string`);
+    }
+    if (!PRIORITIES.includes(item.priority)) {
+      issues.push(`${at}: "priority" must be one of ${PRIORITIES.join(', ')}`);
+    }
+
+    return {
+      title: isNonEmptyString(item.title) ? item.title.trim() : item.title,
+      description: typeof item.description === 'string' ? item.description.trim() : '',
+      steps: Array.isArray(item.steps)
+        ? item.steps.map((step: any, stepIndex: number) => validateStep(step, `${at}, step ${stepIndex + 1}`, issues))
+        : item.steps,
+      expectedResult: isNonEmptyString(item.expectedResult) ? item.expectedResult.trim() : item.expectedResult,
+      priority: item.priority
+    };
+  });
+
+  return { testCases, issues: issues.slice(0, MAX_ISSUES) };
+};
+
+export const validateDocument = (
+  value: unknown,
+  documentType?: string
+): { document: DocumentGenerated; issues: string[] } => {
+  const issues: string[] = [];
+  const item: any = value;
+
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { document: item, issues: ['Response must be a JSON object with "title", "content" and "type"'] };
+  }
+  if (!isNonEmptyString(item.title)) {
+    issues.push('"title" must be a non-empty string');
+  } else if (item.title.length > 200) {
+    issues.push('"title" must be at most 200 characters');
+  }
+  if (!isNonEmptyString(item.content)) {
+    issues.push('"content" must be a non-empty markdown string');
+  }
+  // A missing type is filled in from the request, a different one is a real mismatch
+  const type = item.type ?? documentType;
+  if (!DOCUMENT_TYPES.includes(type)) {
+    issues.push(`"type" must be one of ${DOCUMENT_TYPES.join(', ')}`);
+  } else if (documentType && type !== documentType) {
+    issues.push(`"type" must be "${documentType}"`);
+  }
+
+  return {
+    document: {
+      title: isNonEmptyString(item.title) ? item.title.trim() : item.title,
+      content: item.content,
+      type
+    },
+    issues
+  };
+};
+
+export const parseTestCasesOutput = (responseText: string): TestCaseGenerated[] => {
+  const parsed = parseJson(stripCodeFences(responseText), responseText);
+  const { testCases, issues } = validateTestCases(parsed);
+
+  if (issues.length > 0) {
+    throw new AIOutputValidationError(issues, responseText);
+  }
+  return testCases;
+};
+
+export const parseDocumentOutput = (responseText: string, documentType?: string): DocumentGenerated => {
+  let jsonText = stripCodeFences(responseText);
+
+  // The object is sometimes wrapped in a sentence of prose
+  const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    jsonText = jsonMatch[0];
+  }
+
+  const { document, issues } = validateDocument(parseJson(jsonText, responseText), documentType);
+
+  if (issues.length > 0) {
+    throw new AIOutputValidationError(issues, responseText);
+  }
+  return document;
+};
+
+// Streamed documents are plain markdown whose first level 1 heading is the title
+export const parseMarkdownDocumentOutput = (responseText: string, documentType: string): DocumentGenerated => {
+  const content = responseText.trim().replace(/^```(?:markdown|md)?\s*\n/, '').replace(/\n```$/, '').trim();
+  const titleMatch = content.match(/^#\s+(.+)$/m);
+  const issues: string[] = [];
+
+  if (!titleMatch) {
+    issues.push('Document must start with a level 1 heading ("# Title")');
+  }
+
+  const validation = validateDocument({ title: titleMatch?.[1] ?? 'Untitled', content, type: documentType }, documentType);
+  issues.push(...validation.issues);
+
+  if (issues.length > 0) {
+    throw new AIOutputValidationError(issues, responseText);
+  }
+  return validation.document;
+};
+
+export const buildRepairPrompt = (originalPrompt: string, previousOutput: string, issues: string[]): string =>
+  `${originalPrompt}
+
+Your previous response could not be used because of these problems:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousOutput.substring(0, 4000)}
+
+Return a corrected response that fixes every problem listed above. Return ONLY the JSON, with no other text, explanations or markdown formatting.`;
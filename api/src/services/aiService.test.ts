@@ -0,0 +1,128 @@
+import { AIConfigurationError, ConversationData, createAIService } from './aiService';
+import { validateDocument, validateTestCases } from './aiOutputValidation';
+import { estimateTokens } from './htmlCondenser';
+
+const page = `<html><head><title>Acme</title></head><body>
+  <h1>Dashboard</h1>
+  <form aria-label="Invite"><input name="email" type="email" required><select name="role"><option value="viewer">Viewer</option></select><button>Send invite</button></form>
+  <button>Export</button>
+  <a href="/settings">Settings</a>
+</body></html>`;
+
+const siteMap = [
+  { route: '/', title: 'Dashboard', depth: 0, links: ['/settings'], structure: 'Headings: h1 Dashboard' },
+  { route: '/settings', title: 'Settings', depth: 1, links: ['/'], structure: 'Headings: h1 Settings' }
+];
+
+describe('createAIService', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('only lets requests pick the mock provider when the server allows it', () => {
+    process.env.AI_PROVIDER = 'gemini';
+    delete process.env.AI_ALLOW_MOCK;
+    expect(() => createAIService({ provider: 'mock' })).toThrow(AIConfigurationError);
+
+    process.env.AI_ALLOW_MOCK = 'true';
+    expect(() => createAIService({ provider: 'mock' })).not.toThrow();
+
+    process.env.AI_ALLOW_MOCK = 'false';
+    process.env.AI_PROVIDER = 'mock';
+    expect(() => createAIService()).not.toThrow();
+    expect(() => createAIService({ provider: 'mock' })).not.toThrow();
+  });
+});
+
+describe('mock provider', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.AI_PROVIDER = 'mock';
+    delete process.env.AI_MOCK_FIXTURES_DIR;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('generates the same test cases for the same HTML', async () => {
+    const first = await createAIService().generateTestCases(page, 'Acme admin', siteMap);
+    const second = await createAIService().generateTestCases(page, 'Acme admin', siteMap);
+
+    expect(second).toEqual(first);
+    expect(validateTestCases(first).issues).toEqual([]);
+    expect(first.map(({ title }) => title)).toEqual([
+      'Submit Invite with valid data',
+      'Validate required fields in Invite',
+      '"Export" button works',
+      'Navigate via "Settings"',
+      'Settings (/settings) loads'
+    ]);
+  });
+
+  it('generates and streams the same document for the same HTML', async () => {
+    const service = createAIService();
+    const document = await service.generateDocument(page, undefined, 'specs', undefined, undefined, siteMap);
+    expect(await service.generateDocument(page, undefined, 'specs', undefined, undefined, siteMap)).toEqual(document);
+    expect(validateDocument(document, 'specs').issues).toEqual([]);
+
+    let streamed = '';
+    const result = await service.streamDocument({ onToken: (text) => { streamed += text; } }, page, undefined, 'specs', undefined, undefined, siteMap);
+    expect(result).toEqual(document);
+    expect(streamed).toBe(document.content);
+  });
+});
+
+describe('prompt budget', () => {
+  const env = { ...process.env };
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.OPENAI_MODELS = 'gpt-4o-mini';
+    delete process.env.AI_PROMPT_TOKENS;
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      choices: [{ message: { content: '{"title": "Specs", "content": "# Specs\\n\\nEvery page.", "type": "specs"}' } }]
+    })));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    global.fetch = originalFetch;
+    fetchMock.mockReset();
+  });
+
+  it('fits the page, the site map and the conversation into the model budget together', async () => {
+    const largePage = `<html><body>${`<section><h2>Card</h2><p>${'text '.repeat(200)}</p></section>`.repeat(500)}</body></html>`;
+    const largeSiteMap = Array.from({ length: 50 }, (_, index) => ({
+      route: `/page-${index}`,
+      title: `Page ${index}`,
+      depth: 1,
+      links: Array.from({ length: 200 }, (_, link) => `/page-${link}`),
+      structure: 'Button "Save" '.repeat(1400)
+    }));
+    const mergedMessages: ConversationData['mergedMessages'] = Array.from({ length: 400 }, (_, index) => ({
+      sender: index % 2 === 0 ? 'user' as const : 'ai' as const,
+      text: 'Add a settings page '.repeat(1000),
+      fileEdits: index % 2 === 1 ? [{ path: `src/pages/Page${index}.tsx`, action: 'edited' }] : []
+    }));
+
+    await createAIService({ provider: 'openai' }).generateDocument(
+      largePage, { userMessages: [], aiMessages: [], mergedMessages }, 'specs', undefined, undefined, largeSiteMap
+    );
+
+    const prompt: string = JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content;
+    // gpt-4o-mini gets 12,000 tokens of page content, plus the instructions around it
+    expect(estimateTokens(prompt)).toBeLessThanOrEqual(12500);
+    expect(prompt).toContain('User (Prompt 200): Add a settings page');
+    expect(prompt).toMatch(/\(\d+ earlier messages left out to fit the prompt\)/);
+    expect(prompt).toContain('Prompt 200: edited src/pages/Page399.tsx');
+    expect(prompt).toContain('### /page-0 (Page 0)');
+    expect(prompt).toContain('Page Outline');
+  });
+});
@@ -1,5 +1,20 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import winston from 'winston';
+import MockProvider from './mockProvider';
+import {
+  AIOutputValidationError,
+  buildRepairPrompt,
+  parseDocumentOutput,
+  parseMarkdownDocumentOutput,
+  parseTestCasesOutput
+} from './aiOutputValidation';
+import { buildChangeLog, formatChangeLog } from './conversationChangeLog';
+import { IFileEdit, ISiteMapPage } from '../models/Document';
+import { formatSiteMap } from './siteMap';
+import { CHARS_PER_TOKEN, condenseHTML, estimateTokens, shorten } from './htmlCondenser';
+import type { TestStepAction } from './testRunner';
+
+export { AIOutputValidationError };
 
 // Winston logger setup
 const aiLogger = winston.createLogger({
@@ -13,12 +28,19 @@ const aiLogger = winston.createLogger({
   ]
 });
 
+// A step the test runner can perform, as described in the API README
+export interface TestCaseStepGenerated {
+  description: string;
+  action: TestStepAction;
+  selector?: string;
+  value?: string;
+  url?: string;
+}
+
 export interface TestCaseGenerated {
   title: string;
   description: string;
-  steps: Array<{
-    description: string;
-  }>;
+  steps: TestCaseStepGenerated[];
   expectedResult: string;
   priority: 'low' | 'medium' | 'high';
 }
@@ -31,40 +53,229 @@ export interface DocumentGenerated {
 
 export interface ConversationData {
   userMessages: Array<{ sender: 'user'; text: string; timestamp?: string }>;
-  aiMessages: Array<{ sender: 'ai'; text: string; timestamp?: string }>;
-  mergedMessages: Array<{ sender: 'user' | 'ai'; text: string; timestamp?: string }>;
+  aiMessages: Array<{ sender: 'ai'; text: string; timestamp?: string; fileEdits?: IFileEdit[]; actions?: string[] }>;
+  mergedMessages: Array<{
+    sender: 'user' | 'ai';
+    text: string;
+    timestamp?: string;
+    // Files changed and other steps taken by AI replies, as reported by the editor
+    fileEdits?: IFileEdit[];
+    actions?: string[];
+  }>;
   url?: string;
   title?: string;
 }
 
+export interface DocumentStreamOptions {
+  // Called with each piece of markdown as the model produces it
+  onToken: (text: string) => void;
+  // Aborting stops the model request; the returned promise then rejects
+  signal?: AbortSignal;
+}
+
+// `siteMap` lists the other pages of the app, when the extension crawled it
 export interface AIProvider {
-  generateTestCases(htmlContent: string, projectContext?: string): Promise<TestCaseGenerated[]>;
+  generateTestCases(htmlContent: string, projectContext?: string, siteMap?: ISiteMapPage[]): Promise<TestCaseGenerated[]>;
   generateDocument(
     htmlContent: string,
     conversationData?: ConversationData,
     documentType?: string,
     customPrompt?: string,
-    projectContext?: string
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
+  ): Promise<DocumentGenerated>;
+  streamDocument(
+    stream: DocumentStreamOptions,
+    htmlContent: string,
+    conversationData?: ConversationData,
+    documentType?: string,
+    customPrompt?: string,
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
   ): Promise<DocumentGenerated>;
 }
 
-class GeminiProvider implements AIProvider {
-  private genAI: GoogleGenerativeAI;
-  private fallbackModels: string[] = [
-    'gemini-2.0-flash',
-    'gemini-1.5-pro',
-    'gemini-1.5-flash',
-    'gemini-1.5-flash-8b'
-  ];
-
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+export type AIProviderType = 'gemini' | 'openai' | 'mock';
+
+export interface AIServiceOptions {
+  provider?: AIProviderType;
+  model?: string;
+}
+
+// Raised when the selected provider is missing its API key or endpoint
+export class AIConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIConfigurationError';
   }
+}
 
-  async generateTestCases(htmlContent: string, projectContext?: string): Promise<TestCaseGenerated[]> {
-    const prompt = this.buildPrompt(htmlContent, projectContext);
+// HTTP error from a provider API; `status` drives the same retry decisions as Gemini SDK errors
+class AIProviderHttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AIProviderHttpError';
+    this.status = status;
+  }
+}
+
+const GEMINI_MODELS = [
+  'gemini-2.0-flash',
+  'gemini-1.5-pro',
+  'gemini-1.5-flash',
+  'gemini-1.5-flash-8b'
+];
+
+const OPENAI_MODELS = ['gpt-4o-mini', 'gpt-4o'];
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_TIMEOUT_MS = 120000;
+
+// Follow-up prompts per model that quote the validation errors back to it
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Tokens the page content (page outline, site map and conversation) may take up in a
+// prompt, by model name prefix. Models with a small or unknown context window, e.g.
+// most local ones, get the default
+const PROMPT_TOKEN_BUDGETS: Record<string, number> = {
+  'gemini-2': 32000,
+  'gemini-1.5-pro': 32000,
+  'gemini-1.5-flash-8b': 12000,
+  'gemini-1.5-flash': 24000,
+  'gpt-4o-mini': 12000,
+  'gpt-4o': 16000
+};
+const DEFAULT_PROMPT_TOKENS = 4000;
+
+// Shares of the budget the conversation and the site map may take; the page outline gets what they leave
+const CONVERSATION_TOKEN_SHARE = 0.3;
+const SITE_MAP_TOKEN_SHARE = 0.4;
+
+// Longest a single conversation message may be in a prompt
+const MAX_PROMPT_MESSAGE_LENGTH = 2000;
+
+// Room for the headings and notes formatConversation adds around the messages
+const CONVERSATION_HEADINGS_LENGTH = 200;
+
+const CHANGE_LOG_INSTRUCTIONS = 'When describing a file or feature, cite the prompt that created or changed it (e.g. "added in Prompt 3").';
+
+// AI_PROMPT_TOKENS sets one budget for every model
+const promptTokenBudget = (modelName: string): number => {
+  const configured = Number(process.env.AI_PROMPT_TOKENS);
+  if (Number.isInteger(configured) && configured > 0) return configured;
+
+  const prefix = Object.keys(PROMPT_TOKEN_BUDGETS)
+    .filter(key => modelName.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? PROMPT_TOKEN_BUDGETS[prefix] : DEFAULT_PROMPT_TOKENS;
+};
+
+// The last of `lines` that fit in `maxChars`, and how many earlier ones did not
+const keepLatest = (lines: string[], maxChars: number): { kept: string[]; omitted: number } => {
+  let start = lines.length;
+  let length = 0;
+  while (start > 0 && length + lines[start - 1].length + 1 <= maxChars) {
+    start--;
+    length += lines[start].length + 1;
+  }
+  return { kept: lines.slice(start), omitted: start };
+};
+
+/**
+ * The conversation and its change log in at most `maxTokens` tokens. Long
+ * messages are shortened; if that is not enough, the earliest messages and
+ * change log entries are left out. Prompts keep their numbers either way.
+ */
+const formatConversation = (conversationData: ConversationData, maxTokens: number): string => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  let promptNumber = 0;
+  const messages = conversationData.mergedMessages.map((msg) => {
+    const text = shorten(msg.text, MAX_PROMPT_MESSAGE_LENGTH);
+    return msg.sender === 'user' ? `User (Prompt ${++promptNumber}): ${text}` : `AI: ${text}`;
+  });
+
+  // The change log may take a third of the budget, the messages get the rest
+  const changeLog = keepLatest(formatChangeLog(buildChangeLog(conversationData.mergedMessages)), maxChars / 3);
+  const changeLogLength = changeLog.kept.reduce((total, line) => total + line.length + 1, 0);
+  const conversation = keepLatest(messages, maxChars - changeLogLength - CHANGE_LOG_INSTRUCTIONS.length - CONVERSATION_HEADINGS_LENGTH);
+
+  let text = 'Conversation Data:';
+  if (conversation.omitted > 0) {
+    text += `\n(${conversation.omitted} earlier messages left out to fit the prompt)`;
+  }
+  if (conversation.kept.length > 0) {
+    text += `\n${conversation.kept.join('\n')}`;
+  }
+  if (changeLog.kept.length > 0) {
+    text += `\n\nChange Log (files changed and steps taken in response to each prompt):`;
+    if (changeLog.omitted > 0) {
+      text += `\n(${changeLog.omitted} earlier entries left out to fit the prompt)`;
+    }
+    text += `\n${changeLog.kept.join('\n')}\n\n${CHANGE_LOG_INSTRUCTIONS}`;
+  }
+  return text;
+};
+
+// Page content of a prompt, already formatted and sized to fit the model's budget together
+interface PromptContent {
+  pageOutline: string;
+  conversation?: string;
+  siteMap?: string;
+}
+
+const fitPromptContent = (
+  modelName: string,
+  htmlContent: string,
+  conversationData?: ConversationData,
+  siteMap?: ISiteMapPage[]
+): PromptContent => {
+  const budget = promptTokenBudget(modelName);
+  const conversation = conversationData && conversationData.mergedMessages.length > 0
+    ? formatConversation(conversationData, Math.floor(budget * CONVERSATION_TOKEN_SHARE))
+    : undefined;
+  const siteMapText = siteMap && siteMap.length > 0
+    ? formatSiteMap(siteMap, Math.floor(budget * SITE_MAP_TOKEN_SHARE))
+    : undefined;
+  const outlineTokens = budget - estimateTokens(conversation || '') - estimateTokens(siteMapText || '');
+
+  return { pageOutline: condenseHTML(htmlContent, outlineTokens), conversation, siteMap: siteMapText };
+};
+
+const parseModelList = (value: string | undefined, defaults: string[]): string[] => {
+  const models = (value || '').split(',').map(model => model.trim()).filter(Boolean);
+  return models.length > 0 ? models : defaults;
+};
+
+/**
+ * Shared prompting, fallback and retry logic. Providers only implement the
+ * call that turns a prompt into text for one model.
+ */
+abstract class BaseAIProvider implements AIProvider {
+  protected fallbackModels: string[];
+
+  constructor(models: string[], preferredModel?: string) {
+    // A requested model is tried first, the usual fallbacks still apply after it
+    this.fallbackModels = preferredModel
+      ? [preferredModel, ...models.filter(model => model !== preferredModel)]
+      : models;
+  }
+
+  protected abstract generateText(modelName: string, prompt: string): Promise<string>;
+
+  // Like generateText, but passes each chunk to onToken as it arrives; resolves with the full text
+  protected abstract generateTextStream(
+    modelName: string,
+    prompt: string,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string>;
+
+  async generateTestCases(htmlContent: string, projectContext?: string, siteMap?: ISiteMapPage[]): Promise<TestCaseGenerated[]> {
+    let invalidOutput: AIOutputValidationError | undefined;
     
     for (const modelName of this.fallbackModels) {
+      const prompt = this.buildPrompt(fitPromptContent(modelName, htmlContent, undefined, siteMap), projectContext);
       try {
         console.log(`[AI] Trying model: ${modelName}`);
         const result = await this.tryGenerateWithRetry(modelName, prompt, 2);
@@ -78,6 +289,9 @@ class GeminiProvider implements AIProvider {
           error: error instanceof Error ? error.stack || error.message : error,
           time: new Date().toISOString()
         });
+        if (error instanceof AIOutputValidationError) {
+          invalidOutput = error;
+        }
         // Print simplified error to terminal
         if (error && typeof error === 'object' && 'status' in error) {
           const status = (error as any).status;
@@ -97,6 +311,10 @@ class GeminiProvider implements AIProvider {
     }
     
     console.log('[AI] All models failed. See logs/ai-errors.log for details.');
+    // A model that answered with unusable output is more useful to report than a generic failure
+    if (invalidOutput) {
+      throw invalidOutput;
+    }
     throw new Error('All AI models failed to generate test cases. Please try again later.');
   }
 
@@ -105,12 +323,9 @@ class GeminiProvider implements AIProvider {
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const model = this.genAI.getGenerativeModel({ model: modelName });
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
+        const text = await this.generateText(modelName, prompt);
         
-        return this.parseTestCases(text);
+        return await this.repairUntilValid(modelName, prompt, text, parseTestCasesOutput);
       } catch (error) {
         lastError = error as Error;
         // Log detailed error to file
@@ -146,19 +361,56 @@ class GeminiProvider implements AIProvider {
     throw lastError || new Error(`Failed to generate with ${modelName} after ${maxRetries} attempts`);
   }
 
-  private sleep(ms: number): Promise<void> {
+  /**
+   * Parses a response and, while it fails validation, re-asks the same model
+   * with the list of problems. Throws the last AIOutputValidationError when the
+   * model does not produce valid output within MAX_REPAIR_ATTEMPTS follow-ups.
+   */
+  private async repairUntilValid<T>(
+    modelName: string,
+    prompt: string,
+    responseText: string,
+    parse: (text: string) => T
+  ): Promise<T> {
+    let text = responseText;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return parse(text);
+      } catch (error) {
+        if (!(error instanceof AIOutputValidationError) || attempt >= MAX_REPAIR_ATTEMPTS) {
+          throw error;
+        }
+        aiLogger.error({
+          message: 'AI output failed validation',
+          model: modelName,
+          attempt: attempt + 1,
+          issues: error.issues,
+          time: new Date().toISOString()
+        });
+        console.log(`[AI] Invalid response from ${modelName} (${error.issues.length} issue(s)), asking for a corrected one...`);
+        text = await this.generateText(modelName, buildRepairPrompt(prompt, text, error.issues));
+      }
+    }
+  }
+
+  protected sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private buildPrompt(htmlContent: string, projectContext?: string): string {
-    return `You are an expert QA engineer. Analyze the following HTML structure from a web application and generate comprehensive test cases.
+  private buildPrompt({ pageOutline, siteMap }: PromptContent, projectContext?: string): string {
+    const crawled = siteMap !== undefined;
 
-${projectContext ? `Project Context: ${projectContext}` : ''}
+    return `You are an expert QA engineer. Analyze the following outline of a page from a web application and generate comprehensive test cases.
 
-HTML Structure:
-${htmlContent}
+${projectContext ? `Project Context: ${projectContext}` : ''}
 
-Generate 5-8 test cases that cover:
+Page Outline (condensed from the page's HTML, indented by nesting):
+${pageOutline}
+${crawled ? `\n${siteMap}\n` : ''}
+${crawled
+  ? 'Generate up to 20 test cases that together cover every page in the site map and the navigation between them. Start the steps of each test by opening the route it tests. Cover:'
+  : 'Generate 5-8 test cases that cover:'}
 1. Basic functionality tests
 2. User interaction tests  
 3. UI/UX validation tests
@@ -168,18 +420,30 @@ Generate 5-8 test cases that cover:
 For each test case, provide:
 - Title: Clear, concise test case name
 - Description: What this test validates
-- Steps: Detailed step-by-step instructions
+- Steps: Detailed step-by-step instructions that a headless browser can run
 - Expected Result: What should happen
 - Priority: low, medium, or high
 
+Each step has a "description" for people and an "action" for the browser:
+- "goto": open "url", a route of the app or a full URL; without "url" the page above is opened
+- "click", "waitFor", "assertVisible": the element matching "selector"
+- "type": type "value" into the field matching "selector"
+- "select": choose the option with the "value" attribute "value" in the select matching "selector"
+- "assertText": the element matching "selector" contains the text "value"
+- "assertUrl": the current URL contains "value"
+- "wait": pause for "value" milliseconds
+- "screenshot": capture the page
+Selectors are CSS selectors built from the names, labels and types in the outline, e.g. input[name="email"] or button[type="submit"]. Elements known only by their text can be selected with button::-p-text(Save) or a::-p-text(Pricing).
+
 Return ONLY a valid JSON array with this exact structure:
 [
   {
     "title": "Test case title",
     "description": "Test case description",
     "steps": [
-      {"description": "Step 1 description"},
-      {"description": "Step 2 description"}
+      {"description": "Open the login page", "action": "goto", "url": "/login"},
+      {"description": "Enter the email address", "action": "type", "selector": "input[name=email]", "value": "qa@example.com"},
+      {"description": "Submit the form", "action": "click", "selector": "button[type=submit]"}
     ],
     "expectedResult": "Expected outcome",
     "priority": "medium"
@@ -189,63 +453,23 @@ Return ONLY a valid JSON array with this exact structure:
 IMPORTANT: Return ONLY the JSON array. Do not include any other text, explanations, or markdown formatting.`;
   }
 
-  private parseTestCases(responseText: string): TestCaseGenerated[] {
-    try {
-      // Clean the response to extract JSON
-      let jsonText = responseText.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      const testCases = JSON.parse(jsonText);
-      
-      if (!Array.isArray(testCases)) {
-        throw new Error('Response is not an array');
-      }
-      
-      return testCases.map(tc => ({
-        title: tc.title || 'Generated Test Case',
-        description: tc.description || '',
-        steps: Array.isArray(tc.steps) ? tc.steps : [{ description: 'No steps provided' }],
-        expectedResult: tc.expectedResult || 'Test should pass',
-        priority: ['low', 'medium', 'high'].includes(tc.priority) ? tc.priority : 'medium'
-      }));
-      
-    } catch (error) {
-      aiLogger.error({
-        message: 'Error parsing AI response',
-        error: error instanceof Error ? error.stack || error.message : error,
-        time: new Date().toISOString()
-      });
-      console.log('[AI] Error parsing AI response. See logs/ai-errors.log for details.');
-      // Fallback: return a default test case
-      return [{
-        title: 'AI Generated Test Case',
-        description: 'Failed to parse AI response, manual review needed',
-        steps: [{ description: 'Review the generated content manually' }],
-        expectedResult: 'Manual verification required',
-        priority: 'medium'
-      }];
-    }
-  }
-
   async generateDocument(
     htmlContent: string,
     conversationData?: ConversationData,
     documentType: string = 'requirements',
     customPrompt?: string,
-    projectContext?: string
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
   ): Promise<DocumentGenerated> {
-    const prompt = this.buildDocumentPrompt(htmlContent, conversationData, documentType, customPrompt, projectContext);
+    let invalidOutput: AIOutputValidationError | undefined;
     
     for (const modelName of this.fallbackModels) {
+      const prompt = this.buildDocumentPrompt(
+        fitPromptContent(modelName, htmlContent, conversationData, siteMap), documentType, customPrompt, projectContext
+      );
       try {
         console.log(`[AI] Trying model for document generation: ${modelName}`);
-        const result = await this.tryGenerateDocumentWithRetry(modelName, prompt, 2);
+        const result = await this.tryGenerateDocumentWithRetry(modelName, prompt, documentType, 2);
         console.log(`[AI] Model ${modelName} succeeded for document generation.`);
         return result;
       } catch (error) {
@@ -255,25 +479,33 @@ IMPORTANT: Return ONLY the JSON array. Do not include any other text, explanatio
           error: error instanceof Error ? error.stack || error.message : error,
           time: new Date().toISOString()
         });
+        if (error instanceof AIOutputValidationError) {
+          invalidOutput = error;
+        }
         console.log(`[AI] Model ${modelName} failed for document generation.`);
       }
     }
     
     console.log('[AI] All models failed for document generation. See logs/ai-errors.log for details.');
+    if (invalidOutput) {
+      throw invalidOutput;
+    }
     throw new Error('All AI models failed to generate document. Please try again later.');
   }
 
-  private async tryGenerateDocumentWithRetry(modelName: string, prompt: string, maxRetries: number): Promise<DocumentGenerated> {
+  private async tryGenerateDocumentWithRetry(
+    modelName: string,
+    prompt: string,
+    documentType: string,
+    maxRetries: number
+  ): Promise<DocumentGenerated> {
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const model = this.genAI.getGenerativeModel({ model: modelName });
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
+        const text = await this.generateText(modelName, prompt);
         
-        return this.parseDocumentResponse(text);
+        return await this.repairUntilValid(modelName, prompt, text, (output) => parseDocumentOutput(output, documentType));
       } catch (error) {
         lastError = error as Error;
         aiLogger.error({
@@ -295,11 +527,91 @@ IMPORTANT: Return ONLY the JSON array. Do not include any other text, explanatio
     throw lastError || new Error(`Failed to generate document with ${modelName} after ${maxRetries} attempts`);
   }
 
-  private buildDocumentPrompt(
+  /**
+   * Streams a markdown document. Models are tried in order until one starts
+   * producing output; once tokens have been sent a failure is final, because
+   * the client has already rendered them. Output is validated when the stream
+   * ends, but there is no repair round since it cannot be taken back.
+   */
+  async streamDocument(
+    stream: DocumentStreamOptions,
     htmlContent: string,
     conversationData?: ConversationData,
     documentType: string = 'requirements',
     customPrompt?: string,
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
+  ): Promise<DocumentGenerated> {
+    for (const modelName of this.fallbackModels) {
+      const prompt = this.buildDocumentStreamPrompt(
+        fitPromptContent(modelName, htmlContent, conversationData, siteMap), documentType, customPrompt, projectContext
+      );
+      let started = false;
+      try {
+        console.log(`[AI] Trying model for document streaming: ${modelName}`);
+        const text = await this.generateTextStream(modelName, prompt, (token) => {
+          started = true;
+          stream.onToken(token);
+        }, stream.signal);
+        console.log(`[AI] Model ${modelName} finished streaming document.`);
+        return parseMarkdownDocumentOutput(text, documentType);
+      } catch (error) {
+        if (stream.signal?.aborted || started || error instanceof AIOutputValidationError) {
+          throw error;
+        }
+        aiLogger.error({
+          message: 'AI document streaming error',
+          model: modelName,
+          error: error instanceof Error ? error.stack || error.message : error,
+          time: new Date().toISOString()
+        });
+        console.log(`[AI] Model ${modelName} failed for document streaming.`);
+      }
+    }
+
+    console.log('[AI] All models failed for document streaming. See logs/ai-errors.log for details.');
+    throw new Error('All AI models failed to generate document. Please try again later.');
+  }
+
+  private buildDocumentPrompt(
+    content: PromptContent,
+    documentType: string = 'requirements',
+    customPrompt?: string,
+    projectContext?: string
+  ): string {
+    let prompt = this.buildDocumentContext(content, documentType, customPrompt, projectContext);
+
+    prompt += `\n\nGenerate a well-structured, comprehensive ${documentType} document. Return ONLY a JSON object with this exact structure:
+{
+  "title": "Document title",
+  "content": "Document content in markdown format",
+  "type": "${documentType}"
+}
+
+IMPORTANT: Return ONLY the JSON object. Do not include any other text, explanations, or markdown formatting.`;
+
+    return prompt;
+  }
+
+  private buildDocumentStreamPrompt(
+    content: PromptContent,
+    documentType: string = 'requirements',
+    customPrompt?: string,
+    projectContext?: string
+  ): string {
+    let prompt = this.buildDocumentContext(content, documentType, customPrompt, projectContext);
+
+    prompt += `\n\nGenerate a well-structured, comprehensive ${documentType} document in markdown. The first line must be the document title as a level 1 heading ("# Title").
+
+IMPORTANT: Return ONLY the markdown document. Do not wrap it in a code block and do not include any other text or explanations.`;
+
+    return prompt;
+  }
+
+  private buildDocumentContext(
+    content: PromptContent,
+    documentType: string = 'requirements',
+    customPrompt?: string,
     projectContext?: string
   ): string {
     const documentDescriptions = {
@@ -316,125 +628,191 @@ IMPORTANT: Return ONLY the JSON array. Do not include any other text, explanatio
       prompt += `\n\nProject Context: ${projectContext}`;
     }
 
-    if (conversationData && conversationData.mergedMessages.length > 0) {
-      prompt += `\n\nConversation Data:`;
-      conversationData.mergedMessages.forEach((msg, index) => {
-        prompt += `\n${msg.sender === 'user' ? 'User' : 'AI'}: ${msg.text}`;
-      });
+    if (content.conversation) {
+      prompt += `\n\n${content.conversation}`;
     }
 
-    prompt += `\n\nHTML Structure:\n${htmlContent}`;
+    prompt += `\n\nPage Outline (condensed from the page's HTML, indented by nesting):\n${content.pageOutline}`;
 
-    prompt += `\n\nGenerate a well-structured, comprehensive ${documentType} document. Return ONLY a JSON object with this exact structure:
-{
-  "title": "Document title",
-  "content": "Document content in markdown format",
-  "type": "${documentType}"
+    if (content.siteMap) {
+      prompt += `\n\n${content.siteMap}`;
+      prompt += `\n\nThe Page Outline is only the first page. Describe every page in the site map and how users move between them.`;
+    }
+
+    return prompt;
+  }
 }
 
-IMPORTANT: Return ONLY the JSON object. Do not include any other text, explanations, or markdown formatting.`;
+class GeminiProvider extends BaseAIProvider {
+  private genAI: GoogleGenerativeAI;
 
-    return prompt;
+  constructor(apiKey: string, model?: string) {
+    super(GEMINI_MODELS, model);
+    this.genAI = new GoogleGenerativeAI(apiKey);
   }
 
-  private parseDocumentResponse(responseText: string): DocumentGenerated {
-    try {
-      let jsonText = responseText.trim();
-      
-      // Handle multiple markdown code block formats
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Try to find JSON object in the response if it's embedded in other text
-      const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[0];
-      }
-      
-      const document = JSON.parse(jsonText);
-      
-      return {
-        title: document.title || 'Generated Document',
-        content: document.content || 'Document content could not be parsed.',
-        type: document.type || 'requirements'
-      };
-      
-    } catch (error) {
-      aiLogger.error({
-        message: 'Error parsing AI document response',
-        error: error instanceof Error ? error.stack || error.message : error,
-        time: new Date().toISOString()
-      });
-      console.log('[AI] Error parsing AI document response. See logs/ai-errors.log for details.');
-      
-      // Try to extract content from the raw response as fallback
-      let fallbackContent = responseText;
-      
-      // If there's a content field visible in the raw response, try to extract it
-      const contentMatch = responseText.match(/"content":\s*"([^"]*(?:\\.[^"]*)*)"/);
-      if (contentMatch) {
-        try {
-          fallbackContent = JSON.parse(`"${contentMatch[1]}"`); // Parse the escaped string
-        } catch {
-          fallbackContent = contentMatch[1].replace(/\\n/g, '\n').replace(/\\"/g, '"');
-        }
+  protected async generateText(modelName: string, prompt: string): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: modelName });
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  }
+
+  protected async generateTextStream(
+    modelName: string,
+    prompt: string,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: modelName });
+    const result = await model.generateContentStream(prompt, { signal });
+    let text = '';
+
+    for await (const chunk of result.stream) {
+      const token = chunk.text();
+      if (token) {
+        text += token;
+        onToken(token);
       }
-      
-      return {
-        title: 'AI Generated Document',
-        content: fallbackContent,
-        type: 'requirements'
-      };
     }
+    return text;
   }
 }
 
-// Future providers can be added here (OpenAI, Anthropic, etc.)
-class OpenAIProvider implements AIProvider {
-  constructor(apiKey: string) {
-    // TODO: Implement OpenAI provider
+// Any server speaking the OpenAI chat completions API (OpenAI, Ollama, vLLM, LM Studio, ...)
+class OpenAIProvider extends BaseAIProvider {
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string | undefined, baseUrl: string, models: string[], model?: string) {
+    super(models, model);
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
   }
 
-  async generateTestCases(htmlContent: string, projectContext?: string): Promise<TestCaseGenerated[]> {
-    throw new Error('OpenAI provider not yet implemented');
+  protected async generateText(modelName: string, prompt: string): Promise<string> {
+    const response = await this.requestCompletion(modelName, prompt, false, AbortSignal.timeout(OPENAI_TIMEOUT_MS));
+    const data: any = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw new Error(`Model ${modelName} returned an empty completion`);
+    }
+
+    return content;
   }
 
-  async generateDocument(
-    htmlContent: string,
-    conversationData?: ConversationData,
-    documentType?: string,
-    customPrompt?: string,
-    projectContext?: string
-  ): Promise<DocumentGenerated> {
-    throw new Error('OpenAI provider not yet implemented');
+  protected async generateTextStream(
+    modelName: string,
+    prompt: string,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const timeout = AbortSignal.timeout(OPENAI_TIMEOUT_MS);
+    const response = await this.requestCompletion(
+      modelName,
+      prompt,
+      true,
+      signal ? AbortSignal.any([signal, timeout]) : timeout
+    );
+
+    if (!response.body) {
+      throw new Error(`Model ${modelName} returned an empty stream`);
+    }
+
+    // Server-sent events: one `data: {json}` line per chunk, terminated by `data: [DONE]`
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') return text;
+
+        const token = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof token === 'string' && token.length > 0) {
+          text += token;
+          onToken(token);
+        }
+      }
+    }
+    return text;
+  }
+
+  private async requestCompletion(modelName: string, prompt: string, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: modelName,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.2,
+        ...(stream ? { stream: true } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new AIProviderHttpError(
+        `Chat completion request failed with status ${response.status}: ${body.substring(0, 500)}`,
+        response.status
+      );
+    }
+
+    return response;
   }
 }
 
 export class AIService {
   private provider: AIProvider;
 
-  constructor(providerType: 'gemini' | 'openai' = 'gemini', apiKey: string) {
+  constructor(providerType: AIProviderType = 'gemini', apiKey?: string, model?: string) {
     switch (providerType) {
       case 'gemini':
-        this.provider = new GeminiProvider(apiKey);
+        if (!apiKey) {
+          throw new AIConfigurationError('AI provider "gemini" is not configured');
+        }
+        this.provider = new GeminiProvider(apiKey, model);
         break;
       case 'openai':
-        this.provider = new OpenAIProvider(apiKey);
+        this.provider = new OpenAIProvider(
+          apiKey,
+          process.env.OPENAI_BASE_URL || OPENAI_BASE_URL,
+          parseModelList(process.env.OPENAI_MODELS, OPENAI_MODELS),
+          model
+        );
+        break;
+      case 'mock':
+        this.provider = new MockProvider();
         break;
       default:
         throw new Error(`Unsupported AI provider: ${providerType}`);
     }
   }
 
-  async generateTestCases(htmlContent: string, projectContext?: string): Promise<TestCaseGenerated[]> {
+  async generateTestCases(htmlContent: string, projectContext?: string, siteMap?: ISiteMapPage[]): Promise<TestCaseGenerated[]> {
     if (!htmlContent || htmlContent.trim().length === 0) {
       throw new Error('HTML content is required for test case generation');
     }
 
-    return this.provider.generateTestCases(htmlContent, projectContext);
+    return this.provider.generateTestCases(htmlContent, projectContext, siteMap);
   }
 
   async generateDocument(
@@ -442,14 +820,62 @@ export class AIService {
     conversationData?: ConversationData,
     documentType?: string,
     customPrompt?: string,
-    projectContext?: string
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
   ): Promise<DocumentGenerated> {
     if (!htmlContent || htmlContent.trim().length === 0) {
       throw new Error('HTML content is required for document generation');
     }
 
-    return this.provider.generateDocument(htmlContent, conversationData, documentType, customPrompt, projectContext);
+    return this.provider.generateDocument(htmlContent, conversationData, documentType, customPrompt, projectContext, siteMap);
+  }
+
+  async streamDocument(
+    stream: DocumentStreamOptions,
+    htmlContent: string,
+    conversationData?: ConversationData,
+    documentType?: string,
+    customPrompt?: string,
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
+  ): Promise<DocumentGenerated> {
+    if (!htmlContent || htmlContent.trim().length === 0) {
+      throw new Error('HTML content is required for document generation');
+    }
+
+    return this.provider.streamDocument(stream, htmlContent, conversationData, documentType, customPrompt, projectContext, siteMap);
   }
 }
 
+/**
+ * Builds an AIService from the environment. AI_PROVIDER and AI_MODEL pick the
+ * defaults; a request may override them, but only with a provider that is
+ * configured on this server.
+ */
+export const createAIService = (options: AIServiceOptions = {}): AIService => {
+  const defaultProvider = (process.env.AI_PROVIDER as AIProviderType) || 'gemini';
+  const provider = options.provider || defaultProvider;
+  // AI_MODEL names a model of the default provider only
+  const model = options.model || (provider === defaultProvider ? process.env.AI_MODEL : undefined) || undefined;
+
+  switch (provider) {
+    case 'gemini':
+      return new AIService('gemini', process.env.GEMINI_KEY, model);
+    case 'openai':
+      // Local servers usually need no key, but the hosted OpenAI API always does
+      if (!process.env.OPENAI_API_KEY && !process.env.OPENAI_BASE_URL) {
+        throw new AIConfigurationError('AI provider "openai" is not configured');
+      }
+      return new AIService('openai', process.env.OPENAI_API_KEY, model);
+    case 'mock':
+      // Canned output must not stand in for a real model unless the server is set up for it
+      if (defaultProvider !== 'mock' && process.env.AI_ALLOW_MOCK !== 'true') {
+        throw new AIConfigurationError('AI provider "mock" is not enabled on this server');
+      }
+      return new AIService('mock');
+    default:
+      throw new AIConfigurationError(`Unsupported AI provider: ${provider}`);
+  }
+};
+
 export default AIService; 
\ No newline at end of file
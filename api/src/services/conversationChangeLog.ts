@@ -0,0 +1,52 @@
+import { IConversationMessage, IFileEdit } from '../models/Document';
+
+/**
+ * Groups the files and steps the AI reported changing by the prompt that asked
+ * for them, so generated documents can say which prompt changed which file.
+ * Prompts are numbered in conversation order, starting at 1.
+ */
+
+export interface PromptChanges {
+  promptNumber: number;
+  prompt: string;
+  fileEdits: IFileEdit[];
+  actions: string[];
+}
+
+export const buildChangeLog = (messages: IConversationMessage[]): PromptChanges[] => {
+  const changeLog: PromptChanges[] = [];
+
+  for (const message of messages) {
+    if (message.sender === 'user') {
+      changeLog.push({ promptNumber: changeLog.length + 1, prompt: message.text, fileEdits: [], actions: [] });
+      continue;
+    }
+
+    // Replies shown before the first prompt have no prompt to cite
+    const entry = changeLog[changeLog.length - 1];
+    if (!entry) continue;
+
+    for (const fileEdit of message.fileEdits || []) {
+      if (!entry.fileEdits.some(({ path, action }) => path === fileEdit.path && action === fileEdit.action)) {
+        entry.fileEdits.push({ path: fileEdit.path, action: fileEdit.action });
+      }
+    }
+    for (const action of message.actions || []) {
+      if (!entry.actions.includes(action)) entry.actions.push(action);
+    }
+  }
+
+  return changeLog;
+};
+
+// One line per prompt that changed something, e.g. "Prompt 2: edited src/App.tsx; Installed @dnd-kit/core"
+export const formatChangeLog = (changeLog: PromptChanges[]): string[] =>
+  changeLog
+    .filter(({ fileEdits, actions }) => fileEdits.length > 0 || actions.length > 0)
+    .map(({ promptNumber, fileEdits, actions }) => {
+      const changes = [
+        fileEdits.map(({ action, path }) => `${action} ${path}`).join(', '),
+        actions.join(', ')
+      ].filter(Boolean);
+      return `Prompt ${promptNumber}: ${changes.join('; ')}`;
+    });
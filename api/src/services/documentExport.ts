@@ -0,0 +1,205 @@
+import JSZip from 'jszip';
+import { Marked } from 'marked';
+import puppeteer, { Browser } from 'puppeteer-core';
+import { IConversationData, IDocument } from '../models/Document';
+import { buildChangeLog, formatChangeLog } from './conversationChangeLog';
+
+/**
+ * Renders stored documents into downloadable formats. HTML and PDF share one
+ * stylesheet; the PDF is printed from that HTML by headless Chromium with
+ * JavaScript and network access disabled, so document content cannot make
+ * the server fetch anything.
+ */
+
+export type ExportFormat = 'pdf' | 'html' | 'md' | 'zip';
+
+const PDF_TIMEOUT_MS = 30000;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Raw HTML in AI output is shown as text, and only ordinary link schemes are kept
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    }
+  },
+  walkTokens(token) {
+    if ((token.type === 'link' || token.type === 'image') && !/^(https?:|mailto:|#|\/|\.)/i.test(token.href)) {
+      token.href = '#';
+    }
+  }
+});
+
+const STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; font-size: 11pt; line-height: 1.55; color: #1f2937; max-width: 780px; margin: 40px auto; padding: 0 24px; }
+  h1, h2, h3, h4 { color: #111827; line-height: 1.25; margin: 1.4em 0 0.5em; }
+  h1 { font-size: 2em; border-bottom: 2px solid #e5e7eb; padding-bottom: 0.3em; }
+  h2 { font-size: 1.5em; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.2em; }
+  a { color: #2563eb; }
+  code { font-family: Consolas, "SFMono-Regular", Menlo, monospace; font-size: 0.9em; background: #f3f4f6; padding: 0.1em 0.3em; border-radius: 3px; }
+  pre { background: #f3f4f6; padding: 12px 16px; border-radius: 6px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 10px; text-align: left; }
+  th { background: #f3f4f6; }
+  blockquote { margin: 1em 0; padding: 0 1em; color: #4b5563; border-left: 4px solid #d1d5db; }
+  .metadata { margin-top: 3em; padding-top: 1em; border-top: 1px solid #e5e7eb; font-size: 0.85em; color: #6b7280; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+const startsWithTitle = (content: string) => /^\s*#\s+\S/.test(content);
+
+const exportMarkdown = (document: IDocument): string =>
+  startsWithTitle(document.content) ? document.content : `# ${document.title}\n\n${document.content}`;
+
+export const renderDocumentHtml = (document: IDocument): string => {
+  const body = markdown.parse(exportMarkdown(document), { async: false }) as string;
+  const metadata = [
+    document.url ? `Source: <a href="${escapeHtml(document.url)}">${escapeHtml(document.url)}</a>` : '',
+    `Generated: ${escapeHtml(new Date(document.createdAt).toLocaleString())}`
+  ].filter(Boolean).join('<br>');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+<div class="metadata">${metadata}</div>
+</body>
+</html>
+`;
+};
+
+export const renderDocumentPdf = async (document: IDocument): Promise<Buffer> => {
+  const executablePath = process.env.CHROMIUM_PATH;
+  if (!executablePath) {
+    throw new Error('CHROMIUM_PATH is not configured; cannot render PDF');
+  }
+
+  let browser: Browser | undefined;
+  try {
+    browser = await puppeteer.launch({
+      executablePath,
+      headless: true,
+      args: ['--no-sandbox', '--disable-dev-shm-usage']
+    });
+
+    const page = await browser.newPage();
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (request.url().startsWith('data:')) {
+        request.continue();
+      } else {
+        request.abort();
+      }
+    });
+
+    await page.setContent(renderDocumentHtml(document), { waitUntil: 'load', timeout: PDF_TIMEOUT_MS });
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '20mm', bottom: '20mm', left: '18mm', right: '18mm' },
+      displayHeaderFooter: true,
+      headerTemplate: '<span></span>',
+      footerTemplate: '<div style="font-size:8px;width:100%;text-align:center;color:#9ca3af;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>',
+      timeout: PDF_TIMEOUT_MS
+    });
+
+    return Buffer.from(pdf);
+  } finally {
+    await browser?.close().catch(() => undefined);
+  }
+};
+
+export const conversationTranscript = (conversationData: IConversationData): string => {
+  const lines = [`# Conversation${conversationData.title ? `: ${conversationData.title}` : ''}`, ''];
+
+  if (conversationData.url) {
+    lines.push(`Source: ${conversationData.url}`, '');
+  }
+
+  let promptNumber = 0;
+  for (const message of conversationData.mergedMessages || []) {
+    const timestamp = message.timestamp ? ` (${message.timestamp})` : '';
+    const heading = message.sender === 'user' ? `User (Prompt ${++promptNumber})` : 'AI';
+    lines.push(`## ${heading}${timestamp}`, '', message.text, '');
+  }
+
+  const changeLog = formatChangeLog(buildChangeLog(conversationData.mergedMessages || []));
+  if (changeLog.length > 0) {
+    lines.push('## Change Log', '', ...changeLog.map((line) => `- ${line}`), '');
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Bundles the markdown with what it was generated from: the conversation
+ * transcript and the captured page snapshot, which the sidepanel stores
+ * either as raw HTML or as a JSON summary of the page.
+ */
+export const buildDocumentBundle = async (document: IDocument): Promise<Buffer> => {
+  const zip = new JSZip();
+
+  zip.file('document.md', exportMarkdown(document));
+
+  const conversationData = document.conversationData;
+  if (conversationData && conversationData.mergedMessages?.length > 0) {
+    zip.file('conversation.md', conversationTranscript(conversationData));
+  }
+
+  if (document.htmlContent) {
+    const isJson = /^\s*[{[]/.test(document.htmlContent);
+    zip.file(isJson ? 'page-snapshot.json' : 'page-snapshot.html', document.htmlContent);
+  }
+
+  zip.file('metadata.json', JSON.stringify({
+    id: document._id,
+    title: document.title,
+    documentType: document.documentType,
+    generationType: document.generationType,
+    customPrompt: document.customPrompt,
+    projectContext: document.projectContext,
+    url: document.url,
+    version: document.currentVersion || 1,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+export const exportDocument = async (
+  document: IDocument,
+  format: ExportFormat
+): Promise<{ body: Buffer | string; contentType: string; extension: string }> => {
+  switch (format) {
+    case 'pdf':
+      return { body: await renderDocumentPdf(document), contentType: 'application/pdf', extension: 'pdf' };
+    case 'html':
+      return { body: renderDocumentHtml(document), contentType: 'text/html; charset=utf-8', extension: 'html' };
+    case 'md':
+      return { body: exportMarkdown(document), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'zip':
+      return { body: await buildDocumentBundle(document), contentType: 'application/zip', extension: 'zip' };
+  }
+};
+
+// ASCII fallback for old clients plus the RFC 5987 form for the real title
+export const attachmentDisposition = (title: string, extension: string): string => {
+  const fallback = title.replace(/[^\w\s.-]/g, '').trim().replace(/\s+/g, '_') || 'document';
+  return `attachment; filename="${fallback}.${extension}"; filename*=UTF-8''${encodeURIComponent(`${title}.${extension}`)}`;
+};
@@ -0,0 +1,342 @@
+import {
+  AlignmentType,
+  Bookmark,
+  Document as DocxDocument,
+  ExternalHyperlink,
+  HeadingLevel,
+  InternalHyperlink,
+  LevelFormat,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { marked, Token, Tokens } from 'marked';
+
+/**
+ * Converts markdown to a DOCX document by walking the token tree produced by
+ * marked's lexer, so nesting (lists in lists, bold inside links, ...) keeps
+ * its meaning. Headings are bookmarked and linked from a table of contents
+ * at the top, which works in every viewer, unlike a Word TOC field.
+ */
+
+export interface DocxOptions {
+  // Used as the title when the markdown does not start with a level 1 heading of its own
+  title?: string;
+  // Leave out the table of contents even when the document has enough headings
+  tableOfContents?: boolean;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  link?: boolean;
+}
+
+type BlockChild = Paragraph | Table;
+
+interface ConverterState {
+  // One numbering instance per ordered list so each list restarts at 1
+  nextListInstance: number;
+  headings: Array<{ anchor: string; text: string; depth: number }>;
+}
+
+const CODE_FONT = 'Consolas';
+const CODE_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' };
+const LINK_COLOR = '0563C1';
+const TOC_MIN_HEADINGS = 3;
+const TOC_MAX_DEPTH = 3;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const ALIGNMENTS = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const plainText = (tokens: Token[] = []): string =>
+  tokens.map((token: any) => (token.tokens ? plainText(token.tokens) : decodeEntities(token.text || ''))).join('');
+
+const isSafeLink = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+const textRun = (text: string, style: RunStyle) =>
+  new TextRun({
+    text,
+    bold: style.bold,
+    italics: style.italics,
+    strike: style.strike,
+    ...(style.link ? { color: LINK_COLOR, underline: {} } : {})
+  });
+
+const convertInline = (tokens: Token[] = [], style: RunStyle = {}): ParagraphChild[] => {
+  const children: ParagraphChild[] = [];
+
+  for (const token of tokens as Tokens.Generic[]) {
+    switch (token.type) {
+      case 'strong':
+        children.push(...convertInline(token.tokens, { ...style, bold: true }));
+        break;
+      case 'em':
+        children.push(...convertInline(token.tokens, { ...style, italics: true }));
+        break;
+      case 'del':
+        children.push(...convertInline(token.tokens, { ...style, strike: true }));
+        break;
+      case 'codespan':
+        children.push(new TextRun({ text: decodeEntities(token.text), font: CODE_FONT, shading: CODE_SHADING, bold: style.bold }));
+        break;
+      case 'link':
+        if (isSafeLink(token.href)) {
+          children.push(new ExternalHyperlink({
+            link: token.href,
+            children: convertInline(token.tokens, { ...style, link: true })
+          }));
+        } else {
+          children.push(...convertInline(token.tokens, style));
+        }
+        break;
+      case 'image':
+        children.push(textRun(`[${token.text || 'image'}]`, { ...style, italics: true }));
+        break;
+      case 'br':
+        children.push(new TextRun({ text: '', break: 1 }));
+        break;
+      case 'html':
+        // Inline tags are dropped; their text content is kept
+        break;
+      default:
+        if (token.tokens) {
+          children.push(...convertInline(token.tokens, style));
+        } else if (token.text) {
+          children.push(textRun(decodeEntities(token.text), style));
+        }
+    }
+  }
+
+  return children;
+};
+
+const convertList = (list: Tokens.List, depth: number, state: ConverterState): BlockChild[] => {
+  const reference = list.ordered ? 'ordered-list' : 'bullet-list';
+  const instance = list.ordered ? state.nextListInstance++ : 0;
+  const level = Math.min(depth, 8);
+  const children: BlockChild[] = [];
+
+  for (const item of list.items) {
+    let first = true;
+
+    for (const token of item.tokens as Tokens.Generic[]) {
+      if (token.type === 'list') {
+        children.push(...convertList(token as Tokens.List, depth + 1, state));
+        continue;
+      }
+      if (token.type === 'space') continue;
+
+      if ((token.type === 'text' || token.type === 'paragraph') && first) {
+        const checkbox = item.task ? [new TextRun({ text: item.checked ? '☑ ' : '☐ ' })] : [];
+        children.push(new Paragraph({
+          numbering: { reference, level, instance },
+          children: [...checkbox, ...convertInline(token.tokens)]
+        }));
+        first = false;
+        continue;
+      }
+
+      // Further paragraphs, code blocks or tables in an item are indented under it
+      children.push(...convertBlocks([token], state, { indent: 720 * (level + 1) }));
+    }
+  }
+
+  return children;
+};
+
+const convertTable = (table: Tokens.Table): Table => {
+  const cell = (cell: Tokens.TableCell, header: boolean) =>
+    new TableCell({
+      shading: header ? { type: ShadingType.CLEAR, color: 'auto', fill: 'E5E7EB' } : undefined,
+      margins: { top: 60, bottom: 60, left: 100, right: 100 },
+      children: [new Paragraph({
+        alignment: cell.align ? ALIGNMENTS[cell.align] : undefined,
+        children: convertInline(cell.tokens, { bold: header })
+      })]
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: table.header.map((header) => cell(header, true)) }),
+      ...table.rows.map((row) => new TableRow({ children: row.map((rowCell) => cell(rowCell, false)) }))
+    ]
+  });
+};
+
+const convertBlocks = (tokens: Token[], state: ConverterState, layout: { indent?: number } = {}): BlockChild[] => {
+  const children: BlockChild[] = [];
+  const indent = layout.indent ? { left: layout.indent } : undefined;
+
+  for (const token of tokens as Tokens.Generic[]) {
+    switch (token.type) {
+      case 'heading': {
+        const anchor = `heading_${state.headings.length + 1}`;
+        state.headings.push({ anchor, text: plainText(token.tokens), depth: token.depth });
+        children.push(new Paragraph({
+          heading: HEADING_LEVELS[Math.min(token.depth, 6) - 1],
+          children: [new Bookmark({ id: anchor, children: convertInline(token.tokens) })]
+        }));
+        break;
+      }
+      case 'paragraph':
+      case 'text':
+        children.push(new Paragraph({
+          indent,
+          spacing: { after: 120 },
+          children: convertInline(token.tokens || [{ type: 'text', raw: token.raw, text: token.text }])
+        }));
+        break;
+      case 'list':
+        children.push(...convertList(token as Tokens.List, 0, state));
+        break;
+      case 'table':
+        children.push(convertTable(token as Tokens.Table));
+        children.push(new Paragraph({ text: '' }));
+        break;
+      case 'code': {
+        const lines = (token.text as string).split('\n');
+        lines.forEach((line, index) => {
+          children.push(new Paragraph({
+            indent,
+            shading: CODE_SHADING,
+            spacing: { before: index === 0 ? 120 : 0, after: index === lines.length - 1 ? 120 : 0 },
+            children: [new TextRun({ text: line || ' ', font: CODE_FONT, size: 18 })]
+          }));
+        });
+        break;
+      }
+      case 'blockquote':
+        for (const child of convertBlocks(token.tokens || [], state, { indent: (layout.indent || 0) + 567 })) {
+          children.push(child);
+        }
+        break;
+      case 'hr':
+        children.push(new Paragraph({ thematicBreak: true, text: '' }));
+        break;
+      case 'html': {
+        const text = decodeEntities((token.text as string).replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim());
+        if (text) {
+          children.push(new Paragraph({ indent, text }));
+        }
+        break;
+      }
+      case 'space':
+      case 'def':
+        break;
+      default:
+        if (token.text) {
+          children.push(new Paragraph({ indent, text: decodeEntities(token.text) }));
+        }
+    }
+  }
+
+  return children;
+};
+
+const buildTableOfContents = (headings: ConverterState['headings']): Paragraph[] => {
+  const entries = headings.filter((heading) => heading.depth <= TOC_MAX_DEPTH);
+  if (entries.length < TOC_MIN_HEADINGS) {
+    return [];
+  }
+
+  const topDepth = Math.min(...entries.map((heading) => heading.depth));
+
+  return [
+    new Paragraph({ heading: HeadingLevel.HEADING_2, text: 'Table of Contents' }),
+    ...entries.map((heading) => new Paragraph({
+      indent: { left: 360 * (heading.depth - topDepth) },
+      spacing: { after: 60 },
+      children: [new InternalHyperlink({
+        anchor: heading.anchor,
+        children: [new TextRun({ text: heading.text, color: LINK_COLOR })]
+      })]
+    })),
+    new Paragraph({ thematicBreak: true, text: '' })
+  ];
+};
+
+const bulletLevels = ['•', '◦', '▪'];
+
+export const markdownToDocx = (markdown: string, options: DocxOptions = {}): DocxDocument => {
+  const tokens = marked.lexer(markdown, { gfm: true });
+  const firstBlock = tokens.find((token) => token.type !== 'space');
+  const hasOwnTitle = firstBlock?.type === 'heading' && (firstBlock as Tokens.Heading).depth === 1;
+
+  const state: ConverterState = { nextListInstance: 1, headings: [] };
+  const body = convertBlocks(tokens, state);
+
+  // The title goes above the table of contents and does not get an entry in it
+  let titleChildren: BlockChild[] = [];
+  if (hasOwnTitle) {
+    titleChildren = [body.shift() as BlockChild];
+    state.headings.shift();
+  } else if (options.title) {
+    titleChildren = [new Paragraph({ heading: HeadingLevel.TITLE, text: options.title })];
+  }
+  const tableOfContents = options.tableOfContents === false ? [] : buildTableOfContents(state.headings);
+
+  return new DocxDocument({
+    styles: {
+      default: {
+        document: { run: { font: 'Calibri', size: 22 } }
+      }
+    },
+    numbering: {
+      config: [
+        {
+          reference: 'bullet-list',
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.BULLET,
+            text: bulletLevels[level % bulletLevels.length],
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+          }))
+        },
+        {
+          reference: 'ordered-list',
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3],
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+          }))
+        }
+      ]
+    },
+    sections: [{
+      properties: {},
+      children: [...titleChildren, ...tableOfContents, ...body]
+    }]
+  });
+};
@@ -1,39 +1,43 @@
-import sgMail from '@sendgrid/mail';
+import { createEmailTransport, EmailTransport } from './emailTransport';
 
-const FROM_EMAIL = 'jubair@mds.com.bd';
+const DEFAULT_FROM_EMAIL = 'jubair@mds.com.bd';
 const FROM_NAME = 'Lovable Ex';
 
-function initializeSendGrid() {
-  const SENDGRID_KEY = process.env.SENDGRID_KEY;
-  if (!SENDGRID_KEY) {
-    throw new Error('SENDGRID_KEY is not set in environment variables');
+let transport: EmailTransport | null = null;
+
+function getTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
   }
-  sgMail.setApiKey(SENDGRID_KEY);
+  return transport;
+}
+
+// Replaces the transport chosen by EMAIL_TRANSPORT, e.g. with an in-memory one in tests
+export function setEmailTransport(emailTransport: EmailTransport | null) {
+  transport = emailTransport;
 }
 
 export interface SendEmailOptions {
   to: string;
   subject: string;
   html: string;
+  text?: string;
   replyTo?: string;
 }
 
-export async function sendEmail({ to, subject, html, replyTo }: SendEmailOptions) {
-  initializeSendGrid();
-  
-  const msg = {
-    to,
-    from: {
-      email: FROM_EMAIL,
-      name: FROM_NAME,
-    },
-    subject,
-    html,
-    ...(replyTo ? { replyTo } : {}),
-  };
-  
+export async function sendEmail({ to, subject, html, text, replyTo }: SendEmailOptions) {
   try {
-    await sgMail.send(msg);
+    await getTransport().send({
+      to,
+      from: {
+        email: process.env.EMAIL_FROM || DEFAULT_FROM_EMAIL,
+        name: FROM_NAME,
+      },
+      subject,
+      html,
+      text,
+      replyTo,
+    });
     console.log(`Email sent successfully to ${to}`);
   } catch (error) {
     console.error('Error sending email:', error);
@@ -41,6 +45,91 @@ export async function sendEmail({ to, subject, html, replyTo }: SendEmailOptions
   }
 }
 
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Shown as a code to paste into the extension, since there is no web app to link to
+const tokenBlock = (token: string) => `
+      <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+        <code style="font-size: 16px; letter-spacing: 1px; word-break: break-all;">${token}</code>
+      </div>`;
+
+export async function sendVerificationEmail(to: string, name: string, token: string, expiresInHours: number) {
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.6; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb; margin-bottom: 20px;">Verify your email address</h2>
+      
+      <p>Hi ${escapeHtml(name)},</p>
+      
+      <p>Thanks for signing up for Lovable Ex. To finish creating your account, open the extension and enter this verification code:</p>
+      ${tokenBlock(token)}
+      <p>The code expires in ${expiresInHours} hours and can only be used once.</p>
+      
+      <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+      <p style="color: #6b7280; font-size: 14px;">
+        If you did not create an account, you can ignore this email.
+      </p>
+    </div>
+  `;
+
+  await sendEmail({
+    to,
+    subject: 'Verify your email - Lovable Ex',
+    html,
+    text: `Your Lovable Ex verification code: ${token}\n\nIt expires in ${expiresInHours} hours.`
+  });
+}
+
+export async function sendPasswordResetEmail(to: string, name: string, token: string, expiresInMinutes: number) {
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.6; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb; margin-bottom: 20px;">Reset your password</h2>
+      
+      <p>Hi ${escapeHtml(name)},</p>
+      
+      <p>We received a request to reset the password of your Lovable Ex account. Open the extension, choose "Reset password" and enter this code:</p>
+      ${tokenBlock(token)}
+      <p>The code expires in ${expiresInMinutes} minutes and can only be used once. Resetting your password signs you out on all devices.</p>
+      
+      <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+      <p style="color: #6b7280; font-size: 14px;">
+        If you did not ask to reset your password, you can ignore this email; your password stays the same.
+      </p>
+    </div>
+  `;
+
+  await sendEmail({
+    to,
+    subject: 'Reset your password - Lovable Ex',
+    html,
+    text: `Your Lovable Ex password reset code: ${token}\n\nIt expires in ${expiresInMinutes} minutes.`
+  });
+}
+
+export async function sendWorkspaceInvitationEmail(to: string, inviterName: string, workspaceName: string, role: string) {
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.6; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb; margin-bottom: 20px;">You're invited to a workspace</h2>
+      
+      <p>${escapeHtml(inviterName)} invited you to join <strong>${escapeHtml(workspaceName)}</strong> on Lovable Ex as ${role === 'editor' ? 'an editor' : 'a viewer'}.</p>
+      
+      <p>Sign in to the Lovable Ex extension with this email address (or create an account with it) to accept the invitation. It expires in 7 days.</p>
+      
+      <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+      <p style="color: #6b7280; font-size: 14px;">
+        If you were not expecting this invitation, you can ignore this email.
+      </p>
+    </div>
+  `;
+
+  await sendEmail({
+    to,
+    subject: `${inviterName} invited you to ${workspaceName} - Lovable Ex`,
+    html,
+    text: `${inviterName} invited you to join ${workspaceName} on Lovable Ex. Sign in to the extension with this email address to accept.`
+  });
+}
+
 export interface HireExpertRequest {
   name: string;
   email: string;
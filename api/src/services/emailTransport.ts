@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sgMail from '@sendgrid/mail';
+import nodemailer from 'nodemailer';
+
+/**
+ * Where outgoing email goes. EMAIL_TRANSPORT picks the implementation:
+ * `sendgrid` (default), `smtp` for a relay or a local catcher such as
+ * MailHog/Mailpit, or `file`, which writes each message as JSON under
+ * EMAIL_OUTBOX_DIR so tests and local setups can read it back.
+ */
+
+export type EmailTransportType = 'sendgrid' | 'smtp' | 'file';
+
+export interface OutgoingEmail {
+  from: { email: string; name: string };
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+class SendGridTransport implements EmailTransport {
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await sgMail.send({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      ...(message.text ? { text: message.text } : {}),
+      ...(message.replyTo ? { replyTo: message.replyTo } : {}),
+    });
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(url: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail({
+      from: { address: message.from.email, name: message.from.name },
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      replyTo: message.replyTo,
+    });
+  }
+}
+
+class FileTransport implements EmailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(message, null, 2));
+  }
+}
+
+export function createEmailTransport(type = (process.env.EMAIL_TRANSPORT || 'sendgrid') as EmailTransportType): EmailTransport {
+  switch (type) {
+    case 'sendgrid': {
+      const SENDGRID_KEY = process.env.SENDGRID_KEY;
+      if (!SENDGRID_KEY) {
+        throw new Error('SENDGRID_KEY is not set in environment variables');
+      }
+      return new SendGridTransport(SENDGRID_KEY);
+    }
+    case 'smtp': {
+      const SMTP_URL = process.env.SMTP_URL;
+      if (!SMTP_URL) {
+        throw new Error('SMTP_URL is not set in environment variables');
+      }
+      return new SmtpTransport(SMTP_URL);
+    }
+    case 'file':
+      return new FileTransport(process.env.EMAIL_OUTBOX_DIR || 'outbox');
+    default:
+      throw new Error(`Unsupported email transport: ${type}`);
+  }
+}
@@ -0,0 +1,114 @@
+import { condenseHTML, estimateTokens } from './htmlCondenser';
+
+const page = `<!doctype html><html><head><title>Shop &amp; Co</title><script>var x = "<div>";</script></head>
+<body>
+  <header><nav aria-label="Primary"><a href="/">Home</a><a href="/about">About <span>us</span></a></nav></header>
+  <main>
+    <h1>Welcome</h1>
+    <p>Hello <strong>world</strong>, welcome back.</p>
+    <form aria-label="Sign up">
+      <label for="email">Email</label><input id="email" type="email" required>
+      <label>Remember me <input type="checkbox" name="remember"></label>
+      <select name="country"><option>US</option><option>UK</option></select>
+      <input type="hidden" name="csrf">
+      <button type="submit">Join</button>
+    </form>
+    <table><caption>Orders</caption><tr><th>ID</th><th>Total</th></tr><tr><td>1</td><td>9</td></tr></table>
+  </main>
+</body></html>`;
+
+const productGrid = (count: number) =>
+  `<main><h1>Products</h1>${Array.from({ length: count }, (_, i) =>
+    `<div><h3>Product ${i}</h3><p>${'A long product description that keeps going. '.repeat(10)}${i}</p>` +
+    `<button>Add ${i} to cart</button><a href="/products/${i}">Details ${i}</a></div>`).join('')}</main>`;
+
+describe('condenseHTML', () => {
+  it('outlines landmarks, headings, fields and controls', () => {
+    expect(condenseHTML(page, 10000).split('\n')).toEqual([
+      'Page: Shop & Co',
+      'Header',
+      '  Navigation "Primary"',
+      '    Link "Home" -> /',
+      '    Link "About us" -> /about',
+      'Main',
+      '  H1: Welcome',
+      '  Text: Hello world, welcome back.',
+      '  Form "Sign up"',
+      '    Input email "Email" (required)',
+      '    Checkbox "Remember me"',
+      '    Select "country": US | UK',
+      '    Button "Join"',
+      '  Table "Orders": columns ID, Total, 1 rows'
+    ]);
+  });
+
+  it('lists repeated lines once with a count', () => {
+    const cards = Array.from({ length: 5 }, () => '<div><button>Add to cart</button></div>').join('');
+    expect(condenseHTML(`<main>${cards}</main>`, 1000)).toBe('Main\n  Button "Add to cart" (x5)');
+  });
+
+  it('stays within the token budget', () => {
+    const html = productGrid(200);
+    for (const budget of [100, 500, 2000, 8000]) {
+      expect(estimateTokens(condenseHTML(html, budget))).toBeLessThanOrEqual(budget);
+    }
+  });
+
+  it('shortens text before dropping any line', () => {
+    const outline = condenseHTML(productGrid(3), 300);
+    expect(outline).toContain('Text: A long product description');
+    expect(outline).toContain('...');
+    expect(outline).toContain('Link "Details 2" -> /products/2');
+    expect(outline).not.toContain('Shortened to fit');
+  });
+
+  it('drops text first, then links, then controls, from the bottom of the page up', () => {
+    const outline = condenseHTML(productGrid(40), 600);
+    expect(outline).not.toContain('Text:');
+    expect(outline).toContain('Button "Add 0 to cart"');
+    expect(outline).toContain('Link "Details 0"');
+    expect(outline).not.toContain('Link "Details 39"');
+    expect(outline).toMatch(/\(Shortened to fit: \d+ links, 40 text passages omitted\)$/);
+
+    const smaller = condenseHTML(productGrid(40), 200);
+    expect(smaller).not.toContain('Link "');
+    expect(smaller).toContain('H1: Products');
+    expect(smaller).toMatch(/\d+ controls, 40 links, 40 text passages omitted\)$/);
+  });
+
+  it('only shortens input without markup', () => {
+    const json = JSON.stringify({ url: 'https://example.com', bodyText: 'word '.repeat(100) });
+    expect(condenseHTML(json, 1000)).toBe(json);
+    expect(condenseHTML(json, 10)).toMatch(/^\{"url":"https:\/\/example\.com".*\.\.\.$/);
+  });
+
+  it('reads truncated and unbalanced markup', () => {
+    expect(condenseHTML('<main><h1>Title</h1><p>Body text<div><a href="/x">X</a></main></span></p><button cla', 1000))
+      .toBe('Main\n  H1: Title\n  Text: Body text\n  Link "X" -> /x');
+    expect(condenseHTML('<main><h1>Title</h1><!-- never closed <button>Hidden</button>', 1000)).toBe('Main\n  H1: Title');
+    expect(condenseHTML('<main><h1>Title</h1><a href="/x>unterminated', 1000)).toBe('Main\n  H1: Title');
+    expect(condenseHTML('<h1>Title</h1><script>if (a < b) document.write("<button>No</button>")', 1000)).toBe('H1: Title');
+  });
+
+  it('handles deeply nested markup', () => {
+    const depth = 5000;
+    const html = `${'<div>'.repeat(depth)}<button>Deep</button>${'</div>'.repeat(depth)}<h2>After</h2>`;
+    expect(condenseHTML(html, 1000)).toBe('Button "Deep"\nH2: After');
+  });
+
+  it('condenses adversarial input in linear time', () => {
+    const inputs = [
+      `${'<div>'.repeat(20000)}${'</p>'.repeat(20000)}`,
+      `${'<span><a>'.repeat(20000)}x`,
+      '<a "'.repeat(100000),
+      '<!--'.repeat(100000),
+      '<script>'.repeat(100000),
+      '<'.repeat(500000)
+    ];
+    for (const html of inputs) {
+      const started = Date.now();
+      condenseHTML(html, 4000);
+      expect(Date.now() - started).toBeLessThan(2000);
+    }
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * Turns page HTML into a compact outline for AI prompts: landmarks, headings,
+ * forms and their fields, interactive elements, tables and short text
+ * summaries, one per line and indented by nesting. When the outline does not
+ * fit the token budget, text is shortened first and the least important lines
+ * are dropped after that, so a big page keeps its structure instead of being
+ * cut off at an arbitrary byte.
+ */
+
+interface ElementNode {
+  tag: string;
+  attributes: string;
+  children: HtmlNode[];
+}
+
+type HtmlNode = ElementNode | string;
+
+// Lower numbers are kept longer when the outline has to shrink
+const PRIORITY = {
+  structure: 0,
+  control: 1,
+  link: 2,
+  data: 3,
+  text: 4
+} as const;
+
+type Priority = typeof PRIORITY[keyof typeof PRIORITY];
+
+interface OutlineLine {
+  depth: number;
+  priority: Priority;
+  text: string;
+  // Identical lines are listed once, with how often they appear
+  count: number;
+}
+
+// Rough average for English text and markup; close enough to size a prompt
+export const CHARS_PER_TOKEN = 4;
+
+// Text is kept whole if it fits, otherwise shortened to these lengths in turn before any line is dropped
+const TEXT_LENGTHS = [Infinity, 300, 120, 50];
+// Room kept for the note saying what was left out
+const NOTE_LENGTH = 120;
+const MAX_OPTIONS = 10;
+const MAX_LIST_ITEMS = 8;
+const MAX_TABLE_COLUMNS = 12;
+// Content nested deeper than this is added to its ancestor at this depth, which keeps every walk over the tree short.
+// Elements named by their content, such as buttons, keep their content a little deeper
+const MAX_NESTING = 64;
+const MAX_NAMED_NESTING = 80;
+// A lookup inside one element, e.g. for a button's text, stops after this many nodes or characters,
+// so nested markup cannot make the lookups of its ancestors add up to quadratic work
+const MAX_LOOKUP_NODES = 5000;
+const MAX_ELEMENT_TEXT = 1000;
+const NAMED_BY_CONTENT = new Set(['a', 'button', 'label', 'select', 'option', 'caption', 'th', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+// The API refuses larger pages; the extension sends at most this much
+export const MAX_HTML_CONTENT_LENGTH = 2000000;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Nothing in these is visible text or something a user can interact with
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas']);
+
+// Read as part of the surrounding text
+const INLINE_TAGS = new Set(['abbr', 'b', 'bdi', 'cite', 'code', 'data', 'del', 'em', 'i', 'ins', 'kbd', 'mark', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'br']);
+
+const INTERACTIVE_TAGS = new Set(['a', 'button', 'input', 'select', 'textarea']);
+const INTERACTIVE_ROLES = new Set(['button', 'link', 'tab', 'menuitem', 'checkbox', 'radio', 'switch', 'combobox', 'textbox']);
+
+const LANDMARK_TAGS: Record<string, string> = {
+  header: 'Header',
+  nav: 'Navigation',
+  main: 'Main',
+  aside: 'Sidebar',
+  footer: 'Footer',
+  dialog: 'Dialog',
+  form: 'Form'
+};
+
+const LANDMARK_ROLES: Record<string, string> = {
+  banner: 'Header',
+  navigation: 'Navigation',
+  main: 'Main',
+  complementary: 'Sidebar',
+  contentinfo: 'Footer',
+  dialog: 'Dialog',
+  alertdialog: 'Dialog',
+  form: 'Form',
+  search: 'Search',
+  tablist: 'Tabs'
+};
+
+const CONTROL_ROLES: Record<string, string> = {
+  button: 'Button',
+  tab: 'Tab',
+  menuitem: 'Menu item',
+  checkbox: 'Checkbox',
+  radio: 'Radio',
+  switch: 'Switch',
+  combobox: 'Combobox',
+  textbox: 'Input'
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const attribute = (element: ElementNode, name: string): string | undefined => {
+  const match = element.attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? collapse(decodeEntities(match[1] ?? match[2] ?? match[3] ?? '')) : undefined;
+};
+
+const hasAttribute = (element: ElementNode, name: string): boolean =>
+  new RegExp(`(?:^|\\s)${name}(?:\\s*=|\\s|$)`, 'i').test(element.attributes);
+
+const isElement = (node: HtmlNode): node is ElementNode => typeof node !== 'string';
+
+/**
+ * Builds an element tree from HTML in one pass over the input. It is tolerant
+ * the way browsers are: unclosed elements are closed by their parent's end tag,
+ * stray end tags are ignored and a tag cut off at the end is dropped, so
+ * truncated or sloppy markup still gives a usable tree.
+ */
+const parseHTML = (html: string): ElementNode => {
+  const root: ElementNode = { tag: '#root', attributes: '', children: [] };
+  const stack: ElementNode[] = [root];
+  // Open elements per tag, so an end tag is matched without searching the stack
+  const openCounts = new Map<string, number>();
+  const tagName = /[a-zA-Z][\w:-]*/y;
+  const endTag = /<\/([a-zA-Z][\w:-]*)\s*>/y;
+  let position = 0;
+  // A "<" that starts no tag is part of the text
+  let textStart = 0;
+
+  const addText = (end: number) => {
+    if (end > textStart) stack[stack.length - 1].children.push(decodeEntities(html.substring(textStart, end)));
+  };
+  // Position after the next `marker` at or after `from`, or the end of the input
+  const skipPast = (marker: string, from: number) => {
+    const index = html.indexOf(marker, from);
+    return index < 0 ? html.length : index + marker.length;
+  };
+
+  while (position < html.length) {
+    const next = html.indexOf('<', position);
+    if (next < 0) break;
+    position = next;
+
+    if (html.startsWith('<!--', position)) {
+      addText(next);
+      position = textStart = skipPast('-->', position + 4);
+      continue;
+    }
+    if (html[position + 1] === '!' || html[position + 1] === '?') {
+      addText(next);
+      position = textStart = skipPast('>', position);
+      continue;
+    }
+
+    endTag.lastIndex = position;
+    const closing = endTag.exec(html);
+    if (closing) {
+      addText(next);
+      position = textStart = endTag.lastIndex;
+      const tag = closing[1].toLowerCase();
+      if (openCounts.get(tag)) {
+        let element: ElementNode;
+        do {
+          element = stack.pop()!;
+          openCounts.set(element.tag, openCounts.get(element.tag)! - 1);
+        } while (element.tag !== tag);
+      }
+      continue;
+    }
+
+    tagName.lastIndex = position + 1;
+    const name = tagName.exec(html);
+    if (!name) {
+      position++;
+      continue;
+    }
+
+    // Attributes run to the first ">" outside quotes
+    let end = tagName.lastIndex;
+    while (end < html.length && html[end] !== '>') {
+      end = html[end] === '"' || html[end] === "'" ? skipPast(html[end], end + 1) : end + 1;
+    }
+    addText(next);
+    if (end >= html.length) {
+      textStart = html.length;
+      break;
+    }
+
+    const tag = name[0].toLowerCase();
+    const attributes = html.substring(tagName.lastIndex, end);
+    const selfClosing = VOID_TAGS.has(tag) || attributes.trim().endsWith('/');
+    position = textStart = end + 1;
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!selfClosing) {
+        const endOfElement = new RegExp(`</${tag}`, 'gi');
+        endOfElement.lastIndex = position;
+        const match = endOfElement.exec(html);
+        position = textStart = match ? skipPast('>', match.index) : html.length;
+      }
+      continue;
+    }
+
+    const element: ElementNode = { tag, attributes, children: [] };
+    stack[stack.length - 1].children.push(element);
+    const maxNesting = NAMED_BY_CONTENT.has(tag) ? MAX_NAMED_NESTING : MAX_NESTING;
+    if (!selfClosing && stack.length <= maxNesting) {
+      stack.push(element);
+      openCounts.set(tag, (openCounts.get(tag) || 0) + 1);
+    }
+  }
+  addText(html.length);
+
+  return root;
+};
+
+interface WalkFrame {
+  element: ElementNode;
+  index: number;
+}
+
+/**
+ * Calls `visit` for the nodes inside `element` in document order, and `leave`
+ * after an element's content. Stops after `maxNodes` nodes or once `visit`
+ * returns false.
+ */
+const walkInside = (
+  element: ElementNode,
+  visit: (node: HtmlNode) => boolean | void,
+  leave: (element: ElementNode) => void = () => undefined,
+  maxNodes = MAX_LOOKUP_NODES
+) => {
+  const stack: WalkFrame[] = [{ element, index: 0 }];
+  for (let visited = 0; stack.length > 0 && visited < maxNodes;) {
+    const frame = stack[stack.length - 1];
+    if (frame.index >= frame.element.children.length) {
+      stack.pop();
+      if (stack.length > 0) leave(frame.element);
+      continue;
+    }
+    const child = frame.element.children[frame.index++];
+    visited++;
+    if (visit(child) === false) return;
+    if (isElement(child)) stack.push({ element: child, index: 0 });
+  }
+};
+
+const findAll = (element: ElementNode, matches: (element: ElementNode) => boolean, maxNodes = MAX_LOOKUP_NODES): ElementNode[] => {
+  const found: ElementNode[] = [];
+  walkInside(element, (node) => {
+    if (isElement(node) && matches(node)) found.push(node);
+  }, undefined, maxNodes);
+  return found;
+};
+
+const isBlock = (element: ElementNode): boolean => !INLINE_TAGS.has(element.tag) || element.tag === 'br';
+
+// Inline elements run on with the text around them; other elements are separated by a space
+const rawTextOf = (node: HtmlNode, maxNodes = Infinity): string => {
+  if (!isElement(node)) return node;
+  let text = '';
+  walkInside(node, (child) => {
+    if (!isElement(child)) text += child;
+    else if (isBlock(child)) text += ' ';
+  }, (element) => {
+    if (isBlock(element)) text += ' ';
+  }, maxNodes);
+  return isBlock(node) ? ` ${text} ` : text;
+};
+
+// Text of an element, as far as a label or heading needs it
+const textOf = (node: HtmlNode): string => {
+  if (!isElement(node)) return collapse(node);
+  let text = '';
+  walkInside(node, (child) => {
+    if (!isElement(child)) text += child;
+    else if (isBlock(child)) text += ' ';
+    return text.length <= MAX_ELEMENT_TEXT * 2;
+  }, (element) => {
+    if (isBlock(element)) text += ' ';
+  });
+  return shorten(collapse(text), MAX_ELEMENT_TEXT);
+};
+
+const isInteractive = (element: ElementNode): boolean =>
+  INTERACTIVE_TAGS.has(element.tag) || INTERACTIVE_ROLES.has(attribute(element, 'role') || '');
+
+// Asked again for every inline ancestor, so each element's answer is kept
+const interactiveElements = new WeakMap<ElementNode, boolean>();
+
+const containsInteractive = (element: ElementNode): boolean => {
+  let found = interactiveElements.get(element);
+  if (found === undefined) {
+    found = element.children.some((child) => isElement(child) && (isInteractive(child) || containsInteractive(child)));
+    interactiveElements.set(element, found);
+  }
+  return found;
+};
+
+const quote = (label: string | undefined): string => (label ? ` "${label}"` : '');
+
+export const shorten = (text: string, length: number): string => {
+  if (text.length <= length) return text;
+  const cut = text.substring(0, length);
+  const wordEnd = cut.lastIndexOf(' ');
+  return `${wordEnd > length / 2 ? cut.substring(0, wordEnd) : cut}...`;
+};
+
+class OutlineBuilder {
+  lines: OutlineLine[] = [];
+  private labels = new Map<string, string>();
+
+  constructor(root: ElementNode) {
+    // <label for="..."> is often far from its field
+    for (const label of findAll(root, ({ tag }) => tag === 'label', Infinity)) {
+      const target = attribute(label, 'for');
+      if (target) this.labels.set(target, textOf(label));
+    }
+  }
+
+  private add(depth: number, priority: Priority, text: string) {
+    this.lines.push({ depth, priority, text, count: 1 });
+  }
+
+  private fieldLabel(element: ElementNode, wrappingLabel?: string): string | undefined {
+    const id = attribute(element, 'id');
+    return attribute(element, 'aria-label') || (id && this.labels.get(id)) || wrappingLabel ||
+      attribute(element, 'placeholder') || attribute(element, 'name') || attribute(element, 'title') || undefined;
+  }
+
+  private field(element: ElementNode, depth: number, wrappingLabel?: string) {
+    const required = hasAttribute(element, 'required') ? ' (required)' : '';
+    const label = quote(this.fieldLabel(element, wrappingLabel));
+
+    if (element.tag === 'select') {
+      const options = findAll(element, ({ tag }) => tag === 'option');
+      const listed = options.slice(0, MAX_OPTIONS).map(textOf).filter(Boolean).join(' | ');
+      const more = options.length > MAX_OPTIONS ? ` (${options.length} options)` : '';
+      this.add(depth, PRIORITY.control, `Select${label}${required}${listed ? `: ${listed}${more}` : ''}`);
+    } else if (element.tag === 'textarea') {
+      this.add(depth, PRIORITY.control, `Textarea${label}${required}`);
+    } else {
+      const type = (attribute(element, 'type') || 'text').toLowerCase();
+      if (type === 'hidden') return;
+      if (['submit', 'button', 'reset', 'image'].includes(type)) {
+        this.add(depth, PRIORITY.control, `Button${quote(attribute(element, 'value') || attribute(element, 'aria-label') || type)}`);
+      } else if (type === 'checkbox' || type === 'radio') {
+        this.add(depth, PRIORITY.control, `${type === 'checkbox' ? 'Checkbox' : 'Radio'}${label}${required}`);
+      } else {
+        this.add(depth, PRIORITY.control, `Input ${type}${label}${required}`);
+      }
+    }
+  }
+
+  private list(element: ElementNode, depth: number) {
+    const items = element.children.filter((child): child is ElementNode => isElement(child) && child.tag === 'li');
+    const texts = items.slice(0, MAX_LIST_ITEMS).map(textOf).filter(Boolean);
+    if (texts.length === 0) return;
+    const more = items.length > MAX_LIST_ITEMS ? ', ...' : '';
+    this.add(depth, PRIORITY.data, `List (${items.length} items): ${texts.join('; ')}${more}`);
+  }
+
+  private table(element: ElementNode, depth: number) {
+    const caption = findAll(element, ({ tag }) => tag === 'caption')[0];
+    const headers = findAll(element, ({ tag }) => tag === 'th').slice(0, MAX_TABLE_COLUMNS + 1).map(textOf).filter(Boolean);
+    const rows = findAll(element, ({ tag }) => tag === 'tr')
+      .filter((row) => !row.children.some((cell) => isElement(cell) && cell.tag === 'th'));
+    const columns = headers.slice(0, MAX_TABLE_COLUMNS).join(', ') + (headers.length > MAX_TABLE_COLUMNS ? ', ...' : '');
+    this.add(depth, PRIORITY.data, `Table${quote(caption && textOf(caption))}: ${columns ? `columns ${columns}, ` : ''}${rows.length} rows`);
+  }
+
+  walk(element: ElementNode, depth: number, wrappingLabel?: string) {
+    let text = '';
+    const flushText = () => {
+      const summary = collapse(text);
+      if (summary) this.add(depth, PRIORITY.text, `Text: ${summary}`);
+      text = '';
+    };
+
+    for (const child of element.children) {
+      if (!isElement(child) || (INLINE_TAGS.has(child.tag) && !containsInteractive(child))) {
+        text += rawTextOf(child);
+        continue;
+      }
+      flushText();
+      this.element(child, depth, wrappingLabel);
+    }
+    flushText();
+  }
+
+  private element(element: ElementNode, depth: number, wrappingLabel?: string) {
+    const { tag } = element;
+    const role = attribute(element, 'role') || '';
+    const ariaLabel = attribute(element, 'aria-label');
+
+    if (/^h[1-6]$/.test(tag) || role === 'heading') {
+      const heading = textOf(element);
+      if (heading) this.add(depth, PRIORITY.structure, `${/^h[1-6]$/.test(tag) ? tag.toUpperCase() : 'Heading'}: ${heading}`);
+      return;
+    }
+
+    const landmark = LANDMARK_ROLES[role] || LANDMARK_TAGS[tag] ||
+      ((tag === 'section' || role === 'region') && ariaLabel ? 'Section' : undefined) ||
+      (attribute(element, 'aria-modal') === 'true' ? 'Dialog' : undefined);
+    if (landmark) {
+      this.add(depth, PRIORITY.structure, `${landmark}${quote(ariaLabel || (landmark === 'Form' ? attribute(element, 'name') : undefined))}`);
+      this.walk(element, depth + 1);
+      return;
+    }
+
+    if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+      this.field(element, depth, wrappingLabel);
+      return;
+    }
+
+    if (tag === 'label') {
+      // Text of a label that wraps its field names the field; one pointing elsewhere was read up front
+      const field = findAll(element, ({ tag: fieldTag }) => ['input', 'select', 'textarea'].includes(fieldTag))[0];
+      if (field) {
+        this.field(field, depth, textOf(element) || undefined);
+      } else if (!attribute(element, 'for')) {
+        this.walk(element, depth);
+      }
+      return;
+    }
+
+    if (tag === 'button' || CONTROL_ROLES[role]) {
+      const label = textOf(element) || ariaLabel || attribute(element, 'title');
+      const disabled = hasAttribute(element, 'disabled') || attribute(element, 'aria-disabled') === 'true' ? ' (disabled)' : '';
+      this.add(depth, PRIORITY.control, `${CONTROL_ROLES[role] || 'Button'}${quote(label)}${disabled}`);
+      return;
+    }
+
+    if (tag === 'a' || role === 'link') {
+      const label = textOf(element) || ariaLabel || attribute(element, 'title');
+      const href = attribute(element, 'href');
+      if (label || href) {
+        this.add(depth, PRIORITY.link, `Link${quote(label)}${href && !/^javascript:/i.test(href) ? ` -> ${href}` : ''}`);
+      }
+      return;
+    }
+
+    if (tag === 'img') {
+      const alt = attribute(element, 'alt');
+      if (alt) this.add(depth, PRIORITY.text, `Image "${alt}"`);
+      return;
+    }
+
+    if (tag === 'table' || role === 'table' || role === 'grid') {
+      this.table(element, depth);
+      return;
+    }
+
+    if ((tag === 'ul' || tag === 'ol') && !containsInteractive(element)) {
+      this.list(element, depth);
+      return;
+    }
+
+    if (tag === 'title' || tag === 'head' || tag === 'meta' || tag === 'link' || tag === 'base') {
+      return;
+    }
+
+    // Layout elements only group their children
+    this.walk(element, depth, wrappingLabel);
+  }
+}
+
+// Lists repeated lines, e.g. an "Add to cart" button on every product, once with a count
+const mergeRepeats = (lines: OutlineLine[]): OutlineLine[] => {
+  const merged: OutlineLine[] = [];
+  const seen = new Map<string, OutlineLine>();
+  for (const line of lines) {
+    // Landmarks and headings carry the structure, so each one stays where it is
+    if (line.priority === PRIORITY.structure) {
+      merged.push(line);
+      continue;
+    }
+    const key = `${line.depth}|${line.text}`;
+    const first = seen.get(key);
+    if (first) {
+      first.count++;
+    } else {
+      seen.set(key, line);
+      merged.push(line);
+    }
+  }
+  return merged;
+};
+
+const renderLine = ({ depth, text, count }: OutlineLine): string =>
+  `${'  '.repeat(depth)}${text}${count > 1 ? ` (x${count})` : ''}`;
+
+const renderedLength = (lines: OutlineLine[]): number =>
+  lines.reduce((total, line) => total + renderLine(line).length + 1, 0);
+
+const OMITTED_LABELS: Record<number, string> = {
+  [PRIORITY.structure]: 'landmarks and headings',
+  [PRIORITY.control]: 'controls',
+  [PRIORITY.link]: 'links',
+  [PRIORITY.data]: 'lists and tables',
+  [PRIORITY.text]: 'text passages'
+};
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Condenses HTML into an outline of at most `maxTokens` tokens (estimated).
+ * Input without markup, such as a JSON page snapshot, is only shortened.
+ */
+export const condenseHTML = (html: string, maxTokens: number): string => {
+  const maxChars = Math.max(maxTokens, 1) * CHARS_PER_TOKEN;
+  const root = parseHTML(html);
+  if (!root.children.some(isElement)) {
+    return shorten(html.trim(), maxChars);
+  }
+
+  const builder = new OutlineBuilder(root);
+
+  const title = findAll(root, ({ tag }) => tag === 'title', Infinity)[0];
+  if (title && textOf(title)) builder.lines.push({ depth: 0, priority: PRIORITY.structure, text: `Page: ${textOf(title)}`, count: 1 });
+  const description = findAll(root, ({ tag }) => tag === 'meta', Infinity).find((meta) => attribute(meta, 'name') === 'description');
+  const descriptionText = description && attribute(description, 'content');
+  if (descriptionText) builder.lines.push({ depth: 0, priority: PRIORITY.text, text: `Description: ${descriptionText}`, count: 1 });
+
+  builder.walk(root, 0);
+
+  const fullText = new Map(builder.lines.map((line) => [line, line.text]));
+  const lines = mergeRepeats(builder.lines);
+
+  for (const length of TEXT_LENGTHS) {
+    lines.forEach((line) => {
+      if (line.priority === PRIORITY.text) line.text = shorten(fullText.get(line) || line.text, length);
+    });
+    if (renderedLength(lines) <= maxChars) return lines.map(renderLine).join('\n');
+  }
+
+  // Drop the least important lines, from the bottom of the page up, until the rest fits
+  const dropped = new Set<OutlineLine>();
+  const omitted = new Map<number, number>();
+  let size = renderedLength(lines);
+  for (let priority: number = PRIORITY.text; priority >= PRIORITY.structure && size + NOTE_LENGTH > maxChars; priority--) {
+    for (let index = lines.length - 1; index >= 0 && size + NOTE_LENGTH > maxChars; index--) {
+      const line = lines[index];
+      if (line.priority !== priority) continue;
+      // The page title says which page this is, whatever else has to go
+      if (index === 0 && line.text.startsWith('Page: ')) continue;
+      dropped.add(line);
+      size -= renderLine(line).length + 1;
+      omitted.set(priority, (omitted.get(priority) || 0) + 1);
+    }
+  }
+
+  const note = Array.from(omitted.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([priority, count]) => `${count} ${OMITTED_LABELS[priority]}`)
+    .join(', ');
+  const outline = lines.filter((line) => !dropped.has(line)).map(renderLine).join('\n');
+  return `${outline}\n(Shortened to fit: ${note} omitted)`;
+};
@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type {
+  AIProvider,
+  ConversationData,
+  DocumentGenerated,
+  DocumentStreamOptions,
+  TestCaseGenerated,
+  TestCaseStepGenerated
+} from './aiService';
+import type { ISiteMapPage } from '../models/Document';
+import { AIOutputValidationError, validateDocument, validateTestCases } from './aiOutputValidation';
+
+/**
+ * Offline AI provider. Output is derived only from the input HTML and site map
+ * (one test per form, button and crawled page, with selectors the test runner
+ * can use, and a document describing the page structure), so the same input
+ * always gives the same result and no network access is needed.
+ *
+ * If AI_MOCK_FIXTURES_DIR is set, a fixture file is returned instead when one
+ * exists: `<kind>.<hash>.json` for a specific input, then `<kind>.json` for any
+ * input, where kind is `test-cases` or `document` and hash is the first 16 hex
+ * characters of the SHA-256 of the HTML content. Fixtures are validated like
+ * model output, so a malformed one fails with AIOutputValidationError.
+ */
+
+interface FormField {
+  name: string;
+  type: string;
+  required: boolean;
+  selector: string;
+  // Value of the first option of a select that is not a placeholder
+  option?: string;
+}
+
+interface PageForm {
+  label: string;
+  fields: FormField[];
+  submitLabel: string;
+  submitSelector: string;
+}
+
+interface PageStructure {
+  title?: string;
+  headings: string[];
+  forms: PageForm[];
+  buttons: string[];
+  links: Array<{ label: string; href: string }>;
+}
+
+const MAX_FORMS = 10;
+const MAX_BUTTONS = 15;
+const MAX_LINKS = 5;
+const MAX_SITE_MAP_PAGES = 10;
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  requirements: 'Requirements',
+  specs: 'Technical Specification',
+  guides: 'User Guide',
+  api: 'API Documentation',
+  faq: 'FAQ'
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const textOf = (html: string): string =>
+  decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const attribute = (attributes: string, name: string): string | undefined => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '').trim() : undefined;
+};
+
+// A CSS string, e.g. for attribute selectors and Puppeteer's ::-p-aria()
+const cssString = (value: string): string => `"${value.replace(/["\\]/g, '\\$&').replace(/\s+/g, ' ')}"`;
+
+// The most specific attribute selector for an element: its id, then its name, label or placeholder
+const elementSelector = (tag: string, attributes: string): string => {
+  const id = attribute(attributes, 'id');
+  if (id) return `${tag}[id=${cssString(id)}]`;
+  for (const name of ['name', 'aria-label', 'placeholder']) {
+    const value = attribute(attributes, name);
+    if (value) return `${tag}[${name}=${cssString(value)}]`;
+  }
+  return tag;
+};
+
+const unique = <T>(items: T[], key: (item: T) => string): T[] => {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const value = key(item).toLowerCase();
+    if (!value || seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+};
+
+const parsePage = (htmlContent: string): PageStructure => {
+  // Scripts and styles never contain anything a user can interact with
+  const html = htmlContent
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg)\b[\s\S]*?<\/\1>/gi, '');
+
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const headings = unique(
+    Array.from(html.matchAll(/<h[1-3]\b[^>]*>([\s\S]*?)<\/h[1-3]>/gi)).map((match) => textOf(match[1])),
+    (heading) => heading
+  );
+
+  const forms: PageForm[] = Array.from(html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/gi))
+    .slice(0, MAX_FORMS)
+    .map((match) => {
+      const [, formAttributes, body] = match;
+      const formSelector = elementSelector('form', formAttributes);
+      const fields = Array.from(body.matchAll(/<(input|textarea|select)\b([^>]*)>/gi))
+        .map((fieldMatch): FormField => {
+          const [, tag, attributes] = fieldMatch;
+          const options = tag.toLowerCase() === 'select'
+            ? Array.from(body.substring(fieldMatch.index!).split(/<\/select>/i)[0].matchAll(/<option\b([^>]*)>([\s\S]*?)<\/option>/gi))
+              .map(([, optionAttributes, text]) => attribute(optionAttributes, 'value') ?? textOf(text))
+            : [];
+          return {
+            name: attribute(attributes, 'aria-label') || attribute(attributes, 'placeholder') ||
+              attribute(attributes, 'name') || attribute(attributes, 'id') || '',
+            type: tag.toLowerCase() === 'input' ? (attribute(attributes, 'type') || 'text').toLowerCase() : tag.toLowerCase(),
+            required: /\brequired\b/i.test(attributes),
+            selector: `${formSelector} ${elementSelector(tag.toLowerCase(), attributes)}`,
+            option: options.find(Boolean)
+          };
+        })
+        .filter((field) => !['hidden', 'submit', 'button', 'reset', 'image'].includes(field.type) && field.name);
+
+      const submitMatch = body.match(/<button\b[^>]*>([\s\S]*?)<\/button>/i);
+      const submitInput = body.match(/<input\b[^>]*type\s*=\s*["']?submit["']?[^>]*>/i);
+      const submitLabel = (submitMatch && textOf(submitMatch[1])) ||
+        (submitInput && attribute(submitInput[0], 'value')) || 'Submit';
+
+      return {
+        label: attribute(formAttributes, 'aria-label') || attribute(formAttributes, 'name') ||
+          attribute(formAttributes, 'id') || `${submitLabel} form`,
+        fields,
+        submitLabel,
+        submitSelector: submitMatch ? `${formSelector} button` : `${formSelector} input[type=submit]`
+      };
+    });
+
+  // Buttons inside forms are covered by the form tests
+  const outsideForms = html.replace(/<form\b[\s\S]*?<\/form>/gi, '');
+  const buttons = unique(
+    Array.from(outsideForms.matchAll(/<button\b([^>]*)>([\s\S]*?)<\/button>/gi))
+      .map(([, attributes, body]) => textOf(body) || attribute(attributes, 'aria-label') || attribute(attributes, 'title') || ''),
+    (label) => label
+  ).slice(0, MAX_BUTTONS);
+
+  const links = unique(
+    Array.from(outsideForms.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi))
+      .map(([, attributes, body]) => ({ label: textOf(body) || attribute(attributes, 'aria-label') || '', href: attribute(attributes, 'href') || '' }))
+      .filter((link) => link.href && !link.href.startsWith('#') && !/^javascript:/i.test(link.href)),
+    (link) => link.label
+  ).slice(0, MAX_LINKS);
+
+  return {
+    title: titleMatch ? textOf(titleMatch[1]) || undefined : undefined,
+    headings,
+    forms,
+    buttons,
+    links
+  };
+};
+
+const describeField = (field: FormField): string => {
+  const details = [field.type !== 'text' ? field.type : '', field.required ? 'required' : ''].filter(Boolean);
+  return details.length > 0 ? `${field.name} (${details.join(', ')})` : field.name;
+};
+
+// The step that fills in a field with its sample value
+const fillStep = (field: FormField): TestCaseStepGenerated => {
+  switch (field.type) {
+    case 'checkbox':
+    case 'radio':
+      return { description: `Check ${describeField(field)}`, action: 'click', selector: field.selector };
+    case 'select':
+      return field.option
+        ? { description: `Choose "${field.option}" in ${describeField(field)}`, action: 'select', selector: field.selector, value: field.option }
+        : { description: `Open ${describeField(field)}`, action: 'click', selector: field.selector };
+    default:
+      return { description: `Enter "${sampleValue(field)}" in ${describeField(field)}`, action: 'type', selector: field.selector, value: sampleValue(field) };
+  }
+};
+
+const sampleValue = (field: FormField): string => {
+  switch (field.type) {
+    case 'email': return 'qa@example.com';
+    case 'password': return 'Str0ngPassw0rd!';
+    case 'number': return '42';
+    case 'tel': return '+1 555 0100';
+    case 'url': return 'https://example.com';
+    case 'date': return '2024-01-15';
+    case 'checkbox':
+    case 'radio': return 'checked';
+    default: return `Sample ${field.name.toLowerCase()}`;
+  }
+};
+
+const contentHash = (htmlContent: string): string =>
+  crypto.createHash('sha256').update(htmlContent).digest('hex').substring(0, 16);
+
+const readFixture = (kind: 'test-cases' | 'document', htmlContent: string): unknown | undefined => {
+  const dir = process.env.AI_MOCK_FIXTURES_DIR;
+  if (!dir) return undefined;
+
+  for (const file of [`${kind}.${contentHash(htmlContent)}.json`, `${kind}.json`]) {
+    const fixturePath = path.resolve(dir, file);
+    if (fs.existsSync(fixturePath)) {
+      return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    }
+  }
+  return undefined;
+};
+
+export class MockProvider implements AIProvider {
+  async generateTestCases(htmlContent: string, projectContext?: string, siteMap?: ISiteMapPage[]): Promise<TestCaseGenerated[]> {
+    const fixture = readFixture('test-cases', htmlContent);
+    if (fixture !== undefined) {
+      const { testCases, issues } = validateTestCases(fixture);
+      if (issues.length > 0) {
+        throw new AIOutputValidationError(issues);
+      }
+      return testCases;
+    }
+
+    const page = parsePage(htmlContent);
+    const pageName = page.title || projectContext || 'the page';
+    const testCases: TestCaseGenerated[] = [];
+
+    for (const form of page.forms) {
+      testCases.push({
+        title: `Submit ${form.label} with valid data`,
+        description: `Verify that ${form.label} on ${pageName} accepts valid input`,
+        steps: [
+          { description: `Open ${pageName}`, action: 'goto' },
+          ...form.fields.map(fillStep),
+          { description: `Click "${form.submitLabel}"`, action: 'click', selector: form.submitSelector }
+        ],
+        expectedResult: 'The form is submitted and a success state is shown',
+        priority: 'high'
+      });
+
+      const requiredFields = form.fields.filter((field) => field.required);
+      if (requiredFields.length > 0) {
+        testCases.push({
+          title: `Validate required fields in ${form.label}`,
+          description: `Verify that ${form.label} cannot be submitted while required fields are empty`,
+          steps: [
+            { description: `Open ${pageName}`, action: 'goto' },
+            {
+              description: `Leave ${requiredFields.map((field) => field.name).join(', ')} empty`,
+              action: 'assertVisible',
+              selector: requiredFields[0].selector
+            },
+            { description: `Click "${form.submitLabel}"`, action: 'click', selector: form.submitSelector }
+          ],
+          expectedResult: 'The form is not submitted and each empty required field shows a validation message',
+          priority: 'medium'
+        });
+      }
+    }
+
+    for (const button of page.buttons) {
+      testCases.push({
+        title: `"${button}" button works`,
+        description: `Verify that the "${button}" button on ${pageName} responds to a click`,
+        steps: [
+          { description: `Open ${pageName}`, action: 'goto' },
+          { description: `Click the "${button}" button`, action: 'click', selector: `::-p-aria([name=${cssString(button)}][role="button"])` }
+        ],
+        expectedResult: `The action behind "${button}" is performed without errors`,
+        priority: 'medium'
+      });
+    }
+
+    for (const link of page.links) {
+      testCases.push({
+        title: `Navigate via "${link.label}"`,
+        description: `Verify that the "${link.label}" link leads to ${link.href}`,
+        steps: [
+          { description: `Open ${pageName}`, action: 'goto' },
+          { description: `Click the "${link.label}" link`, action: 'click', selector: `a[href=${cssString(link.href)}]` }
+        ],
+        expectedResult: `The browser navigates to ${link.href}`,
+        priority: 'low'
+      });
+    }
+
+    // Other crawled pages get a smoke test each
+    for (const sitePage of (siteMap || []).filter(({ depth }) => depth > 0).slice(0, MAX_SITE_MAP_PAGES)) {
+      const sitePageName = sitePage.title ? `${sitePage.title} (${sitePage.route})` : sitePage.route;
+      testCases.push({
+        title: `${sitePageName} loads`,
+        description: `Verify that ${sitePage.route} renders without errors`,
+        steps: [
+          { description: `Open ${sitePage.route}`, action: 'goto', url: sitePage.route },
+          { description: 'Check the browser console for errors', action: 'screenshot' }
+        ],
+        expectedResult: 'The page renders its content and the console shows no errors',
+        priority: 'low'
+      });
+    }
+
+    if (testCases.length === 0) {
+      testCases.push({
+        title: `${pageName} loads`,
+        description: `Verify that ${pageName} renders without errors`,
+        steps: [
+          { description: `Open ${pageName}`, action: 'goto' },
+          { description: 'Check the browser console for errors', action: 'screenshot' }
+        ],
+        expectedResult: 'The page renders its content and the console shows no errors',
+        priority: 'medium'
+      });
+    }
+
+    return testCases;
+  }
+
+  async generateDocument(
+    htmlContent: string,
+    conversationData?: ConversationData,
+    documentType: string = 'requirements',
+    customPrompt?: string,
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
+  ): Promise<DocumentGenerated> {
+    const type = (DOCUMENT_TYPE_LABELS[documentType] ? documentType : 'requirements') as DocumentGenerated['type'];
+
+    const fixture = readFixture('document', htmlContent);
+    if (fixture !== undefined) {
+      const { document, issues } = validateDocument(fixture, type);
+      if (issues.length > 0) {
+        throw new AIOutputValidationError(issues);
+      }
+      return document;
+    }
+
+    const page = parsePage(htmlContent);
+    const name = page.title || projectContext || 'Application';
+    const lines: string[] = [`# ${name} ${DOCUMENT_TYPE_LABELS[type]}`, '', '## Overview', ''];
+
+    lines.push(`This document describes ${name} based on its current page structure.`);
+    if (projectContext) lines.push('', `Project context: ${projectContext}`);
+    if (customPrompt) lines.push('', `Requested focus: ${customPrompt}`);
+
+    if (page.headings.length > 0) {
+      lines.push('', '## Page Sections', '', ...page.headings.map((heading) => `- ${heading}`));
+    }
+
+    if (page.forms.length > 0) {
+      lines.push('', '## Forms');
+      for (const form of page.forms) {
+        lines.push('', `### ${form.label}`, '');
+        lines.push(...form.fields.map((field) => `- ${describeField(field)}`));
+        lines.push(`- Submitted with "${form.submitLabel}"`);
+      }
+    }
+
+    if (page.buttons.length > 0) {
+      lines.push('', '## Actions', '', ...page.buttons.map((button) => `- ${button}`));
+    }
+
+    if (page.links.length > 0) {
+      lines.push('', '## Navigation', '', ...page.links.map((link) => `- [${link.label}](${link.href})`));
+    }
+
+    if (siteMap && siteMap.length > 0) {
+      lines.push('', '## Pages', '');
+      lines.push(...siteMap.map(({ route, title, links }) =>
+        `- \`${route}\`${title ? ` ${title}` : ''}${links.length > 0 ? `, links to ${links.join(', ')}` : ''}`));
+    }
+
+    const requests = conversationData?.userMessages || [];
+    if (requests.length > 0) {
+      lines.push('', '## Change History', '', `${requests.length} change request(s) were made in the conversation:`, '');
+      lines.push(...requests.slice(0, 10).map((message) => `- ${message.text.replace(/\s+/g, ' ').substring(0, 200)}`));
+    }
+
+    return {
+      title: `${name} ${DOCUMENT_TYPE_LABELS[type]}`,
+      content: lines.join('\n'),
+      type
+    };
+  }
+
+  // Replays the generated document line by line so clients can exercise streaming offline
+  async streamDocument(
+    stream: DocumentStreamOptions,
+    htmlContent: string,
+    conversationData?: ConversationData,
+    documentType?: string,
+    customPrompt?: string,
+    projectContext?: string,
+    siteMap?: ISiteMapPage[]
+  ): Promise<DocumentGenerated> {
+    const document = await this.generateDocument(htmlContent, conversationData, documentType, customPrompt, projectContext, siteMap);
+
+    for (const line of document.content.split(/(?<=\n)/)) {
+      if (stream.signal?.aborted) {
+        throw new Error('Document generation was cancelled');
+      }
+      stream.onToken(line);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return document;
+  }
+}
+
+export default MockProvider;
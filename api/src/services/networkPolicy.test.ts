@@ -0,0 +1,40 @@
+import { checkPublicUrl, isBlockedAddress } from './networkPolicy';
+
+describe('isBlockedAddress', () => {
+  it('blocks loopback, private, link-local and unspecified addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1']) {
+      expect(isBlockedAddress(address)).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:2800:220:1:248:1893:25c8:1946', '::ffff:8.8.8.8']) {
+      expect(isBlockedAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('checkPublicUrl', () => {
+  afterEach(() => {
+    delete process.env.TEST_RUNNER_ALLOWED_HOSTS;
+  });
+
+  it('refuses URLs on local and private hosts', async () => {
+    for (const url of ['http://127.0.0.1:3001/api', 'http://localhost/', 'http://[::1]/', 'http://169.254.169.254/latest/meta-data', 'http://2130706433/']) {
+      expect(await checkPublicUrl(url)).toMatch(/private or local network/);
+    }
+  });
+
+  it('allows public addresses and hosts on the allowlist', async () => {
+    expect(await checkPublicUrl('https://93.184.216.34/')).toBeNull();
+
+    process.env.TEST_RUNNER_ALLOWED_HOSTS = ' LOCALHOST , 127.0.0.1';
+    expect(await checkPublicUrl('http://localhost:8080/login.html')).toBeNull();
+    expect(await checkPublicUrl('http://127.0.0.1/')).toBeNull();
+    expect(await checkPublicUrl('http://10.0.0.1/')).toMatch(/private or local network/);
+  });
+
+  it('leaves other schemes to the caller', async () => {
+    expect(await checkPublicUrl('data:text/html,hi')).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+/**
+ * Decides which hosts the server may open pages on for users, e.g. when
+ * running tests. Hosts that resolve to loopback, private, link-local or other
+ * non-public addresses are refused, so a test cannot reach the server's own
+ * network or cloud metadata. Hosts listed in TEST_RUNNER_ALLOWED_HOSTS
+ * (comma-separated, e.g. "localhost,staging.internal") are always allowed.
+ */
+
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isBlockedAddress = (address: string): boolean => {
+  // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isBlockedAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const allowedHosts = (): string[] =>
+  (process.env.TEST_RUNNER_ALLOWED_HOSTS || '').split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+
+// Hostname as the allowlist and DNS take it; URL keeps brackets around IPv6 addresses
+const hostOf = (url: URL): string => url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+/**
+ * Resolves with the reason the URL may not be opened, or null if it may.
+ * Only http(s) URLs are checked; the caller decides about other schemes.
+ */
+export const checkPublicUrl = async (value: string): Promise<string | null> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `${value} is not a valid URL`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const host = hostOf(url);
+  if (allowedHosts().includes(host)) return null;
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true, verbatim: true })).map(({ address }) => address);
+  } catch {
+    return `${host} could not be resolved`;
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return `${host} is on a private or local network; add it to TEST_RUNNER_ALLOWED_HOSTS to allow it`;
+  }
+  return null;
+};
@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import { body, query, Meta } from 'express-validator';
+import Project, { IProject } from '../models/Project';
+import Task from '../models/Task';
+import Test from '../models/Test';
+import TestCase from '../models/TestCase';
+import TestSession from '../models/TestSession';
+import Document from '../models/Document';
+import Conversation from '../models/Conversation';
+
+// Models whose records can belong to a project
+const PROJECT_MODELS: mongoose.Model<any>[] = [Task, Test, TestCase, TestSession, Document, Conversation];
+
+// A project can only be assigned if it is in the request's workspace
+const isWorkspaceProject = async (projectId: string, { req }: Meta) => {
+  const exists = await Project.exists({ _id: projectId, workspaceId: req.workspace._id });
+  if (!exists) {
+    throw new Error('Project not found');
+  }
+  return true;
+};
+
+// `projectId` in a request body; null removes the record from its project
+export const projectIdBodyValidator = () => body('projectId')
+  .optional({ values: 'null' })
+  .isMongoId()
+  .withMessage('Invalid project ID')
+  .bail()
+  .custom(isWorkspaceProject);
+
+// `projectId` filter for list routes; records are already scoped to the workspace
+export const projectIdQueryValidator = () => query('projectId')
+  .optional()
+  .isMongoId()
+  .withMessage('Invalid project ID');
+
+/**
+ * Returns the workspace's project for a Lovable project ID, creating it if
+ * the workspace does not have it yet.
+ */
+export const findOrCreateProject = async (
+  workspaceId: mongoose.Types.ObjectId,
+  userId: mongoose.Types.ObjectId,
+  { lovableProjectId, name, url }: { lovableProjectId: string; name?: string; url?: string }
+): Promise<{ project: IProject; created: boolean }> => {
+  const existingFilter = { workspaceId, lovableProjectId };
+
+  const existing = await Project.findOne(existingFilter);
+  if (existing) {
+    return { project: existing, created: false };
+  }
+
+  try {
+    const project = await Project.create({
+      name: name || `Lovable project ${lovableProjectId}`,
+      lovableProjectId,
+      url,
+      userId,
+      workspaceId
+    });
+    return { project, created: true };
+  } catch (error: any) {
+    // Created by a concurrent request, e.g. two sidepanels opening the same project
+    if (error?.code !== 11000) throw error;
+    return { project: (await Project.findOne(existingFilter))!, created: false };
+  }
+};
+
+// Keeps the records of a deleted project, outside of any project
+export const unassignProjectRecords = async (projectId: mongoose.Types.ObjectId): Promise<void> => {
+  await Promise.all(PROJECT_MODELS.map((model) =>
+    model.updateMany({ projectId }, { $unset: { projectId: 1 } })
+  ));
+};
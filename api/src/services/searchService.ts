@@ -0,0 +1,250 @@
+import mongoose from 'mongoose';
+import Task from '../models/Task';
+import Test from '../models/Test';
+import TestCase from '../models/TestCase';
+import Document from '../models/Document';
+import Conversation from '../models/Conversation';
+import ConversationMessage from '../models/ConversationMessage';
+
+/**
+ * Full-text search over a workspace's records, backed by the MongoDB text
+ * index of each collection. Each collection is ranked by its text score and
+ * the results are merged on that score; title fields are weighted higher in
+ * the indexes, so title matches come first across types as well.
+ */
+
+export type SearchResultType = 'document' | 'conversation' | 'task' | 'test' | 'testCase';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['document', 'conversation', 'task', 'test', 'testCase'];
+
+// Results are merged in memory, so only this many of the best matches can be paged through
+export const MAX_SEARCH_RESULTS = 500;
+
+const SNIPPET_LENGTH = 200;
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  // Part of the record around the first match, with the matched words as character ranges
+  snippet: string;
+  highlights: SearchHighlight[];
+  score: number;
+  projectId?: string;
+  createdAt: Date;
+  // Conversation messages only: the conversation and the message's Lovable message ID
+  conversationId?: string;
+  messageId?: string;
+}
+
+export interface SearchOptions {
+  types?: SearchResultType[];
+  projectId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+interface TypeSearch {
+  model: mongoose.Model<any>;
+  fields: string;
+  toResult: (record: any) => Omit<SearchResult, 'snippet' | 'highlights' | 'score' | 'createdAt'> & {
+    // Searched text in the order it is tried for the snippet
+    texts: Array<string | undefined>;
+  };
+}
+
+const TYPE_SEARCHES: Record<SearchResultType, TypeSearch> = {
+  document: {
+    model: Document,
+    fields: 'title content projectId createdAt',
+    toResult: (document) => ({
+      type: 'document',
+      id: document._id.toString(),
+      title: document.title,
+      projectId: document.projectId?.toString(),
+      texts: [document.content, document.title]
+    })
+  },
+  conversation: {
+    model: ConversationMessage,
+    fields: 'conversationId messageId sender text createdAt',
+    toResult: (message) => ({
+      type: 'conversation',
+      id: message._id.toString(),
+      title: message.sender === 'user' ? 'Prompt' : 'Response',
+      conversationId: message.conversationId.toString(),
+      messageId: message.messageId,
+      texts: [message.text]
+    })
+  },
+  task: {
+    model: Task,
+    fields: 'title description tags notes projectId createdAt',
+    toResult: (task) => ({
+      type: 'task',
+      id: task._id.toString(),
+      title: task.title,
+      projectId: task.projectId?.toString(),
+      texts: [task.description, ...(task.notes || []).map((note: any) => note.content), task.tags?.join(', '), task.title]
+    })
+  },
+  test: {
+    model: Test,
+    fields: 'name description tags errorMessage projectId createdAt',
+    toResult: (test) => ({
+      type: 'test',
+      id: test._id.toString(),
+      title: test.name,
+      projectId: test.projectId?.toString(),
+      texts: [test.description, test.errorMessage, test.tags?.join(', '), test.name]
+    })
+  },
+  testCase: {
+    model: TestCase,
+    fields: 'title description tags steps expectedResult notes projectId createdAt',
+    toResult: (testCase) => ({
+      type: 'testCase',
+      id: testCase._id.toString(),
+      title: testCase.title,
+      projectId: testCase.projectId?.toString(),
+      texts: [
+        testCase.description,
+        ...(testCase.steps || []).map((step: any) => step.description),
+        testCase.expectedResult,
+        testCase.notes,
+        testCase.tags?.join(', '),
+        testCase.title
+      ]
+    })
+  }
+};
+
+// Words of the query without MongoDB's phrase and negation syntax; negated words are not highlighted
+const queryTerms = (query: string): string[] =>
+  query
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith('-'))
+    .map((word) => word.replace(/^["']+|["']+$/g, '').toLowerCase())
+    .filter((word) => word.length > 1);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches words starting with a query term, since the text index also matches other forms of a word
+const termPattern = (terms: string[]): RegExp | null =>
+  terms.length > 0 ? new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\w*`, 'gi') : null;
+
+/**
+ * Cuts the first text containing a query term down to the part around the
+ * first match, and returns where the matches are in the snippet.
+ */
+export const buildSnippet = (
+  texts: Array<string | undefined>,
+  query: string
+): { snippet: string; highlights: SearchHighlight[] } => {
+  const pattern = termPattern(queryTerms(query));
+  const candidates = texts.filter((text): text is string => !!text && text.trim() !== '');
+  const text = candidates.find((candidate) => pattern && new RegExp(pattern.source, 'i').test(candidate))
+    || candidates[0]
+    || '';
+
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const firstMatch = pattern ? normalized.search(new RegExp(pattern.source, 'i')) : -1;
+
+  // Start a little before the match, unless that would leave the snippet short
+  let start = Math.max(0, Math.min(firstMatch - SNIPPET_LENGTH / 4, normalized.length - SNIPPET_LENGTH));
+  let end = Math.min(normalized.length, start + SNIPPET_LENGTH);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = normalized.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  if (end < normalized.length) {
+    const space = normalized.lastIndexOf(' ', end);
+    if (space > Math.max(start, firstMatch)) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${normalized.slice(start, end)}${end < normalized.length ? '…' : ''}`;
+
+  const highlights: SearchHighlight[] = [];
+  if (pattern) {
+    for (const match of snippet.matchAll(pattern)) {
+      highlights.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  return { snippet, highlights };
+};
+
+export const searchWorkspace = async (
+  workspaceId: mongoose.Types.ObjectId,
+  query: string,
+  { types = SEARCH_RESULT_TYPES, projectId, from, to, page, limit }: SearchOptions
+): Promise<{ results: SearchResult[]; total: number }> => {
+  // Enough of each type's best matches to fill the requested page after merging
+  const window = Math.min(page * limit, MAX_SEARCH_RESULTS);
+
+  const createdAt = from || to
+    ? { createdAt: { ...(from && { $gte: from }), ...(to && { $lte: to }) } }
+    : {};
+
+  // Conversation messages belong to a project through their conversation
+  const projectConversationIds = projectId && types.includes('conversation')
+    ? await Conversation.find({ workspaceId, projectId }).distinct('_id')
+    : [];
+
+  const searches = await Promise.all(types.map(async (type) => {
+    const { model, fields, toResult } = TYPE_SEARCHES[type];
+    const filter: any = { workspaceId, $text: { $search: query }, ...createdAt };
+    if (type === 'conversation') {
+      if (projectId) filter.conversationId = { $in: projectConversationIds };
+    } else if (projectId) {
+      filter.projectId = projectId;
+    }
+
+    const [records, total] = await Promise.all([
+      model.find(filter, { score: { $meta: 'textScore' } })
+        .select(fields)
+        .sort({ score: { $meta: 'textScore' } })
+        .limit(window)
+        .lean(),
+      model.countDocuments(filter)
+    ]);
+
+    const results = (records as any[]).map((record): SearchResult => {
+      const { texts, ...result } = toResult(record);
+      return { ...result, ...buildSnippet(texts, query), score: record.score, createdAt: record.createdAt };
+    });
+
+    return { results, total };
+  }));
+
+  const results = searches
+    .flatMap(({ results }) => results)
+    .sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime())
+    .slice((page - 1) * limit, window);
+
+  // Messages are titled after their conversation and take its project
+  const conversationIds = [...new Set(results.flatMap(({ conversationId }) => conversationId ? [conversationId] : []))];
+  if (conversationIds.length > 0) {
+    const conversations = await Conversation.find({ _id: { $in: conversationIds }, workspaceId })
+      .select('title projectId lovableProjectId')
+      .lean();
+    const conversationsById = new Map(conversations.map((conversation) => [conversation._id.toString(), conversation]));
+    for (const result of results) {
+      const conversation = result.conversationId ? conversationsById.get(result.conversationId) : undefined;
+      if (!conversation) continue;
+      result.title = `${result.title} in ${conversation.title || `Lovable project ${conversation.lovableProjectId}`}`;
+      result.projectId = conversation.projectId?.toString();
+    }
+  }
+
+  return { results, total: searches.reduce((sum, { total }) => sum + total, 0) };
+};
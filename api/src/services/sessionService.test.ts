@@ -0,0 +1,204 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Response } from 'express';
+import RefreshToken from '../models/RefreshToken';
+import User, { IUser } from '../models/User';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import {
+  createSession,
+  endAllSessions,
+  endSession,
+  InvalidRefreshTokenError,
+  refreshSession
+} from './sessionService';
+
+jest.mock('../models/RefreshToken', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/User', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/Workspace', () => ({ __esModule: true, default: {} }));
+jest.mock('./workspaceService', () => ({}));
+
+type Doc = Record<string, any>;
+
+// Just enough of MongoDB's query language for the queries the session service makes
+const isOperator = (condition: unknown): condition is Record<string, any> =>
+  typeof condition === 'object' && condition !== null && !(condition instanceof Date)
+  && Object.keys(condition).length > 0 && Object.keys(condition).every((key) => key.startsWith('$'));
+
+const matches = (doc: Doc, filter: Doc): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (!isOperator(condition)) return String(doc[key]) === String(condition);
+    if ('$exists' in condition && (doc[key] !== undefined) !== condition.$exists) return false;
+    if ('$gt' in condition && !(doc[key] > condition.$gt)) return false;
+    return true;
+  });
+
+const apply = (doc: Doc, update: Doc): void => {
+  const { $inc, ...fields } = update;
+  Object.entries($inc || {}).forEach(([key, amount]) => {
+    doc[key] = (doc[key] || 0) + (amount as number);
+  });
+  Object.assign(doc, fields);
+};
+
+let tokens: Doc[];
+let users: Doc[];
+
+const userId = new mongoose.Types.ObjectId();
+const client = { userAgent: 'jest', ip: '127.0.0.1' };
+const GRACE_MS = 10 * 1000;
+
+beforeEach(() => {
+  process.env.JWT_SECRET = 'test-secret';
+  delete process.env.REFRESH_TOKEN_REUSE_GRACE_SECONDS;
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+  tokens = [];
+  users = [{ _id: userId, isActive: true, tokenVersion: 0 }];
+
+  Object.assign(RefreshToken, {
+    create: async (doc: Doc) => tokens.push({ ...doc }),
+    findOne: async (filter: Doc) => tokens.find((doc) => matches(doc, filter)) || null,
+    findOneAndUpdate: async (filter: Doc, update: Doc) => {
+      const doc = tokens.find((candidate) => matches(candidate, filter));
+      if (doc) apply(doc, update);
+      return doc || null;
+    },
+    updateMany: async (filter: Doc, update: Doc) => {
+      const found = tokens.filter((doc) => matches(doc, filter));
+      found.forEach((doc) => apply(doc, update));
+      return { modifiedCount: found.length };
+    }
+  });
+
+  // authenticate chains .select('+password') onto findById
+  const findUser = (id: unknown) => users.find((doc) => String(doc._id) === String(id)) || null;
+  Object.assign(User, {
+    findById: (id: unknown) => Object.assign(Promise.resolve(findUser(id)), {
+      select: async () => findUser(id)
+    }),
+    updateOne: async (filter: Doc, update: Doc) => {
+      users.filter((doc) => matches(doc, filter)).forEach((doc) => apply(doc, update));
+    }
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const user = () => users[0] as unknown as IUser;
+
+const later = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+const refreshFails = (refreshToken: string) =>
+  expect(refreshSession(refreshToken, client)).rejects.toThrow(InvalidRefreshTokenError);
+
+// Runs authenticate with an access token and returns the status it answered with, or 200 if it let the request through
+const authenticateWith = async (token: string): Promise<{ status: number; body?: any }> => {
+  let answer: { status: number; body?: any } = { status: 200 };
+  const res = {
+    status: (status: number) => ({ json: (body: any) => { answer = { status, body }; } })
+  } as unknown as Response;
+  await authenticate({ headers: { authorization: `Bearer ${token}` } } as AuthRequest, res, () => undefined);
+  return answer;
+};
+
+describe('refreshSession', () => {
+  it('rotates the refresh token and issues an access token for the user', async () => {
+    const session = await createSession(user(), client);
+    const refreshed = await refreshSession(session.refreshToken, client);
+
+    expect(refreshed.refreshToken).not.toBe(session.refreshToken);
+    expect((jwt.verify(refreshed.token, 'test-secret') as any).id).toBe(userId.toString());
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0].family).toBe(tokens[1].family);
+    // Only hashes are stored
+    expect(tokens.some(({ tokenHash }) => tokenHash === refreshed.refreshToken)).toBe(false);
+
+    await expect(refreshSession(refreshed.refreshToken, client)).resolves.toMatchObject({ user: user() });
+  });
+
+  it('revokes the whole session when a rotated token is used again', async () => {
+    const session = await createSession(user(), client);
+    const other = await createSession(user(), client);
+    const refreshed = await refreshSession(session.refreshToken, client);
+
+    later(GRACE_MS + 1);
+    await refreshFails(session.refreshToken);
+
+    // The token the thief or the user received last no longer works either
+    await refreshFails(refreshed.refreshToken);
+    // Other sessions of the user are not affected
+    await expect(refreshSession(other.refreshToken, client)).resolves.toBeDefined();
+  });
+
+  it('only rejects a token rotated within the grace period, so concurrent refreshes do not sign the user out', async () => {
+    const session = await createSession(user(), client);
+
+    const [first, second] = await Promise.allSettled([
+      refreshSession(session.refreshToken, client),
+      refreshSession(session.refreshToken, client)
+    ]);
+    expect(first.status).toBe('fulfilled');
+    expect(second).toMatchObject({ status: 'rejected', reason: expect.any(InvalidRefreshTokenError) });
+
+    later(GRACE_MS - 1000);
+    await refreshFails(session.refreshToken);
+
+    const winner = (first as PromiseFulfilledResult<{ refreshToken: string }>).value;
+    await expect(refreshSession(winner.refreshToken, client)).resolves.toBeDefined();
+  });
+
+  it('reads the grace period from REFRESH_TOKEN_REUSE_GRACE_SECONDS', async () => {
+    process.env.REFRESH_TOKEN_REUSE_GRACE_SECONDS = '1';
+    const session = await createSession(user(), client);
+    const refreshed = await refreshSession(session.refreshToken, client);
+
+    later(2000);
+    await refreshFails(session.refreshToken);
+    await refreshFails(refreshed.refreshToken);
+  });
+
+  it('rejects expired tokens and tokens of inactive users', async () => {
+    const expired = await createSession(user(), client);
+    later(31 * 24 * 60 * 60 * 1000);
+    await refreshFails(expired.refreshToken);
+
+    const session = await createSession(user(), client);
+    users[0].isActive = false;
+    await refreshFails(session.refreshToken);
+    await refreshFails('not-a-token');
+  });
+});
+
+describe('endSession', () => {
+  it('revokes the refresh tokens of one session', async () => {
+    const session = await createSession(user(), client);
+    const other = await createSession(user(), client);
+    const refreshed = await refreshSession(session.refreshToken, client);
+
+    await endSession(refreshed.refreshToken);
+    await endSession('not-a-token');
+
+    await refreshFails(refreshed.refreshToken);
+    await expect(refreshSession(other.refreshToken, client)).resolves.toBeDefined();
+  });
+});
+
+describe('endAllSessions', () => {
+  it('revokes every session and the access tokens already issued', async () => {
+    const first = await createSession(user(), client);
+    const second = await createSession(user(), client);
+    expect(await authenticateWith(first.token)).toEqual({ status: 200 });
+
+    expect(await endAllSessions(userId)).toBe(2);
+
+    await refreshFails(first.refreshToken);
+    await refreshFails(second.refreshToken);
+    expect(await authenticateWith(first.token)).toMatchObject({ status: 401, body: { code: 'TOKEN_REVOKED' } });
+
+    // Signing in again issues tokens for the new token version
+    const next = await createSession(user(), client);
+    expect(await authenticateWith(next.token)).toEqual({ status: 200 });
+  });
+});
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import RefreshToken from '../models/RefreshToken';
+import User, { IUser } from '../models/User';
+import { generateToken } from '../middleware/auth';
+
+/**
+ * Sessions are a short-lived access token (JWT) plus an opaque refresh token
+ * stored server-side. Every refresh rotates the refresh token; presenting an
+ * already rotated token again revokes the whole session, since it means the
+ * token was copied. A token rotated only seconds ago is just rejected: two
+ * parts of a client, e.g. the extension's side panel and background, can
+ * refresh with the same token at once, and the loser reads the winner's tokens.
+ */
+
+const REFRESH_TOKEN_BYTES = 48;
+const DEFAULT_REFRESH_TOKEN_DAYS = 30;
+const DEFAULT_REUSE_GRACE_SECONDS = 10;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super('Refresh token is invalid or expired');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = (): string => crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+
+const refreshTokenExpiry = (): Date => {
+  const days = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || DEFAULT_REFRESH_TOKEN_DAYS;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+const reuseGraceMs = (): number =>
+  (Number(process.env.REFRESH_TOKEN_REUSE_GRACE_SECONDS) || DEFAULT_REUSE_GRACE_SECONDS) * 1000;
+
+const saveRefreshToken = async (
+  refreshToken: string,
+  userId: mongoose.Types.ObjectId,
+  family: string,
+  client: ClientInfo
+): Promise<void> => {
+  await RefreshToken.create({
+    tokenHash: hashToken(refreshToken),
+    family,
+    userId,
+    expiresAt: refreshTokenExpiry(),
+    userAgent: client.userAgent?.slice(0, 500),
+    ip: client.ip
+  });
+};
+
+const accessToken = (user: IUser): string =>
+  generateToken((user as any)._id.toString(), user.tokenVersion);
+
+const revokeFamily = async (family: string): Promise<number> => {
+  const result = await RefreshToken.updateMany(
+    { family, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
+
+export const createSession = async (user: IUser, client: ClientInfo): Promise<SessionTokens> => {
+  const refreshToken = newRefreshToken();
+  await saveRefreshToken(refreshToken, (user as any)._id, crypto.randomUUID(), client);
+
+  return { token: accessToken(user), refreshToken };
+};
+
+export const refreshSession = async (
+  refreshToken: string,
+  client: ClientInfo
+): Promise<SessionTokens & { user: IUser }> => {
+  const tokenHash = hashToken(refreshToken);
+  const nextRefreshToken = newRefreshToken();
+
+  // Claimed atomically, so two requests with the same token cannot both succeed
+  const stored = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+    { revokedAt: new Date(), replacedBy: hashToken(nextRefreshToken) },
+    { new: true }
+  );
+
+  if (!stored) {
+    const reused = await RefreshToken.findOne({ tokenHash, replacedBy: { $exists: true } });
+    // revokedAt of a rotated token is when it was rotated
+    const concurrent = reused?.revokedAt && Date.now() - reused.revokedAt.getTime() < reuseGraceMs();
+    if (reused && !concurrent) {
+      await revokeFamily(reused.family);
+    }
+    throw new InvalidRefreshTokenError();
+  }
+
+  const user = await User.findById(stored.userId);
+  if (!user || !user.isActive) {
+    throw new InvalidRefreshTokenError();
+  }
+
+  await saveRefreshToken(nextRefreshToken, stored.userId, stored.family, client);
+
+  return { token: accessToken(user), refreshToken: nextRefreshToken, user };
+};
+
+// Ends the session the refresh token belongs to. Unknown tokens are ignored.
+export const endSession = async (refreshToken: string): Promise<void> => {
+  const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+  if (stored) {
+    await revokeFamily(stored.family);
+  }
+};
+
+// Revokes every refresh token of the user and invalidates access tokens already issued
+export const endAllSessions = async (userId: mongoose.Types.ObjectId): Promise<number> => {
+  await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+
+  const result = await RefreshToken.updateMany(
+    { userId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
@@ -0,0 +1,52 @@
+import { ISiteMapPage } from '../models/Document';
+import { estimateTokens } from './htmlCondenser';
+import { formatSiteMap } from './siteMap';
+
+const page = (index: number, structure: string, links: string[] = []): ISiteMapPage => ({
+  route: `/page-${index}`,
+  title: `Page ${index}`,
+  depth: index === 0 ? 0 : 1,
+  links,
+  structure
+});
+
+describe('formatSiteMap', () => {
+  it('lists every page and its structure when there is room', () => {
+    expect(formatSiteMap([page(0, 'h1 Home', ['/page-1']), page(1, '')])).toBe([
+      'Site Map (2 pages, found by following the app\'s links):',
+      '- /page-0 "Page 0" -> /page-1',
+      '- /page-1 "Page 1"',
+      '',
+      'Page Structure:',
+      '### /page-0 (Page 0)',
+      'h1 Home',
+      '',
+      '### /page-1 (Page 1)',
+      '(no content captured)'
+    ].join('\n'));
+  });
+
+  it('fits the largest site map the API accepts into the token budget', () => {
+    const links = Array.from({ length: 200 }, (_, index) => `/page-${index}/${'x'.repeat(400)}`);
+    const short = page(0, 'h1 Home', links.map((_, index) => `/page-${index}`));
+    expect(formatSiteMap([short])).toContain('/page-19 and 180 more');
+
+    const pages = Array.from({ length: 50 }, (_, index) => page(index, 'word '.repeat(4000), links));
+
+    const text = formatSiteMap(pages, 4000);
+
+    expect(estimateTokens(text)).toBeLessThanOrEqual(4000);
+    expect(text).toMatch(/\(\d+ more pages left out to fit the prompt\)/);
+    expect(text).toContain('### /page-0 (Page 0)');
+  });
+
+  it('shortens page structures before leaving pages out', () => {
+    const pages = Array.from({ length: 3 }, (_, index) => page(index, 'word '.repeat(2000)));
+
+    const text = formatSiteMap(pages, 2000);
+
+    expect(estimateTokens(text)).toBeLessThanOrEqual(2000);
+    expect(text).toContain('### /page-2 (Page 2)');
+    expect(text).not.toContain('left out');
+  });
+});
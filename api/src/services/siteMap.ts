@@ -0,0 +1,102 @@
+import { body } from 'express-validator';
+import { ISiteMapPage } from '../models/Document';
+import { CHARS_PER_TOKEN, shorten } from './htmlCondenser';
+
+/**
+ * Formats the pages the extension crawled from an app's preview for AI
+ * prompts: first an outline of the routes and where each one links, then
+ * what is on each page. The text is fitted to a token budget: long link lists
+ * are counted instead of listed, page structures are shortened, and the
+ * deepest pages are left out first.
+ */
+
+export const MAX_SITE_MAP_PAGES = 50;
+
+// Links listed per page in the outline; the rest are counted
+const MAX_OUTLINE_LINKS = 20;
+// Longest outline entry; routes and titles are long only in crafted requests
+const MAX_OUTLINE_ENTRY_LENGTH = 1000;
+// Room for a note saying how many pages were left out
+const NOTE_LENGTH = 80;
+// A page whose structure would get fewer characters than this is only listed in the outline
+const MIN_STRUCTURE_LENGTH = 300;
+
+// e.g. `/settings "Settings" -> /settings/billing, /`
+const outlineEntry = ({ route, title, links }: ISiteMapPage): string => {
+  const listed = links.slice(0, MAX_OUTLINE_LINKS).join(', ');
+  const more = links.length > MAX_OUTLINE_LINKS ? ` and ${links.length - MAX_OUTLINE_LINKS} more` : '';
+  return `- ${route}${title ? ` "${title}"` : ''}${links.length > 0 ? ` -> ${listed}${more}` : ''}`;
+};
+
+const pageHeading = ({ route, title }: ISiteMapPage): string => `### ${route}${title ? ` (${title})` : ''}`;
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const formatSiteMap = (pages: ISiteMapPage[], maxTokens = Infinity): string => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const header = `Site Map (${plural(pages.length, 'page')}, found by following the app's links):`;
+
+  // The outline takes at most half of the budget; pages are in crawl order, so the deepest go first
+  const entries = pages.map((page) => shorten(outlineEntry(page), MAX_OUTLINE_ENTRY_LENGTH));
+  let outlined = pages.length;
+  let outlineLength = header.length + entries.reduce((total, entry) => total + entry.length + 1, 0);
+  while (outlined > 1 && outlineLength + NOTE_LENGTH > maxChars / 2) {
+    outlined--;
+    outlineLength -= entries[outlined].length + 1;
+  }
+  const outline = [header, ...entries.slice(0, outlined)];
+  if (outlined < pages.length) {
+    outline.push(`(${plural(pages.length - outlined, 'more page')} left out to fit the prompt)`);
+  }
+  const outlineText = outline.join('\n');
+
+  // The rest of the budget is shared by the page structures; each takes a heading and a blank line
+  const detailsChars = maxChars - outlineText.length - '\n\nPage Structure:\n'.length - NOTE_LENGTH;
+  const detailed = Math.min(outlined, Math.max(1, Math.floor(detailsChars / MIN_STRUCTURE_LENGTH)));
+  const perPage = Math.floor(detailsChars / detailed) - 2;
+  const details = pages.slice(0, detailed).map((page) => {
+    const heading = pageHeading(page);
+    const structure = page.structure.trim() || '(no content captured)';
+    // shorten adds "..." to what it cuts
+    return `${heading}\n${shorten(structure, Math.max(perPage - heading.length - 4, MIN_STRUCTURE_LENGTH / 2))}`;
+  });
+  if (detailed < outlined) {
+    details.push(`(Structure of ${plural(outlined - detailed, 'more page')} left out to fit the prompt)`);
+  }
+
+  return `${outlineText}\n\nPage Structure:\n${details.join('\n\n')}`;
+};
+
+// Optional `siteMap` body field of the AI generation routes
+export const siteMapBodyValidators = () => [
+  body('siteMap')
+    .optional()
+    .isArray({ max: MAX_SITE_MAP_PAGES })
+    .withMessage(`Site map must be an array of at most ${MAX_SITE_MAP_PAGES} pages`),
+  body('siteMap.*.route')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Each site map page needs a route of at most 500 characters'),
+  body('siteMap.*.title')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Site map page titles cannot exceed 300 characters'),
+  body('siteMap.*.depth')
+    .isInt({ min: 0, max: 10 })
+    .withMessage('Site map page depth must be between 0 and 10')
+    .toInt(),
+  body('siteMap.*.links')
+    .isArray({ max: 200 })
+    .withMessage('Site map page links must be an array of at most 200 routes'),
+  body('siteMap.*.links.*')
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Site map links must be routes of at most 500 characters'),
+  body('siteMap.*.structure')
+    .isString()
+    .isLength({ max: 20000 })
+    .withMessage('Site map page structure cannot exceed 20000 characters')
+];
@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  checkTestTargets,
+  getTestRunner,
+  parseTestDefinition,
+  TestDefinitionError,
+  TestRunArtifact,
+  TestRunHooks,
+  TestStepOutcome
+} from './testRunner';
+
+describe('parseTestDefinition', () => {
+  it('builds a definition from testData', () => {
+    expect(parseTestDefinition({
+      steps: [
+        { action: 'goto', url: '/login', description: 'Open the login page' },
+        { action: 'type', selector: '#email', value: 42 },
+        { action: 'wait', timeout: 999999 }
+      ]
+    }, 'https://example.com/')).toEqual({
+      targetUrl: 'https://example.com/',
+      steps: [
+        { action: 'goto', description: 'Open the login page', selector: undefined, value: undefined, url: '/login', timeout: undefined },
+        { action: 'type', description: undefined, selector: '#email', value: '42', url: undefined, timeout: undefined },
+        { action: 'wait', description: undefined, selector: undefined, value: undefined, url: undefined, timeout: 120000 }
+      ],
+      timeout: undefined
+    });
+  });
+
+  it('rejects testData that cannot be run', () => {
+    const steps = [{ action: 'screenshot' }];
+    expect(() => parseTestDefinition({ steps })).toThrow('A valid http(s) targetUrl is required to run this test');
+    expect(() => parseTestDefinition({ steps }, 'file:///etc/passwd')).toThrow(TestDefinitionError);
+    expect(() => parseTestDefinition({ steps: [] }, 'https://example.com')).toThrow('testData.steps must contain at least one step');
+    expect(() => parseTestDefinition({ steps: [{ description: 'Log in' }] }, 'https://example.com'))
+      .toThrow('Step 1 ("Log in") needs an action');
+    expect(() => parseTestDefinition({ steps: [{ action: 'click' }] }, 'https://example.com'))
+      .toThrow('Step 1 needs a selector for the click action');
+    expect(() => parseTestDefinition({ steps: [{ action: 'goto', url: 'javascript:alert(1)' }] }, 'https://example.com'))
+      .toThrow('Step 1 must navigate to an http(s) URL');
+  });
+});
+
+describe('checkTestTargets', () => {
+  afterEach(() => {
+    delete process.env.TEST_RUNNER_ALLOWED_HOSTS;
+  });
+
+  it('refuses targets and goto steps on local networks unless their host is allowed', async () => {
+    const local = parseTestDefinition({ steps: [{ action: 'screenshot' }] }, 'http://127.0.0.1:8080/');
+    await expect(checkTestTargets(local)).rejects.toThrow(/^Cannot run against http:\/\/127\.0\.0\.1:8080\/: /);
+
+    process.env.TEST_RUNNER_ALLOWED_HOSTS = '127.0.0.1';
+    await expect(checkTestTargets(local)).resolves.toBeUndefined();
+
+    const metadata = parseTestDefinition({ steps: [{ action: 'goto', url: 'http://169.254.169.254/latest/meta-data' }] }, 'http://127.0.0.1:8080/');
+    await expect(checkTestTargets(metadata)).rejects.toThrow(TestDefinitionError);
+  });
+});
+
+const PAGES: Record<string, string> = {
+  '/': `<!doctype html><title>Home</title>
+    <h1 id="greeting">Hello</h1>
+    <input id="name"><button id="greet" onclick="document.getElementById('greeting').textContent = 'Hello ' + document.getElementById('name').value">Greet</button>
+    <a id="next" href="/next">Next</a>`,
+  '/next': '<!doctype html><title>Next</title><h1>Next page</h1>'
+};
+
+// Runs only where headless Chromium is available, like the runner itself
+const describeWithChromium = process.env.CHROMIUM_PATH ? describe : describe.skip;
+
+describeWithChromium('Chromium test runner', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url || '/', 'http://127.0.0.1');
+      if (pathname === '/redirect') {
+        // localhost is not on the allowlist, unlike 127.0.0.1
+        res.writeHead(302, { Location: `http://localhost:${(server.address() as AddressInfo).port}/next` });
+        res.end();
+        return;
+      }
+      const page = PAGES[pathname];
+      res.writeHead(page ? 200 : 404, { 'Content-Type': 'text/html' });
+      res.end(page || 'Not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    process.env.TEST_RUNNER_ALLOWED_HOSTS = '127.0.0.1';
+  });
+
+  afterAll(async () => {
+    delete process.env.TEST_RUNNER_ALLOWED_HOSTS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const run = async (steps: unknown[]) => {
+    const outcomes: TestStepOutcome[] = [];
+    const artifacts: TestRunArtifact[] = [];
+    const hooks: TestRunHooks = {
+      onStepStart: async () => undefined,
+      onStepEnd: async (index, outcome) => {
+        outcomes[index] = outcome;
+      },
+      saveArtifact: async (artifact) => {
+        artifacts.push(artifact);
+      }
+    };
+    const definition = parseTestDefinition({ steps, timeout: 5000 }, baseUrl);
+    const result = await getTestRunner('e2e')!.run(definition, hooks);
+    const screenshots = artifacts.filter(({ type }) => type === 'screenshot').map(({ name }) => name);
+    return { result, statuses: outcomes.map(({ status }) => status), outcomes, artifacts, screenshots };
+  };
+
+  it('runs the steps against the page', async () => {
+    const { result, statuses, screenshots } = await run([
+      { action: 'type', selector: '#name', value: 'Ada' },
+      { action: 'click', selector: '#greet' },
+      { action: 'assertText', selector: '#greeting', value: 'Hello Ada' },
+      { action: 'screenshot' },
+      { action: 'click', selector: 'a::-p-text(Next)' },
+      { action: 'waitFor', selector: 'h1::-p-text(Next page)' },
+      { action: 'assertUrl', value: '/next' },
+      { action: 'goto', url: '/' },
+      { action: 'assertVisible', selector: '#greet' }
+    ]);
+
+    expect(result).toMatchObject({ status: 'passed', errorMessage: undefined });
+    expect(statuses).toEqual(Array(9).fill('passed'));
+    expect(screenshots).toEqual(['step-4.png', 'final.png']);
+  }, 60000);
+
+  it('fails at the first failing step and skips the rest', async () => {
+    const { result, statuses, outcomes, screenshots } = await run([
+      { action: 'assertText', selector: 'h1', value: 'Goodbye' },
+      { action: 'click', selector: '#greet' }
+    ]);
+
+    expect(result.status).toBe('failed');
+    expect(result.errorMessage).toBe('Step 1 (assertText) failed: Expected "h1" to contain "Goodbye"');
+    expect(statuses).toEqual(['failed', 'skipped']);
+    expect(outcomes[0].errorMessage).toBe(result.errorMessage);
+    expect(screenshots).toEqual(['step-1-failure.png']);
+  }, 60000);
+
+  it('blocks redirects to hosts that are not allowed', async () => {
+    const { result, artifacts } = await run([{ action: 'goto', url: '/redirect' }]);
+
+    expect(result.status).toBe('failed');
+    expect(result.errorMessage).toMatch(/^Step 1 \(goto\) failed: net::ERR_BLOCKED_BY_CLIENT/);
+    const consoleLog = artifacts.find(({ type }) => type === 'console');
+    expect(String(consoleLog?.data)).toContain(`[blocked] http://localhost:`);
+  }, 60000);
+});
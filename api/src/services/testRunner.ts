@@ -0,0 +1,469 @@
+import fs from 'fs/promises';
+import path from 'path';
+import puppeteer, { Browser, Page } from 'puppeteer-core';
+import winston from 'winston';
+import Test, { ITest, ITestArtifact, ITestStepProgress } from '../models/Test';
+import { checkPublicUrl } from './networkPolicy';
+
+// Winston logger setup
+const runnerLogger = winston.createLogger({
+  level: 'error',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.File({ filename: 'logs/test-runner-errors.log', level: 'error' })
+  ]
+});
+
+export type TestStepAction =
+  | 'goto'
+  | 'click'
+  | 'type'
+  | 'select'
+  | 'waitFor'
+  | 'wait'
+  | 'assertText'
+  | 'assertVisible'
+  | 'assertUrl'
+  | 'screenshot';
+
+export const STEP_ACTIONS: TestStepAction[] = [
+  'goto', 'click', 'type', 'select', 'waitFor', 'wait', 'assertText', 'assertVisible', 'assertUrl', 'screenshot'
+];
+
+// Actions that cannot do anything without a selector
+export const SELECTOR_ACTIONS: TestStepAction[] = ['click', 'type', 'select', 'waitFor', 'assertVisible'];
+
+export interface TestStepDefinition {
+  action: TestStepAction;
+  description?: string;
+  selector?: string;
+  value?: string;
+  url?: string;
+  timeout?: number; // in milliseconds
+}
+
+export interface TestRunDefinition {
+  targetUrl: string;
+  steps: TestStepDefinition[];
+  timeout?: number; // default per-step timeout in milliseconds
+}
+
+export interface TestStepOutcome {
+  status: 'passed' | 'failed' | 'skipped';
+  duration?: number;
+  errorMessage?: string;
+}
+
+export interface TestRunOutcome {
+  status: 'passed' | 'failed';
+  duration: number;
+  errorMessage?: string;
+}
+
+export interface TestRunArtifact {
+  type: ITestArtifact['type'];
+  name: string;
+  data: Buffer | string;
+  stepIndex?: number;
+}
+
+// Callbacks a runner uses to report progress while it works through the steps
+export interface TestRunHooks {
+  onStepStart(index: number): Promise<void>;
+  onStepEnd(index: number, outcome: TestStepOutcome): Promise<void>;
+  saveArtifact(artifact: TestRunArtifact): Promise<void>;
+}
+
+export interface TestRunner {
+  run(definition: TestRunDefinition, hooks: TestRunHooks): Promise<TestRunOutcome>;
+}
+
+// Raised when a test's testData cannot be turned into runnable steps
+export class TestDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TestDefinitionError';
+  }
+}
+
+const DEFAULT_STEP_TIMEOUT = 10000;
+const MAX_STEP_TIMEOUT = 120000;
+// Steps that would start after this are failed, so a run cannot go on forever
+const MAX_RUN_DURATION = 15 * 60 * 1000;
+
+// A run holds a lease on its test while it works, renewed every RUN_LEASE_RENEW_MS. A test still
+// marked as running once its lease has expired was abandoned, e.g. because the server restarted.
+const RUN_LEASE_MS = 60 * 1000;
+const RUN_LEASE_RENEW_MS = 20 * 1000;
+const ABANDONED_RUN_MESSAGE = 'The run was interrupted before it finished, e.g. by a server restart';
+
+const isHttpUrl = (value: string, base?: string): boolean => {
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Builds a runnable definition from a test's testData. Steps have the same
+ * shape as the steps of AI-generated test cases.
+ */
+export const parseTestDefinition = (testData: any, targetUrl?: string): TestRunDefinition => {
+  const url = testData?.targetUrl || targetUrl;
+  if (!url || typeof url !== 'string' || !isHttpUrl(url)) {
+    throw new TestDefinitionError('A valid http(s) targetUrl is required to run this test');
+  }
+
+  const rawSteps = testData?.steps;
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
+    throw new TestDefinitionError('testData.steps must contain at least one step');
+  }
+
+  const steps = rawSteps.map((step: any, index: number): TestStepDefinition => {
+    const label = step?.description ? `Step ${index + 1} ("${step.description}")` : `Step ${index + 1}`;
+
+    if (!step || !STEP_ACTIONS.includes(step.action)) {
+      throw new TestDefinitionError(`${label} needs an action (one of: ${STEP_ACTIONS.join(', ')})`);
+    }
+    if (SELECTOR_ACTIONS.includes(step.action) && !step.selector) {
+      throw new TestDefinitionError(`${label} needs a selector for the ${step.action} action`);
+    }
+    if (step.action === 'goto' && step.url && !isHttpUrl(step.url, url)) {
+      throw new TestDefinitionError(`${label} must navigate to an http(s) URL`);
+    }
+
+    return {
+      action: step.action,
+      description: step.description,
+      selector: step.selector,
+      value: step.value !== undefined ? String(step.value) : undefined,
+      url: step.url,
+      timeout: step.timeout ? Math.min(Number(step.timeout), MAX_STEP_TIMEOUT) : undefined
+    };
+  });
+
+  return {
+    targetUrl: url,
+    steps,
+    timeout: testData?.timeout ? Math.min(Number(testData.timeout), MAX_STEP_TIMEOUT) : undefined
+  };
+};
+
+/**
+ * Rejects definitions whose target or goto steps point at a private or local
+ * network. Redirects and navigations the page starts itself are checked by the
+ * runner as they happen.
+ */
+export const checkTestTargets = async (definition: TestRunDefinition): Promise<void> => {
+  const urls = [
+    definition.targetUrl,
+    ...definition.steps
+      .filter((step) => step.action === 'goto')
+      .map((step) => new URL(step.url || '', definition.targetUrl).toString())
+  ];
+  for (const url of new Set(urls)) {
+    const blocked = await checkPublicUrl(url);
+    if (blocked) {
+      throw new TestDefinitionError(`Cannot run against ${url}: ${blocked}`);
+    }
+  }
+};
+
+class ChromiumTestRunner implements TestRunner {
+  async run(definition: TestRunDefinition, hooks: TestRunHooks): Promise<TestRunOutcome> {
+    const executablePath = process.env.CHROMIUM_PATH;
+    if (!executablePath) {
+      throw new Error('CHROMIUM_PATH is not configured; cannot launch headless Chromium');
+    }
+
+    const startedAt = Date.now();
+    const consoleLines: string[] = [];
+    let browser: Browser | undefined;
+    let failure: string | undefined;
+
+    try {
+      browser = await puppeteer.launch({
+        executablePath,
+        headless: true,
+        args: ['--no-sandbox', '--disable-dev-shm-usage']
+      });
+
+      const page = await browser.newPage();
+      page.on('console', (message) => consoleLines.push(`[${message.type()}] ${message.text()}`));
+      page.on('pageerror', (error) => consoleLines.push(`[pageerror] ${error instanceof Error ? error.message : String(error)}`));
+
+      // Every request the page makes, including redirects and navigations by its own scripts, has to go to a public host
+      const hostChecks = new Map<string, Promise<string | null>>();
+      await page.setRequestInterception(true);
+      page.on('request', (request) => {
+        const url = request.url();
+        if (!isHttpUrl(url)) {
+          request.continue().catch(() => undefined);
+          return;
+        }
+        const host = new URL(url).hostname;
+        if (!hostChecks.has(host)) hostChecks.set(host, checkPublicUrl(url));
+        hostChecks.get(host)!
+          .then((blocked) => {
+            if (!blocked) return request.continue();
+            consoleLines.push(`[blocked] ${url}: ${blocked}`);
+            return request.abort('blockedbyclient');
+          })
+          .catch(() => undefined);
+      });
+
+      await page.goto(definition.targetUrl, {
+        waitUntil: 'load',
+        timeout: definition.timeout || DEFAULT_STEP_TIMEOUT
+      });
+
+      for (let index = 0; index < definition.steps.length; index++) {
+        const step = definition.steps[index];
+
+        if (failure) {
+          await hooks.onStepEnd(index, { status: 'skipped' });
+          continue;
+        }
+
+        if (Date.now() - startedAt > MAX_RUN_DURATION) {
+          failure = `Step ${index + 1} (${step.action}) was not run: the test took longer than ${MAX_RUN_DURATION / 60000} minutes`;
+          await hooks.onStepEnd(index, { status: 'failed', errorMessage: failure });
+          continue;
+        }
+
+        await hooks.onStepStart(index);
+        const stepStartedAt = Date.now();
+
+        try {
+          await this.runStep(page, step, definition, index, hooks);
+          await hooks.onStepEnd(index, { status: 'passed', duration: Date.now() - stepStartedAt });
+        } catch (error) {
+          failure = `Step ${index + 1} (${step.action}) failed: ${error instanceof Error ? error.message : String(error)}`;
+          await hooks.onStepEnd(index, {
+            status: 'failed',
+            duration: Date.now() - stepStartedAt,
+            errorMessage: failure
+          });
+          await this.capture(page, hooks, `step-${index + 1}-failure.png`, index);
+        }
+      }
+
+      if (!failure) {
+        await this.capture(page, hooks, 'final.png');
+      }
+    } catch (error) {
+      // Launch or initial navigation failed
+      failure = failure || (error instanceof Error ? error.message : String(error));
+    } finally {
+      if (consoleLines.length > 0) {
+        await hooks.saveArtifact({ type: 'console', name: 'console.log', data: consoleLines.join('\n') });
+      }
+      await browser?.close().catch(() => undefined);
+    }
+
+    return {
+      status: failure ? 'failed' : 'passed',
+      duration: Date.now() - startedAt,
+      errorMessage: failure
+    };
+  }
+
+  private async runStep(
+    page: Page,
+    step: TestStepDefinition,
+    definition: TestRunDefinition,
+    index: number,
+    hooks: TestRunHooks
+  ): Promise<void> {
+    const timeout = step.timeout || definition.timeout || DEFAULT_STEP_TIMEOUT;
+
+    switch (step.action) {
+      case 'goto':
+        await page.goto(new URL(step.url || '', definition.targetUrl).toString(), { waitUntil: 'load', timeout });
+        break;
+      case 'click':
+        await page.waitForSelector(step.selector!, { visible: true, timeout });
+        await page.click(step.selector!);
+        break;
+      case 'type':
+        await page.waitForSelector(step.selector!, { visible: true, timeout });
+        await page.type(step.selector!, step.value || '');
+        break;
+      case 'select':
+        await page.waitForSelector(step.selector!, { timeout });
+        await page.select(step.selector!, step.value || '');
+        break;
+      case 'waitFor':
+        await page.waitForSelector(step.selector!, { timeout });
+        break;
+      case 'wait':
+        await new Promise((resolve) => setTimeout(resolve, Math.min(Number(step.value) || 1000, timeout)));
+        break;
+      case 'assertVisible':
+        await page.waitForSelector(step.selector!, { visible: true, timeout });
+        break;
+      case 'assertText': {
+        const expected = step.value || '';
+        const selector = step.selector || 'body';
+        await page.waitForSelector(selector, { timeout });
+        const text = await page.$eval(selector, (element) => element.textContent || '');
+        if (!text.includes(expected)) {
+          throw new Error(`Expected "${selector}" to contain "${expected}"`);
+        }
+        break;
+      }
+      case 'assertUrl':
+        if (!page.url().includes(step.value || step.url || '')) {
+          throw new Error(`Expected URL to contain "${step.value || step.url}", got "${page.url()}"`);
+        }
+        break;
+      case 'screenshot':
+        await this.capture(page, hooks, `step-${index + 1}.png`, index);
+        break;
+    }
+  }
+
+  private async capture(page: Page, hooks: TestRunHooks, name: string, stepIndex?: number): Promise<void> {
+    try {
+      const data = Buffer.from(await page.screenshot({ fullPage: true }));
+      await hooks.saveArtifact({ type: 'screenshot', name, data, stepIndex });
+    } catch (error) {
+      runnerLogger.error('Failed to capture screenshot', { name, error: error instanceof Error ? error.message : error });
+    }
+  }
+}
+
+const runners = new Map<ITest['type'], TestRunner>();
+
+export const registerTestRunner = (type: ITest['type'], runner: TestRunner): void => {
+  runners.set(type, runner);
+};
+
+export const getTestRunner = (type: ITest['type']): TestRunner | undefined => runners.get(type);
+
+const chromiumRunner = new ChromiumTestRunner();
+registerTestRunner('e2e', chromiumRunner);
+registerTestRunner('integration', chromiumRunner);
+
+export const getArtifactsDir = (testId: string): string =>
+  path.resolve(process.env.TEST_ARTIFACTS_DIR || 'artifacts', testId);
+
+export const runLeaseExpiry = (): Date => new Date(Date.now() + RUN_LEASE_MS);
+
+// Matches tests no run is working on: not running, or running with an expired lease
+export const notRunningFilter = () => ({
+  $or: [
+    { status: { $ne: 'running' } },
+    { leaseExpiresAt: { $not: { $gt: new Date() } } }
+  ]
+});
+
+// Marks runs that lost their lease as failed, so they do not show as running forever
+export const failAbandonedRuns = async (): Promise<number> => {
+  const result = await Test.updateMany(
+    { status: 'running', leaseExpiresAt: { $not: { $gt: new Date() } } },
+    {
+      $set: {
+        status: 'failed',
+        errorMessage: ABANDONED_RUN_MESSAGE,
+        finishedAt: new Date(),
+        'progress.$[unfinished].status': 'skipped'
+      },
+      $unset: { leaseExpiresAt: 1 }
+    },
+    { arrayFilters: [{ 'unfinished.status': { $in: ['pending', 'running'] } }] }
+  );
+  return result.modifiedCount;
+};
+
+export const initialProgress = (definition: TestRunDefinition): ITestStepProgress[] =>
+  definition.steps.map((step, index) => ({
+    index,
+    action: step.action,
+    description: step.description,
+    status: 'pending'
+  }));
+
+/**
+ * Runs a test that has already been marked as running and records progress,
+ * artifacts and the final status on the Test document as it goes.
+ */
+export const executeTestRun = async (testId: string, runner: TestRunner, definition: TestRunDefinition): Promise<void> => {
+  const artifactsDir = getArtifactsDir(testId);
+
+  const hooks: TestRunHooks = {
+    onStepStart: async (index) => {
+      await Test.updateOne({ _id: testId }, { $set: { [`progress.${index}.status`]: 'running' } });
+    },
+    onStepEnd: async (index, outcome) => {
+      await Test.updateOne({ _id: testId }, {
+        $set: {
+          [`progress.${index}.status`]: outcome.status,
+          [`progress.${index}.duration`]: outcome.duration,
+          [`progress.${index}.errorMessage`]: outcome.errorMessage?.substring(0, 2000)
+        }
+      });
+    },
+    saveArtifact: async (artifact) => {
+      const name = path.basename(artifact.name);
+      const filePath = path.join(artifactsDir, name);
+      await fs.writeFile(filePath, artifact.data);
+      await Test.updateOne({ _id: testId }, {
+        $push: {
+          artifacts: {
+            type: artifact.type,
+            name,
+            path: filePath,
+            stepIndex: artifact.stepIndex,
+            createdAt: new Date()
+          }
+        }
+      });
+    }
+  };
+
+  let outcome: TestRunOutcome;
+  const lease = setInterval(() => {
+    Test.updateOne({ _id: testId, status: 'running' }, { $set: { leaseExpiresAt: runLeaseExpiry() } })
+      .catch((error) => runnerLogger.error('Failed to renew test run lease', { testId, error: error instanceof Error ? error.message : error }));
+  }, RUN_LEASE_RENEW_MS);
+
+  try {
+    // Artifacts belong to the latest run only
+    await fs.rm(artifactsDir, { recursive: true, force: true });
+    await fs.mkdir(artifactsDir, { recursive: true });
+    outcome = await runner.run(definition, hooks);
+  } catch (error) {
+    runnerLogger.error('Test run crashed', { testId, error: error instanceof Error ? error.message : error });
+    outcome = {
+      status: 'failed',
+      duration: 0,
+      errorMessage: error instanceof Error ? error.message : 'Test runner failed'
+    };
+  } finally {
+    clearInterval(lease);
+  }
+
+  try {
+    await Test.updateOne({ _id: testId }, {
+      $set: {
+        status: outcome.status,
+        duration: outcome.duration,
+        errorMessage: outcome.errorMessage?.substring(0, 2000),
+        finishedAt: new Date(),
+        // Steps never reached, e.g. because the page did not load
+        'progress.$[unfinished].status': 'skipped'
+      },
+      $unset: { leaseExpiresAt: 1 }
+    }, {
+      arrayFilters: [{ 'unfinished.status': { $in: ['pending', 'running'] } }]
+    });
+  } catch (error) {
+    runnerLogger.error('Failed to record test result', { testId, error: error instanceof Error ? error.message : error });
+  }
+};
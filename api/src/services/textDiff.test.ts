@@ -0,0 +1,51 @@
+import { diffLines, MAX_DIFF_LINES } from './textDiff';
+
+const sides = ({ changes }: ReturnType<typeof diffLines>) => ({
+  before: changes.filter(({ type }) => type !== 'added').flatMap(({ lines }) => lines).join('\n'),
+  after: changes.filter(({ type }) => type !== 'removed').flatMap(({ lines }) => lines).join('\n')
+});
+
+describe('diffLines', () => {
+  it('groups changed lines between unchanged ones', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne')).toEqual({
+      changes: [
+        { type: 'unchanged', lines: ['a'] },
+        { type: 'removed', lines: ['b'] },
+        { type: 'added', lines: ['x'] },
+        { type: 'unchanged', lines: ['c', 'd'] },
+        { type: 'added', lines: ['e'] }
+      ],
+      added: 2,
+      removed: 1
+    });
+  });
+
+  it('finds a shortest edit that turns one text into the other', () => {
+    const lines = (seed: number) => Array.from({ length: 40 }, (_, i) => 'abc'[(i * seed + (i >> 2)) % 3]).join('\n');
+    for (let seed = 1; seed < 20; seed++) {
+      const before = lines(seed);
+      const after = lines(seed + 3);
+      expect(sides(diffLines(before, after))).toEqual({ before, after });
+    }
+    const { added, removed } = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc');
+    expect(added + removed).toBe(5);
+  });
+
+  it('lists every line as changed past the edit distance limit', () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `line ${i}`);
+    const after = before.map((line) => `${line}!`);
+    const diff = diffLines(before.join('\n'), after.join('\n'));
+    expect(diff.changes.map(({ type }) => type)).toEqual(['removed', 'added']);
+    expect(diff.added).toBe(3000);
+  });
+
+  it('does not compare texts with too many lines', () => {
+    const before = Array.from({ length: MAX_DIFF_LINES }, (_, i) => `line ${i}`);
+    const after = [...before];
+    after.splice(MAX_DIFF_LINES / 2, 1, 'changed');
+    after.unshift('new');
+    const diff = diffLines(before.join('\n'), after.join('\n'));
+    expect(diff.changes.map(({ type }) => type)).toEqual(['removed', 'added', 'unchanged']);
+    expect(sides(diff)).toEqual({ before: before.join('\n'), after: after.join('\n') });
+  });
+});
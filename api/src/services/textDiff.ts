@@ -0,0 +1,134 @@
+/**
+ * Line-based diff (Myers' O(ND) algorithm) used to compare document versions.
+ * Consecutive lines with the same change type are grouped together.
+ */
+
+export interface DiffChange {
+  type: 'added' | 'removed' | 'unchanged';
+  lines: string[];
+}
+
+export interface TextDiff {
+  changes: DiffChange[];
+  added: number;
+  removed: number;
+}
+
+type LineOp = ['=' | '-' | '+', string];
+
+// Past this many differing lines the documents are treated as completely rewritten, which bounds memory use
+const MAX_EDIT_DISTANCE = 1000;
+// Larger texts are not compared line by line at all; their changed lines are listed as removed and added
+export const MAX_DIFF_LINES = 20000;
+export const MAX_DIFF_LENGTH = 2000000;
+
+// Step d only reads diagonals -d-1 to d+1 of the step before, so that window is all the trace keeps
+const traceWindow = (v: Int32Array, offset: number, d: number): Int32Array =>
+  v.slice(offset - d - 1, offset + d + 2);
+
+const shortestEdit = (a: string[], b: string[]): LineOp[] | null => {
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(traceWindow(v, offset, d));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], a: string[], b: string[]): LineOp[] => {
+  const ops: LineOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    // Index of diagonal 0 in the window kept for step d
+    const offset = d + 1;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push(['=', a[x - 1]]);
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push(['+', b[y - 1]]);
+      } else {
+        ops.push(['-', a[x - 1]]);
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+};
+
+export const diffLines = (before: string, after: string): TextDiff => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Unchanged head and tail lines are common and cheap to skip
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const comparable = middleA.length + middleB.length <= MAX_DIFF_LINES
+    && before.length + after.length <= MAX_DIFF_LENGTH;
+  const middle = (comparable && shortestEdit(middleA, middleB)) || [
+    ...middleA.map((line): LineOp => ['-', line]),
+    ...middleB.map((line): LineOp => ['+', line])
+  ];
+
+  const ops: LineOp[] = [
+    ...a.slice(0, start).map((line): LineOp => ['=', line]),
+    ...middle,
+    ...a.slice(a.length - end).map((line): LineOp => ['=', line])
+  ];
+
+  const types = { '=': 'unchanged', '-': 'removed', '+': 'added' } as const;
+  const changes: DiffChange[] = [];
+  let added = 0;
+  let removed = 0;
+
+  for (const [op, line] of ops) {
+    if (op === '+') added++;
+    if (op === '-') removed++;
+
+    const last = changes[changes.length - 1];
+    if (last && last.type === types[op]) {
+      last.lines.push(line);
+    } else {
+      changes.push({ type: types[op], lines: [line] });
+    }
+  }
+
+  return { changes, added, removed };
+};
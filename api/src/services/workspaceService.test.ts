@@ -0,0 +1,133 @@
+import mongoose from 'mongoose';
+import Workspace, { IWorkspace, WorkspaceRole } from '../models/Workspace';
+import { IUser } from '../models/User';
+import Task from '../models/Task';
+import Test from '../models/Test';
+import TestCase from '../models/TestCase';
+import TestSession from '../models/TestSession';
+import Document from '../models/Document';
+import Project from '../models/Project';
+import Conversation from '../models/Conversation';
+import ConversationMessage from '../models/ConversationMessage';
+import { ensurePersonalWorkspace, hasRole, memberRole, ownerCount } from './workspaceService';
+
+const RECORD_MODELS: mongoose.Model<any>[] = [
+  Task, Test, TestCase, TestSession, Document, Project, Conversation, ConversationMessage
+];
+
+const workspaceWith = (members: Array<[mongoose.Types.ObjectId, WorkspaceRole]>): IWorkspace =>
+  new Workspace({
+    name: 'Acme',
+    ownerId: members[0][0],
+    members: members.map(([userId, role]) => ({ userId, role }))
+  });
+
+describe('roles', () => {
+  const owner = new mongoose.Types.ObjectId();
+  const editor = new mongoose.Types.ObjectId();
+  const viewer = new mongoose.Types.ObjectId();
+  const workspace = workspaceWith([[owner, 'owner'], [editor, 'editor'], [viewer, 'viewer']]);
+
+  it('ranks owner above editor above viewer', () => {
+    const roles: WorkspaceRole[] = ['viewer', 'editor', 'owner'];
+    const allowed = roles.map((role) => roles.filter((minimumRole) => hasRole(role, minimumRole)));
+
+    expect(allowed).toEqual([['viewer'], ['viewer', 'editor'], ['viewer', 'editor', 'owner']]);
+  });
+
+  it('finds the role of members only', () => {
+    expect(memberRole(workspace, editor)).toBe('editor');
+    expect(memberRole(workspace, new mongoose.Types.ObjectId(viewer.toString()))).toBe('viewer');
+    expect(memberRole(workspace, new mongoose.Types.ObjectId())).toBeUndefined();
+  });
+
+  it('counts the owners', () => {
+    expect(ownerCount(workspace)).toBe(1);
+    expect(ownerCount(workspaceWith([[owner, 'owner'], [editor, 'owner']]))).toBe(2);
+  });
+});
+
+describe('ensurePersonalWorkspace', () => {
+  const user = { _id: new mongoose.Types.ObjectId(), name: 'Ada' } as unknown as IUser;
+  let stored: IWorkspace | null;
+  let updateMany: jest.SpyInstance[];
+
+  beforeEach(() => {
+    stored = null;
+    jest.spyOn(Workspace, 'findOne').mockImplementation((async () => stored) as any);
+    jest.spyOn(Workspace, 'create').mockImplementation((async (fields: any) => {
+      stored = new Workspace(fields);
+      return stored;
+    }) as any);
+    jest.spyOn(Workspace, 'updateOne').mockImplementation((async (_filter: any, update: any) => {
+      stored!.set(update.$set);
+    }) as any);
+    updateMany = RECORD_MODELS.map((model) =>
+      jest.spyOn(model, 'updateMany').mockResolvedValue({ modifiedCount: 1 } as any)
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates the workspace and moves the records from before workspaces into it', async () => {
+    const workspace = await ensurePersonalWorkspace(user);
+
+    expect(workspace).toMatchObject({ name: "Ada's workspace", personal: true, ownerId: user._id });
+    expect(memberRole(workspace, user._id)).toBe('owner');
+    updateMany.forEach((spy) => {
+      expect(spy).toHaveBeenCalledWith(
+        { userId: user._id, workspaceId: { $exists: false } },
+        { $set: { workspaceId: workspace._id } }
+      );
+    });
+    expect(stored!.migratedAt).toBeInstanceOf(Date);
+  });
+
+  it('moves the records only once', async () => {
+    const workspace = await ensurePersonalWorkspace(user);
+    expect(await ensurePersonalWorkspace(user)).toBe(workspace);
+
+    updateMany.forEach((spy) => expect(spy).toHaveBeenCalledTimes(1));
+    expect(Workspace.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves the records of a workspace created before the move was recorded', async () => {
+    stored = new Workspace({ name: 'Old', personal: true, ownerId: user._id, members: [{ userId: user._id, role: 'owner' }] });
+
+    await ensurePersonalWorkspace(user);
+
+    expect(Workspace.create).not.toHaveBeenCalled();
+    updateMany.forEach((spy) => expect(spy).toHaveBeenCalledTimes(1));
+    expect(stored.migratedAt).toBeInstanceOf(Date);
+  });
+
+  it('moves the records again on the next request when the move failed', async () => {
+    updateMany[2].mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(ensurePersonalWorkspace(user)).rejects.toThrow('connection reset');
+    expect(stored!.migratedAt).toBeUndefined();
+
+    await ensurePersonalWorkspace(user);
+    expect(updateMany[2]).toHaveBeenCalledTimes(2);
+    expect(stored!.migratedAt).toBeInstanceOf(Date);
+  });
+
+  it('moves the records when a concurrent request created the workspace', async () => {
+    jest.spyOn(Workspace, 'create').mockImplementation((async (fields: any) => {
+      // The other request wins the unique index on ownerId
+      stored = new Workspace(fields);
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }) as any);
+    (Workspace.findOne as unknown as jest.SpyInstance)
+      .mockImplementationOnce(async () => null)
+      .mockImplementation(async () => stored);
+
+    const workspace = await ensurePersonalWorkspace(user);
+
+    expect(workspace).toBe(stored);
+    updateMany.forEach((spy) => expect(spy).toHaveBeenCalledTimes(1));
+    expect(stored!.migratedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import Workspace, { IWorkspace, WorkspaceRole } from '../models/Workspace';
+import { IUser } from '../models/User';
+import Task from '../models/Task';
+import Test from '../models/Test';
+import TestCase from '../models/TestCase';
+import TestSession from '../models/TestSession';
+import Document from '../models/Document';
+import DocumentVersion from '../models/DocumentVersion';
+import Project from '../models/Project';
+import Conversation from '../models/Conversation';
+import ConversationMessage from '../models/ConversationMessage';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3
+};
+
+// Models whose records belong to a workspace
+const WORKSPACE_MODELS: mongoose.Model<any>[] = [
+  Task, Test, TestCase, TestSession, Document, Project, Conversation, ConversationMessage
+];
+
+export const hasRole = (role: WorkspaceRole, minimumRole: WorkspaceRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+
+export const memberRole = (workspace: IWorkspace, userId: unknown): WorkspaceRole | undefined =>
+  workspace.members.find((member) => member.userId.equals(userId as mongoose.Types.ObjectId))?.role;
+
+export const ownerCount = (workspace: IWorkspace): number =>
+  workspace.members.filter((member) => member.role === 'owner').length;
+
+const findOrCreatePersonalWorkspace = async (user: IUser): Promise<IWorkspace> => {
+  const existing = await Workspace.findOne({ ownerId: user._id, personal: true });
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await Workspace.create({
+      name: `${user.name}'s workspace`,
+      personal: true,
+      ownerId: user._id,
+      members: [{ userId: user._id, role: 'owner' }]
+    });
+  } catch (error: any) {
+    // Created by a concurrent request
+    if (error?.code === 11000) {
+      return (await Workspace.findOne({ ownerId: user._id, personal: true }))!;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Returns the user's personal workspace, creating it on first use, and moves
+ * the user's records from before workspaces existed into it. The move is
+ * repeated on later calls until it has completed once, so a request that
+ * fails partway through, or races the one that created the workspace, does
+ * not leave records outside every workspace.
+ */
+export const ensurePersonalWorkspace = async (user: IUser): Promise<IWorkspace> => {
+  const workspace = await findOrCreatePersonalWorkspace(user);
+  if (workspace.migratedAt) {
+    return workspace;
+  }
+
+  // Only touches records that are still unscoped, so running it again is harmless
+  await Promise.all(WORKSPACE_MODELS.map((model) =>
+    model.updateMany(
+      { userId: user._id, workspaceId: { $exists: false } },
+      { $set: { workspaceId: workspace._id } }
+    )
+  ));
+
+  workspace.migratedAt = new Date();
+  await Workspace.updateOne({ _id: workspace._id }, { $set: { migratedAt: workspace.migratedAt } });
+
+  return workspace;
+};
+
+export const deleteWorkspaceRecords = async (workspaceId: mongoose.Types.ObjectId): Promise<void> => {
+  const documentIds = await Document.find({ workspaceId }).distinct('_id');
+  await DocumentVersion.deleteMany({ documentId: { $in: documentIds } });
+  await Promise.all(WORKSPACE_MODELS.map((model) => model.deleteMany({ workspaceId })));
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Server, CheckCircle, XCircle, Loader2, Save } from 'lucide-react';
+import {
+  BACKEND_PRESETS,
+  getBackendUrl,
+  normalizeBackendUrl,
+  setBackendUrl,
+  testBackendConnection,
+  type ConnectionTestResult,
+} from '../services/backendConfig';
+import { TokenStorage, WorkspaceStorage } from '../services/api';
+
+const CUSTOM_BACKEND = 'custom';
+
+// Options page: picks the API server the extension uses
+const BackendSettings: React.FC = () => {
+  const [savedUrl, setSavedUrl] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string>(CUSTOM_BACKEND);
+  const [customUrl, setCustomUrl] = useState('');
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBackendUrl().then((url) => {
+      setSavedUrl(url);
+      const preset = BACKEND_PRESETS.find((backend) => backend.url === url);
+      setSelected(preset ? preset.id : CUSTOM_BACKEND);
+      setCustomUrl(preset ? '' : url);
+    });
+  }, []);
+
+  const chosenUrl = selected === CUSTOM_BACKEND
+    ? customUrl
+    : BACKEND_PRESETS.find((backend) => backend.id === selected)?.url || '';
+
+  const handleSelect = (id: string) => {
+    setSelected(id);
+    setTestResult(null);
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await testBackendConnection(chosenUrl));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+    setError(null);
+
+    let url: string;
+    try {
+      url = normalizeBackendUrl(chosenUrl);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid URL');
+      return;
+    }
+    if (url === savedUrl) {
+      setMessage('This backend is already in use.');
+      return;
+    }
+
+    setIsTesting(true);
+    const result = await testBackendConnection(url);
+    setIsTesting(false);
+    setTestResult(result);
+    if (!result.ok && !confirm(`${result.message}. Use this backend anyway?`)) {
+      return;
+    }
+
+    await setBackendUrl(url);
+    // Sessions and workspaces belong to the previous server
+    TokenStorage.removeToken();
+    WorkspaceStorage.setWorkspaceId(null);
+    setSavedUrl(url);
+    setMessage('Saved. Sign in again in the sidepanel to use this backend.');
+  };
+
+  return (
+    <div className="max-w-xl mx-auto p-8">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+          <Server className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900">Backend</h1>
+          <p className="text-sm text-gray-500">The server that stores your tasks, tests, documents and conversations</p>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {BACKEND_PRESETS.map((backend) => (
+          <label key={backend.id} className="flex items-start px-4 py-3 cursor-pointer hover:bg-gray-50">
+            <input
+              type="radio"
+              name="backend"
+              checked={selected === backend.id}
+              onChange={() => handleSelect(backend.id)}
+              className="mt-1 mr-3"
+            />
+            <div>
+              <div className="text-sm font-medium text-gray-900">{backend.name}</div>
+              <div className="text-xs text-gray-500 font-mono">{backend.url}</div>
+            </div>
+          </label>
+        ))}
+        <label className="flex items-start px-4 py-3 cursor-pointer hover:bg-gray-50">
+          <input
+            type="radio"
+            name="backend"
+            checked={selected === CUSTOM_BACKEND}
+            onChange={() => handleSelect(CUSTOM_BACKEND)}
+            className="mt-1 mr-3"
+          />
+          <div className="flex-1">
+            <div className="text-sm font-medium text-gray-900">Staging or self-hosted</div>
+            <input
+              type="url"
+              value={customUrl}
+              onChange={(e) => {
+                setCustomUrl(e.target.value);
+                handleSelect(CUSTOM_BACKEND);
+              }}
+              placeholder="https://assistant.example.com"
+              className="mt-2 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </label>
+      </div>
+
+      {testResult && (
+        <div className={`mt-4 flex items-center space-x-2 text-sm ${testResult.ok ? 'text-green-700' : 'text-red-700'}`}>
+          {testResult.ok ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+          <span>{testResult.message}</span>
+        </div>
+      )}
+      {error && <p className="mt-4 text-sm text-red-700">{error}</p>}
+      {message && <p className="mt-4 text-sm text-gray-700">{message}</p>}
+
+      <div className="mt-6 flex items-center space-x-3">
+        <button
+          onClick={handleTest}
+          disabled={isTesting || !chosenUrl}
+          className="flex items-center px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isTesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Test connection
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isTesting || !chosenUrl}
+          className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </button>
+      </div>
+
+      {savedUrl && (
+        <p className="mt-6 text-xs text-gray-500">
+          In use: <span className="font-mono">{savedUrl}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BackendSettings;
@@ -1,9 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { ConversationData, Message } from '../utils/promptResponseScraper';
+import { ConversationData, FileEdit, Message } from '../utils/promptResponseScraper';
+import { buildChangeLog } from '../utils/changeLog';
+import { apiClient } from '../services/api';
+import { ensureContentScript, sendTabMessage } from '../services/messaging';
+import { useProjectStore } from '../stores/projectStore';
+import { useSearchStore, useSearchTarget, scrollToSearchTarget } from '../stores/searchStore';
 
 // Chrome extension API types
 declare const chrome: any;
 
+const FILE_EDIT_STYLES: Record<FileEdit['action'], string> = {
+  created: 'bg-green-50 text-green-700 border-green-200',
+  edited: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  deleted: 'bg-red-50 text-red-700 border-red-200',
+  renamed: 'bg-purple-50 text-purple-700 border-purple-200',
+};
+
 interface ConversationViewerProps {
   className?: string;
 }
@@ -13,6 +25,11 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedMessages, setExpandedMessages] = useState<Set<number>>(new Set());
+  // Whether the messages were scraped from the page or loaded from the server
+  const [source, setSource] = useState<'page' | 'saved'>('page');
+  // Messages in order, or what each prompt changed
+  const [view, setView] = useState<'messages' | 'changes'>('messages');
+  const activeProjectId = useProjectStore(state => state.activeProjectId);
 
   // Toggle message expansion
   const toggleMessage = (index: number) => {
@@ -25,30 +42,6 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
     setExpandedMessages(newExpanded);
   };
 
-  // Test connection to content script
-  const testConnection = async () => {
-    try {
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (!tab.id) throw new Error('No active tab');
-      
-      const response = await new Promise<any>((resolve, reject) => {
-        chrome.tabs.sendMessage(tab.id, { action: 'ping' }, (response: any) => {
-          if (chrome.runtime.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-          } else {
-            resolve(response);
-          }
-        });
-      });
-      
-      console.log('🏓 Ping test result:', response);
-      return response?.pong === true;
-    } catch (error) {
-      console.error('❌ Connection test failed:', error);
-      return false;
-    }
-  };
-
   // Function to request scraping from content script
   const handleScrapeConversation = async () => {
     setLoading(true);
@@ -62,52 +55,97 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
         throw new Error('No active tab found');
       }
 
-      console.log('📡 Testing connection to content script on tab:', tab.url);
-      
-      // First test if content script is available
-      const connectionOk = await testConnection();
-      if (!connectionOk) {
-        throw new Error('Content script not available on this page. Please reload the page or navigate to a supported website.');
-      }
-      
-      console.log('✅ Content script connection confirmed, sending scraping request...');
-
-      // Send message to content script with timeout
-      const response = await new Promise<any>((resolve, reject) => {
-        chrome.tabs.sendMessage(tab.id, { action: 'startScraping' }, (response: any) => {
-          if (chrome.runtime.lastError) {
-            reject(new Error(`Content script not available: ${chrome.runtime.lastError.message}. Please reload the page.`));
-          } else {
-            resolve(response);
-          }
-        });
-      });
-      
-      if (response?.success) {
-        setConversationData(response.data);
-        console.log('✅ Conversation data loaded:', response.data);
-      } else {
-        throw new Error(response?.error || 'Failed to scrape conversation');
-      }
-    } catch (error: any) {
-      const errorMessage = error.message || 'Failed to scrape conversation';
-      setError(errorMessage);
+      // Tabs opened before the extension was installed or updated get the content script now
+      await ensureContentScript(tab.id);
+
+      const data = await sendTabMessage(tab.id, 'startScraping', undefined);
+      setConversationData(data);
+      setSource('page');
+      setExpandedMessages(new Set());
+    } catch (error) {
       console.error('❌ Scraping error:', error);
-      
-      // Additional helpful error context
-      if (errorMessage.includes('Content script not available')) {
-        setError(errorMessage + ' Make sure you\'re on a supported website and try refreshing the page.');
+      setError(error instanceof Error ? error.message : 'Failed to scrape conversation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shows a synced conversation in place of the scraped one
+  const loadSavedConversation = async (conversationId: string): Promise<Message[]> => {
+    const response = await apiClient.getConversation(conversationId, { limit: 500 });
+    const conversation = response.data!;
+    const messages: Message[] = conversation.messages.map(({ messageId, sender, text, timestamp, attachments, fileEdits, actions }) => ({
+      messageId,
+      sender,
+      text,
+      timestamp,
+      attachments,
+      fileEdits,
+      actions,
+    }));
+
+    setConversationData({
+      userMessages: messages.filter((message) => message.sender === 'user'),
+      aiMessages: messages.filter((message) => message.sender === 'ai'),
+      mergedMessages: messages,
+      url: conversation.url,
+      title: conversation.title,
+    });
+    setSource('saved');
+    setView('messages');
+    setExpandedMessages(new Set());
+    return messages;
+  };
+
+  // Loads the messages synced for the selected project, including ones no longer shown in the editor
+  const handleLoadSavedConversation = async () => {
+    if (!activeProjectId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const conversations = (await apiClient.getConversations({ projectId: activeProjectId })).data || [];
+      if (conversations.length === 0) {
+        throw new Error('No messages have been saved for this project yet. Open it in the Lovable editor to sync them.');
       }
+
+      await loadSavedConversation(conversations[0]._id);
+    } catch (error: any) {
+      setError(error.message || 'Failed to load saved conversation');
     } finally {
       setLoading(false);
     }
   };
 
-  // Auto-load on component mount
+  // Auto-load on component mount, unless a message from the global search is about to be shown
   useEffect(() => {
-    handleScrapeConversation();
+    if (useSearchStore.getState().target?.type !== 'conversation') {
+      handleScrapeConversation();
+    }
   }, []);
 
+  // Show a message picked in the global search in its saved conversation
+  useSearchTarget(['conversation'], async (result) => {
+    if (!result.conversationId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const messages = await loadSavedConversation(result.conversationId);
+      const index = messages.findIndex((message) => message.messageId === result.messageId);
+      if (index !== -1) {
+        setExpandedMessages(new Set([index]));
+        scrollToSearchTarget(`message-${index}`);
+      }
+    } catch (error: any) {
+      setError(error.message || 'Failed to load saved conversation');
+    } finally {
+      setLoading(false);
+    }
+  });
+
   // Get preview text (first line or 100 characters)
   const getPreviewText = (text: string) => {
     if (!text) return 'No content';
@@ -115,6 +153,50 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
     return firstLine.length > 100 ? firstLine.substring(0, 100) + '...' : firstLine;
   };
 
+  const renderFileEdits = (fileEdits: FileEdit[]) => (
+    <div className="flex flex-wrap gap-1">
+      {fileEdits.map(({ path, action }) => (
+        <span
+          key={`${action}:${path}`}
+          className={`px-2 py-0.5 text-xs rounded-full border font-mono break-all ${FILE_EDIT_STYLES[action]}`}
+          title={`${action.charAt(0).toUpperCase()}${action.slice(1)} ${path}`}
+        >
+          {path}
+        </span>
+      ))}
+    </div>
+  );
+
+  const changeLog = conversationData ? buildChangeLog(conversationData.mergedMessages || []) : [];
+  const hasChanges = changeLog.some(({ fileEdits, actions }) => fileEdits.length > 0 || actions.length > 0);
+
+  const renderChangeLog = () => (
+    <div className="p-4 space-y-3">
+      {changeLog.map(({ promptNumber, prompt, fileEdits, actions }) => (
+        <div key={promptNumber} className="bg-white border border-gray-200 rounded-lg p-3">
+          <div className="flex items-start space-x-2">
+            <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-700 rounded-full">
+              Prompt {promptNumber}
+            </span>
+            <span className="text-sm text-gray-800 break-words">{getPreviewText(prompt.text)}</span>
+          </div>
+          {fileEdits.length > 0 || actions.length > 0 ? (
+            <div className="mt-2 space-y-2">
+              {fileEdits.length > 0 && renderFileEdits(fileEdits)}
+              {actions.length > 0 && (
+                <ul className="text-xs text-gray-600 space-y-0.5">
+                  {actions.map((action) => <li key={action}>⚙️ {action}</li>)}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <div className="mt-2 text-xs text-gray-400">No file changes</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
   const renderMessage = (message: Message, index: number) => {
     const isUser = message.sender === 'user';
     const isExpanded = expandedMessages.has(index);
@@ -124,6 +206,7 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
     return (
       <div
         key={index}
+        id={`message-${index}`}
         className={`flex mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}
       >
         <div className={`flex ${isUser ? 'max-w-[75%]' : 'max-w-[80%]'} ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -143,6 +226,11 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
             {/* Sender Label */}
             <div className={`text-xs text-gray-500 mb-1 ${isUser ? 'text-right' : 'text-left'}`}>
               {isUser ? 'You' : 'Assistant'}
+              {message.timestamp && (
+                <span className="ml-2 text-gray-400" title={new Date(message.timestamp).toLocaleString()}>
+                  {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              )}
             </div>
             
                          {/* Message Content */}
@@ -163,6 +251,44 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
                  )}
                </div>
 
+              {/* Files changed and other steps taken by the reply */}
+              {((message.fileEdits && message.fileEdits.length > 0) || (message.actions && message.actions.length > 0)) && (
+                <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+                  {message.fileEdits && message.fileEdits.length > 0 && renderFileEdits(message.fileEdits)}
+                  {message.actions?.map((action) => (
+                    <div key={action} className="text-xs text-gray-600">⚙️ {action}</div>
+                  ))}
+                </div>
+              )}
+
+              {/* Attachments */}
+              {message.attachments && message.attachments.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {message.attachments.map((attachment, attachmentIndex) => (
+                    <a
+                      key={attachmentIndex}
+                      href={attachment.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      title={attachment.name || attachment.url}
+                    >
+                      {attachment.type === 'image' ? (
+                        <img
+                          src={attachment.url}
+                          alt={attachment.name || 'Attached image'}
+                          className="w-16 h-16 object-cover rounded-lg border border-white/40"
+                        />
+                      ) : (
+                        <span className={`text-xs underline ${isUser ? 'text-blue-100' : 'text-blue-600'}`}>
+                          📎 {attachment.name || 'Attached file'}
+                        </span>
+                      )}
+                    </a>
+                  ))}
+                </div>
+              )}
+
               {/* Expand/Collapse Indicator */}
               {hasMoreContent && (
                 <div className={`mt-2 text-xs opacity-70 ${isUser ? 'text-blue-100' : 'text-gray-500'}`}>
@@ -214,28 +340,57 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
             </div>
             <h2 className="text-lg font-semibold text-gray-800">Conversation</h2>
           </div>
-          <button
-            onClick={handleScrapeConversation}
-            disabled={loading}
-            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white text-sm rounded-full hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-          >
-            {loading ? (
-              <>
-                <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="m4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                <span>Loading...</span>
-              </>
-            ) : (
-              <>
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                </svg>
-                <span>Refresh</span>
-              </>
+          <div className="flex items-center space-x-2">
+            {hasChanges && (
+              <button
+                onClick={() => setView(view === 'changes' ? 'messages' : 'changes')}
+                className={`px-3 py-2 text-sm rounded-full border transition-colors duration-200 ${
+                  view === 'changes'
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+                title="Show the files each prompt changed"
+              >
+                Changes
+              </button>
+            )}
+            {activeProjectId && (
+              <button
+                onClick={handleLoadSavedConversation}
+                disabled={loading}
+                className={`px-3 py-2 text-sm rounded-full border transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  source === 'saved'
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+                title="Show the messages saved for this project"
+              >
+                Saved
+              </button>
             )}
-          </button>
+            <button
+              onClick={handleScrapeConversation}
+              disabled={loading}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white text-sm rounded-full hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {loading ? (
+                <>
+                  <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="m4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  <span>Loading...</span>
+                </>
+              ) : (
+                <>
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  <span>Refresh</span>
+                </>
+              )}
+            </button>
+          </div>
         </div>
 
         {/* Page Info */}
@@ -247,8 +402,14 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
             </div>
             <div className="flex items-center space-x-2">
               <span className="font-medium">📊 Messages:</span>
-              <span>{conversationData.mergedMessages?.length || 0} total</span>
+              <span>{conversationData.mergedMessages?.length || 0} total{source === 'saved' ? ' (saved)' : ''}</span>
             </div>
+            {conversationData.adapter && (
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">🧩 Read with:</span>
+                <span>{conversationData.adapter}</span>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -265,7 +426,9 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({ classNam
 
       {/* Messages Container */}
       <div className="flex-1 overflow-y-auto bg-gray-50">
-        {conversationData && (conversationData.mergedMessages?.length || 0) > 0 ? (
+        {conversationData && hasChanges && view === 'changes' ? (
+          renderChangeLog()
+        ) : conversationData && (conversationData.mergedMessages?.length || 0) > 0 ? (
           <div className="p-4 space-y-1">
             {conversationData.mergedMessages?.map((message, index) => 
               renderMessage(message, index)
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { getStoredValue, onStoredValueChanged, setStoredValue } from '../services/extensionStorage';
+import { DEFAULT_CRAWL_DEPTH, MAX_CRAWL_DEPTH } from '../utils/previewCrawler';
+
+const CRAWL_DEPTH_KEY = 'lovable_extension_crawl_depth';
+
+const readCrawlDepth = (value: string | null): number => {
+  const depth = Number(value ?? DEFAULT_CRAWL_DEPTH);
+  return Number.isInteger(depth) && depth >= 0 && depth <= MAX_CRAWL_DEPTH ? depth : DEFAULT_CRAWL_DEPTH;
+};
+
+// How many links deep AI generation crawls the preview app; shared by the tabs and kept across sessions
+export const useCrawlDepth = (): [number, (depth: number) => void] => {
+  const [depth, setDepth] = useState(() => readCrawlDepth(getStoredValue(CRAWL_DEPTH_KEY)));
+
+  useEffect(
+    () => onStoredValueChanged(CRAWL_DEPTH_KEY, (value) => setDepth(readCrawlDepth(value))),
+    []
+  );
+
+  const updateDepth = (next: number) => {
+    setDepth(next);
+    setStoredValue(CRAWL_DEPTH_KEY, String(next));
+  };
+  return [depth, updateDepth];
+};
+
+interface CrawlDepthSelectProps {
+  value: number;
+  onChange: (depth: number) => void;
+  disabled?: boolean;
+}
+
+const CrawlDepthSelect: React.FC<CrawlDepthSelectProps> = ({ value, onChange, disabled }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(Number(e.target.value))}
+    disabled={disabled}
+    className="px-2 py-1.5 bg-white border border-gray-300 rounded-lg text-gray-700 text-sm focus:outline-none disabled:opacity-50"
+    title="Pages of the preview app AI generation reads"
+  >
+    <option value={0}>This page</option>
+    {Array.from({ length: MAX_CRAWL_DEPTH }, (_, index) => index + 1).map((depth) => (
+      <option key={depth} value={depth}>
+        {depth === 1 ? 'Linked pages' : `${depth} links deep`}
+      </option>
+    ))}
+  </select>
+);
+
+export default CrawlDepthSelect;
@@ -1,9 +1,14 @@
-import React, { useState } from 'react';
-import { FileText, Download, RefreshCw, Sparkles, Eye, Settings, Copy, Check, Search, ChevronDown, Code, Globe, Navigation, Heading, Trash2 } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { FileText, Download, RefreshCw, Sparkles, Eye, Settings, Copy, Check, Search, ChevronDown, Code, Globe, Navigation, Heading, Trash2, X } from 'lucide-react';
 import { useDocumentStore, type DocumentType, type GeneratedDocument, type ConversationData } from '../stores/documentStore';
-import { apiClient } from '../services/api';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import { useProjectStore, inProject } from '../stores/projectStore';
+import { useSearchTarget, scrollToSearchTarget } from '../stores/searchStore';
+import { apiClient, type DocumentExportFormat, type SiteMapPage } from '../services/api';
 import { scrapeConversation, ConversationData as ScrapedConversationData } from '../utils/promptResponseScraper';
-import IframeContentReader from '../utils/iframeContentReader';
+import IframeContentReader, { IframeCaptureError } from '../utils/iframeContentReader';
+import { crawlPreview, toSiteMap, type CrawlProgress } from '../utils/previewCrawler';
+import CrawlDepthSelect, { useCrawlDepth } from './CrawlDepthSelect';
 
 import { saveAs } from 'file-saver';
 
@@ -26,20 +31,8 @@ const chrome = (window as any).chrome;
 interface PageContent {
   url: string;
   title: string;
-  bodyText: string;
-  forms: Array<{
-    formElements: Array<{
-      type: string;
-      name: string;
-      placeholder: string;
-      label: string;
-    }>;
-  }>;
-  navigation: string[];
-  headings: Array<{
-    level: string;
-    text: string;
-  }>;
+  // Cleaned HTML of the rendered page; the API condenses it for the model
+  html: string;
 }
 
 const DocumentGeneration: React.FC = () => {
@@ -49,6 +42,8 @@ const DocumentGeneration: React.FC = () => {
     deleteDocument,
     updateDocument,
   } = useDocumentStore();
+  const activeWorkspaceId = useWorkspaceStore(state => state.activeWorkspaceId);
+  const activeProjectId = useProjectStore(state => state.activeProjectId);
 
   const [isGenerating, setIsGenerating] = useState(false);
   const [selectedType, setSelectedType] = useState<DocumentType>('requirements');
@@ -59,8 +54,17 @@ const DocumentGeneration: React.FC = () => {
   const [showTypeDropdown, setShowTypeDropdown] = useState(false);
   const [capturedContent, setCapturedContent] = useState<PageContent | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
-  const [isGeneratingDocx, setIsGeneratingDocx] = useState(false);
+  // Document currently being exported, and the document whose format menu is open
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Markdown received so far while a document is being streamed
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [crawlDepth, setCrawlDepth] = useCrawlDepth();
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null);
+  // Document opened from the global search, outlined until another one is opened
+  const [focusedDocId, setFocusedDocId] = useState<string | null>(null);
 
   const documentTypes = {
     requirements: { name: 'Requirements', description: 'Generate project requirements document' },
@@ -70,11 +74,52 @@ const DocumentGeneration: React.FC = () => {
     faq: { name: 'FAQ', description: 'Generate frequently asked questions' },
   };
 
+  const exportFormats: Record<DocumentExportFormat, { name: string; description: string }> = {
+    docx: { name: 'Word (.docx)', description: 'Editable document' },
+    pdf: { name: 'PDF', description: 'Print-ready document' },
+    html: { name: 'HTML', description: 'Standalone web page' },
+    md: { name: 'Markdown', description: 'Plain markdown source' },
+    zip: { name: 'Bundle (.zip)', description: 'Markdown, conversation and page snapshot' },
+  };
+
+  // Documents generated in another browser are added to the list when opened from the search
+  useSearchTarget(['document'], async (result) => {
+    const findDocument = () => useDocumentStore.getState().documents.find((doc) => doc.documentId === result.id);
+    if (!findDocument()) {
+      try {
+        const stored = (await apiClient.getDocument(result.id)).data;
+        if (!stored) return;
+        addDocument({
+          title: stored.title,
+          content: stored.content,
+          type: stored.generationType || 'requirements',
+          url: stored.url,
+          createdAt: new Date(stored.createdAt),
+          documentId: stored._id,
+          workspaceId: activeWorkspaceId || undefined,
+          projectId: stored.projectId || undefined,
+        });
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : 'Failed to open document');
+        return;
+      }
+    }
+
+    const doc = findDocument();
+    if (!doc) return;
+    setSearchTerm('');
+    setFilterType('all');
+    setFocusedDocId(doc.id);
+    scrollToSearchTarget(`document-${doc.id}`);
+  });
+
   const filteredDocuments = documents.filter(doc => {
+    // Backend copies can only be exported from the workspace they were generated in
+    const workspaceMatch = (doc.workspaceId || null) === activeWorkspaceId;
     const searchMatch = doc.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                        doc.content.toLowerCase().includes(searchTerm.toLowerCase());
     const typeMatch = filterType === 'all' || doc.type === filterType;
-    return searchMatch && typeMatch;
+    return workspaceMatch && inProject(doc, activeProjectId) && searchMatch && typeMatch;
   });
 
 
@@ -91,51 +136,18 @@ const DocumentGeneration: React.FC = () => {
         throw new Error('No active tab found');
       }
 
-      // Execute script to get visible content
+      // Execute script to get the rendered page
       const result = await chrome.scripting.executeScript({
         target: { tabId: tab.id },
-        func: () => {
-          // Get visible text content
-          const bodyText = document.body.innerText || '';
-          
-          // Get form elements and their labels
-          const forms = Array.from(document.forms);
-          const formData = forms.map(form => {
-            const formElements = Array.from(form.elements).map(element => {
-              const input = element as HTMLInputElement;
-              return {
-                type: input.type || 'unknown',
-                name: input.name || '',
-                placeholder: input.placeholder || '',
-                label: (input.labels?.[0]?.textContent || '').trim(),
-              };
-            });
-            return { formElements };
-          });
-
-          // Get navigation structure
-          const navElements = Array.from(document.querySelectorAll('nav, .nav, [role="navigation"]'));
-          const navigation = navElements.map(nav => nav.textContent?.trim() || '').filter(text => text);
-
-          // Get headings structure
-          const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
-          const headingStructure = headings.map(h => ({
-            level: h.tagName.toLowerCase(),
-            text: h.textContent?.trim() || '',
-          })).filter(h => h.text);
-
-          return {
-            url: window.location.href,
-            title: document.title,
-            bodyText: bodyText.substring(0, 5000), // Limit text length
-            forms: formData,
-            navigation,
-            headings: headingStructure,
-          };
-        },
+        func: () => ({
+          url: window.location.href,
+          title: document.title,
+          html: document.documentElement.outerHTML,
+        }),
       });
 
-      const pageContent = result[0].result as PageContent;
+      const page = result[0].result as PageContent;
+      const pageContent = { ...page, html: IframeContentReader.cleanHTML(page.html) };
       setCapturedContent(pageContent);
       return pageContent;
     } catch (error) {
@@ -156,6 +168,8 @@ const DocumentGeneration: React.FC = () => {
   };
 
   const generateDocumentation = async () => {
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     setIsGenerating(true);
     
     try {
@@ -174,12 +188,17 @@ const DocumentGeneration: React.FC = () => {
           aiMessages: scrapedConversation.aiMessages.map(msg => ({
             sender: 'ai' as const,
             text: msg.text,
-            timestamp: msg.timestamp
+            timestamp: msg.timestamp,
+            fileEdits: msg.fileEdits,
+            actions: msg.actions
           })),
+          // File edits and actions let the document cite the prompt that changed each file
           mergedMessages: scrapedConversation.mergedMessages.map(msg => ({
             sender: msg.sender,
             text: msg.text,
-            timestamp: msg.timestamp
+            timestamp: msg.timestamp,
+            fileEdits: msg.fileEdits,
+            actions: msg.actions
           })),
           url: scrapedConversation.url,
           title: scrapedConversation.title
@@ -201,33 +220,52 @@ const DocumentGeneration: React.FC = () => {
       
       try {
         pageContent = await capturePageContent();
-        htmlContent = JSON.stringify(pageContent, null, 2);
+        htmlContent = pageContent.html;
       } catch (error) {
-        // Fallback: try to get iframe content if page capture fails
+        // Fallback: read the Lovable preview frame if page capture fails
         try {
-          htmlContent = await IframeContentReader.getIframeHTML();
-          const iframeInfo = IframeContentReader.getIframeInfo();
+          const preview = await IframeContentReader.capturePreview();
+          htmlContent = preview.html;
           pageContent = {
-            url: iframeInfo?.url || window.location.href,
-            title: iframeInfo?.projectId || 'Lovable Project',
-            bodyText: htmlContent.substring(0, 5000),
-            forms: [],
-            navigation: [],
-            headings: []
+            url: preview.url,
+            title: preview.title || preview.projectId,
+            html: htmlContent,
           };
         } catch (iframeError) {
-          throw new Error('Failed to capture both page content and iframe content. Please ensure you\'re on a valid web page.');
+          const reason = iframeError instanceof IframeCaptureError ? ` ${iframeError.message}` : '';
+          throw new Error(`Failed to capture both page content and iframe content.${reason}`);
         }
       }
 
-      // Use the API wrapper to generate the document
-      const generatedDocument = await apiClient.generateAIDocument(
-        htmlContent,
-        conversationData || undefined,
-        selectedType,
-        generationPrompt || undefined,
-        'Web application documentation',
-        pageContent.url
+      // When the tab shows a Lovable preview, read the pages it links to as well, so the document covers the whole app
+      let siteMap: SiteMapPage[] | undefined;
+      if (crawlDepth > 0 && await IframeContentReader.getIframeInfo().catch(() => null)) {
+        try {
+          const crawl = await crawlPreview({ maxDepth: crawlDepth, onProgress: setCrawlProgress, signal: abortController.signal });
+          siteMap = toSiteMap(crawl);
+        } catch (crawlError) {
+          if (abortController.signal.aborted) throw crawlError;
+          throw new Error(`Failed to read the pages of the Lovable preview. ${crawlError instanceof Error ? crawlError.message : ''}`.trim());
+        } finally {
+          setCrawlProgress(null);
+        }
+      }
+
+      // Stream the document so it can be read while it is being written
+      setStreamingContent('');
+      const generatedDocument = await apiClient.streamAIDocument(
+        {
+          htmlContent,
+          conversationData: conversationData || undefined,
+          documentType: selectedType,
+          customPrompt: generationPrompt || undefined,
+          projectContext: 'Web application documentation',
+          url: pageContent.url,
+          projectId: activeProjectId || undefined,
+          siteMap,
+        },
+        (text) => setStreamingContent(previous => (previous || '') + text),
+        abortController.signal
       );
 
       // Add the generated document with enhanced data
@@ -237,22 +275,43 @@ const DocumentGeneration: React.FC = () => {
         type: selectedType,
         url: pageContent.url,
         conversationData: conversationData || undefined,
-        htmlContent,
+        // The page HTML is saved with the backend document; whole pages would soon fill the extension's storage
         projectContext: 'Web application documentation',
         createdAt: new Date(),
         documentId: generatedDocument.documentId, // Store backend document ID for DOCX generation
+        workspaceId: activeWorkspaceId || undefined,
+        projectId: activeProjectId || undefined,
       });
 
       setGenerationPrompt('');
       
     } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log('Document generation cancelled');
+        return;
+      }
       console.error('Error generating documentation:', error);
       alert(`Error generating documentation: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
+      generationAbortRef.current = null;
+      setStreamingContent(null);
       setIsGenerating(false);
     }
   };
 
+  const handleDeleteDocument = async (id: string) => {
+    try {
+      await deleteDocument(id);
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      alert(`Failed to delete document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
   const getDefaultPrompt = (type: DocumentType): string => {
     const prompts = {
       requirements: 'Generate comprehensive project requirements based on this web application',
@@ -276,26 +335,30 @@ const DocumentGeneration: React.FC = () => {
 
 
 
-  const generateDocxFile = async (doc: GeneratedDocument) => {
+  const exportDocumentFile = async (doc: GeneratedDocument, format: DocumentExportFormat) => {
+    setExportMenuId(null);
+
+    if (!doc.documentId) {
+      alert('Document ID not found. Please regenerate the document.');
+      return;
+    }
+
     try {
-      setIsGeneratingDocx(true);
-      
-      if (!doc.documentId) {
-        alert('Document ID not found. Please regenerate the document.');
-        return;
-      }
+      setExportingId(doc.id);
+
+      // Export from backend
+      const blob = format === 'docx'
+        ? await apiClient.downloadDocx(doc.documentId)
+        : await apiClient.exportDocument(doc.documentId, format);
 
-      // Download DOCX from backend
-      const blob = await apiClient.downloadDocx(doc.documentId);
-      
       // Save the file
-      saveAs(blob, `${doc.title}.docx`);
-      
+      saveAs(blob, `${doc.title}.${format}`);
+
     } catch (error) {
-      console.error('Error generating DOCX:', error);
-      alert('Failed to generate DOCX file. Please try again.');
+      console.error(`Error exporting document as ${format}:`, error);
+      alert(`Failed to export ${exportFormats[format].name}. ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
-      setIsGeneratingDocx(false);
+      setExportingId(null);
     }
   };
 
@@ -338,18 +401,25 @@ const DocumentGeneration: React.FC = () => {
               )}
             </div>
             
-            <button
-              onClick={generateDocumentation}
-              disabled={isGenerating}
-              className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-sm"
-            >
-              {isGenerating ? (
-                <RefreshCw className="w-3 h-3 animate-spin" />
-              ) : (
+            <CrawlDepthSelect value={crawlDepth} onChange={setCrawlDepth} disabled={isGenerating} />
+
+            {isGenerating ? (
+              <button
+                onClick={cancelGeneration}
+                className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                <X className="w-3 h-3" />
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={generateDocumentation}
+                className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+              >
                 <Sparkles className="w-3 h-3" />
-              )}
-              {isGenerating ? 'Generating...' : 'Generate'}
-            </button>
+                Generate
+              </button>
+            )}
           </div>
 
           <textarea
@@ -360,6 +430,11 @@ const DocumentGeneration: React.FC = () => {
             rows={2}
           />
 
+          {crawlProgress && (
+            <p className="text-xs text-gray-500 truncate">
+              Reading page {crawlProgress.page} of {crawlProgress.found}: {crawlProgress.route}
+            </p>
+          )}
         </div>
       </div>
 
@@ -370,6 +445,21 @@ const DocumentGeneration: React.FC = () => {
         </div>
       )}
 
+      {/* Document being generated */}
+      {streamingContent !== null && (
+        <div className="p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2 mb-2 text-xs text-gray-500">
+            <RefreshCw className="w-3 h-3 animate-spin" />
+            {streamingContent ? 'Writing document...' : 'Waiting for the AI to start writing...'}
+          </div>
+          {streamingContent && (
+            <div className="text-xs text-gray-700 bg-gray-50 rounded p-2 max-h-64 overflow-y-auto whitespace-pre-wrap">
+              {streamingContent}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Filter and Search */}
       <div className="p-4 border-b border-gray-100">
         <div className="flex gap-2">
@@ -410,7 +500,13 @@ const DocumentGeneration: React.FC = () => {
           ) : (
             <div className="space-y-3">
               {filteredDocuments.map((doc) => (
-                <div key={doc.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-sm transition-shadow">
+                <div
+                  key={doc.id}
+                  id={`document-${doc.id}`}
+                  className={`bg-white border rounded-lg p-4 hover:shadow-sm transition-shadow ${
+                    focusedDocId === doc.id ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-200'
+                  }`}
+                >
                   <div className="flex items-start justify-between mb-2">
                     <div className="flex-1">
                       <h3 className="font-medium text-gray-900 text-sm mb-1">{doc.title}</h3>
@@ -451,20 +547,37 @@ const DocumentGeneration: React.FC = () => {
                           <Copy className="w-3 h-3" />
                         )}
                       </button>
-                      <button
-                        onClick={() => generateDocxFile(doc)}
-                        disabled={isGeneratingDocx}
-                        className="p-1.5 text-gray-400 hover:text-green-600 rounded transition-colors disabled:text-gray-300 disabled:cursor-not-allowed"
-                        title={isGeneratingDocx ? "Generating DOCX..." : "Download as DOCX"}
-                      >
-                        {isGeneratingDocx ? (
-                          <RefreshCw className="w-3 h-3 animate-spin" />
-                        ) : (
-                          <Download className="w-3 h-3" />
+                      <div className="relative">
+                        <button
+                          onClick={() => setExportMenuId(exportMenuId === doc.id ? null : doc.id)}
+                          disabled={exportingId !== null}
+                          className="p-1.5 text-gray-400 hover:text-green-600 rounded transition-colors disabled:text-gray-300 disabled:cursor-not-allowed"
+                          title={exportingId === doc.id ? "Exporting..." : "Download"}
+                        >
+                          {exportingId === doc.id ? (
+                            <RefreshCw className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <Download className="w-3 h-3" />
+                          )}
+                        </button>
+
+                        {exportMenuId === doc.id && (
+                          <div className="absolute top-full right-0 mt-1 w-56 bg-white border border-gray-300 rounded-lg shadow-lg z-10">
+                            {(Object.entries(exportFormats) as Array<[DocumentExportFormat, { name: string; description: string }]>).map(([format, info]) => (
+                              <button
+                                key={format}
+                                onClick={() => exportDocumentFile(doc, format)}
+                                className="w-full text-left px-3 py-2 hover:bg-gray-100 first:rounded-t-lg last:rounded-b-lg text-sm"
+                              >
+                                <div className="font-medium">{info.name}</div>
+                                <div className="text-xs text-gray-500">{info.description}</div>
+                              </button>
+                            ))}
+                          </div>
                         )}
-                      </button>
+                      </div>
                       <button
-                        onClick={() => deleteDocument(doc.id)}
+                        onClick={() => handleDeleteDocument(doc.id)}
                         className="p-1.5 text-gray-400 hover:text-red-600 rounded transition-colors"
                       >
                         <Trash2 className="w-3 h-3" />
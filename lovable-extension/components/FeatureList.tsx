@@ -1,18 +1,30 @@
-import React, { useState, useMemo } from 'react';
-import { Plus, Clock, CheckCircle, AlertTriangle, Trash2, Edit3, Play, ChevronDown, StickyNote } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Plus, Clock, CheckCircle, AlertTriangle, Trash2, Edit3, Play, ChevronDown, StickyNote, RefreshCw, CloudOff } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { useFeatureStore, type Priority, type Status } from '../stores/featureStore';
+import { useProjectStore, inProject } from '../stores/projectStore';
+import { useSearchTarget, scrollToSearchTarget } from '../stores/searchStore';
 
 const FeatureList: React.FC = () => {
   const {
-    features,
+    features: allFeatures,
     addFeature,
     updateFeature,
     deleteFeature,
     updateFeatureStatus,
     addNoteToFeature,
     removeNoteFromFeature,
+    syncFeatures,
+    syncQueue,
+    isSyncing,
+    syncError,
+    lastSyncedAt,
   } = useFeatureStore();
+  const activeProjectId = useProjectStore(state => state.activeProjectId);
+  const features = useMemo(
+    () => allFeatures.filter(feature => inProject(feature, activeProjectId)),
+    [allFeatures, activeProjectId]
+  );
 
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingFeature, setEditingFeature] = useState<string | null>(null);
@@ -28,6 +40,36 @@ const FeatureList: React.FC = () => {
     priority: 'medium' as Priority,
   });
 
+  // Pull teammates' changes on open, push queued edits when we come back online
+  useEffect(() => {
+    syncFeatures();
+
+    const handleOnline = () => syncFeatures();
+    window.addEventListener('online', handleOnline);
+    const intervalId = setInterval(syncFeatures, 60000);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(intervalId);
+    };
+  }, [syncFeatures]);
+
+  // Open a task picked in the global search; it may only arrive with the next sync
+  useSearchTarget(['task'], async (result) => {
+    const findFeature = () => useFeatureStore.getState().features.find((feature) => feature.remoteId === result.id);
+    let feature = findFeature();
+    if (!feature) {
+      await syncFeatures();
+      feature = findFeature();
+    }
+    if (!feature) return;
+
+    setFilterStatus('all');
+    setFilterPriority('all');
+    setExpandedFeature(feature.id);
+    scrollToSearchTarget(`task-${feature.id}`);
+  });
+
   const filteredAndSortedFeatures = useMemo(() => {
     let filtered = features.filter((feature) => {
       const statusMatch = filterStatus === 'all' || feature.status === filterStatus;
@@ -67,6 +109,7 @@ const FeatureList: React.FC = () => {
         description: formData.description,
         priority: formData.priority,
         notes: [],
+        projectId: activeProjectId || undefined,
       });
     }
 
@@ -110,8 +153,26 @@ const FeatureList: React.FC = () => {
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-100">
         <h1 className="text-xl font-semibold text-gray-900">Todo Manager</h1>
-        <button className="p-1.5 text-gray-400 hover:text-gray-600 transition-colors">
-          <Trash2 className="w-4 h-4" />
+        <button
+          onClick={() => syncFeatures()}
+          disabled={isSyncing}
+          className="flex items-center gap-1.5 p-1.5 text-gray-400 hover:text-gray-600 transition-colors disabled:cursor-not-allowed"
+          title={
+            syncError
+              ? `Sync failed: ${syncError}`
+              : lastSyncedAt
+                ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+                : 'Sync with server'
+          }
+        >
+          {syncError ? (
+            <CloudOff className="w-4 h-4 text-red-500" />
+          ) : (
+            <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+          )}
+          {syncQueue.length > 0 && (
+            <span className="text-xs text-gray-500">{syncQueue.length} pending</span>
+          )}
         </button>
       </div>
 
@@ -253,7 +314,7 @@ const FeatureList: React.FC = () => {
           ) : (
             <div className="space-y-3">
               {filteredAndSortedFeatures.map((feature) => (
-                <div key={feature.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-sm transition-shadow">
+                <div key={feature.id} id={`task-${feature.id}`} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-sm transition-shadow">
                   <div className="flex items-start justify-between">
                     <div className="flex items-start gap-3 flex-1">
                       <div className={`w-2.5 h-2.5 rounded-full mt-1.5 flex-shrink-0 ${
@@ -272,6 +333,7 @@ const FeatureList: React.FC = () => {
                              feature.status === 'in-progress' ? 'In Progress' : 'Completed'}
                           </span>
                           <span className={`px-2 py-1 rounded-full text-xs ${
+                            feature.priority === 'urgent' ? 'bg-red-600 text-white' :
                             feature.priority === 'high' ? 'bg-red-100 text-red-700' :
                             feature.priority === 'medium' ? 'bg-yellow-100 text-yellow-700' :
                             'bg-green-100 text-green-700'
@@ -443,6 +505,7 @@ const FeatureList: React.FC = () => {
                   <option value="low">Low Priority</option>
                   <option value="medium">Medium Priority</option>
                   <option value="high">High Priority</option>
+                  <option value="urgent">Urgent</option>
                 </select>
               </div>
             </div>
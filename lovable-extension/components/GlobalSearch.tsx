@@ -0,0 +1,158 @@
+import React, { useEffect } from 'react';
+import { Search, X, FileText, MessageCircle, List, TestTube, ClipboardCheck } from 'lucide-react';
+import { useSearchStore, type SearchPeriod } from '../stores/searchStore';
+import { useProjectStore } from '../stores/projectStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { SearchResult, SearchResultType } from '../services/api';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+const resultTypes: Record<SearchResultType, { name: string; icon: React.ReactNode }> = {
+  document: { name: 'Docs', icon: <FileText className="w-3.5 h-3.5" /> },
+  conversation: { name: 'Chat', icon: <MessageCircle className="w-3.5 h-3.5" /> },
+  task: { name: 'Tasks', icon: <List className="w-3.5 h-3.5" /> },
+  testCase: { name: 'Test cases', icon: <ClipboardCheck className="w-3.5 h-3.5" /> },
+  test: { name: 'Tests', icon: <TestTube className="w-3.5 h-3.5" /> },
+};
+
+const periods: Record<SearchPeriod, string> = {
+  any: 'Any time',
+  week: 'Past week',
+  month: 'Past month',
+  year: 'Past year',
+};
+
+// Renders the snippet with the matched words marked
+const highlightSnippet = ({ snippet, highlights }: SearchResult) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(({ start, end }, index) => {
+    if (start < position) return;
+    parts.push(snippet.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(snippet.slice(position));
+  return parts;
+};
+
+interface GlobalSearchProps {
+  // Shows the result in its tab
+  onOpen: (result: SearchResult) => void;
+}
+
+// Searches everything stored in the workspace; picking a result jumps to it
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ onOpen }) => {
+  const { query, types, period, results, total, isSearching, error, setQuery, setTypes, setPeriod, search, openResult, clear } = useSearchStore();
+  const activeProjectId = useProjectStore(state => state.activeProjectId);
+  const activeWorkspaceId = useWorkspaceStore(state => state.activeWorkspaceId);
+
+  useEffect(() => {
+    const timeout = setTimeout(search, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query, types, period, activeProjectId, activeWorkspaceId, search]);
+
+  const toggleType = (type: SearchResultType) => {
+    setTypes(types.includes(type) ? types.filter((selected) => selected !== type) : [...types, type]);
+  };
+
+  const handleOpen = (result: SearchResult) => {
+    openResult(result);
+    onOpen(result);
+    clear();
+  };
+
+  return (
+    <div className="flex-shrink-0 relative border-b border-gray-200 bg-white">
+      <div className="flex items-center px-4 py-1.5">
+        <Search className="w-3.5 h-3.5 mr-2 text-gray-400 flex-shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') clear();
+            if (e.key === 'Enter' && results.length > 0) handleOpen(results[0]);
+          }}
+          placeholder="Search docs, chats, tasks and tests..."
+          className="flex-1 min-w-0 bg-transparent text-xs text-gray-700 focus:outline-none"
+        />
+        {query && (
+          <button
+            onClick={clear}
+            className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+            title="Clear search"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {query.trim() && (
+        <div className="absolute left-0 right-0 top-full z-20 bg-white border-b border-gray-200 shadow-lg max-h-96 flex flex-col">
+          {/* Filters */}
+          <div className="flex-shrink-0 flex flex-wrap items-center gap-1 px-4 py-2 border-b border-gray-100">
+            {(Object.entries(resultTypes) as Array<[SearchResultType, { name: string }]>).map(([type, info]) => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                  types.includes(type)
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {info.name}
+              </button>
+            ))}
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as SearchPeriod)}
+              className="ml-auto bg-transparent text-xs text-gray-600 focus:outline-none"
+            >
+              {(Object.entries(periods) as Array<[SearchPeriod, string]>).map(([value, name]) => (
+                <option key={value} value={value}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Results */}
+          <div className="flex-1 overflow-y-auto">
+            {error ? (
+              <p className="px-4 py-3 text-xs text-red-600">{error}</p>
+            ) : results.length === 0 ? (
+              <p className="px-4 py-3 text-xs text-gray-500">{isSearching ? 'Searching...' : 'No matches'}</p>
+            ) : (
+              <>
+                {results.map((result) => (
+                  <button
+                    key={`${result.type}:${result.id}`}
+                    onClick={() => handleOpen(result)}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-50 border-b border-gray-50"
+                  >
+                    <div className="flex items-center space-x-1.5 text-xs text-gray-500">
+                      {resultTypes[result.type].icon}
+                      <span className="font-medium text-gray-900 truncate">{result.title}</span>
+                      <span className="flex-shrink-0 ml-auto">{new Date(result.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    {result.snippet && (
+                      <p className="mt-0.5 text-xs text-gray-600 line-clamp-2 break-words">{highlightSnippet(result)}</p>
+                    )}
+                  </button>
+                ))}
+                {total > results.length && (
+                  <p className="px-4 py-2 text-xs text-gray-400">
+                    Showing the best {results.length} of {total} matches
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
@@ -1,19 +1,81 @@
-import React, { useState } from 'react';
-import { LogIn, UserPlus, Eye, EyeOff, Loader2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { LogIn, UserPlus, Eye, EyeOff, Loader2, MailCheck, KeyRound, ArrowLeft, Server } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { apiClient } from '../services/api';
+import { getBackendUrl } from '../services/backendConfig';
+
+declare const chrome: any;
+
+type Mode = 'login' | 'register' | 'verify' | 'forgot' | 'reset';
+
+const screens: Record<Mode, { title: string; subtitle: string; submit: string; submitting: string; icon: React.ComponentType<{ className?: string }> }> = {
+  login: {
+    title: 'Welcome back',
+    subtitle: 'Sign in to your Lovable Extension account',
+    submit: 'Sign In',
+    submitting: 'Signing in...',
+    icon: LogIn,
+  },
+  register: {
+    title: 'Create account',
+    subtitle: 'Sign up to get started with Lovable Extension',
+    submit: 'Create Account',
+    submitting: 'Creating account...',
+    icon: UserPlus,
+  },
+  verify: {
+    title: 'Verify your email',
+    subtitle: 'Enter the verification code we emailed you',
+    submit: 'Verify Email',
+    submitting: 'Verifying...',
+    icon: MailCheck,
+  },
+  forgot: {
+    title: 'Forgot password',
+    subtitle: "Enter your email and we'll send you a reset code",
+    submit: 'Send Reset Code',
+    submitting: 'Sending...',
+    icon: KeyRound,
+  },
+  reset: {
+    title: 'Reset password',
+    subtitle: 'Enter the reset code we emailed you and choose a new password',
+    submit: 'Reset Password',
+    submitting: 'Resetting...',
+    icon: KeyRound,
+  },
+};
+
+const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors';
 
 const Login: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
+  const [mode, setMode] = useState<Mode>('login');
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: '',
+    code: '',
   });
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
+  // Confirmation shown above the form, e.g. after an email was sent
+  const [notice, setNotice] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [backendUrl, setBackendUrl] = useState('');
+
+  const { login, register, verifyEmail } = useAuth();
 
-  const { login, register } = useAuth();
+  useEffect(() => {
+    getBackendUrl().then(setBackendUrl);
+  }, []);
+
+  const screen = screens[mode];
+  const ScreenIcon = screen.icon;
+  const showsName = mode === 'register';
+  const showsEmail = mode === 'login' || mode === 'register' || mode === 'forgot';
+  const showsPassword = mode === 'login' || mode === 'register' || mode === 'reset';
+  const showsCode = mode === 'verify' || mode === 'reset';
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -25,30 +87,79 @@ const Login: React.FC = () => {
     if (error) setError('');
   };
 
+  // Switches screens, keeping the email so the user does not have to type it again
+  const switchMode = (nextMode: Mode, nextNotice = '') => {
+    setMode(nextMode);
+    setError('');
+    setNotice(nextNotice);
+    setFormData(prev => ({ name: '', email: prev.email, password: '', code: '' }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     setError('');
 
     try {
-      const result = isLogin
-        ? await login(formData.email, formData.password)
-        : await register(formData.name, formData.email, formData.password);
-
-      if (!result.success) {
-        setError(result.error || 'Operation failed');
+      switch (mode) {
+        case 'login': {
+          const result = await login(formData.email, formData.password);
+          if (result.code === 'EMAIL_NOT_VERIFIED') {
+            switchMode('verify', `Your email address is not verified yet. Enter the code we sent to ${formData.email}.`);
+          } else if (!result.success) {
+            setError(result.error || 'Operation failed');
+          }
+          break;
+        }
+        case 'register': {
+          const result = await register(formData.name, formData.email, formData.password);
+          if (result.success && result.verificationRequired) {
+            switchMode('verify', `We sent a verification code to ${formData.email}.`);
+          } else if (!result.success) {
+            setError(result.error || 'Operation failed');
+          }
+          break;
+        }
+        case 'verify': {
+          const result = await verifyEmail(formData.code.trim());
+          if (!result.success) {
+            setError(result.error || 'Operation failed');
+          }
+          break;
+        }
+        case 'forgot':
+          await apiClient.forgotPassword(formData.email);
+          switchMode('reset', `If an account exists for ${formData.email}, we sent it a reset code.`);
+          break;
+        case 'reset': {
+          const response = await apiClient.resetPassword(formData.code.trim(), formData.password);
+          switchMode('login', (response as any).message || 'Your password has been reset. Please sign in.');
+          break;
+        }
       }
     } catch (error) {
-      setError('Something went wrong. Please try again.');
+      setError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const toggleMode = () => {
-    setIsLogin(!isLogin);
+  const resendVerification = async () => {
+    if (!formData.email) {
+      setError('Enter your email on the sign in screen first.');
+      return;
+    }
+
+    setIsResending(true);
     setError('');
-    setFormData({ name: '', email: '', password: '' });
+    try {
+      await apiClient.resendVerification(formData.email);
+      setNotice(`We sent a new verification code to ${formData.email}.`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to resend the code.');
+    } finally {
+      setIsResending(false);
+    }
   };
 
   return (
@@ -58,27 +169,26 @@ const Login: React.FC = () => {
           {/* Header */}
           <div className="text-center mb-8">
             <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
-              {isLogin ? (
-                <LogIn className="w-8 h-8 text-blue-600" />
-              ) : (
-                <UserPlus className="w-8 h-8 text-blue-600" />
-              )}
+              <ScreenIcon className="w-8 h-8 text-blue-600" />
             </div>
             <h2 className="text-2xl font-bold text-gray-900">
-              {isLogin ? 'Welcome back' : 'Create account'}
+              {screen.title}
             </h2>
             <p className="text-gray-600 mt-2">
-              {isLogin 
-                ? 'Sign in to your Lovable Extension account'
-                : 'Sign up to get started with Lovable Extension'
-              }
+              {screen.subtitle}
             </p>
           </div>
 
+          {notice && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-6">
+              <p className="text-sm text-blue-700">{notice}</p>
+            </div>
+          )}
+
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Name field (only for registration) */}
-            {!isLogin && (
+            {showsName && (
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
                   Full Name
@@ -89,65 +199,100 @@ const Login: React.FC = () => {
                   name="name"
                   value={formData.name}
                   onChange={handleInputChange}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  className={inputClassName}
                   placeholder="Enter your full name"
-                  required={!isLogin}
+                  required
                 />
               </div>
             )}
 
             {/* Email field */}
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
-              </label>
-              <input
-                type="email"
-                id="email"
-                name="email"
-                value={formData.email}
-                onChange={handleInputChange}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                placeholder="Enter your email"
-                required
-              />
-            </div>
+            {showsEmail && (
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  name="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  className={inputClassName}
+                  placeholder="Enter your email"
+                  required
+                />
+              </div>
+            )}
 
-            {/* Password field */}
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
+            {/* Code field (verification and password reset) */}
+            {showsCode && (
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                  {mode === 'verify' ? 'Verification Code' : 'Reset Code'}
+                </label>
                 <input
-                  type={showPassword ? 'text' : 'password'}
-                  id="password"
-                  name="password"
-                  value={formData.password}
+                  type="text"
+                  id="code"
+                  name="code"
+                  value={formData.code}
                   onChange={handleInputChange}
-                  className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                  placeholder="Enter your password"
+                  className={`${inputClassName} font-mono`}
+                  placeholder="Paste the code from the email"
+                  autoComplete="one-time-code"
                   required
-                  minLength={6}
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                >
-                  {showPassword ? (
-                    <EyeOff className="w-5 h-5" />
-                  ) : (
-                    <Eye className="w-5 h-5" />
+              </div>
+            )}
+
+            {/* Password field */}
+            {showsPassword && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    {mode === 'reset' ? 'New Password' : 'Password'}
+                  </label>
+                  {mode === 'login' && (
+                    <button
+                      type="button"
+                      onClick={() => switchMode('forgot')}
+                      className="text-sm text-blue-600 hover:text-blue-700 transition-colors"
+                    >
+                      Forgot password?
+                    </button>
                   )}
-                </button>
+                </div>
+                <div className="relative">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    id="password"
+                    name="password"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    className={`${inputClassName} pr-12`}
+                    placeholder={mode === 'reset' ? 'Choose a new password' : 'Enter your password'}
+                    required
+                    minLength={6}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+                {mode !== 'login' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Password must be at least 6 characters long
+                  </p>
+                )}
               </div>
-              {!isLogin && (
-                <p className="mt-1 text-xs text-gray-500">
-                  Password must be at least 6 characters long
-                </p>
-              )}
-            </div>
+            )}
 
             {/* Error message */}
             {error && (
@@ -165,37 +310,67 @@ const Login: React.FC = () => {
               {isSubmitting ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  {isLogin ? 'Signing in...' : 'Creating account...'}
+                  {screen.submitting}
                 </>
               ) : (
                 <>
-                  {isLogin ? (
-                    <LogIn className="w-4 h-4 mr-2" />
-                  ) : (
-                    <UserPlus className="w-4 h-4 mr-2" />
-                  )}
-                  {isLogin ? 'Sign In' : 'Create Account'}
+                  <ScreenIcon className="w-4 h-4 mr-2" />
+                  {screen.submit}
                 </>
               )}
             </button>
           </form>
-          
+
+          {mode === 'verify' && (
+            <div className="mt-4 text-center">
+              <button
+                onClick={resendVerification}
+                disabled={isResending}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors disabled:opacity-50"
+              >
+                {isResending ? 'Sending...' : "Didn't get the code? Send it again"}
+              </button>
+            </div>
+          )}
+
           {/* Toggle mode */}
           <div className="mt-6 text-center">
-            <p className="text-gray-600">
-              {isLogin ? "Don't have an account?" : 'Already have an account?'}
+            {mode === 'login' || mode === 'register' ? (
+              <p className="text-gray-600">
+                {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}
+                <button
+                  onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+                  className="ml-2 text-blue-600 hover:text-blue-700 font-medium transition-colors"
+                >
+                  {mode === 'login' ? 'Sign up' : 'Sign in'}
+                </button>
+              </p>
+            ) : (
               <button
-                onClick={toggleMode}
-                className="ml-2 text-blue-600 hover:text-blue-700 font-medium transition-colors"
+                onClick={() => switchMode('login')}
+                className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
               >
-                {isLogin ? 'Sign up' : 'Sign in'}
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back to sign in
               </button>
-            </p>
+            )}
           </div>
         </div>
+
+        {/* Backend in use; self-hosted teams change it on the options page */}
+        <div className="mt-4 flex items-center justify-center text-xs text-gray-500">
+          <Server className="w-3.5 h-3.5 mr-1" />
+          <span className="truncate">{backendUrl}</span>
+          <button
+            onClick={() => chrome.runtime.openOptionsPage()}
+            className="ml-2 text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            Change
+          </button>
+        </div>
       </div>
     </div>
   );
 };
 
-export default Login; 
\ No newline at end of file
+export default Login;
@@ -0,0 +1,51 @@
+import React, { useEffect } from 'react';
+import { FolderOpen } from 'lucide-react';
+import { useProjectStore } from '../stores/projectStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+
+declare const chrome: any;
+
+// Filters the lists by project; follows the Lovable project open in the active tab
+const ProjectSwitcher: React.FC = () => {
+  const { projects, activeProjectId, error, fetchProjects, selectProject, selectProjectForActiveTab } = useProjectStore();
+  const activeWorkspaceId = useWorkspaceStore(state => state.activeWorkspaceId);
+
+  useEffect(() => {
+    fetchProjects().then(selectProjectForActiveTab);
+  }, [activeWorkspaceId, fetchProjects, selectProjectForActiveTab]);
+
+  useEffect(() => {
+    const handleActivated = () => {
+      selectProjectForActiveTab();
+    };
+    const handleUpdated = (_tabId: number, changeInfo: { url?: string }, tab: { active?: boolean }) => {
+      if (changeInfo.url && tab.active) selectProjectForActiveTab();
+    };
+
+    chrome.tabs.onActivated.addListener(handleActivated);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+    return () => {
+      chrome.tabs.onActivated.removeListener(handleActivated);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+    };
+  }, [selectProjectForActiveTab]);
+
+  return (
+    <div className="flex-shrink-0 flex items-center px-4 py-1.5 border-b border-gray-200 bg-gray-50">
+      <FolderOpen className="w-3.5 h-3.5 mr-2 text-gray-400 flex-shrink-0" />
+      <select
+        value={activeProjectId || ''}
+        onChange={(e) => selectProject(e.target.value || null)}
+        className="flex-1 min-w-0 bg-transparent text-xs text-gray-700 focus:outline-none"
+        title={error || 'Project'}
+      >
+        <option value="">All projects</option>
+        {projects.map((project) => (
+          <option key={project._id} value={project._id}>{project.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { List, TestTube, FileText, Users, MessageCircle, LogOut, User } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { List, TestTube, FileText, Users, MessageCircle, LogOut, MonitorX, User, Settings } from 'lucide-react';
 
 import FeatureList from './FeatureList';
 import TestCases from './TestCases';
@@ -7,13 +7,32 @@ import DocumentGeneration from './DocumentGeneration';
 import ExpertHub from './ExpertHub';
 import { ConversationViewer } from './ConversationViewer';
 import Login from './Login';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import ProjectSwitcher from './ProjectSwitcher';
+import GlobalSearch from './GlobalSearch';
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
 import { useFeatureStore } from '../stores/featureStore';
 import { useTestCaseStore } from '../stores/testCaseStore';
 import { useDocumentStore } from '../stores/documentStore';
+import { useProjectStore, inProject } from '../stores/projectStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import { loadExtensionStorage, waitForHydration } from '../services/extensionStorage';
+import { onBackendUrlChanged } from '../services/backendConfig';
+import type { SearchResultType } from '../services/api';
+
+declare const chrome: any;
 
 type TabType = 'conversation' | 'features' | 'tests' | 'docs' | 'experts';
 
+// Tab that shows each type of search result; automated tests have no list of their own and open the Tests tab
+const searchResultTabs: Record<SearchResultType, TabType> = {
+  document: 'docs',
+  conversation: 'conversation',
+  task: 'features',
+  testCase: 'tests',
+  test: 'tests',
+};
+
 interface Tab {
   id: TabType;
   name: string;
@@ -24,12 +43,15 @@ interface Tab {
 
 const AuthenticatedApp: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('conversation');
-  const { user, logout, loading } = useAuth();
+  const { user, logout, logoutAllDevices, loading } = useAuth();
   
-  // Get real counts from stores
-  const features = useFeatureStore(state => state.features);
-  const testCases = useTestCaseStore(state => state.testCases);
-  const documents = useDocumentStore(state => state.documents);
+  // Get real counts from stores, for the selected project
+  const activeProjectId = useProjectStore(state => state.activeProjectId);
+  const features = useFeatureStore(state => state.features).filter(feature => inProject(feature, activeProjectId));
+  const testCases = useTestCaseStore(state => state.testCases).filter(testCase => inProject(testCase, activeProjectId));
+  const activeWorkspaceId = useWorkspaceStore(state => state.activeWorkspaceId);
+  const documents = useDocumentStore(state => state.documents)
+    .filter(doc => (doc.workspaceId || null) === activeWorkspaceId && inProject(doc, activeProjectId));
 
   const tabs: Tab[] = [
     {
@@ -69,6 +91,16 @@ const AuthenticatedApp: React.FC = () => {
     },
   ];
 
+  const handleLogoutAllDevices = async () => {
+    if (!confirm('Sign out of all devices? You will need to log in again everywhere, including here.')) {
+      return;
+    }
+    const result = await logoutAllDevices();
+    if (!result.success) {
+      alert(result.error || 'Failed to sign out of all devices');
+    }
+  };
+
   const ActiveComponent = tabs.find(tab => tab.id === activeTab)?.component || ConversationViewer;
 
   if (loading) {
@@ -96,16 +128,37 @@ const AuthenticatedApp: React.FC = () => {
               <p className="text-xs text-gray-500">{user?.email}</p>
             </div>
           </div>
-          <button
-            onClick={logout}
-            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
-            title="Logout"
-          >
-            <LogOut className="w-4 h-4" />
-          </button>
+          <WorkspaceSwitcher />
+          <div className="flex items-center">
+            <button
+              onClick={() => chrome.runtime.openOptionsPage()}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Backend settings"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleLogoutAllDevices}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Sign out of all devices"
+            >
+              <MonitorX className="w-4 h-4" />
+            </button>
+            <button
+              onClick={logout}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Logout"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
         </div>
       </div>
 
+      <ProjectSwitcher />
+
+      <GlobalSearch onOpen={(result) => setActiveTab(searchResultTabs[result.type])} />
+
       {/* Content Area - takes remaining space */}
       <div className="flex-1 overflow-hidden min-h-0">
         <ActiveComponent />
@@ -140,6 +193,32 @@ const AuthenticatedApp: React.FC = () => {
 };
 
 const SidebarApp: React.FC = () => {
+  const [storageLoaded, setStorageLoaded] = useState(false);
+
+  // The options page signs out when the backend changes; start over against the new one
+  useEffect(() => onBackendUrlChanged(() => window.location.reload()), []);
+
+  // The session and saved lists come from chrome.storage, which is read asynchronously
+  useEffect(() => {
+    Promise.all([
+      loadExtensionStorage(),
+      waitForHydration(useFeatureStore),
+      waitForHydration(useTestCaseStore),
+      waitForHydration(useDocumentStore),
+    ]).then(() => setStorageLoaded(true));
+  }, []);
+
+  if (!storageLoaded) {
+    return (
+      <div className="h-full flex items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <AuthProvider>
       <AuthGuard>
@@ -1,9 +1,13 @@
-import React, { useState, useMemo } from 'react';
-import { Plus, CheckCircle, XCircle, Clock, Trash2, Edit3, Sparkles, Loader2, ChevronDown, ChevronRight, Filter, Search, ArrowUp, ArrowDown, Pause, Play, StopCircle, Save } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Plus, CheckCircle, XCircle, Clock, Trash2, Edit3, Sparkles, Loader2, ChevronDown, ChevronRight, Filter, Search, ArrowUp, ArrowDown, Pause, Play, StopCircle, Save, RefreshCw, CloudOff } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { useTestCaseStore, type TestResult, type Priority, type TestStep, type TestCase } from '../stores/testCaseStore';
-import { apiClient, type TestCaseGenerated } from '../services/api';
-import IframeContentReader from '../utils/iframeContentReader';
+import { useTestCaseStore, getActiveSession, type TestResult, type Priority, type TestStep, type TestCase } from '../stores/testCaseStore';
+import { useProjectStore, inProject } from '../stores/projectStore';
+import { useSearchTarget, scrollToSearchTarget } from '../stores/searchStore';
+import { apiClient, ApiError, type TestCaseGenerated } from '../services/api';
+import IframeContentReader, { IframeCaptureError } from '../utils/iframeContentReader';
+import { crawlPreview, toSiteMap, type CrawlProgress } from '../utils/previewCrawler';
+import CrawlDepthSelect, { useCrawlDepth } from './CrawlDepthSelect';
 import moment from 'moment';
 
 // Helper for unique tags
@@ -13,29 +17,35 @@ const getAllTags = (testCases: TestCase[]): string[] => {
   return Array.from(tagSet);
 };
 
-// Session state types
-interface TestSession {
-  id: string;
-  name?: string;
-  status: 'active' | 'paused' | 'finished' | 'terminated';
-  startedAt: string;
-  finishedAt?: string;
-}
-
 const TestCases: React.FC = () => {
   // Store hooks
   const {
-    testCases,
+    testCases: allTestCases,
     addTestCase,
     updateTestCase,
     deleteTestCase,
     updateTestResult,
+    sessions,
+    startSession,
+    updateSession,
+    syncTestCases,
+    isSyncing,
+    syncError,
+    lastSyncedAt,
   } = useTestCaseStore();
+  const { projects, activeProjectId } = useProjectStore();
+  const testCases = useMemo(
+    () => allTestCases.filter(testCase => inProject(testCase, activeProjectId)),
+    [allTestCases, activeProjectId]
+  );
 
   // UI state
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingCase, setEditingCase] = useState<string | null>(null);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useCrawlDepth();
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null);
+  const [aiError, setAiError] = useState<{ title: string; description: string; hints: string[] } | null>(null);
   const [expandedCase, setExpandedCase] = useState<string | null>(null);
   const [filterOpen, setFilterOpen] = useState(false);
 
@@ -59,10 +69,41 @@ const TestCases: React.FC = () => {
   const [tagInput, setTagInput] = useState('');
 
   // Test session state
-  const [session, setSession] = useState<TestSession | null>(null);
+  const session = useMemo(() => getActiveSession(sessions), [sessions]);
   const [showSessionNameInput, setShowSessionNameInput] = useState(false);
   const [sessionName, setSessionName] = useState('');
-  const [sessionHistory, setSessionHistory] = useState<{ [testCaseId: string]: { sessionId: string | null, result: TestResult, executedAt: string }[] }>({});
+
+  // Pick up results recorded in other browsers on open, push offline results when we come back online
+  useEffect(() => {
+    syncTestCases();
+
+    const handleOnline = () => syncTestCases();
+    window.addEventListener('online', handleOnline);
+    const intervalId = setInterval(syncTestCases, 60000);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(intervalId);
+    };
+  }, [syncTestCases]);
+
+  // Open a test case picked in the global search; it may only arrive with the next sync
+  useSearchTarget(['testCase'], async (result) => {
+    const findTestCase = () => useTestCaseStore.getState().testCases.find((testCase) => testCase.remoteId === result.id);
+    let testCase = findTestCase();
+    if (!testCase) {
+      await syncTestCases();
+      testCase = findTestCase();
+    }
+    if (!testCase) return;
+
+    setSearchTerm('');
+    setFilterResult('all');
+    setFilterPriority('all');
+    setFilterTag('all');
+    setExpandedCase(testCase.id);
+    scrollToSearchTarget(`test-case-${testCase.id}`);
+  });
 
   // Filtering, searching, and sorting logic
   const filteredAndSortedTestCases = useMemo(() => {
@@ -113,6 +154,7 @@ const TestCases: React.FC = () => {
         expectedResult: formData.expectedResult,
         priority: formData.priority,
         tags: formData.tags,
+        projectId: activeProjectId || undefined,
       });
     }
 
@@ -136,15 +178,23 @@ const TestCases: React.FC = () => {
     if (isGeneratingAI) return;
 
     setIsGeneratingAI(true);
+    setAiError(null);
     
     try {
-      // Get HTML content from the Lovable iframe
-      const htmlContent = await IframeContentReader.getIframeHTML();
-      const iframeInfo = IframeContentReader.getIframeInfo();
-      const projectContext = iframeInfo ? `Lovable project ${iframeInfo.projectId}` : undefined;
+      // Read the page the Lovable preview is rendering
+      const preview = await IframeContentReader.capturePreview();
+      const project = projects.find(entry => entry._id === activeProjectId);
+      const projectContext = `Lovable project ${project ? project.name : preview.projectId}, page ${preview.route}`
+        + (preview.structure.components.length > 0 ? ` (${preview.structure.components.join(', ')})` : '');
+
+      // Visit the pages the preview links to, so the tests cover the whole app
+      const siteMap = crawlDepth > 0
+        ? toSiteMap(await crawlPreview({ maxDepth: crawlDepth, onProgress: setCrawlProgress }))
+        : undefined;
+      setCrawlProgress(null);
 
       // Generate test cases using AI
-      const generatedTestCases = await apiClient.generateAITestCases(htmlContent, projectContext);
+      const generatedTestCases = await apiClient.generateAITestCases(preview.html, projectContext, siteMap);
 
       // Convert AI-generated test cases to our format and add them
       generatedTestCases.forEach((aiTestCase: TestCaseGenerated) => {
@@ -160,6 +210,7 @@ const TestCases: React.FC = () => {
           expectedResult: aiTestCase.expectedResult,
           priority: aiTestCase.priority,
           tags: [],
+          projectId: activeProjectId || undefined,
         });
       });
 
@@ -170,42 +221,50 @@ const TestCases: React.FC = () => {
       // Provide user-friendly error messages
       let errorTitle = 'AI Generation Failed';
       let errorDescription = 'Failed to generate test cases';
-      let errorSteps = [
-        { id: uuidv4(), description: 'Check console for error details' },
-        { id: uuidv4(), description: 'Try again or create test cases manually' }
+      let errorHints = [
+        'Check console for error details',
+        'Try again or create test cases manually'
       ];
       
-      if (error instanceof Error) {
+      if (error instanceof IframeCaptureError) {
+        errorTitle = 'Could Not Read the Preview';
+        errorDescription = error.message;
+        errorHints = [
+          'Open the project in the Lovable editor and show the preview',
+          'Navigate the preview to the page you want tests for'
+        ];
+      } else if (error instanceof ApiError && error.code === 'AI_INVALID_OUTPUT') {
+        errorTitle = 'AI Returned Unusable Test Cases';
+        errorDescription = 'The AI response did not match the expected test case format, even after asking it to correct itself. Nothing was added.';
+        errorHints = [
+          'Try again, results vary between attempts',
+          'If it keeps failing, try a different AI model'
+        ];
+      } else if (error instanceof Error) {
         if (error.message.includes('overloaded') || error.message.includes('temporarily')) {
           errorTitle = 'AI Service Temporarily Unavailable';
           errorDescription = 'The AI service is currently overloaded. This is usually temporary.';
-          errorSteps = [
-            { id: uuidv4(), description: 'Wait 30-60 seconds and try again' },
-            { id: uuidv4(), description: 'If problem persists, try again later' }
+          errorHints = [
+            'Wait 30-60 seconds and try again',
+            'If problem persists, try again later'
           ];
         } else if (error.message.includes('rate limit')) {
           errorTitle = 'Rate Limit Exceeded';
           errorDescription = 'Too many requests made recently. Please wait before trying again.';
-          errorSteps = [
-            { id: uuidv4(), description: 'Wait a few minutes before retrying' },
-            { id: uuidv4(), description: 'Consider generating fewer test cases at once' }
+          errorHints = [
+            'Wait a few minutes before retrying',
+            'Consider generating fewer test cases at once'
           ];
         } else {
           errorDescription = error.message;
         }
       }
       
-      // Add a fallback test case to show the error
-      addTestCase({
-        title: errorTitle,
-        description: errorDescription,
-        steps: errorSteps,
-        expectedResult: 'Manual intervention required',
-        priority: 'high',
-        tags: [],
-      });
+      // Shown above the list instead of being stored, so it never syncs as a real test case
+      setAiError({ title: errorTitle, description: errorDescription, hints: errorHints });
     } finally {
       setIsGeneratingAI(false);
+      setCrawlProgress(null);
     }
   };
 
@@ -272,30 +331,25 @@ const TestCases: React.FC = () => {
 
   // Session handlers
   const handleStartSession = () => {
-    if (session && (session.status === 'active' || session.status === 'paused')) return;
-    const newSession: TestSession = {
-      id: uuidv4(),
-      status: 'active',
-      startedAt: new Date().toISOString(),
-    };
-    setSession(newSession);
+    if (session) return;
+    startSession();
   };
 
   const handlePauseSession = () => {
     if (session && session.status === 'active') {
-      setSession({ ...session, status: 'paused' });
+      updateSession(session.id, { status: 'paused' });
     }
   };
 
   const handleResumeSession = () => {
     if (session && session.status === 'paused') {
-      setSession({ ...session, status: 'active' });
+      updateSession(session.id, { status: 'active' });
     }
   };
 
   const handleTerminateSession = () => {
     if (session) {
-      setSession({ ...session, status: 'terminated', finishedAt: new Date().toISOString() });
+      updateSession(session.id, { status: 'terminated' });
     }
   };
 
@@ -305,30 +359,14 @@ const TestCases: React.FC = () => {
 
   const handleSaveSessionName = () => {
     if (session) {
-      setSession({ ...session, status: 'finished', name: sessionName, finishedAt: new Date().toISOString() });
+      updateSession(session.id, { status: 'finished', name: sessionName });
       setShowSessionNameInput(false);
       setSessionName('');
     }
   };
 
-  // Patch updateTestResult to store session info in sessionHistory
-  const updateTestResultWithSession = (testCaseId: string, result: TestResult) => {
-    updateTestResult(testCaseId, result);
-    setSessionHistory(prev => {
-      const prevHistory = prev[testCaseId] || [];
-      return {
-        ...prev,
-        [testCaseId]: [
-          ...prevHistory,
-          {
-            sessionId: session && (session.status === 'active' || session.status === 'paused') ? session.id : null,
-            result,
-            executedAt: new Date().toISOString(),
-          },
-        ],
-      };
-    });
-  };
+  const getSessionName = (sessionId: string) =>
+    sessions.find(s => s.id === sessionId || s.remoteId === sessionId)?.name || 'Session';
 
   const resultIcons = {
     pass: <CheckCircle className="w-4 h-4 text-green-600" />,
@@ -358,6 +396,25 @@ const TestCases: React.FC = () => {
         <div className="flex items-center justify-between">
           <h1 className="text-xl font-semibold text-gray-900">Test Cases</h1>
           <div className="flex gap-2">
+            <button
+              onClick={() => syncTestCases()}
+              disabled={isSyncing}
+              className="flex items-center gap-1.5 p-1.5 text-gray-400 hover:text-gray-600 transition-colors disabled:cursor-not-allowed"
+              title={
+                syncError
+                  ? `Sync failed: ${syncError}`
+                  : lastSyncedAt
+                    ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+                    : 'Sync with server'
+              }
+            >
+              {syncError ? (
+                <CloudOff className="w-4 h-4 text-red-500" />
+              ) : (
+                <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              )}
+            </button>
+            <CrawlDepthSelect value={crawlDepth} onChange={setCrawlDepth} disabled={isGeneratingAI} />
             <button 
               onClick={handleAIGeneration}
               disabled={isGeneratingAI}
@@ -368,7 +425,9 @@ const TestCases: React.FC = () => {
               ) : (
                 <Sparkles className="w-3 h-3" />
               )}
-              {isGeneratingAI ? 'Generating...' : 'AI Generate'}
+              {crawlProgress
+                ? `Reading page ${crawlProgress.page} of ${crawlProgress.found}...`
+                : isGeneratingAI ? 'Generating...' : 'AI Generate'}
             </button>
             <button 
               onClick={() => {
@@ -392,6 +451,29 @@ const TestCases: React.FC = () => {
         </div>
       </div>
 
+      {aiError && (
+        <div className="mx-4 mt-4 p-3 rounded-lg border border-red-200 bg-red-50 text-sm">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-medium text-red-800">{aiError.title}</p>
+              <p className="mt-1 text-red-700">{aiError.description}</p>
+              <ul className="mt-1 list-disc list-inside text-red-700">
+                {aiError.hints.map(hint => (
+                  <li key={hint}>{hint}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => setAiError(null)}
+              className="p-1 text-red-400 hover:text-red-600"
+              aria-label="Dismiss error"
+            >
+              <XCircle className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Search and Filter Bar (now below header) */}
       <div className="p-4 border-b border-gray-100 flex flex-col gap-2">
         <div className="flex gap-2 items-center">
@@ -417,7 +499,7 @@ const TestCases: React.FC = () => {
             className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
             onClick={handleStartSession}
             aria-label="Start test session"
-            disabled={!!(session && (session.status === 'active' || session.status === 'paused'))}
+            disabled={!!session}
           >
             <Plus className="w-5 h-5 text-green-600" />
           </button>
@@ -473,7 +555,7 @@ const TestCases: React.FC = () => {
           </div>
         )}
         {/* Session Controls moved below search/filter */}
-        {(session && (session.status === 'active' || session.status === 'paused')) && (
+        {session && (
           <div className="flex gap-2 items-center bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 mt-2">
             <span className="text-xs font-medium text-gray-700">Session: {session.name || 'Untitled'}</span>
             {session.status === 'active' ? (
@@ -670,11 +752,10 @@ const TestCases: React.FC = () => {
             <div className="space-y-2">
               {filteredAndSortedTestCases.map((testCase, idx) => {
                 const isExpanded = expandedCase === testCase.id;
-                // Get session-aware history for this test case
-                const caseHistory = sessionHistory[testCase.id] || testCase.history || [];
+                const caseHistory = testCase.history || [];
                 // Handler for result button click
                 const handleResultClick = (result: TestResult) => {
-                  updateTestResultWithSession(testCase.id, result);
+                  updateTestResult(testCase.id, result);
                   // Close the accordion
                   setExpandedCase(null);
                   // If session is active, open the next test accordion
@@ -687,7 +768,7 @@ const TestCases: React.FC = () => {
                   }
                 };
                 return (
-                  <div key={testCase.id} className="bg-white rounded-lg border border-gray-200">
+                  <div key={testCase.id} id={`test-case-${testCase.id}`} className="bg-white rounded-lg border border-gray-200">
                     {/* Accordion Header */}
                     <button
                       className="w-full flex flex-col px-4 py-3 focus:outline-none hover:bg-gray-50 rounded-t-lg text-left"
@@ -785,7 +866,7 @@ const TestCases: React.FC = () => {
                                   {resultIcons[entry.result]}
                                   <span className="text-gray-400">{moment(entry.executedAt).format('hh:mm A, DD MMMM, YYYY')}</span>
                                   {entry.sessionId ? (
-                                    <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xxs">{(session && session.id === entry.sessionId && session.name) || 'Session'}</span>
+                                    <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xxs">{getSessionName(entry.sessionId)}</span>
                                   ) : (
                                     <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full text-xxs">Independent</span>
                                   )}
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { Briefcase, Check, ChevronDown, Plus, UserPlus, Mail, X, Loader2 } from 'lucide-react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { WorkspaceInvitation } from '../services/api';
+
+type Form = 'create' | 'invite' | null;
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const invitationWorkspaceName = (invitation: WorkspaceInvitation) =>
+  typeof invitation.workspaceId === 'string' ? 'a workspace' : invitation.workspaceId.name;
+
+const invitationSender = (invitation: WorkspaceInvitation) =>
+  typeof invitation.invitedBy === 'string' ? undefined : invitation.invitedBy.name;
+
+const WorkspaceSwitcher: React.FC = () => {
+  const {
+    workspaces,
+    invitations,
+    activeWorkspaceId,
+    error,
+    fetchWorkspaces,
+    selectWorkspace,
+    createWorkspace,
+    inviteMember,
+    acceptInvitation,
+    declineInvitation,
+  } = useWorkspaceStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<Form>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceInvitation['role']>('editor');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const active = workspaces.find((workspace) =>
+    activeWorkspaceId ? workspace._id === activeWorkspaceId : workspace.personal
+  );
+  const canInvite = !!active && !active.personal && active.role === 'owner';
+
+  // Runs a menu action, showing its error in the menu instead of closing it
+  const run = async (action: () => Promise<void>, success?: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setForm(null);
+      setName('');
+      setEmail('');
+      if (success) setMessage({ type: 'info', text: success });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Something went wrong' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => createWorkspace(name.trim()));
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => inviteMember(email.trim(), role), `Invitation sent to ${email.trim()}`);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setMessage(null); }}
+        className="flex items-center max-w-[180px] px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+        title="Switch workspace"
+      >
+        <Briefcase className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+        <span className="truncate">{active?.name || 'Workspace'}</span>
+        <ChevronDown className="w-3.5 h-3.5 ml-1 flex-shrink-0" />
+        {invitations.length > 0 && (
+          <span className="ml-1 bg-red-500 text-white rounded-full min-w-[16px] h-4 flex items-center justify-center px-1">
+            {invitations.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-20 p-2 space-y-2">
+          {error && <p className="text-xs text-red-600 px-1">{error}</p>}
+
+          <div>
+            {workspaces.map((workspace) => (
+              <button
+                key={workspace._id}
+                onClick={() => run(async () => { await selectWorkspace(workspace._id); setIsOpen(false); })}
+                disabled={isBusy}
+                className="w-full flex items-center justify-between px-2 py-1.5 text-sm rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <span className="truncate text-left">
+                  {workspace.name}
+                  <span className="ml-1 text-xs text-gray-400">{workspace.personal ? 'personal' : workspace.role}</span>
+                </span>
+                {workspace._id === active?._id && <Check className="w-4 h-4 text-blue-600 flex-shrink-0" />}
+              </button>
+            ))}
+          </div>
+
+          {invitations.length > 0 && (
+            <div className="border-t border-gray-100 pt-2">
+              <p className="text-xs font-medium text-gray-500 px-1 mb-1">Invitations</p>
+              {invitations.map((invitation) => (
+                <div key={invitation._id} className="flex items-center justify-between px-1 py-1">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{invitationWorkspaceName(invitation)}</p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {invitation.role}{invitationSender(invitation) ? ` · from ${invitationSender(invitation)}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0">
+                    <button
+                      onClick={() => run(() => acceptInvitation(invitation._id))}
+                      disabled={isBusy}
+                      className="p-1 text-green-600 hover:bg-green-50 rounded"
+                      title="Accept"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => run(() => declineInvitation(invitation._id))}
+                      disabled={isBusy}
+                      className="p-1 text-gray-400 hover:bg-gray-100 rounded"
+                      title="Decline"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t border-gray-100 pt-2 space-y-1">
+            {form === 'create' ? (
+              <form onSubmit={handleCreate} className="flex space-x-1">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Workspace name"
+                  maxLength={100}
+                  autoFocus
+                  required
+                />
+                <button type="submit" disabled={isBusy} className="px-2 bg-blue-600 text-white text-sm rounded-md disabled:opacity-50">
+                  {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Create'}
+                </button>
+              </form>
+            ) : (
+              <button
+                onClick={() => { setForm('create'); setMessage(null); }}
+                className="w-full flex items-center px-2 py-1.5 text-sm text-gray-600 rounded-md hover:bg-gray-50"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New workspace
+              </button>
+            )}
+
+            {canInvite && (form === 'invite' ? (
+              <form onSubmit={handleInvite} className="space-y-1">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Email address"
+                  autoFocus
+                  required
+                />
+                <div className="flex space-x-1">
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as WorkspaceInvitation['role'])}
+                    className={inputClassName}
+                  >
+                    <option value="editor">Editor</option>
+                    <option value="viewer">Viewer</option>
+                  </select>
+                  <button type="submit" disabled={isBusy} className="px-2 bg-blue-600 text-white text-sm rounded-md disabled:opacity-50">
+                    {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={() => { setForm('invite'); setMessage(null); }}
+                className="w-full flex items-center px-2 py-1.5 text-sm text-gray-600 rounded-md hover:bg-gray-50"
+              >
+                <UserPlus className="w-4 h-4 mr-2" />
+                Invite to {active?.name}
+              </button>
+            ))}
+          </div>
+
+          {message && (
+            <p className={`text-xs px-1 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -1,12 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { apiClient, TokenStorage, User } from '../services/api';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { apiClient, ApiError, TokenStorage, WorkspaceStorage, User } from '../services/api';
+import { loadExtensionStorage } from '../services/extensionStorage';
+
+interface AuthResult {
+  success: boolean;
+  error?: string;
+  code?: string;
+}
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  register: (name: string, email: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  logout: () => void;
+  login: (email: string, password: string) => Promise<AuthResult>;
+  register: (name: string, email: string, password: string) => Promise<AuthResult & { verificationRequired?: boolean }>;
+  verifyEmail: (token: string) => Promise<AuthResult>;
+  logout: () => Promise<void>;
+  logoutAllDevices: () => Promise<{ success: boolean; error?: string }>;
   isAuthenticated: boolean;
 }
 
@@ -28,9 +37,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // A rejected refresh token means the session ended elsewhere (expired, revoked or signed out of all devices)
+  useEffect(() => {
+    apiClient.onSessionExpired(() => setUser(null));
+    return () => apiClient.onSessionExpired(undefined);
+  }, []);
+
+  const userRef = useRef(user);
+  userRef.current = user;
+
   // Check for existing authentication on mount
   useEffect(() => {
     const checkAuthStatus = async () => {
+      await loadExtensionStorage();
       const token = TokenStorage.getToken();
       if (token) {
         try {
@@ -59,18 +78,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuthStatus();
   }, []);
 
-  const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+  // Signing in or out in another extension page applies here too; refreshed tokens need nothing
+  useEffect(() => TokenStorage.onTokenChanged(async (token) => {
+    if (!token) {
+      setUser(null);
+      return;
+    }
+    if (userRef.current) return;
+    try {
+      const response = await apiClient.getCurrentUser();
+      const user = (response as any).user;
+      if (response.success && user) setUser(user);
+    } catch (error) {
+      console.error('Auth check failed:', error);
+    }
+  }), []);
+
+  // login, register and verifyEmail leave `loading` alone: the Login screen shows its own progress and keeps its state
+  const login = async (email: string, password: string): Promise<AuthResult> => {
     try {
-      setLoading(true);
       const response = await apiClient.login({ email, password });
       
       if (response.success) {
-        // Handle direct response format: { success: true, token: "...", user: {...} }
+        // Handle direct response format: { success: true, token: "...", refreshToken: "...", user: {...} }
         const token = (response as any).token;
+        const refreshToken = (response as any).refreshToken;
         const user = (response as any).user;
         
-        if (token && user) {
-          TokenStorage.setToken(token);
+        if (token && refreshToken && user) {
+          TokenStorage.setTokens(token, refreshToken);
           setUser(user);
           return { success: true };
         } else {
@@ -83,30 +119,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.error('Login error:', error);
       return { 
         success: false, 
-        error: error instanceof Error ? error.message : 'Login failed' 
+        error: error instanceof Error ? error.message : 'Login failed',
+        code: error instanceof ApiError ? error.code : undefined
       };
-    } finally {
-      setLoading(false);
     }
   };
 
-  const register = async (name: string, email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+  const register = async (name: string, email: string, password: string): Promise<AuthResult & { verificationRequired?: boolean }> => {
     try {
-      setLoading(true);
       const response = await apiClient.register({ name, email, password });
       
       if (response.success) {
-        // Handle direct response format: { success: true, token: "...", user: {...} }
-        const token = (response as any).token;
-        const user = (response as any).user;
-        
-        if (token && user) {
-          TokenStorage.setToken(token);
-          setUser(user);
-          return { success: true };
-        } else {
-          return { success: false, error: 'Invalid response format' };
+        // The account can sign in once the emailed code is confirmed
+        if ((response as any).verificationRequired) {
+          return { success: true, verificationRequired: true };
         }
+        return { success: false, error: 'Invalid response format' };
       } else {
         return { success: false, error: response.error || 'Registration failed' };
       }
@@ -116,14 +144,63 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         success: false, 
         error: error instanceof Error ? error.message : 'Registration failed' 
       };
-    } finally {
-      setLoading(false);
     }
   };
 
-  const logout = () => {
+  const verifyEmail = async (code: string): Promise<AuthResult> => {
+    try {
+      const response = await apiClient.verifyEmail(code);
+
+      // Handle direct response format: { success: true, token: "...", refreshToken: "...", user: {...} }
+      const token = (response as any).token;
+      const refreshToken = (response as any).refreshToken;
+      const user = (response as any).user;
+
+      if (response.success && token && refreshToken && user) {
+        TokenStorage.setTokens(token, refreshToken);
+        setUser(user);
+        return { success: true };
+      }
+      return { success: false, error: response.error || 'Verification failed' };
+    } catch (error) {
+      console.error('Email verification error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Verification failed'
+      };
+    }
+  };
+
+  // Signs out locally right away; revoking the refresh token on the server is best effort
+  const logout = async () => {
+    const refreshToken = TokenStorage.getRefreshToken();
     TokenStorage.removeToken();
+    WorkspaceStorage.setWorkspaceId(null);
     setUser(null);
+
+    if (refreshToken) {
+      try {
+        await apiClient.logout(refreshToken);
+      } catch (error) {
+        console.error('Logout error:', error);
+      }
+    }
+  };
+
+  const logoutAllDevices = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await apiClient.logoutAllDevices();
+      TokenStorage.removeToken();
+      WorkspaceStorage.setWorkspaceId(null);
+      setUser(null);
+      return { success: true };
+    } catch (error) {
+      console.error('Logout all devices error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sign out of all devices'
+      };
+    }
   };
 
   const value: AuthContextType = {
@@ -131,7 +208,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loading,
     login,
     register,
+    verifyEmail,
     logout,
+    logoutAllDevices,
     isAuthenticated: !!user,
   };
 
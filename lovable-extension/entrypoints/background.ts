@@ -1,3 +1,6 @@
+import { syncConversation } from '../services/conversationSync';
+import { createMessageListener, ensureContentScript, MessageError, sendTabMessage } from '../services/messaging';
+
 // Chrome extension API declarations
 declare const chrome: any;
 
@@ -42,44 +45,29 @@ export default defineBackground(() => {
     }
   });
 
-  // Handle messages from content scripts
-  chrome.runtime.onMessage.addListener((request: any, sender: any, sendResponse: any) => {
-    console.log('Background script received message:', request.action);
-    
-    if (request.action === "scrapeResult") {
+  // Requests from content scripts and extension pages
+  chrome.runtime.onMessage.addListener(createMessageListener({
+    // Uploads the Lovable messages scraped by the content script; the session is shared through chrome.storage
+    syncConversation,
+
+    scrapeResult: ({ userMessages, aiMessages, mergedMessages }) => {
       console.group('🤖 Conversation Data from Content Script');
-      console.log('👤 User Messages:', request.userMessages);
-      console.log('🤖 AI Messages:', request.aiMessages);
-      console.log('💬 Merged Messages:', request.mergedMessages);
+      console.log('👤 User Messages:', userMessages);
+      console.log('🤖 AI Messages:', aiMessages);
+      console.log('💬 Merged Messages:', mergedMessages);
       console.groupEnd();
-      
-      sendResponse({ received: true });
-    }
-    
-    if (request.action === 'getBodyHTML') {
-      console.log('Background script handling getBodyHTML request');
-      chrome.tabs.query({ active: true, currentWindow: true }, (tabs: any[]) => {
-        const tab = tabs[0];
-        if (!tab?.id) {
-          console.error('No active tab found');
-          sendResponse({ error: 'No active tab found' });
-          return;
-        }
-        console.log('Sending message to tab:', tab.id);
-        chrome.tabs.sendMessage(tab.id, { action: 'getBodyHTML' }, (response: any) => {
-          if (chrome.runtime.lastError) {
-            console.error('Error sending message to content script:', chrome.runtime.lastError);
-            sendResponse({ error: chrome.runtime.lastError.message });
-          } else {
-            console.log('Received response from content script:', response ? 'Success' : 'No response');
-            sendResponse(response || { error: 'No response from content script' });
-          }
-        });
-      });
-      return true; // Indicates async response
-    }
-    return true;
-  });
+      return { received: true };
+    },
+
+    getBodyHTML: async () => {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) {
+        throw new MessageError('No active tab found', 'NO_RECEIVER');
+      }
+      await ensureContentScript(tab.id);
+      return sendTabMessage(tab.id, 'getBodyHTML', undefined);
+    },
+  }));
 
   // Set up side panel for all tabs - enhanced setup
   chrome.runtime.onInstalled.addListener(() => {
@@ -1,6 +1,22 @@
+import { lovableProjectIdFromUrl, lovableProjectNameFromTitle } from '../utils/lovableProject';
+import type { Message } from '../utils/promptResponseScraper';
+import { createMessageListener, MessageError, sendRuntimeMessage } from '../services/messaging';
+
 // Chrome extension API types
 declare const chrome: any;
 
+// Messages sent to the server per sync request
+const SYNC_BATCH_SIZE = 50;
+
+// Longest message text the server accepts; longer responses are cut rather than refused with their batch
+const MAX_SYNC_TEXT_LENGTH = 20000;
+
+// The background may have to refresh the session before uploading
+const SYNC_TIMEOUT_MS = 30000;
+
+// Pasted images only exist in the page as data: or blob: URLs, which are not synced
+const isSyncableAttachment = ({ url }: { url: string }) => /^https?:/.test(url);
+
 export default defineContentScript({
   matches: [
     '*://*.claude.ai/*', 
@@ -40,20 +56,74 @@ export default defineContentScript({
       console.error('❌ Basic test failed:', error);
     }
     
-    // Set up periodic scraping (silent background monitoring)
+    // Content of each message as last synced to the server, by message ID
+    const syncedContent = new Map<string, string>();
+    // Content of each message on the previous check; responses are synced once they stop streaming
+    const previousContent = new Map<string, string>();
+    let syncInProgress = false;
+
+    const contentKey = ({ text, attachments, fileEdits, actions }: Message) =>
+      JSON.stringify([text, (attachments || []).map(({ url }) => url), fileEdits || [], actions || []]);
+
+    // The background holds the session, so it makes the request. Resolves to whether the batch is done:
+    // uploaded, or refused by the server so that sending it again cannot help
+    const syncMessages = (lovableProjectId: string, messages: Message[]) =>
+      sendRuntimeMessage('syncConversation', {
+        lovableProjectId,
+        url: window.location.href,
+        title: document.title,
+        projectName: lovableProjectNameFromTitle(document.title),
+        messages: messages.map(({ messageId, sender, text, timestamp, attachments, fileEdits, actions }) => ({
+          messageId: messageId!,
+          sender,
+          text: text.length > MAX_SYNC_TEXT_LENGTH ? text.substring(0, MAX_SYNC_TEXT_LENGTH) : text,
+          timestamp,
+          attachments: attachments?.filter(isSyncableAttachment),
+          fileEdits,
+          actions,
+        })),
+      }, { timeoutMs: SYNC_TIMEOUT_MS })
+        .then(() => true)
+        .catch((error) => error instanceof MessageError && error.code === 'REJECTED');
+
+    // Set up periodic scraping; new and changed Lovable messages are synced to the server
     const intervalId = setInterval(async () => {
       try {
         const { scrapeConversationFromDOM } = await import('../utils/promptResponseScraper');
         const conversation = scrapeConversationFromDOM();
-        
-        // Silent monitoring - only log if there are errors
-        // Data is available when requested via messages
-              } catch (error) {
-          // Only log actual errors, not normal "no data" cases
-          if (error instanceof Error && error.message && !error.message.includes('No conversation')) {
-            console.error('❌ Error in background scraping:', error);
+
+        const lovableProjectId = lovableProjectIdFromUrl(window.location.href);
+        if (!lovableProjectId || syncInProgress) return;
+
+        const pending = conversation.mergedMessages.filter((message) =>
+          message.messageId
+          && (message.text !== '' || message.attachments?.some(isSyncableAttachment))
+          && previousContent.get(message.messageId) === contentKey(message)
+          && syncedContent.get(message.messageId) !== contentKey(message)
+        );
+        previousContent.clear();
+        conversation.mergedMessages.forEach((message) => {
+          if (message.messageId) previousContent.set(message.messageId, contentKey(message));
+        });
+        if (pending.length === 0) return;
+
+        // One batch per check keeps a long history from flooding the API
+        const batch = pending.slice(0, SYNC_BATCH_SIZE);
+        syncInProgress = true;
+        try {
+          // Failed batches are retried on the next check
+          if (await syncMessages(lovableProjectId, batch)) {
+            batch.forEach((message) => syncedContent.set(message.messageId!, contentKey(message)));
           }
+        } finally {
+          syncInProgress = false;
         }
+      } catch (error) {
+        // Only log actual errors, not normal "no data" cases
+        if (error instanceof Error && error.message && !error.message.includes('No conversation')) {
+          console.error('❌ Error in background scraping:', error);
+        }
+      }
     }, 5000); // Check every 5 seconds
 
     // Clean up interval when context is invalidated
@@ -62,40 +132,17 @@ export default defineContentScript({
       clearInterval(intervalId);
     });
 
-    // Listen for messages from popup/sidepanel
-    chrome.runtime.onMessage.addListener((request: any, sender: any, sendResponse: any) => {
-      console.log('📨 Content script received message:', request.action, 'from:', sender);
-      
-      if (request.action === "getBodyHTML") {
-        console.log('Content script responding with body HTML');
-        sendResponse({ html: document.body.outerHTML });
-        return true; // Indicates async response
-      }
-      
-      if (request.action === "startScraping") {
-        console.log('🔍 Starting scraping process...');
-        // Handle async import properly
-        (async () => {
-          try {
-            const { scrapeConversationFromDOM } = await import('../utils/promptResponseScraper');
-            const data = scrapeConversationFromDOM();
-            console.log('🔍 Content script scraped data:', data);
-            sendResponse({ success: true, data });
-          } catch (error) {
-            console.error('❌ Content script scraping error:', error);
-            sendResponse({ success: false, error: (error as Error).message });
-          }
-        })();
-        return true; // Will respond asynchronously
-      }
-      
-      // Test ping message
-      if (request.action === "ping") {
-        console.log('🏓 Ping received, sending pong...');
-        sendResponse({ pong: true, url: window.location.href, timestamp: Date.now() });
-        return true;
-      }
-    });
+    // Requests from the sidepanel and background
+    chrome.runtime.onMessage.addListener(createMessageListener({
+      ping: () => ({ url: window.location.href, timestamp: Date.now() }),
+
+      getBodyHTML: () => ({ html: document.body.outerHTML }),
+
+      startScraping: async () => {
+        const { scrapeConversationFromDOM } = await import('../utils/promptResponseScraper');
+        return scrapeConversationFromDOM();
+      },
+    }));
 
     // Announce that content script is fully loaded and ready
     console.log('✅ Content script fully initialized and ready for messages');
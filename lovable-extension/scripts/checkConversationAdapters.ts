@@ -0,0 +1,55 @@
+/**
+ * Runs the conversation adapters against the saved pages in
+ * utils/conversationAdapters/fixtures and exits with an error when one of
+ * them no longer extracts the expected conversation.
+ *
+ *   npm run check:adapters
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseHTML } from 'linkedom';
+import {
+  checkAdapterFixture,
+  uncoveredDomVersions,
+  type AdapterFixture,
+} from '../utils/conversationAdapters/harness';
+
+const FIXTURES_DIR = fileURLToPath(new URL('../utils/conversationAdapters/fixtures', import.meta.url));
+
+const loadFixtures = (dir: string): AdapterFixture[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return loadFixtures(path);
+    if (!entry.name.endsWith('.html')) return [];
+
+    return [{
+      name: relative(FIXTURES_DIR, path),
+      html: readFileSync(path, 'utf8'),
+      expected: JSON.parse(readFileSync(path.replace(/\.html$/, '.json'), 'utf8')),
+    }];
+  });
+
+const fixtures = loadFixtures(FIXTURES_DIR);
+let failed = 0;
+
+for (const fixture of fixtures) {
+  const result = checkAdapterFixture(fixture, (html) => parseHTML(html).document as unknown as Document);
+  if (result.failures.length === 0) {
+    console.log(`✅ ${result.name} (${result.adapter})`);
+    continue;
+  }
+
+  failed++;
+  console.log(`❌ ${result.name}`);
+  result.failures.forEach((failure) => console.log(`   ${failure}`));
+}
+
+const uncovered = uncoveredDomVersions(fixtures);
+uncovered.forEach((version) => console.log(`❌ No fixture for ${version}`));
+
+console.log(`\n${fixtures.length - failed}/${fixtures.length} fixtures passed`);
+if (failed > 0 || uncovered.length > 0) {
+  process.exit(1);
+}
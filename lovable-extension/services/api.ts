@@ -1,11 +1,29 @@
-// API configuration
-const API_BASE_URL = 'http://65.21.182.200:3001/api';
+import { getBackendUrl } from './backendConfig';
+import {
+  getStoredValue,
+  loadExtensionStorage,
+  onStoredValueChanged,
+  reloadStoredValues,
+  setStoredValue,
+} from './extensionStorage';
 
 interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
   details?: any[];
+  code?: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+interface PaginatedResponse<T> extends ApiResponse<T[]> {
+  pagination: Pagination;
 }
 
 interface User {
@@ -13,19 +31,30 @@ interface User {
   name: string;
   email: string;
   isActive: boolean;
+  emailVerified?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+interface TaskNote {
+  clientId?: string;
+  content: string;
+  createdAt: string;
+}
+
 interface Task {
   _id: string;
   title: string;
   description?: string;
   status: 'todo' | 'in_progress' | 'completed' | 'cancelled';
-  priority: 'low' | 'medium' | 'high';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
   dueDate?: string;
   tags: string[];
+  notes?: TaskNote[];
+  clientId?: string;
   userId: string;
+  workspaceId: string;
+  projectId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -41,62 +70,402 @@ interface Test {
   testData?: any;
   tags: string[];
   userId: string;
+  workspaceId: string;
+  projectId?: string | null;
   taskId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
-// Storage for authentication token
+interface TestCaseHistoryEntry {
+  _id?: string;
+  result: 'pass' | 'fail' | 'pending';
+  executedAt: string;
+  sessionId?: string;
+  executedBy?: string;
+}
+
+interface TestCaseRecord {
+  _id: string;
+  title: string;
+  description?: string;
+  steps: Array<{ clientId?: string; description: string }>;
+  expectedResult?: string;
+  priority: 'low' | 'medium' | 'high';
+  result: 'pass' | 'fail' | 'pending';
+  executedAt?: string;
+  notes?: string;
+  history: TestCaseHistoryEntry[];
+  tags: string[];
+  clientId?: string;
+  userId: string;
+  workspaceId: string;
+  projectId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TestSessionRecord {
+  _id: string;
+  name?: string;
+  status: 'active' | 'paused' | 'finished' | 'terminated';
+  startedAt: string;
+  finishedAt?: string;
+  clientId?: string;
+  userId: string;
+  workspaceId: string;
+  projectId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+interface WorkspaceMember {
+  userId: string | Pick<User, '_id' | 'name' | 'email'>; // Populated when fetching a single workspace
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+interface Workspace {
+  _id: string;
+  name: string;
+  personal: boolean;
+  ownerId: string;
+  members: WorkspaceMember[];
+  role?: WorkspaceRole; // Role of the current user
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WorkspaceInvitation {
+  _id: string;
+  workspaceId: string | Pick<Workspace, '_id' | 'name'>;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  invitedBy: string | Pick<User, '_id' | 'name' | 'email'>;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface Project {
+  _id: string;
+  name: string;
+  lovableProjectId: string;
+  url?: string;
+  userId: string;
+  workspaceId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProjectCounts {
+  tasks: number;
+  tests: number;
+  testCases: number;
+  testSessions: number;
+  documents: number;
+}
+
+interface StoredConversation {
+  _id: string;
+  lovableProjectId: string;
+  projectId?: string;
+  title?: string;
+  url?: string;
+  messageCount: number;
+  lastMessageAt?: string;
+  userId: string;
+  workspaceId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ConversationAttachment {
+  type: 'image' | 'file';
+  url: string;
+  name?: string;
+}
+
+// A file an AI reply changed, e.g. Lovable's "Edited src/App.tsx"
+interface ConversationFileEdit {
+  path: string;
+  action: 'created' | 'edited' | 'deleted' | 'renamed';
+}
+
+interface StoredConversationMessage {
+  _id: string;
+  conversationId: string;
+  messageId: string;
+  sender: 'user' | 'ai';
+  text: string;
+  attachments: ConversationAttachment[];
+  fileEdits: ConversationFileEdit[];
+  actions: string[];
+  sequence: number;
+  timestamp?: string;
+  capturedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ConversationSyncRequest {
+  lovableProjectId: string;
+  url?: string;
+  title?: string;
+  projectName?: string;
+  messages: Array<{
+    messageId: string;
+    sender: 'user' | 'ai';
+    text: string;
+    attachments?: ConversationAttachment[];
+    fileEdits?: ConversationFileEdit[];
+    actions?: string[];
+    timestamp?: string;
+  }>;
+}
+
+interface ConversationSyncResult {
+  conversationId: string;
+  projectId: string;
+  added: number;
+  updated: number;
+  messageCount: number;
+}
+
+type SearchResultType = 'document' | 'conversation' | 'task' | 'test' | 'testCase';
+
+interface SearchResult {
+  type: SearchResultType;
+  // Matching record; for conversations, the matching message
+  id: string;
+  title: string;
+  snippet: string;
+  // Character ranges of the matched words in the snippet
+  highlights: Array<{ start: number; end: number }>;
+  score: number;
+  projectId?: string;
+  createdAt: string;
+  conversationId?: string;
+  messageId?: string;
+}
+
+interface SearchParams {
+  q: string;
+  // Searches every type when left out
+  types?: SearchResultType[];
+  projectId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+type TestCaseInput = Omit<TestCaseRecord, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt' | 'result' | 'executedAt' | 'history'>;
+type TestSessionInput = Omit<TestSessionRecord, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt'>;
+
+// Error raised when the API answers with a non-2xx status
+class ApiError extends Error {
+  status: number;
+  details?: any[];
+  code?: string;
+
+  constructor(message: string, status: number, details?: any[], code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+    this.code = code;
+  }
+}
+
+// Storage for the access token and the refresh token that renews it. It lives in chrome.storage, so the
+// sidepanel, options page and background share one session; reads need `loadExtensionStorage()` first.
 class TokenStorage {
   private static TOKEN_KEY = 'lovable_extension_token';
+  private static REFRESH_TOKEN_KEY = 'lovable_extension_refresh_token';
 
   static setToken(token: string): void {
-    localStorage.setItem(this.TOKEN_KEY, token);
+    setStoredValue(this.TOKEN_KEY, token);
+  }
+
+  static setTokens(token: string, refreshToken: string): void {
+    setStoredValue(this.TOKEN_KEY, token);
+    setStoredValue(this.REFRESH_TOKEN_KEY, refreshToken);
   }
 
   static getToken(): string | null {
-    return localStorage.getItem(this.TOKEN_KEY);
+    return getStoredValue(this.TOKEN_KEY);
+  }
+
+  static getRefreshToken(): string | null {
+    return getStoredValue(this.REFRESH_TOKEN_KEY);
   }
 
   static removeToken(): void {
-    localStorage.removeItem(this.TOKEN_KEY);
+    setStoredValue(this.TOKEN_KEY, null);
+    setStoredValue(this.REFRESH_TOKEN_KEY, null);
+  }
+
+  // Picks up tokens another context has just stored
+  static reload(): Promise<void> {
+    return reloadStoredValues([this.TOKEN_KEY, this.REFRESH_TOKEN_KEY]);
+  }
+
+  // Resolves with true once another context stores a refresh token other than `current`, or with false after `timeoutMs`
+  static waitForRefreshTokenChange(current: string, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        stop();
+        resolve(false);
+      }, timeoutMs);
+      const stop = onStoredValueChanged(this.REFRESH_TOKEN_KEY, (value) => {
+        if (!value || value === current) return;
+        clearTimeout(timer);
+        stop();
+        resolve(true);
+      });
+    });
+  }
+
+  // Called when another context signs in, refreshes the session or signs out
+  static onTokenChanged(handler: (token: string | null) => void): () => void {
+    return onStoredValueChanged(this.TOKEN_KEY, handler);
   }
 }
 
+// Storage for the selected workspace. Without one the API uses the personal workspace.
+class WorkspaceStorage {
+  private static WORKSPACE_KEY = 'lovable_extension_workspace';
+
+  static setWorkspaceId(workspaceId: string | null): void {
+    setStoredValue(this.WORKSPACE_KEY, workspaceId || null);
+  }
+
+  static getWorkspaceId(): string | null {
+    return getStoredValue(this.WORKSPACE_KEY);
+  }
+
+  // Called when another context switches the workspace
+  static onWorkspaceChanged(handler: (workspaceId: string | null) => void): () => void {
+    return onStoredValueChanged(this.WORKSPACE_KEY, handler);
+  }
+}
+
+// How long a rejected refresh waits for another context that refreshed with the same token to store its result
+const CONCURRENT_REFRESH_WAIT_MS = 3000;
+
 // Base API class with authentication handling
 class ApiClient {
-  private baseUrl: string;
+  // Resolved on every request, so switching the backend on the options page takes effect immediately
+  private getBaseUrl: () => Promise<string>;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredHandler?: () => void;
 
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
+  constructor(getBaseUrl: () => Promise<string>) {
+    this.getBaseUrl = getBaseUrl;
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
-    const token = TokenStorage.getToken();
-    const url = `${this.baseUrl}${endpoint}`;
+  private async apiUrl(endpoint: string): Promise<string> {
+    return `${await this.getBaseUrl()}/api${endpoint}`;
+  }
+
+  // Called when the refresh token is rejected and the user has to log in again
+  onSessionExpired(handler?: () => void): void {
+    this.sessionExpiredHandler = handler;
+  }
+
+  // Requests failing with 401 at the same time share a single refresh
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        await loadExtensionStorage();
+        const refreshToken = TokenStorage.getRefreshToken();
+        if (!refreshToken) {
+          return false;
+        }
+
+        try {
+          const response = await fetch(await this.apiUrl('/auth/refresh'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+          });
 
-    const defaultHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+          if (!response.ok) {
+            // Network and server errors keep the session for the next attempt
+            if (response.status === 401) {
+              // Another context may have used the same refresh token first; its new tokens are still good.
+              // The server only rejects the token in that case, and the other context may still be storing them.
+              await TokenStorage.reload();
+              const latestRefreshToken = TokenStorage.getRefreshToken();
+              if (latestRefreshToken && latestRefreshToken !== refreshToken) {
+                return true;
+              }
+              if (await TokenStorage.waitForRefreshTokenChange(refreshToken, CONCURRENT_REFRESH_WAIT_MS)) {
+                return true;
+              }
+              TokenStorage.removeToken();
+              this.sessionExpiredHandler?.();
+            }
+            return false;
+          }
+
+          const data = await response.json();
+          TokenStorage.setTokens(data.token, data.refreshToken);
+          return true;
+        } catch (error) {
+          console.error('Session refresh failed:', error);
+          return false;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+    return this.refreshPromise;
+  }
+
+  // fetch with the access token and selected workspace; after a 401 the session is refreshed and the request sent once more
+  private async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    // The background may have just woken up
+    await loadExtensionStorage();
+    const send = () => {
+      const token = TokenStorage.getToken();
+      const workspaceId = WorkspaceStorage.getWorkspaceId();
+      return fetch(url, {
+        ...init,
+        headers: {
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          ...(workspaceId ? { 'X-Workspace-Id': workspaceId } : {}),
+          ...(init.headers as Record<string, string>),
+        },
+      });
     };
 
-    if (token) {
-      defaultHeaders['Authorization'] = `Bearer ${token}`;
+    const response = await send();
+    if (response.status !== 401 || !TokenStorage.getRefreshToken()) {
+      return response;
     }
+    return (await this.refreshSession()) ? send() : response;
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}, authenticated = true): Promise<ApiResponse<T>> {
+    const url = await this.apiUrl(endpoint);
 
     const config: RequestInit = {
       ...options,
       headers: {
-        ...defaultHeaders,
-        ...options.headers,
+        'Content-Type': 'application/json',
+        ...(options.headers as Record<string, string>),
       },
     };
 
     try {
-      const response = await fetch(url, config);
+      const response = authenticated ? await this.authorizedFetch(url, config) : await fetch(url, config);
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data.details, data.code);
       }
 
       return data;
@@ -107,17 +476,59 @@ class ApiClient {
   }
 
   // Authentication methods
-  async register(userData: { name: string; email: string; password: string }): Promise<ApiResponse<{ token: string; user: User }>> {
+  // New accounts are not signed in until their email is verified
+  async register(userData: { name: string; email: string; password: string }): Promise<ApiResponse<{ message: string; verificationRequired: boolean; user: User }>> {
     return this.request('/auth/register', {
       method: 'POST',
       body: JSON.stringify(userData),
-    });
+    }, false);
   }
 
-  async login(credentials: { email: string; password: string }): Promise<ApiResponse<{ token: string; user: User }>> {
+  async login(credentials: { email: string; password: string }): Promise<ApiResponse<{ token: string; refreshToken: string; user: User }>> {
     return this.request('/auth/login', {
       method: 'POST',
       body: JSON.stringify(credentials),
+    }, false);
+  }
+
+  async verifyEmail(token: string): Promise<ApiResponse<{ token: string; refreshToken: string; user: User }>> {
+    return this.request('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    }, false);
+  }
+
+  async resendVerification(email: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request('/auth/resend-verification', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }, false);
+  }
+
+  async forgotPassword(email: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }, false);
+  }
+
+  async resetPassword(token: string, password: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    }, false);
+  }
+
+  async logout(refreshToken: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request('/auth/logout', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+    }, false);
+  }
+
+  async logoutAllDevices(): Promise<ApiResponse<{ message: string; revokedSessions: number }>> {
+    return this.request('/auth/logout-all', {
+      method: 'POST',
     });
   }
 
@@ -131,7 +542,7 @@ class ApiClient {
     priority?: Task['priority'];
     page?: number;
     limit?: number;
-  }): Promise<ApiResponse<{ data: Task[]; pagination: any }>> {
+  }): Promise<PaginatedResponse<Task>> {
     const searchParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -142,17 +553,17 @@ class ApiClient {
     }
     
     const query = searchParams.toString();
-    return this.request(`/tasks${query ? `?${query}` : ''}`);
+    return this.request(`/tasks${query ? `?${query}` : ''}`) as Promise<PaginatedResponse<Task>>;
   }
 
-  async createTask(taskData: Omit<Task, '_id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<{ data: Task }>> {
+  async createTask(taskData: Omit<Task, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<Task>> {
     return this.request('/tasks', {
       method: 'POST',
       body: JSON.stringify(taskData),
     });
   }
 
-  async updateTask(id: string, taskData: Partial<Omit<Task, '_id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<ApiResponse<{ data: Task }>> {
+  async updateTask(id: string, taskData: Partial<Omit<Task, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt'>>): Promise<ApiResponse<Task>> {
     return this.request(`/tasks/${id}`, {
       method: 'PUT',
       body: JSON.stringify(taskData),
@@ -186,14 +597,14 @@ class ApiClient {
     return this.request(`/tests${query ? `?${query}` : ''}`);
   }
 
-  async createTest(testData: Omit<Test, '_id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<{ data: Test }>> {
+  async createTest(testData: Omit<Test, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<{ data: Test }>> {
     return this.request('/tests', {
       method: 'POST',
       body: JSON.stringify(testData),
     });
   }
 
-  async updateTest(id: string, testData: Partial<Omit<Test, '_id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<ApiResponse<{ data: Test }>> {
+  async updateTest(id: string, testData: Partial<Omit<Test, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt'>>): Promise<ApiResponse<{ data: Test }>> {
     return this.request(`/tests/${id}`, {
       method: 'PUT',
       body: JSON.stringify(testData),
@@ -212,39 +623,157 @@ class ApiClient {
     });
   }
 
-  async generateAITestCases(htmlContent: string, projectContext?: string): Promise<TestCaseGenerated[]> {
+  // Manual test case methods
+  async getTestCases(params?: {
+    result?: TestCaseRecord['result'];
+    priority?: TestCaseRecord['priority'];
+    tag?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedResponse<TestCaseRecord>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/test-cases${query ? `?${query}` : ''}`) as Promise<PaginatedResponse<TestCaseRecord>>;
+  }
+
+  async createTestCase(testCaseData: TestCaseInput): Promise<ApiResponse<TestCaseRecord>> {
+    return this.request('/test-cases', {
+      method: 'POST',
+      body: JSON.stringify(testCaseData),
+    });
+  }
+
+  async updateTestCase(id: string, testCaseData: Partial<TestCaseInput>): Promise<ApiResponse<TestCaseRecord>> {
+    return this.request(`/test-cases/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(testCaseData),
+    });
+  }
+
+  async deleteTestCase(id: string): Promise<ApiResponse> {
+    return this.request(`/test-cases/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async recordTestResult(
+    id: string,
+    result: { result: TestCaseRecord['result']; sessionId?: string; executedAt?: string }
+  ): Promise<ApiResponse<TestCaseRecord>> {
+    return this.request(`/test-cases/${id}/results`, {
+      method: 'POST',
+      body: JSON.stringify(result),
+    });
+  }
+
+  // Test session methods
+  async getTestSessions(params?: {
+    status?: TestSessionRecord['status'];
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedResponse<TestSessionRecord>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/test-sessions${query ? `?${query}` : ''}`) as Promise<PaginatedResponse<TestSessionRecord>>;
+  }
+
+  async createTestSession(sessionData: Partial<TestSessionInput>): Promise<ApiResponse<TestSessionRecord>> {
+    return this.request('/test-sessions', {
+      method: 'POST',
+      body: JSON.stringify(sessionData),
+    });
+  }
+
+  async updateTestSession(id: string, sessionData: Partial<TestSessionInput>): Promise<ApiResponse<TestSessionRecord>> {
+    return this.request(`/test-sessions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(sessionData),
+    });
+  }
+
+  async generateAITestCases(htmlContent: string, projectContext?: string, siteMap?: SiteMapPage[]): Promise<TestCaseGenerated[]> {
     const response = await this.request<TestCaseGenerated[]>('/tests/generate-ai', {
       method: 'POST',
       body: JSON.stringify({
         htmlContent,
         projectContext,
+        siteMap,
       }),
     });
 
     return response.data || [];
   }
 
-  async generateAIDocument(
-    htmlContent: string,
-    conversationData?: ConversationData,
-    documentType?: string,
-    customPrompt?: string,
-    projectContext?: string,
-    url?: string
+  /**
+   * Generates a document through POST /documents/generate-ai, reading the
+   * server-sent event stream so the markdown can be shown while it is written.
+   * Aborting `signal` cancels the generation on the server; nothing is saved
+   * in that case.
+   */
+  async streamAIDocument(
+    request: DocumentGenerationRequest,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
   ): Promise<DocumentGenerated> {
-    const response = await this.request<DocumentGenerated>('/documents/generate-ai', {
+    const response = await this.authorizedFetch(await this.apiUrl('/documents/generate-ai/stream'), {
       method: 'POST',
-      body: JSON.stringify({
-        htmlContent,
-        conversationData,
-        documentType,
-        customPrompt,
-        projectContext,
-        url,
-      }),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
     });
 
-    return response.data || { title: 'Error', content: 'Failed to generate document', type: 'requirements' };
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data.details, data.code);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+        const data = rawEvent.match(/^data: (.*)$/m)?.[1];
+        if (!event || data === undefined) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'token') {
+          onToken(payload.text);
+        } else if (event === 'done') {
+          return payload;
+        } else if (event === 'error') {
+          throw new ApiError(payload.error, response.status, payload.details, payload.code);
+        }
+      }
+    }
+
+    throw new Error('Document stream ended unexpectedly');
   }
 
   async getDocuments(): Promise<StoredDocument[]> {
@@ -255,14 +784,61 @@ class ApiClient {
     return response.data || [];
   }
 
+  async getDocument(id: string): Promise<ApiResponse<StoredDocument>> {
+    return this.request(`/documents/${id}`, {
+      method: 'GET',
+    });
+  }
+
+  async updateDocument(id: string, updates: { title?: string; content?: string }): Promise<ApiResponse<StoredDocument>> {
+    return this.request(`/documents/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteDocument(id: string): Promise<ApiResponse<void>> {
+    return this.request(`/documents/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getDocumentVersions(id: string): Promise<ApiResponse<DocumentVersion[]>> {
+    return this.request(`/documents/${id}/versions`, {
+      method: 'GET',
+    });
+  }
+
+  async getDocumentVersion(id: string, version: number): Promise<ApiResponse<DocumentVersion>> {
+    return this.request(`/documents/${id}/versions/${version}`, {
+      method: 'GET',
+    });
+  }
+
+  async getDocumentDiff(id: string, from?: number, to?: number): Promise<ApiResponse<DocumentDiff>> {
+    const params = new URLSearchParams();
+    if (from) params.append('from', from.toString());
+    if (to) params.append('to', to.toString());
+    const queryString = params.toString();
+
+    return this.request(`/documents/${id}/diff${queryString ? `?${queryString}` : ''}`, {
+      method: 'GET',
+    });
+  }
+
+  async regenerateDocument(
+    id: string,
+    options: { customPrompt?: string; documentType?: string } = {}
+  ): Promise<ApiResponse<StoredDocument>> {
+    return this.request(`/documents/${id}/regenerate`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
   async downloadDocx(documentId: string): Promise<Blob> {
-    const token = TokenStorage.getToken();
-    
-    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/docx`, {
+    const response = await this.authorizedFetch(await this.apiUrl(`/documents/${documentId}/docx`), {
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
     });
 
     if (!response.ok) {
@@ -272,6 +848,182 @@ class ApiClient {
     return response.blob();
   }
 
+  async exportDocument(documentId: string, format: DocumentExportFormat): Promise<Blob> {
+    const response = await this.authorizedFetch(await this.apiUrl(`/documents/${documentId}/export?format=${format}`), {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data.details, data.code);
+    }
+
+    return response.blob();
+  }
+
+  // Project methods
+  async getProjects(lovableProjectId?: string): Promise<ApiResponse<Project[]>> {
+    const query = lovableProjectId ? `?lovableProjectId=${encodeURIComponent(lovableProjectId)}` : '';
+    return this.request(`/projects${query}`);
+  }
+
+  // Returns the existing project when the workspace already has this Lovable project
+  async createProject(projectData: { lovableProjectId: string; name?: string; url?: string }): Promise<ApiResponse<Project>> {
+    return this.request('/projects', {
+      method: 'POST',
+      body: JSON.stringify(projectData),
+    });
+  }
+
+  async getProject(id: string): Promise<ApiResponse<Project & { counts: ProjectCounts }>> {
+    return this.request(`/projects/${id}`);
+  }
+
+  async updateProject(id: string, projectData: { name?: string; url?: string }): Promise<ApiResponse<Project>> {
+    return this.request(`/projects/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(projectData),
+    });
+  }
+
+  async deleteProject(id: string): Promise<ApiResponse> {
+    return this.request(`/projects/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Search methods
+  async search({ types, ...params }: SearchParams): Promise<PaginatedResponse<SearchResult>> {
+    const searchParams = new URLSearchParams();
+    Object.entries({ ...params, type: types?.join(',') }).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, value.toString());
+      }
+    });
+
+    return this.request(`/search?${searchParams.toString()}`) as Promise<PaginatedResponse<SearchResult>>;
+  }
+
+  // Conversation methods
+  async getConversations(params?: { projectId?: string; lovableProjectId?: string }): Promise<ApiResponse<StoredConversation[]>> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value);
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/conversations${query ? `?${query}` : ''}`);
+  }
+
+  async getConversation(id: string, params?: { page?: number; limit?: number }): Promise<ApiResponse<StoredConversation & { messages: StoredConversationMessage[] }> & { pagination: Pagination }> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const query = searchParams.toString();
+    return this.request(`/conversations/${id}${query ? `?${query}` : ''}`) as Promise<ApiResponse<StoredConversation & { messages: StoredConversationMessage[] }> & { pagination: Pagination }>;
+  }
+
+  // Messages the server already has are skipped unless their content changed
+  async syncConversation(syncData: ConversationSyncRequest): Promise<ApiResponse<ConversationSyncResult>> {
+    return this.request('/conversations/sync', {
+      method: 'POST',
+      body: JSON.stringify(syncData),
+    });
+  }
+
+  async deleteConversation(id: string): Promise<ApiResponse> {
+    return this.request(`/conversations/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Workspace methods
+  async getWorkspaces(): Promise<ApiResponse<Workspace[]>> {
+    return this.request('/workspaces');
+  }
+
+  async createWorkspace(name: string): Promise<ApiResponse<Workspace>> {
+    return this.request('/workspaces', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async getWorkspace(workspaceId: string): Promise<ApiResponse<Workspace>> {
+    return this.request(`/workspaces/${workspaceId}`);
+  }
+
+  async updateWorkspace(workspaceId: string, name: string): Promise<ApiResponse<Workspace>> {
+    return this.request(`/workspaces/${workspaceId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async deleteWorkspace(workspaceId: string): Promise<ApiResponse> {
+    return this.request(`/workspaces/${workspaceId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<ApiResponse<Workspace>> {
+    return this.request(`/workspaces/${workspaceId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  // Removing yourself leaves the workspace
+  async removeMember(workspaceId: string, userId: string): Promise<ApiResponse> {
+    return this.request(`/workspaces/${workspaceId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async inviteToWorkspace(workspaceId: string, email: string, role: WorkspaceInvitation['role']): Promise<ApiResponse<WorkspaceInvitation>> {
+    return this.request(`/workspaces/${workspaceId}/invitations`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async getWorkspaceInvitations(workspaceId: string): Promise<ApiResponse<WorkspaceInvitation[]>> {
+    return this.request(`/workspaces/${workspaceId}/invitations`);
+  }
+
+  async revokeInvitation(workspaceId: string, invitationId: string): Promise<ApiResponse> {
+    return this.request(`/workspaces/${workspaceId}/invitations/${invitationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Invitations addressed to the current user
+  async getMyInvitations(): Promise<ApiResponse<WorkspaceInvitation[]>> {
+    return this.request('/workspaces/invitations');
+  }
+
+  async acceptInvitation(invitationId: string): Promise<ApiResponse<Workspace>> {
+    return this.request(`/workspaces/invitations/${invitationId}/accept`, {
+      method: 'POST',
+    });
+  }
+
+  async declineInvitation(invitationId: string): Promise<ApiResponse> {
+    return this.request(`/workspaces/invitations/${invitationId}/decline`, {
+      method: 'POST',
+    });
+  }
+
   // Expert Hub methods
   async submitHireExpertRequest(request: HireExpertRequest): Promise<ApiResponse<{ message: string }>> {
     return this.request('/experts/hire', {
@@ -292,8 +1044,13 @@ class ApiClient {
 export interface TestCaseGenerated {
   title: string;
   description: string;
+  // action, selector, value and url are what the API's test runner performs
   steps: Array<{
     description: string;
+    action: string;
+    selector?: string;
+    value?: string;
+    url?: string;
   }>;
   expectedResult: string;
   priority: 'low' | 'medium' | 'high';
@@ -308,24 +1065,79 @@ export interface DocumentGenerated {
   createdAt?: string;
 }
 
+// A page of the Lovable preview found by following the app's links
+export interface SiteMapPage {
+  route: string;
+  title?: string;
+  // Links followed from the page the crawl started on
+  depth: number;
+  // Routes of the app this page links to
+  links: string[];
+  // Headings, forms, buttons and other UI on the page, as text
+  structure: string;
+}
+
+export interface DocumentGenerationRequest {
+  htmlContent: string;
+  conversationData?: ConversationData;
+  documentType?: string;
+  customPrompt?: string;
+  projectContext?: string;
+  // Other pages of the app; htmlContent is then the page the crawl started on
+  siteMap?: SiteMapPage[];
+  url?: string;
+  projectId?: string;
+}
+
 // Add interface for stored documents
 export interface StoredDocument {
   _id: string;
   title: string;
   content: string;
   documentType: 'requirement' | 'specification' | 'plan' | 'documentation' | 'other';
+  generationType?: 'requirements' | 'specs' | 'guides' | 'api' | 'faq';
   customPrompt?: string;
   url?: string;
+  currentVersion?: number;
   userId: string;
+  workspaceId: string;
+  projectId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DocumentVersion {
+  documentId: string;
+  version: number;
+  title: string;
+  content?: string; // Omitted in version lists
+  customPrompt?: string;
+  source: 'generated' | 'edit' | 'regenerate';
+  createdAt: string;
+}
+
+export interface DocumentDiff {
+  from: number;
+  to: number;
+  title: { from: string; to: string };
+  added: number;
+  removed: number;
+  changes: Array<{ type: 'added' | 'removed' | 'unchanged'; lines: string[] }>;
+}
+
+export type DocumentExportFormat = 'docx' | 'pdf' | 'html' | 'md' | 'zip';
+
 // Add interface for conversation data
 export interface ConversationData {
   userMessages: Array<{ sender: 'user'; text: string; timestamp?: string }>;
-  aiMessages: Array<{ sender: 'ai'; text: string; timestamp?: string }>;
-  mergedMessages: Array<{ sender: 'user' | 'ai'; text: string; timestamp?: string }>;
+  aiMessages: Array<{ sender: 'ai'; text: string; timestamp?: string; fileEdits?: ConversationFileEdit[]; actions?: string[] }>;
+  mergedMessages: Array<{
+    sender: 'user' | 'ai';
+    text: string;
+    timestamp?: string;
+    fileEdits?: ConversationFileEdit[];
+    actions?: string[];
+  }>;
   url?: string;
   title?: string;
 }
@@ -353,6 +1165,34 @@ export interface RegisterExpertRequest {
 }
 
 // Export singleton instance
-export const apiClient = new ApiClient(API_BASE_URL);
-export { TokenStorage };
-export type { User, Task, Test, ApiResponse }; 
\ No newline at end of file
+export const apiClient = new ApiClient(getBackendUrl);
+export { TokenStorage, WorkspaceStorage, ApiError };
+export type {
+  User,
+  Task,
+  TaskNote,
+  Test,
+  TestCaseRecord,
+  TestCaseHistoryEntry,
+  TestCaseInput,
+  TestSessionRecord,
+  TestSessionInput,
+  Project,
+  ProjectCounts,
+  StoredConversation,
+  StoredConversationMessage,
+  ConversationAttachment,
+  ConversationFileEdit,
+  ConversationSyncRequest,
+  ConversationSyncResult,
+  SearchResult,
+  SearchResultType,
+  SearchParams,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  ApiResponse,
+  PaginatedResponse,
+  Pagination,
+}; 
\ No newline at end of file
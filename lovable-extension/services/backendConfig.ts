@@ -0,0 +1,130 @@
+/**
+ * The backend the extension talks to. It is chosen on the options page and
+ * kept in chrome.storage, so the sidepanel, options page and background all
+ * see the same one. URLs are stored without the `/api` prefix, e.g.
+ * `https://assistant.example.com`.
+ */
+
+declare const chrome: any;
+
+export interface BackendPreset {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export const DEFAULT_BACKEND_URL = 'http://localhost:3001';
+
+// Staging, hosted and self-hosted servers are entered as a custom URL
+export const BACKEND_PRESETS: BackendPreset[] = [
+  { id: 'local', name: 'Local development (default)', url: DEFAULT_BACKEND_URL },
+];
+
+// Plain http is only allowed to this computer; the extension's CSP blocks it for other hosts
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1'];
+
+const STORAGE_KEY = 'backendUrl';
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// Accepts what users paste: trailing slashes and the /api prefix are dropped
+export const normalizeBackendUrl = (input: string): string => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error('Enter a full URL, e.g. https://assistant.example.com');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('The backend URL must start with http:// or https://');
+  }
+  if (url.protocol === 'http:' && !LOCAL_HOSTNAMES.includes(url.hostname)) {
+    throw new Error('Use https:// for servers other than this computer; http:// only works for localhost');
+  }
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, '').replace(/\/api$/, '');
+};
+
+// A stored URL this version no longer allows, e.g. plain http to a public host, falls back to the default
+const storedOrDefault = (url: string | undefined): string => {
+  if (!url) return DEFAULT_BACKEND_URL;
+  try {
+    return normalizeBackendUrl(url);
+  } catch {
+    return DEFAULT_BACKEND_URL;
+  }
+};
+
+let cachedUrl: Promise<string> | null = null;
+let watchingStorage = false;
+
+export const getBackendUrl = (): Promise<string> => {
+  // Pick up a backend chosen in another extension page
+  if (!watchingStorage) {
+    watchingStorage = true;
+    chrome.storage.onChanged.addListener((changes: Record<string, unknown>, areaName: string) => {
+      if (areaName === 'local' && STORAGE_KEY in changes) cachedUrl = null;
+    });
+  }
+
+  if (!cachedUrl) {
+    cachedUrl = chrome.storage.local.get(STORAGE_KEY)
+      .then((items: Record<string, string | undefined>) => storedOrDefault(items[STORAGE_KEY]))
+      .catch(() => DEFAULT_BACKEND_URL);
+  }
+  return cachedUrl!;
+};
+
+export const setBackendUrl = async (url: string): Promise<void> => {
+  const normalized = normalizeBackendUrl(url);
+  await chrome.storage.local.set({ [STORAGE_KEY]: normalized });
+  cachedUrl = Promise.resolve(normalized);
+};
+
+// Calls `handler` with the new URL whenever another page switches the backend
+export const onBackendUrlChanged = (handler: (url: string) => void): (() => void) => {
+  const listener = (changes: Record<string, { newValue?: string }>, areaName: string) => {
+    if (areaName === 'local' && STORAGE_KEY in changes) {
+      handler(storedOrDefault(changes[STORAGE_KEY].newValue));
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+// Checks that the URL answers like this API's health endpoint
+export const testBackendConnection = async (url: string): Promise<ConnectionTestResult> => {
+  let healthUrl: string;
+  try {
+    healthUrl = `${normalizeBackendUrl(url)}/health`;
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : 'Invalid URL' };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+  try {
+    const response = await fetch(healthUrl, { signal: controller.signal });
+    if (!response.ok) {
+      return { ok: false, message: `The server answered with status ${response.status}` };
+    }
+    const data = await response.json().catch(() => null);
+    if (data?.status !== 'OK') {
+      return { ok: false, message: 'The server answered, but it does not look like the Lovable Assistant API' };
+    }
+    return { ok: true, message: `Connected${data.environment ? ` (${data.environment})` : ''}` };
+  } catch (error) {
+    return {
+      ok: false,
+      message: controller.signal.aborted
+        ? `No answer within ${HEALTH_CHECK_TIMEOUT_MS / 1000} seconds`
+        : 'Could not reach the server. Check the URL and that the server is running',
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
@@ -0,0 +1,23 @@
+import { apiClient, ApiError, type ConversationSyncRequest } from './api';
+import { MessageError } from './messaging';
+
+/**
+ * Uploads the Lovable messages the content script scrapes. The content script
+ * has no session of its own, so it hands each batch to the background through
+ * a `syncConversation` message and sends it again on the next check until it
+ * succeeds, e.g. after the user signs in.
+ */
+
+// `syncConversation` handler; batches the server refuses fail with REJECTED, since sending them again cannot succeed
+export const syncConversation = async (request: ConversationSyncRequest): Promise<void> => {
+  const { lovableProjectId, url, title, projectName, messages } = request;
+  try {
+    await apiClient.syncConversation({ lovableProjectId, url, title, projectName, messages });
+  } catch (error) {
+    // e.g. invalid messages, or a workspace viewer
+    if (error instanceof ApiError && (error.status === 400 || error.status === 403)) {
+      throw new MessageError(error.message, 'REJECTED');
+    }
+    throw error;
+  }
+};
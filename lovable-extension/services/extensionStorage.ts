@@ -0,0 +1,141 @@
+import type { StateStorage } from 'zustand/middleware';
+
+/**
+ * chrome.storage.local shared by the sidepanel, options page, popup and
+ * background. Values are mirrored in memory, so the session and selected
+ * workspace can be read synchronously once `loadExtensionStorage()` has
+ * resolved, and writes made in one context reach the others through
+ * `onStoredValueChanged`. Values are strings, like localStorage.
+ */
+
+declare const chrome: any;
+
+type ChangeHandler = (value: string | null) => void;
+
+// Kept in the sidepanel's localStorage before the move to chrome.storage
+const LEGACY_LOCAL_STORAGE_KEYS = [
+  'lovable_extension_token',
+  'lovable_extension_refresh_token',
+  'lovable_extension_workspace',
+  'feature-storage',
+  'testcase-storage',
+  'document-storage',
+];
+
+const values = new Map<string, string>();
+const handlers = new Map<string, Set<ChangeHandler>>();
+let loading: Promise<void> | null = null;
+
+const remember = (key: string, value: unknown) => {
+  if (typeof value === 'string') {
+    values.set(key, value);
+  } else {
+    values.delete(key);
+  }
+};
+
+// Copies what an earlier version left in localStorage; only extension pages share that localStorage
+const migrateLocalStorage = async () => {
+  if (typeof localStorage === 'undefined' || location.protocol !== 'chrome-extension:') return;
+
+  const items: Record<string, string> = {};
+  for (const key of LEGACY_LOCAL_STORAGE_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null && !values.has(key)) items[key] = value;
+  }
+  if (Object.keys(items).length > 0) {
+    await chrome.storage.local.set(items);
+    Object.entries(items).forEach(([key, value]) => values.set(key, value));
+  }
+  LEGACY_LOCAL_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+};
+
+export const loadExtensionStorage = (): Promise<void> => {
+  if (!loading) {
+    chrome.storage.onChanged.addListener((changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+      if (areaName !== 'local') return;
+      for (const [key, { newValue }] of Object.entries(changes)) {
+        const value = typeof newValue === 'string' ? newValue : null;
+        // Writes from this context are already applied
+        if (value === (values.get(key) ?? null)) continue;
+        remember(key, value);
+        handlers.get(key)?.forEach((handler) => handler(value));
+      }
+    });
+
+    loading = chrome.storage.local.get(null)
+      .then((items: Record<string, unknown>) => {
+        Object.entries(items).forEach(([key, value]) => remember(key, value));
+      })
+      .then(migrateLocalStorage)
+      .catch((error: unknown) => console.error('Failed to load extension storage:', error));
+  }
+  return loading!;
+};
+
+export const getStoredValue = (key: string): string | null => values.get(key) ?? null;
+
+// null removes the key
+export const setStoredValue = (key: string, value: string | null): Promise<void> => {
+  remember(key, value);
+  return value === null ? chrome.storage.local.remove(key) : chrome.storage.local.set({ [key]: value });
+};
+
+// Re-reads keys another context may have written moments ago, before its change event arrives
+export const reloadStoredValues = async (keys: string[]): Promise<void> => {
+  const items: Record<string, unknown> = await chrome.storage.local.get(keys);
+  keys.forEach((key) => remember(key, items[key]));
+};
+
+// Calls `handler` when another context changes the key; returns a function that stops listening
+export const onStoredValueChanged = (key: string, handler: ChangeHandler): (() => void) => {
+  if (!handlers.has(key)) handlers.set(key, new Set());
+  handlers.get(key)!.add(handler);
+  return () => {
+    handlers.get(key)?.delete(handler);
+  };
+};
+
+// Stores read by zustand's persist middleware; writes are dropped until the store has loaded, so an
+// early update cannot replace the saved state with the empty initial one
+const readStores = new Set<string>();
+
+export const extensionStateStorage: StateStorage = {
+  getItem: async (name) => {
+    await loadExtensionStorage();
+    readStores.add(name);
+    return getStoredValue(name);
+  },
+  setItem: async (name, value) => {
+    if (readStores.has(name)) await setStoredValue(name, value);
+  },
+  removeItem: async (name) => {
+    if (readStores.has(name)) await setStoredValue(name, null);
+  },
+};
+
+interface PersistedStore {
+  persist: {
+    getOptions: () => { name?: string };
+    rehydrate: () => Promise<void> | void;
+    hasHydrated: () => boolean;
+    onFinishHydration: (listener: () => void) => () => void;
+  };
+}
+
+// Reloads a persisted store when another context saves it
+export const syncPersistedStore = (store: PersistedStore): void => {
+  const { name } = store.persist.getOptions();
+  if (name) onStoredValueChanged(name, () => store.persist.rehydrate());
+};
+
+// Resolves once the store holds its saved state
+export const waitForHydration = (store: PersistedStore): Promise<void> => {
+  if (store.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+};
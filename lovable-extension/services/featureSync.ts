@@ -0,0 +1,207 @@
+import { apiClient, ApiError, type Task } from './api';
+import type { Feature, Note, Priority, Status } from '../stores/featureStore';
+
+/**
+ * Two-way sync between the local Feature list and the backend Task API.
+ *
+ * Local edits are recorded as queued operations and replayed against /api/tasks
+ * when the backend is reachable. Conflicts between a local and a remote copy of
+ * the same feature are resolved by `updatedAt` (last write wins).
+ */
+
+export interface SyncOperation {
+  type: 'upsert' | 'delete';
+  featureId: string;
+  remoteId?: string;
+  queuedAt: string;
+}
+
+export interface SyncResult {
+  features: Feature[];
+  queue: SyncOperation[];
+  syncedAt: string;
+}
+
+const STATUS_TO_TASK: Record<Status, Task['status']> = {
+  'pending': 'todo',
+  'in-progress': 'in_progress',
+  'done': 'completed',
+};
+
+const TASK_TO_STATUS: Record<Task['status'], Status> = {
+  todo: 'pending',
+  in_progress: 'in-progress',
+  completed: 'done',
+  cancelled: 'done', // The sidepanel has no cancelled state; treat it as closed
+};
+
+const TASK_PAGE_SIZE = 100;
+
+const toTime = (value: Date | string | undefined): number => (value ? new Date(value).getTime() : 0);
+
+export const featureToTask = (feature: Feature): Omit<Task, '_id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt'> => ({
+  title: feature.title.substring(0, 200),
+  description: feature.description ? feature.description.substring(0, 1000) : undefined,
+  status: STATUS_TO_TASK[feature.status],
+  priority: feature.priority,
+  tags: [],
+  notes: feature.notes.map((note) => ({
+    clientId: note.id,
+    content: note.content.substring(0, 1000),
+    createdAt: new Date(note.createdAt).toISOString(),
+  })),
+  clientId: feature.id,
+  projectId: feature.projectId,
+});
+
+export const taskToFeature = (task: Task, existing?: Feature): Feature => {
+  const notes: Note[] = (task.notes || []).map((note, index) => ({
+    id: note.clientId || `${task._id}-note-${index}`,
+    content: note.content,
+    createdAt: new Date(note.createdAt),
+  }));
+
+  return {
+    id: existing?.id || task.clientId || task._id,
+    remoteId: task._id,
+    title: task.title,
+    description: task.description || '',
+    status: TASK_TO_STATUS[task.status] || 'pending',
+    priority: task.priority as Priority,
+    notes,
+    projectId: task.projectId || undefined,
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+  };
+};
+
+/**
+ * Adds an operation to the queue, collapsing it with anything already pending
+ * for the same feature.
+ */
+export const enqueueOperation = (queue: SyncOperation[], operation: SyncOperation): SyncOperation[] => {
+  const pending = queue.filter((op) => op.featureId !== operation.featureId);
+
+  // A feature that never reached the server can simply be forgotten
+  if (operation.type === 'delete' && !operation.remoteId) {
+    return pending;
+  }
+
+  return [...pending, operation];
+};
+
+const fetchAllTasks = async (): Promise<Task[]> => {
+  const tasks: Task[] = [];
+  let page = 1;
+  let pages = 1;
+
+  do {
+    const response = await apiClient.getTasks({ page, limit: TASK_PAGE_SIZE });
+    tasks.push(...(response.data || []));
+    pages = response.pagination?.pages || 1;
+    page++;
+  } while (page <= pages);
+
+  return tasks;
+};
+
+/**
+ * Replays the queue against the server and merges remote changes into the
+ * local list. Throws if the server cannot be reached; in that case nothing is
+ * dropped from the queue. Operations the server rejects are dropped so a bad
+ * record cannot block the rest of the queue.
+ */
+export const syncFeaturesWithServer = async (
+  features: Feature[],
+  queue: SyncOperation[]
+): Promise<SyncResult> => {
+  const remoteTasks = await fetchAllTasks();
+  const remoteById = new Map(remoteTasks.map((task) => [task._id, task]));
+  const localById = new Map(features.map((feature) => [feature.id, feature]));
+
+  let remaining = [...queue];
+
+  for (const operation of queue) {
+    try {
+      if (operation.type === 'delete') {
+        if (operation.remoteId) {
+          try {
+            await apiClient.deleteTask(operation.remoteId);
+          } catch (error) {
+            if (!(error instanceof ApiError && error.status === 404)) throw error;
+          }
+          remoteById.delete(operation.remoteId);
+        }
+      } else {
+        const feature = localById.get(operation.featureId);
+        if (feature) {
+          const remote = feature.remoteId ? remoteById.get(feature.remoteId) : undefined;
+
+          if (remote && toTime(remote.updatedAt) > toTime(feature.updatedAt)) {
+            // Someone else changed this task after our offline edit; their version wins
+            localById.set(feature.id, taskToFeature(remote, feature));
+          } else {
+            // Creating with our clientId is idempotent, so it also covers tasks deleted remotely
+            const response = remote
+              ? await apiClient.updateTask(remote._id, featureToTask(feature))
+              : await apiClient.createTask(featureToTask(feature));
+
+            if (response.data) {
+              remoteById.set(response.data._id, response.data);
+              localById.set(feature.id, taskToFeature(response.data, feature));
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        // Network failure: keep this and all later operations for the next attempt
+        break;
+      }
+      console.error(`Sync operation for feature ${operation.featureId} rejected by server:`, error);
+    }
+    remaining = remaining.filter((op) => op !== operation);
+  }
+
+  // Merge remote state for everything that is not waiting to be pushed
+  const pendingIds = new Set(remaining.map((op) => op.featureId));
+  const pendingRemoteIds = new Set(remaining.map((op) => op.remoteId).filter(Boolean));
+  const knownRemoteIds = new Set<string>();
+  const merged: Feature[] = [];
+
+  for (const feature of localById.values()) {
+    if (feature.remoteId) knownRemoteIds.add(feature.remoteId);
+
+    if (pendingIds.has(feature.id)) {
+      merged.push(feature);
+      continue;
+    }
+
+    if (!feature.remoteId) {
+      // The server rejected it; keep the local copy until the user edits it again
+      merged.push(feature);
+      continue;
+    }
+
+    const remote = remoteById.get(feature.remoteId);
+    if (!remote) {
+      // Deleted on another machine
+      continue;
+    }
+
+    merged.push(toTime(remote.updatedAt) > toTime(feature.updatedAt) ? taskToFeature(remote, feature) : feature);
+  }
+
+  for (const task of remoteById.values()) {
+    const isLocal = knownRemoteIds.has(task._id) || (task.clientId && localById.has(task.clientId));
+    if (!isLocal && !pendingRemoteIds.has(task._id)) {
+      merged.push(taskToFeature(task));
+    }
+  }
+
+  return {
+    features: merged,
+    queue: remaining,
+    syncedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMessageListener,
+  dispatchMessage,
+  ensureContentScript,
+  MessageError,
+  PROTOCOL_VERSION,
+  sendRuntimeMessage,
+  sendTabMessage,
+  type MessageHandlers,
+} from './messaging';
+
+const envelope = (action: string, payload?: unknown, version = PROTOCOL_VERSION) =>
+  ({ protocol: 'lovable-assistant', version, action, payload });
+
+const sender = { id: 'extension-id', url: 'https://lovable.dev/projects/1' };
+
+const handlers: MessageHandlers = {
+  ping: () => ({ url: 'https://lovable.dev', timestamp: 1 }),
+  getBodyHTML: () => {
+    throw new MessageError('Not a Lovable page', 'REJECTED');
+  },
+  startScraping: async () => {
+    throw new Error('Chat panel not found');
+  },
+};
+
+describe('dispatchMessage', () => {
+  it('leaves messages it has no handler for to other listeners', async () => {
+    for (const message of [undefined, null, 'ping', { action: 'ping' }, { protocol: 'other', version: 1, action: 'ping' }]) {
+      expect(await dispatchMessage(message, sender, handlers)).toBeUndefined();
+    }
+    expect(await dispatchMessage(envelope('syncConversation'), sender, handlers)).toBeUndefined();
+    expect(await dispatchMessage(envelope('toString'), sender, handlers)).toBeUndefined();
+  });
+
+  it('answers with the handler result', async () => {
+    expect(await dispatchMessage(envelope('ping'), sender, handlers))
+      .toEqual({ ok: true, data: { url: 'https://lovable.dev', timestamp: 1 } });
+  });
+
+  it('refuses messages from another protocol version', async () => {
+    const ping = vi.fn();
+    const response = await dispatchMessage(envelope('ping', undefined, PROTOCOL_VERSION + 1), sender, { ping });
+
+    expect(response).toMatchObject({ ok: false, error: { code: 'VERSION_MISMATCH' } });
+    expect(ping).not.toHaveBeenCalled();
+  });
+
+  it('answers with the code of a MessageError and HANDLER_FAILED for other errors', async () => {
+    expect(await dispatchMessage(envelope('getBodyHTML'), sender, handlers))
+      .toEqual({ ok: false, error: { code: 'REJECTED', message: 'Not a Lovable page' } });
+    expect(await dispatchMessage(envelope('startScraping'), sender, handlers))
+      .toEqual({ ok: false, error: { code: 'HANDLER_FAILED', message: 'Chat panel not found' } });
+  });
+});
+
+describe('createMessageListener', () => {
+  it('keeps the channel open only for messages it answers', async () => {
+    const listener = createMessageListener(handlers);
+    const sendResponse = vi.fn();
+
+    expect(listener({ greeting: 'hello' }, sender, sendResponse)).toBe(false);
+    expect(listener(envelope('syncConversation'), sender, sendResponse)).toBe(false);
+    expect(listener(envelope('ping'), sender, sendResponse)).toBe(true);
+
+    await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledTimes(1));
+    expect(sendResponse).toHaveBeenCalledWith({ ok: true, data: { url: 'https://lovable.dev', timestamp: 1 } });
+  });
+});
+
+describe('sending', () => {
+  const chrome = {
+    runtime: {
+      lastError: undefined as { message: string } | undefined,
+      sendMessage: vi.fn(),
+    },
+    tabs: { sendMessage: vi.fn() },
+    scripting: { executeScript: vi.fn() },
+  };
+
+  // Delivers runtime messages to `listener` the way Chrome does
+  const deliverTo = (listener: ReturnType<typeof createMessageListener>) =>
+    chrome.runtime.sendMessage.mockImplementation((message: unknown, callback: (response: unknown) => void) => {
+      if (!listener(message, sender, callback)) callback(undefined);
+    });
+
+  beforeEach(() => {
+    vi.stubGlobal('chrome', chrome);
+    chrome.runtime.lastError = undefined;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  it('resolves with the data the receiver answers with', async () => {
+    deliverTo(createMessageListener(handlers));
+    await expect(sendRuntimeMessage('ping', undefined)).resolves.toEqual({ url: 'https://lovable.dev', timestamp: 1 });
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(envelope('ping'), expect.any(Function));
+  });
+
+  it('rejects with the error code the receiver answers with', async () => {
+    deliverTo(createMessageListener(handlers));
+    await expect(sendRuntimeMessage('getBodyHTML', undefined)).rejects.toMatchObject({
+      name: 'MessageError',
+      code: 'REJECTED',
+      message: 'Not a Lovable page',
+    });
+  });
+
+  it('rejects with NO_RECEIVER when nothing is listening', async () => {
+    chrome.tabs.sendMessage.mockImplementation((_tabId: number, _message: unknown, callback: (response: unknown) => void) => {
+      chrome.runtime.lastError = { message: 'Could not establish connection. Receiving end does not exist.' };
+      callback(undefined);
+    });
+    await expect(sendTabMessage(7, 'ping', undefined)).rejects.toMatchObject({
+      code: 'NO_RECEIVER',
+      message: 'Could not establish connection. Receiving end does not exist.',
+    });
+
+    chrome.runtime.lastError = undefined;
+    deliverTo(createMessageListener({}));
+    await expect(sendRuntimeMessage('ping', undefined)).rejects.toMatchObject({ code: 'NO_RECEIVER', message: 'Nothing answered ping' });
+  });
+
+  it('rejects with TIMEOUT when the receiver does not answer in time', async () => {
+    vi.useFakeTimers();
+    chrome.runtime.sendMessage.mockImplementation(() => undefined);
+
+    const result = sendRuntimeMessage('startScraping', undefined, { timeoutMs: 3000 });
+    const rejected = expect(result).rejects.toMatchObject({ code: 'TIMEOUT', message: 'No answer to startScraping within 3 seconds' });
+    await vi.advanceTimersByTimeAsync(3000);
+    await rejected;
+  });
+
+  it('injects the content script into tabs that do not run it yet', async () => {
+    const listener = createMessageListener(handlers);
+    let injected = false;
+    chrome.tabs.sendMessage.mockImplementation((_tabId: number, message: unknown, callback: (response: unknown) => void) => {
+      if (injected) listener(message, sender, callback);
+      else callback(undefined);
+    });
+    chrome.scripting.executeScript.mockImplementation(async () => {
+      injected = true;
+    });
+
+    await ensureContentScript(7);
+    expect(chrome.scripting.executeScript).toHaveBeenCalledWith({ target: { tabId: 7 }, files: ['content-scripts/content.js'] });
+    expect(chrome.tabs.sendMessage).toHaveBeenCalledTimes(2);
+
+    chrome.scripting.executeScript.mockRejectedValue(new Error('Cannot access a chrome:// URL'));
+    injected = false;
+    await expect(ensureContentScript(7)).rejects.toMatchObject({
+      code: 'NO_RECEIVER',
+      message: 'This page cannot be read by the extension (Cannot access a chrome:// URL)',
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import type { ConversationData } from '../utils/conversationAdapters';
+import type { ConversationSyncRequest } from './api';
+
+/**
+ * Typed messages between the content script, the background and extension
+ * pages. Every request is an envelope naming the action and protocol version,
+ * and every answer is either `{ ok: true, data }` or `{ ok: false, error }`,
+ * so callers get a `MessageError` with a code instead of an undefined response.
+ */
+
+declare const chrome: any;
+
+// Raised when the receivers' protocol changes incompatibly
+export const PROTOCOL_VERSION = 1;
+
+const PROTOCOL = 'lovable-assistant';
+
+// Built by WXT from entrypoints/content.ts
+const CONTENT_SCRIPT_FILE = 'content-scripts/content.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const PING_TIMEOUT_MS = 1000;
+
+// Each action's payload and the data it answers with
+export interface MessageProtocol {
+  // Content script: confirms it is loaded
+  ping: { request: void; response: { url: string; timestamp: number } };
+  // Content script: reads the conversation on the page
+  startScraping: { request: void; response: ConversationData };
+  // Content script, or background on behalf of the active tab: the page's body HTML
+  getBodyHTML: { request: void; response: { html: string } };
+  // Background: logs a scraped conversation
+  scrapeResult: { request: Pick<ConversationData, 'userMessages' | 'aiMessages' | 'mergedMessages'>; response: { received: true } };
+  // Background: uploads scraped Lovable messages with the shared session
+  syncConversation: { request: ConversationSyncRequest; response: void };
+}
+
+export type MessageAction = keyof MessageProtocol;
+export type MessagePayload<A extends MessageAction> = MessageProtocol[A]['request'];
+export type MessageResult<A extends MessageAction> = MessageProtocol[A]['response'];
+
+export type MessageErrorCode =
+  | 'NO_RECEIVER'       // Nothing listening, e.g. no content script on the page
+  | 'TIMEOUT'           // The receiver did not answer in time
+  | 'VERSION_MISMATCH'  // Sender and receiver come from different builds
+  | 'REJECTED'          // The receiver refused the request; sending it again will not help
+  | 'HANDLER_FAILED';   // The receiver failed while handling the request
+
+export interface MessageEnvelope<A extends MessageAction = MessageAction> {
+  protocol: typeof PROTOCOL;
+  version: number;
+  action: A;
+  payload: MessagePayload<A>;
+}
+
+export type MessageResponse<T = unknown> =
+  | { ok: true; data: T }
+  | { ok: false; error: { code: MessageErrorCode; message: string } };
+
+export interface MessageSender {
+  id?: string;
+  url?: string;
+  tab?: { id?: number; url?: string };
+}
+
+// Error raised by senders, and thrown by handlers to answer with a specific code
+export class MessageError extends Error {
+  code: MessageErrorCode;
+
+  constructor(message: string, code: MessageErrorCode) {
+    super(message);
+    this.name = 'MessageError';
+    this.code = code;
+  }
+}
+
+export type MessageHandlers = {
+  [A in MessageAction]?: (payload: MessagePayload<A>, sender: MessageSender) => MessageResult<A> | Promise<MessageResult<A>>;
+};
+
+const isEnvelope = (message: unknown): message is MessageEnvelope =>
+  typeof message === 'object' && message !== null
+  && (message as MessageEnvelope).protocol === PROTOCOL
+  && typeof (message as MessageEnvelope).action === 'string';
+
+const handlerFor = (handlers: MessageHandlers, action: string) =>
+  Object.prototype.hasOwnProperty.call(handlers, action)
+    ? handlers[action as MessageAction] as ((payload: unknown, sender: MessageSender) => unknown) | undefined
+    : undefined;
+
+/**
+ * Runs the handler for a message and wraps its result or error in a response.
+ * Resolves to undefined for messages this receiver has no handler for, so
+ * another listener can answer them.
+ */
+export const dispatchMessage = async (
+  message: unknown,
+  sender: MessageSender,
+  handlers: MessageHandlers
+): Promise<MessageResponse | undefined> => {
+  if (!isEnvelope(message)) return undefined;
+  const handler = handlerFor(handlers, message.action);
+  if (!handler) return undefined;
+
+  if (message.version !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      error: {
+        code: 'VERSION_MISMATCH',
+        message: `Expected protocol version ${PROTOCOL_VERSION}, got ${message.version}. Reload the page after updating the extension.`,
+      },
+    };
+  }
+
+  try {
+    return { ok: true, data: await handler(message.payload, sender) };
+  } catch (error) {
+    return {
+      ok: false,
+      error: {
+        code: error instanceof MessageError ? error.code : 'HANDLER_FAILED',
+        message: error instanceof Error ? error.message : `Failed to handle ${message.action}`,
+      },
+    };
+  }
+};
+
+// chrome.runtime.onMessage listener for `handlers`; only keeps the channel open for messages it answers
+export const createMessageListener = (handlers: MessageHandlers) =>
+  (message: unknown, sender: MessageSender, sendResponse: (response: MessageResponse) => void): boolean => {
+    if (!isEnvelope(message) || !handlerFor(handlers, message.action)) return false;
+    dispatchMessage(message, sender, handlers).then((response) => sendResponse(response!));
+    return true;
+  };
+
+export interface SendOptions {
+  timeoutMs?: number;
+}
+
+const send = <A extends MessageAction>(
+  deliver: (envelope: MessageEnvelope<A>, callback: (response: unknown) => void) => void,
+  action: A,
+  payload: MessagePayload<A>,
+  { timeoutMs = DEFAULT_TIMEOUT_MS }: SendOptions
+): Promise<MessageResult<A>> =>
+  new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new MessageError(`No answer to ${action} within ${timeoutMs / 1000} seconds`, 'TIMEOUT'));
+    }, timeoutMs);
+
+    deliver({ protocol: PROTOCOL, version: PROTOCOL_VERSION, action, payload }, (response) => {
+      clearTimeout(timeout);
+      const lastError = chrome.runtime.lastError;
+      if (lastError || response === undefined) {
+        reject(new MessageError(lastError?.message || `Nothing answered ${action}`, 'NO_RECEIVER'));
+        return;
+      }
+      const result = response as MessageResponse<MessageResult<A>>;
+      if (result.ok) {
+        resolve(result.data);
+      } else {
+        reject(new MessageError(result.error.message, result.error.code));
+      }
+    });
+  });
+
+// Sends to the background and extension pages
+export const sendRuntimeMessage = <A extends MessageAction>(
+  action: A,
+  payload: MessagePayload<A>,
+  options: SendOptions = {}
+): Promise<MessageResult<A>> =>
+  send((envelope, callback) => chrome.runtime.sendMessage(envelope, callback), action, payload, options);
+
+// Sends to the content script in a tab
+export const sendTabMessage = <A extends MessageAction>(
+  tabId: number,
+  action: A,
+  payload: MessagePayload<A>,
+  options: SendOptions = {}
+): Promise<MessageResult<A>> =>
+  send((envelope, callback) => chrome.tabs.sendMessage(tabId, envelope, callback), action, payload, options);
+
+/**
+ * Makes sure the tab runs the content script. Tabs opened before the extension
+ * was installed or updated have none, so it is injected when a ping goes
+ * unanswered.
+ */
+export const ensureContentScript = async (tabId: number): Promise<void> => {
+  try {
+    await sendTabMessage(tabId, 'ping', undefined, { timeoutMs: PING_TIMEOUT_MS });
+    return;
+  } catch {
+    // Not loaded yet
+  }
+
+  try {
+    await chrome.scripting.executeScript({ target: { tabId }, files: [CONTENT_SCRIPT_FILE] });
+  } catch (error) {
+    // Browser pages such as chrome:// and the Web Store do not allow scripts
+    throw new MessageError(
+      `This page cannot be read by the extension${error instanceof Error ? ` (${error.message})` : ''}`,
+      'NO_RECEIVER'
+    );
+  }
+  await sendTabMessage(tabId, 'ping', undefined, { timeoutMs: PING_TIMEOUT_MS });
+};
@@ -0,0 +1,294 @@
+import {
+  apiClient,
+  ApiError,
+  type ApiResponse,
+  type PaginatedResponse,
+  type TestCaseInput,
+  type TestCaseRecord,
+  type TestSessionInput,
+  type TestSessionRecord,
+} from './api';
+import type { TestCase, TestHistoryEntry, TestSession } from '../stores/testCaseStore';
+
+/**
+ * Sync between the local test case list and the backend /api/test-cases and
+ * /api/test-sessions endpoints.
+ *
+ * Local changes are flagged with `pendingSync` and pushed on the next run;
+ * deletions of records that already reached the server are kept as remote IDs.
+ * Everything that is not waiting to be pushed is then replaced by the server
+ * copy, so results recorded in another browser show up here.
+ */
+
+export interface TestCaseSyncState {
+  testCases: TestCase[];
+  sessions: TestSession[];
+  deletedRemoteIds: string[];
+}
+
+export interface TestCaseSyncResult extends TestCaseSyncState {
+  sentResultIds: string[];
+  syncedAt: string;
+}
+
+const PAGE_SIZE = 100;
+
+const toTime = (value: Date | string | undefined): number => (value ? new Date(value).getTime() : 0);
+
+const fetchAll = async <T>(fetchPage: (page: number) => Promise<PaginatedResponse<T>>): Promise<T[]> => {
+  const records: T[] = [];
+  let page = 1;
+  let pages = 1;
+
+  do {
+    const response = await fetchPage(page);
+    records.push(...(response.data || []));
+    pages = response.pagination?.pages || 1;
+    page++;
+  } while (page <= pages);
+
+  return records;
+};
+
+export const testCaseToRecord = (testCase: TestCase): TestCaseInput => ({
+  title: testCase.title.substring(0, 200),
+  description: testCase.description ? testCase.description.substring(0, 2000) : undefined,
+  steps: testCase.steps
+    .filter((step) => step.description.trim())
+    .map((step) => ({ clientId: step.id, description: step.description.substring(0, 1000) })),
+  expectedResult: testCase.expectedResult ? testCase.expectedResult.substring(0, 2000) : undefined,
+  priority: testCase.priority,
+  notes: testCase.notes,
+  tags: testCase.tags || [],
+  clientId: testCase.id,
+  projectId: testCase.projectId,
+});
+
+export const recordToTestCase = (
+  record: TestCaseRecord,
+  localSessionId: (remoteSessionId: string) => string,
+  existing?: TestCase
+): TestCase => ({
+  id: existing?.id || record.clientId || record._id,
+  remoteId: record._id,
+  title: record.title,
+  description: record.description || '',
+  steps: record.steps.map((step, index) => ({
+    id: step.clientId || `${record._id}-step-${index}`,
+    description: step.description,
+  })),
+  expectedResult: record.expectedResult || '',
+  priority: record.priority,
+  result: record.result,
+  executedAt: record.executedAt ? new Date(record.executedAt) : undefined,
+  notes: record.notes,
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt),
+  history: (record.history || []).map((entry, index) => ({
+    id: entry._id || `${record._id}-result-${index}`,
+    result: entry.result,
+    executedAt: new Date(entry.executedAt),
+    sessionId: entry.sessionId ? localSessionId(entry.sessionId) : null,
+  })),
+  tags: record.tags || [],
+  projectId: record.projectId || undefined,
+});
+
+export const sessionToRecord = (session: TestSession): TestSessionInput => ({
+  name: session.name,
+  status: session.status,
+  startedAt: session.startedAt,
+  finishedAt: session.finishedAt,
+  clientId: session.id,
+});
+
+export const recordToSession = (record: TestSessionRecord, existing?: TestSession): TestSession => ({
+  id: existing?.id || record.clientId || record._id,
+  remoteId: record._id,
+  name: record.name,
+  status: record.status,
+  startedAt: record.startedAt,
+  finishedAt: record.finishedAt,
+});
+
+const pendingResults = (testCase: TestCase): TestHistoryEntry[] =>
+  (testCase.history || []).filter((entry) => entry.pendingSync);
+
+const hasLocalChanges = (testCase: TestCase): boolean =>
+  !!testCase.pendingSync || pendingResults(testCase).length > 0;
+
+/**
+ * Pushes pending sessions, deletions, test cases and results (in that order,
+ * so results can reference the server IDs of their session and test case),
+ * then merges the server state. Throws if the server cannot be reached before
+ * anything was pushed. A network failure part way through keeps the remaining
+ * changes pending; changes the server rejects are not retried.
+ */
+export const syncTestCasesWithServer = async (state: TestCaseSyncState): Promise<TestCaseSyncResult> => {
+  const [remoteSessions, remoteTestCases] = await Promise.all([
+    fetchAll((page) => apiClient.getTestSessions({ page, limit: PAGE_SIZE })),
+    fetchAll((page) => apiClient.getTestCases({ page, limit: PAGE_SIZE })),
+  ]);
+  const remoteSessionsById = new Map(remoteSessions.map((session) => [session._id, session]));
+  const remoteTestCasesById = new Map(remoteTestCases.map((testCase) => [testCase._id, testCase]));
+  const sessions = new Map(state.sessions.map((session) => [session.id, session]));
+  const testCases = new Map(state.testCases.map((testCase) => [testCase.id, testCase]));
+  const sentResultIds: string[] = [];
+  let deletedRemoteIds = [...state.deletedRemoteIds];
+  let reachable = true;
+
+  // `done` is true once the change no longer needs to be sent, including when the server rejected it
+  const push = async <T>(label: string, call: () => Promise<ApiResponse<T>>): Promise<{ done: boolean; data?: T }> => {
+    if (!reachable) return { done: false };
+    try {
+      const response = await call();
+      return { done: true, data: response.data };
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        // Network failure: leave this and everything after it for the next attempt
+        reachable = false;
+        return { done: false };
+      }
+      console.error(`${label} rejected by server:`, error);
+      return { done: true };
+    }
+  };
+
+  for (const session of state.sessions) {
+    if (!session.pendingSync) continue;
+
+    // Creating with our clientId is idempotent, so it also covers sessions deleted remotely
+    const remote = session.remoteId ? remoteSessionsById.get(session.remoteId) : undefined;
+    const { done, data } = await push(
+      `Sync of test session ${session.id}`,
+      () => remote
+        ? apiClient.updateTestSession(remote._id, sessionToRecord(session))
+        : apiClient.createTestSession(sessionToRecord(session))
+    );
+
+    if (data) remoteSessionsById.set(data._id, data);
+    if (done) sessions.set(session.id, { ...(data ? recordToSession(data, session) : session), pendingSync: false });
+  }
+
+  for (const remoteId of state.deletedRemoteIds) {
+    const { done } = await push(`Deletion of test case ${remoteId}`, () => apiClient.deleteTestCase(remoteId));
+
+    if (done) {
+      deletedRemoteIds = deletedRemoteIds.filter((id) => id !== remoteId);
+      remoteTestCasesById.delete(remoteId);
+    }
+  }
+
+  const remoteSessionId = (localId?: string | null) => (localId ? sessions.get(localId)?.remoteId : undefined);
+
+  for (const original of state.testCases) {
+    let testCase = original;
+
+    if (testCase.pendingSync) {
+      const remote = testCase.remoteId ? remoteTestCasesById.get(testCase.remoteId) : undefined;
+
+      if (remote && toTime(remote.updatedAt) > toTime(testCase.updatedAt)) {
+        // Edited elsewhere after our offline edit; their fields win, our unsent results are still sent
+        testCase = { ...testCase, pendingSync: false };
+      } else {
+        const pushed = testCase;
+        const { done, data } = await push(
+          `Sync of test case ${pushed.id}`,
+          () => remote
+            ? apiClient.updateTestCase(remote._id, testCaseToRecord(pushed))
+            : apiClient.createTestCase(testCaseToRecord(pushed))
+        );
+
+        if (data) remoteTestCasesById.set(data._id, data);
+        if (done) testCase = { ...testCase, remoteId: data?._id || testCase.remoteId, pendingSync: false };
+      }
+    }
+
+    const remoteId = testCase.remoteId;
+    if (remoteId && !testCase.pendingSync) {
+      for (const entry of pendingResults(testCase)) {
+        const { done, data } = await push(
+          `Result for test case ${testCase.id}`,
+          () => apiClient.recordTestResult(remoteId, {
+            result: entry.result,
+            sessionId: remoteSessionId(entry.sessionId),
+            executedAt: new Date(entry.executedAt).toISOString(),
+          })
+        );
+
+        if (data) remoteTestCasesById.set(data._id, data);
+        if (!done) break;
+
+        sentResultIds.push(entry.id);
+        testCase = {
+          ...testCase,
+          history: (testCase.history || []).map((e) => (e.id === entry.id ? { ...e, pendingSync: false } : e)),
+        };
+      }
+    }
+
+    testCases.set(testCase.id, testCase);
+  }
+
+  // Merge remote state for everything that is not waiting to be pushed
+  const mergedSessions: TestSession[] = [];
+  const knownSessionIds = new Set<string>();
+
+  for (const session of sessions.values()) {
+    if (session.remoteId) knownSessionIds.add(session.remoteId);
+
+    if (session.pendingSync || !session.remoteId) {
+      mergedSessions.push(session);
+      continue;
+    }
+
+    const remote = remoteSessionsById.get(session.remoteId);
+    if (remote) {
+      mergedSessions.push(recordToSession(remote, session));
+    }
+  }
+
+  for (const remote of remoteSessionsById.values()) {
+    if (!knownSessionIds.has(remote._id) && !(remote.clientId && sessions.has(remote.clientId))) {
+      mergedSessions.push(recordToSession(remote));
+    }
+  }
+
+  const sessionIdsByRemoteId = new Map(
+    mergedSessions.filter((session) => session.remoteId).map((session) => [session.remoteId!, session.id])
+  );
+  const localSessionId = (remoteId: string) => sessionIdsByRemoteId.get(remoteId) || remoteId;
+
+  const mergedTestCases: TestCase[] = [];
+  const knownTestCaseIds = new Set<string>(deletedRemoteIds);
+
+  for (const testCase of testCases.values()) {
+    if (testCase.remoteId) knownTestCaseIds.add(testCase.remoteId);
+
+    if (hasLocalChanges(testCase) || !testCase.remoteId) {
+      // Waiting to be pushed, or rejected by the server; keep the local copy
+      mergedTestCases.push(testCase);
+      continue;
+    }
+
+    const remote = remoteTestCasesById.get(testCase.remoteId);
+    if (remote) {
+      mergedTestCases.push(recordToTestCase(remote, localSessionId, testCase));
+    }
+    // Otherwise it was deleted on another machine
+  }
+
+  for (const remote of remoteTestCasesById.values()) {
+    if (!knownTestCaseIds.has(remote._id) && !(remote.clientId && testCases.has(remote.clientId))) {
+      mergedTestCases.push(recordToTestCase(remote, localSessionId));
+    }
+  }
+
+  return {
+    testCases: mergedTestCases,
+    sessions: mergedSessions,
+    deletedRemoteIds,
+    sentResultIds,
+    syncedAt: new Date().toISOString(),
+  };
+};
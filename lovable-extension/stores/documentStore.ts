@@ -1,12 +1,21 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { apiClient, ApiError } from '../services/api';
+import type { ConversationFileEdit } from '../services/api';
+import { extensionStateStorage, syncPersistedStore } from '../services/extensionStorage';
 
 export type DocumentType = 'requirements' | 'specs' | 'guides' | 'api' | 'faq';
 
 export interface ConversationData {
   userMessages: Array<{ sender: 'user'; text: string; timestamp?: string }>;
-  aiMessages: Array<{ sender: 'ai'; text: string; timestamp?: string }>;
-  mergedMessages: Array<{ sender: 'user' | 'ai'; text: string; timestamp?: string }>;
+  aiMessages: Array<{ sender: 'ai'; text: string; timestamp?: string; fileEdits?: ConversationFileEdit[]; actions?: string[] }>;
+  mergedMessages: Array<{
+    sender: 'user' | 'ai';
+    text: string;
+    timestamp?: string;
+    fileEdits?: ConversationFileEdit[];
+    actions?: string[];
+  }>;
   url?: string;
   title?: string;
 }
@@ -19,15 +28,17 @@ export interface GeneratedDocument {
   createdAt: Date;
   url?: string;
   conversationData?: ConversationData;
-  htmlContent?: string;
+  htmlContent?: string; // Only on documents saved by older versions
   projectContext?: string;
   documentId?: string; // Backend document ID for DOCX generation
+  workspaceId?: string; // Team workspace the backend document belongs to; unset for the personal workspace
+  projectId?: string;
 }
 
 interface DocumentStore {
   documents: GeneratedDocument[];
   addDocument: (document: Omit<GeneratedDocument, 'id'>) => void;
-  deleteDocument: (id: string) => void;
+  deleteDocument: (id: string) => Promise<void>;
   updateDocument: (id: string, updates: Partial<GeneratedDocument>) => void;
 }
 
@@ -46,7 +57,21 @@ export const useDocumentStore = create<DocumentStore>()(
         }));
       },
       
-      deleteDocument: (id) => {
+      // Deletes the server copy first, so a failed request leaves the document in place
+      deleteDocument: async (id) => {
+        const document = get().documents.find((doc) => doc.id === id);
+
+        if (document?.documentId) {
+          try {
+            await apiClient.deleteDocument(document.documentId);
+          } catch (error) {
+            // Already deleted on the server
+            if (!(error instanceof ApiError && error.status === 404)) {
+              throw error;
+            }
+          }
+        }
+
         set((state) => ({
           documents: state.documents.filter((doc) => doc.id !== id),
         }));
@@ -62,6 +87,10 @@ export const useDocumentStore = create<DocumentStore>()(
     }),
     {
       name: 'document-storage',
+      storage: createJSONStorage(() => extensionStateStorage),
     }
   )
-); 
\ No newline at end of file
+);
+
+// Documents generated in another extension page show up here too
+syncPersistedStore(useDocumentStore);
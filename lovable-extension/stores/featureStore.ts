@@ -1,6 +1,8 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
+import { enqueueOperation, syncFeaturesWithServer, type SyncOperation } from '../services/featureSync';
+import { extensionStateStorage, syncPersistedStore } from '../services/extensionStorage';
 
 export type Priority = 'low' | 'medium' | 'high' | 'urgent';
 export type Status = 'pending' | 'in-progress' | 'done';
@@ -13,105 +15,200 @@ export interface Note {
 
 export interface Feature {
   id: string;
+  remoteId?: string; // Backend Task ID once the feature has been synced
   title: string;
   description: string;
   status: Status;
   priority: Priority;
   notes: Note[];
+  projectId?: string; // Backend Project ID
   createdAt: Date;
   updatedAt: Date;
 }
 
 interface FeatureStore {
   features: Feature[];
+  syncQueue: SyncOperation[];
+  lastSyncedAt?: string;
+  isSyncing: boolean;
+  syncError: string | null;
   addFeature: (feature: Omit<Feature, 'id' | 'createdAt' | 'updatedAt' | 'status'>) => void;
   updateFeature: (id: string, updates: Partial<Feature>) => void;
   deleteFeature: (id: string) => void;
   updateFeatureStatus: (id: string, status: Status) => void;
   addNoteToFeature: (featureId: string, content: string) => void;
   removeNoteFromFeature: (featureId: string, noteId: string) => void;
+  syncFeatures: () => Promise<void>;
 }
 
 export const useFeatureStore = create<FeatureStore>()(
   persist(
-    (set, get) => ({
-      features: [],
-      
-      addFeature: (feature) => {
-        const newFeature: Feature = {
-          ...feature,
-          id: uuidv4(),
-          status: 'pending',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
+    (set, get) => {
+      // Record a change for the server and try to push it right away
+      const queueChange = (type: SyncOperation['type'], featureId: string, remoteId?: string) => {
         set((state) => ({
-          features: [...state.features, newFeature],
+          syncQueue: enqueueOperation(state.syncQueue, {
+            type,
+            featureId,
+            remoteId,
+            queuedAt: new Date().toISOString(),
+          }),
         }));
-      },
-      
-      updateFeature: (id, updates) => {
-        set((state) => ({
-          features: state.features.map((feature) =>
-            feature.id === id
-              ? { ...feature, ...updates, updatedAt: new Date() }
-              : feature
-          ),
-        }));
-      },
-      
-      deleteFeature: (id) => {
-        set((state) => ({
-          features: state.features.filter((feature) => feature.id !== id),
-        }));
-      },
-      
-      updateFeatureStatus: (id, status) => {
-        set((state) => ({
-          features: state.features.map((feature) =>
-            feature.id === id
-              ? { ...feature, status, updatedAt: new Date() }
-              : feature
-          ),
-        }));
-      },
-      
-      addNoteToFeature: (featureId, content) => {
-        const newNote: Note = {
-          id: uuidv4(),
-          content,
-          createdAt: new Date(),
-        };
-        
-        set((state) => ({
-          features: state.features.map((feature) =>
-            feature.id === featureId
-              ? {
-                  ...feature,
-                  notes: [...feature.notes, newNote],
-                  updatedAt: new Date(),
-                }
-              : feature
-          ),
-        }));
-      },
-      
-      removeNoteFromFeature: (featureId, noteId) => {
-        set((state) => ({
-          features: state.features.map((feature) =>
-            feature.id === featureId
-              ? {
-                  ...feature,
-                  notes: feature.notes.filter((note) => note.id !== noteId),
-                  updatedAt: new Date(),
-                }
-              : feature
-          ),
-        }));
-      },
-    }),
+        get().syncFeatures();
+      };
+
+      return {
+        features: [],
+        syncQueue: [],
+        lastSyncedAt: undefined,
+        isSyncing: false,
+        syncError: null,
+
+        addFeature: (feature) => {
+          const newFeature: Feature = {
+            ...feature,
+            id: uuidv4(),
+            status: 'pending',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          };
+          set((state) => ({
+            features: [...state.features, newFeature],
+          }));
+          queueChange('upsert', newFeature.id);
+        },
+
+        updateFeature: (id, updates) => {
+          set((state) => ({
+            features: state.features.map((feature) =>
+              feature.id === id
+                ? { ...feature, ...updates, updatedAt: new Date() }
+                : feature
+            ),
+          }));
+          queueChange('upsert', id);
+        },
+
+        deleteFeature: (id) => {
+          const feature = get().features.find((f) => f.id === id);
+          set((state) => ({
+            features: state.features.filter((feature) => feature.id !== id),
+          }));
+          queueChange('delete', id, feature?.remoteId);
+        },
+
+        updateFeatureStatus: (id, status) => {
+          set((state) => ({
+            features: state.features.map((feature) =>
+              feature.id === id
+                ? { ...feature, status, updatedAt: new Date() }
+                : feature
+            ),
+          }));
+          queueChange('upsert', id);
+        },
+
+        addNoteToFeature: (featureId, content) => {
+          const newNote: Note = {
+            id: uuidv4(),
+            content,
+            createdAt: new Date(),
+          };
+
+          set((state) => ({
+            features: state.features.map((feature) =>
+              feature.id === featureId
+                ? {
+                    ...feature,
+                    notes: [...feature.notes, newNote],
+                    updatedAt: new Date(),
+                  }
+                : feature
+            ),
+          }));
+          queueChange('upsert', featureId);
+        },
+
+        removeNoteFromFeature: (featureId, noteId) => {
+          set((state) => ({
+            features: state.features.map((feature) =>
+              feature.id === featureId
+                ? {
+                    ...feature,
+                    notes: feature.notes.filter((note) => note.id !== noteId),
+                    updatedAt: new Date(),
+                  }
+                : feature
+            ),
+          }));
+          queueChange('upsert', featureId);
+        },
+
+        syncFeatures: async () => {
+          if (get().isSyncing) return;
+          if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+          set({ isSyncing: true, syncError: null });
+          const queueAtStart = get().syncQueue;
+
+          try {
+            const result = await syncFeaturesWithServer(get().features, queueAtStart);
+
+            set((state) => {
+              // Keep edits made while the sync was in flight; they are re-applied on the next run
+              const queuedMeanwhile = state.syncQueue.filter((op) => !queueAtStart.includes(op));
+              const editedIds = new Set(queuedMeanwhile.map((op) => op.featureId));
+              const features = [
+                ...result.features.filter((feature) => !editedIds.has(feature.id)),
+                ...state.features.filter((feature) => editedIds.has(feature.id)),
+              ].filter((feature) => !queuedMeanwhile.some((op) => op.type === 'delete' && op.featureId === feature.id));
+
+              return {
+                features,
+                syncQueue: queuedMeanwhile.reduce(enqueueOperation, result.queue),
+                lastSyncedAt: result.syncedAt,
+              };
+            });
+          } catch (error) {
+            console.error('Feature sync failed:', error);
+            set({ syncError: error instanceof Error ? error.message : 'Sync failed' });
+          } finally {
+            set({ isSyncing: false });
+          }
+
+          // Anything queued while we were busy gets its own pass
+          if (get().syncQueue.some((op) => !queueAtStart.includes(op))) {
+            get().syncFeatures();
+          }
+        },
+      };
+    },
     {
       name: 'feature-storage',
+      storage: createJSONStorage(() => extensionStateStorage),
+      version: 1,
+      // Version 0 predates server sync: queue every existing feature for upload
+      migrate: (persistedState: any, version) => {
+        if (version === 0 && persistedState) {
+          const features: Feature[] = persistedState.features || [];
+          return {
+            ...persistedState,
+            syncQueue: features.reduce<SyncOperation[]>(
+              (queue, feature) => enqueueOperation(queue, { type: 'upsert', featureId: feature.id, queuedAt: new Date().toISOString() }),
+              []
+            ),
+          };
+        }
+        return persistedState;
+      },
+      partialize: (state) => ({
+        features: state.features,
+        syncQueue: state.syncQueue,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
     }
   )
-); 
\ No newline at end of file
+);
+
+// Changes saved in another extension context, e.g. a second sidepanel window
+syncPersistedStore(useFeatureStore);
@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { apiClient, ApiError, type Project } from '../services/api';
+import { detectLovableTab } from '../utils/lovableProject';
+
+interface ProjectStore {
+  projects: Project[];
+  // Backend ID of the project the lists are filtered by; null shows every project
+  activeProjectId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  fetchProjects: () => Promise<void>;
+  selectProject: (projectId: string | null) => void;
+  selectProjectForActiveTab: () => Promise<void>;
+}
+
+// Records created before projects existed have no project and only show under "All projects"
+export const inProject = (record: { projectId?: string | null }, projectId: string | null): boolean =>
+  !projectId || record.projectId === projectId;
+
+export const useProjectStore = create<ProjectStore>()((set, get) => ({
+  projects: [],
+  activeProjectId: null,
+  isLoading: false,
+  error: null,
+
+  fetchProjects: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await apiClient.getProjects();
+      const projects = response.data || [];
+      // The selection belongs to the previous workspace after switching
+      const { activeProjectId } = get();
+      set({
+        projects,
+        activeProjectId: projects.some((project) => project._id === activeProjectId) ? activeProjectId : null,
+      });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load projects' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  selectProject: (projectId) => set({ activeProjectId: projectId }),
+
+  // Selects the project of the Lovable app open in the active tab, adding it to the workspace on first visit
+  selectProjectForActiveTab: async () => {
+    const tab = await detectLovableTab().catch(() => null);
+    if (!tab) return;
+
+    const known = get().projects.find((project) => project.lovableProjectId === tab.lovableProjectId);
+    if (known) {
+      set({ activeProjectId: known._id });
+      return;
+    }
+
+    try {
+      const response = await apiClient.createProject(tab);
+      const project = response.data;
+      if (!project) return;
+
+      set((state) => ({
+        projects: state.projects.some((entry) => entry._id === project._id)
+          ? state.projects
+          : [...state.projects, project].sort((a, b) => a.name.localeCompare(b.name)),
+        activeProjectId: project._id,
+      }));
+    } catch (error) {
+      // Viewers cannot add projects; keep showing every project
+      if (!(error instanceof ApiError && error.status === 403)) {
+        set({ error: error instanceof Error ? error.message : 'Failed to add project' });
+      }
+    }
+  },
+}));
@@ -0,0 +1,109 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { apiClient, type SearchResult, type SearchResultType } from '../services/api';
+import { useProjectStore } from './projectStore';
+
+export type SearchPeriod = 'any' | 'week' | 'month' | 'year';
+
+const PERIOD_DAYS: Record<Exclude<SearchPeriod, 'any'>, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+interface SearchStore {
+  query: string;
+  // Types to search; empty searches every type
+  types: SearchResultType[];
+  period: SearchPeriod;
+  results: SearchResult[];
+  total: number;
+  isSearching: boolean;
+  error: string | null;
+  // Result picked in the search box; the tab showing its type focuses it, then clears it
+  target: SearchResult | null;
+  setQuery: (query: string) => void;
+  setTypes: (types: SearchResultType[]) => void;
+  setPeriod: (period: SearchPeriod) => void;
+  search: () => Promise<void>;
+  openResult: (result: SearchResult) => void;
+  clearTarget: () => void;
+  clear: () => void;
+}
+
+// Only the latest request may update the results, so slow responses can't overwrite newer ones
+let latestRequest = 0;
+
+export const useSearchStore = create<SearchStore>()((set, get) => ({
+  query: '',
+  types: [],
+  period: 'any',
+  results: [],
+  total: 0,
+  isSearching: false,
+  error: null,
+  target: null,
+
+  setQuery: (query) => set({ query }),
+  setTypes: (types) => set({ types }),
+  setPeriod: (period) => set({ period }),
+
+  // Searches the selected project, like the lists
+  search: async () => {
+    const { query, types, period } = get();
+    const request = ++latestRequest;
+
+    if (!query.trim()) {
+      set({ results: [], total: 0, isSearching: false, error: null });
+      return;
+    }
+
+    set({ isSearching: true, error: null });
+    try {
+      const response = await apiClient.search({
+        q: query.trim(),
+        types: types.length > 0 ? types : undefined,
+        projectId: useProjectStore.getState().activeProjectId || undefined,
+        from: period === 'any'
+          ? undefined
+          : new Date(Date.now() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000).toISOString(),
+        limit: 20,
+      });
+      if (request !== latestRequest) return;
+      set({ results: response.data || [], total: response.pagination?.total || 0 });
+    } catch (error) {
+      if (request !== latestRequest) return;
+      set({ results: [], total: 0, error: error instanceof Error ? error.message : 'Search failed' });
+    } finally {
+      if (request === latestRequest) set({ isSearching: false });
+    }
+  },
+
+  openResult: (result) => set({ target: result }),
+  clearTarget: () => set({ target: null }),
+  clear: () => {
+    latestRequest++;
+    set({ query: '', results: [], total: 0, isSearching: false, error: null });
+  },
+}));
+
+/**
+ * Calls `focus` when a search result of one of `types` is opened, including
+ * one opened just before the component mounted, and clears it afterwards.
+ */
+export const useSearchTarget = (types: SearchResultType[], focus: (result: SearchResult) => void) => {
+  const target = useSearchStore((state) => state.target);
+
+  useEffect(() => {
+    if (!target || !types.includes(target.type)) return;
+    useSearchStore.getState().clearTarget();
+    focus(target);
+  }, [target]);
+};
+
+// Scrolls a list item into view once it has rendered
+export const scrollToSearchTarget = (elementId: string) => {
+  requestAnimationFrame(() => {
+    document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  });
+};
@@ -1,17 +1,29 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
+import { syncTestCasesWithServer } from '../services/testCaseSync';
+import { extensionStateStorage, syncPersistedStore } from '../services/extensionStorage';
 
 export type TestResult = 'pass' | 'fail' | 'pending';
 export type Priority = 'low' | 'medium' | 'high';
+export type SessionStatus = 'active' | 'paused' | 'finished' | 'terminated';
 
 export interface TestStep {
   id: string;
   description: string;
 }
 
+export interface TestHistoryEntry {
+  id: string;
+  result: TestResult;
+  executedAt: Date;
+  sessionId?: string | null; // Local ID of the session the result was recorded in
+  pendingSync?: boolean;
+}
+
 export interface TestCase {
   id: string;
+  remoteId?: string; // Backend TestCase ID once the test case has been synced
   title: string;
   description: string;
   steps: TestStep[];
@@ -21,73 +33,292 @@ export interface TestCase {
   executedAt?: Date;
   notes?: string;
   createdAt: Date;
-  history?: { result: TestResult; executedAt: Date }[];
+  updatedAt?: Date;
+  history?: TestHistoryEntry[];
   tags: string[];
+  projectId?: string; // Backend Project ID
+  pendingSync?: boolean;
+}
+
+export interface TestSession {
+  id: string;
+  remoteId?: string; // Backend TestSession ID once the session has been synced
+  name?: string;
+  status: SessionStatus;
+  startedAt: string;
+  finishedAt?: string;
+  pendingSync?: boolean;
 }
 
 interface TestCaseStore {
   testCases: TestCase[];
+  sessions: TestSession[];
+  deletedRemoteIds: string[];
+  lastSyncedAt?: string;
+  isSyncing: boolean;
+  syncError: string | null;
   addTestCase: (testCase: Omit<TestCase, 'id' | 'createdAt' | 'result'>) => void;
   updateTestCase: (id: string, updates: Partial<TestCase>) => void;
   deleteTestCase: (id: string) => void;
   updateTestResult: (id: string, result: TestResult) => void;
+  startSession: () => void;
+  updateSession: (id: string, updates: Partial<Pick<TestSession, 'name' | 'status'>>) => void;
+  syncTestCases: () => Promise<void>;
 }
 
+export const isSessionRunning = (session?: TestSession | null): session is TestSession =>
+  !!session && (session.status === 'active' || session.status === 'paused');
+
+// The most recently started session that is still running, if any
+export const getActiveSession = (sessions: TestSession[]): TestSession | undefined =>
+  sessions
+    .filter(isSessionRunning)
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0];
+
+/**
+ * Combines a sync result with the current state. Items changed while the sync
+ * was in flight keep their local version (plus any server ID learned) so the
+ * change is pushed on the next run.
+ */
+const reconcile = <T extends { id: string; remoteId?: string }>(
+  snapshot: T[],
+  current: T[],
+  synced: T[],
+  adopt: (edited: T, synced: T) => T
+): T[] => {
+  const before = new Map(snapshot.map((item) => [item.id, item]));
+  const now = new Map(current.map((item) => [item.id, item]));
+  const result: T[] = [];
+
+  for (const item of synced) {
+    const previous = before.get(item.id);
+    const latest = now.get(item.id);
+
+    if (!previous) {
+      if (!latest) result.push(item);
+    } else if (latest) {
+      result.push(latest === previous ? item : adopt(latest, item));
+    }
+  }
+
+  for (const item of current) {
+    const previous = before.get(item.id);
+    const inResult = synced.some((s) => s.id === item.id);
+    // Added while syncing, or removed remotely but edited locally in the meantime
+    if (!previous || (!inResult && item !== previous)) result.push(item);
+  }
+
+  return result;
+};
+
 export const useTestCaseStore = create<TestCaseStore>()(
   persist(
     (set, get) => ({
       testCases: [],
-      
+      sessions: [],
+      deletedRemoteIds: [],
+      lastSyncedAt: undefined,
+      isSyncing: false,
+      syncError: null,
+
       addTestCase: (testCase) => {
         const newTestCase: TestCase = {
           ...testCase,
           id: uuidv4(),
           result: 'pending',
           createdAt: new Date(),
+          updatedAt: new Date(),
           history: [],
           tags: testCase.tags || [],
+          pendingSync: true,
         };
         set((state) => ({
           testCases: [...state.testCases, newTestCase],
         }));
+        get().syncTestCases();
       },
-      
+
       updateTestCase: (id, updates) => {
         set((state) => ({
           testCases: state.testCases.map((testCase) =>
             testCase.id === id
-              ? { ...testCase, ...updates, tags: updates.tags !== undefined ? updates.tags : testCase.tags }
+              ? {
+                  ...testCase,
+                  ...updates,
+                  tags: updates.tags !== undefined ? updates.tags : testCase.tags,
+                  updatedAt: new Date(),
+                  pendingSync: true,
+                }
               : testCase
           ),
         }));
+        get().syncTestCases();
       },
-      
+
       deleteTestCase: (id) => {
+        const testCase = get().testCases.find((tc) => tc.id === id);
         set((state) => ({
           testCases: state.testCases.filter((testCase) => testCase.id !== id),
+          deletedRemoteIds: testCase?.remoteId
+            ? [...state.deletedRemoteIds, testCase.remoteId]
+            : state.deletedRemoteIds,
         }));
+        get().syncTestCases();
       },
-      
+
       updateTestResult: (id, result) => {
+        const activeSession = getActiveSession(get().sessions);
+        const entry: TestHistoryEntry = {
+          id: uuidv4(),
+          result,
+          executedAt: new Date(),
+          sessionId: activeSession ? activeSession.id : null,
+          pendingSync: true,
+        };
+
         set((state) => ({
           testCases: state.testCases.map((testCase) =>
             testCase.id === id
               ? {
                   ...testCase,
                   result,
-                  executedAt: new Date(),
-                  history: [
-                    ...(testCase.history || []),
-                    { result, executedAt: new Date() },
-                  ],
+                  executedAt: entry.executedAt,
+                  history: [...(testCase.history || []), entry],
                 }
               : testCase
           ),
         }));
+        get().syncTestCases();
+      },
+
+      startSession: () => {
+        if (getActiveSession(get().sessions)) return;
+
+        const newSession: TestSession = {
+          id: uuidv4(),
+          status: 'active',
+          startedAt: new Date().toISOString(),
+          pendingSync: true,
+        };
+        set((state) => ({
+          sessions: [...state.sessions, newSession],
+        }));
+        get().syncTestCases();
+      },
+
+      updateSession: (id, updates) => {
+        const isClosing = updates.status === 'finished' || updates.status === 'terminated';
+        set((state) => ({
+          sessions: state.sessions.map((session) =>
+            session.id === id
+              ? {
+                  ...session,
+                  ...updates,
+                  finishedAt: isClosing ? new Date().toISOString() : session.finishedAt,
+                  pendingSync: true,
+                }
+              : session
+          ),
+        }));
+        get().syncTestCases();
+      },
+
+      syncTestCases: async () => {
+        if (get().isSyncing) return;
+        if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+        set({ isSyncing: true, syncError: null });
+        const snapshot = get();
+        let changedMeanwhile = false;
+
+        try {
+          const result = await syncTestCasesWithServer({
+            testCases: snapshot.testCases,
+            sessions: snapshot.sessions,
+            deletedRemoteIds: snapshot.deletedRemoteIds,
+          });
+          const sentResultIds = new Set(result.sentResultIds);
+
+          set((state) => {
+            changedMeanwhile =
+              state.testCases !== snapshot.testCases ||
+              state.sessions !== snapshot.sessions ||
+              state.deletedRemoteIds !== snapshot.deletedRemoteIds;
+
+            // Something deleted while its create was in flight still has to go on the server
+            const orphanedRemoteIds = result.testCases
+              .filter((tc) => tc.remoteId && !state.testCases.some((current) => current.id === tc.id))
+              .filter((tc) => snapshot.testCases.some((before) => before.id === tc.id && !before.remoteId))
+              .map((tc) => tc.remoteId!);
+
+            return {
+              testCases: reconcile(snapshot.testCases, state.testCases, result.testCases, (edited, synced) => ({
+                ...edited,
+                remoteId: edited.remoteId || synced.remoteId,
+                history: (edited.history || []).map((entry) =>
+                  sentResultIds.has(entry.id) ? { ...entry, pendingSync: false } : entry
+                ),
+              })),
+              sessions: reconcile(snapshot.sessions, state.sessions, result.sessions, (edited, synced) => ({
+                ...edited,
+                remoteId: edited.remoteId || synced.remoteId,
+              })),
+              deletedRemoteIds: [
+                ...result.deletedRemoteIds,
+                ...state.deletedRemoteIds.filter((id) => !snapshot.deletedRemoteIds.includes(id)),
+                ...orphanedRemoteIds,
+              ],
+              lastSyncedAt: result.syncedAt,
+            };
+          });
+        } catch (error) {
+          console.error('Test case sync failed:', error);
+          set({ syncError: error instanceof Error ? error.message : 'Sync failed' });
+        } finally {
+          set({ isSyncing: false });
+        }
+
+        // Anything changed while we were busy gets its own pass
+        if (changedMeanwhile) {
+          get().syncTestCases();
+        }
       },
     }),
     {
       name: 'testcase-storage',
+      storage: createJSONStorage(() => extensionStateStorage),
+      version: 1,
+      // Version 0 predates server sync: mark every existing test case and result for upload
+      migrate: (persistedState: any, version) => {
+        if (version === 0 && persistedState) {
+          const testCases: TestCase[] = persistedState.testCases || [];
+          return {
+            ...persistedState,
+            sessions: [],
+            deletedRemoteIds: [],
+            testCases: testCases.map((testCase) => ({
+              ...testCase,
+              pendingSync: true,
+              history: (testCase.history || []).map((entry) => ({
+                ...entry,
+                id: entry.id || uuidv4(),
+                sessionId: null,
+                pendingSync: true,
+              })),
+            })),
+          };
+        }
+        return persistedState;
+      },
+      partialize: (state) => ({
+        testCases: state.testCases,
+        sessions: state.sessions,
+        deletedRemoteIds: state.deletedRemoteIds,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
     }
   )
-); 
\ No newline at end of file
+);
+
+// Results recorded in another sidepanel window
+syncPersistedStore(useTestCaseStore);
@@ -0,0 +1,107 @@
+import { create } from 'zustand';
+import { apiClient, WorkspaceStorage, type Workspace, type WorkspaceInvitation } from '../services/api';
+import { useFeatureStore } from './featureStore';
+import { useTestCaseStore } from './testCaseStore';
+import { loadExtensionStorage } from '../services/extensionStorage';
+
+interface WorkspaceStore {
+  workspaces: Workspace[];
+  invitations: WorkspaceInvitation[];
+  // null means the personal workspace, which the API uses when no workspace is sent
+  activeWorkspaceId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  fetchWorkspaces: () => Promise<void>;
+  selectWorkspace: (workspaceId: string) => Promise<void>;
+  createWorkspace: (name: string) => Promise<void>;
+  inviteMember: (email: string, role: WorkspaceInvitation['role']) => Promise<void>;
+  acceptInvitation: (invitationId: string) => Promise<void>;
+  declineInvitation: (invitationId: string) => Promise<void>;
+}
+
+// Tasks and test cases are synced per workspace, so switching pushes pending
+// changes to the old workspace before pulling the new one
+const syncStores = () => Promise.allSettled([
+  useFeatureStore.getState().syncFeatures(),
+  useTestCaseStore.getState().syncTestCases(),
+]);
+
+export const useWorkspaceStore = create<WorkspaceStore>()((set, get) => ({
+  workspaces: [],
+  invitations: [],
+  activeWorkspaceId: WorkspaceStorage.getWorkspaceId(),
+  isLoading: false,
+  error: null,
+
+  fetchWorkspaces: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const [workspaces, invitations] = await Promise.all([
+        apiClient.getWorkspaces(),
+        apiClient.getMyInvitations(),
+      ]);
+      const list = workspaces.data || [];
+
+      // The stored workspace may have been deleted, or belong to another account
+      const { activeWorkspaceId } = get();
+      if (activeWorkspaceId && !list.some((workspace) => workspace._id === activeWorkspaceId && !workspace.personal)) {
+        WorkspaceStorage.setWorkspaceId(null);
+        set({ activeWorkspaceId: null });
+      }
+
+      set({ workspaces: list, invitations: invitations.data || [] });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load workspaces' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  selectWorkspace: async (workspaceId) => {
+    const workspace = get().workspaces.find((entry) => entry._id === workspaceId);
+    const nextId = !workspace || workspace.personal ? null : workspace._id;
+    if (nextId === get().activeWorkspaceId) return;
+
+    await syncStores();
+    WorkspaceStorage.setWorkspaceId(nextId);
+    set({ activeWorkspaceId: nextId });
+    await syncStores();
+  },
+
+  createWorkspace: async (name) => {
+    const response = await apiClient.createWorkspace(name);
+    if (response.data) {
+      set((state) => ({ workspaces: [...state.workspaces, response.data!] }));
+      await get().selectWorkspace(response.data._id);
+    }
+  },
+
+  inviteMember: async (email, role) => {
+    const { activeWorkspaceId } = get();
+    if (!activeWorkspaceId) {
+      throw new Error('Personal workspaces cannot be shared. Create a team workspace first.');
+    }
+    await apiClient.inviteToWorkspace(activeWorkspaceId, email, role);
+  },
+
+  acceptInvitation: async (invitationId) => {
+    const response = await apiClient.acceptInvitation(invitationId);
+    set((state) => ({
+      invitations: state.invitations.filter((invitation) => invitation._id !== invitationId),
+      workspaces: response.data && !state.workspaces.some((workspace) => workspace._id === response.data!._id)
+        ? [...state.workspaces, response.data]
+        : state.workspaces,
+    }));
+  },
+
+  declineInvitation: async (invitationId) => {
+    await apiClient.declineInvitation(invitationId);
+    set((state) => ({
+      invitations: state.invitations.filter((invitation) => invitation._id !== invitationId),
+    }));
+  },
+}));
+
+// The saved workspace is known once extension storage has loaded, and another extension page may switch it later
+loadExtensionStorage().then(() => useWorkspaceStore.setState({ activeWorkspaceId: WorkspaceStorage.getWorkspaceId() }));
+WorkspaceStorage.onWorkspaceChanged((workspaceId) => useWorkspaceStore.setState({ activeWorkspaceId: workspaceId }));
@@ -0,0 +1,39 @@
+import type { FileEdit, Message } from './conversationAdapters';
+
+export interface PromptChanges {
+  // 1-based position of the prompt among the conversation's prompts
+  promptNumber: number;
+  prompt: Message;
+  fileEdits: FileEdit[];
+  actions: string[];
+}
+
+/**
+ * Groups what the AI changed by the prompt that asked for it: every reply up
+ * to the next prompt belongs to the prompt before it. Replies shown before the
+ * first prompt on the page have no prompt and are left out.
+ */
+export const buildChangeLog = (messages: Message[]): PromptChanges[] => {
+  const changeLog: PromptChanges[] = [];
+
+  messages.forEach((message) => {
+    if (message.sender === 'user') {
+      changeLog.push({ promptNumber: changeLog.length + 1, prompt: message, fileEdits: [], actions: [] });
+      return;
+    }
+
+    const entry = changeLog[changeLog.length - 1];
+    if (!entry) return;
+
+    message.fileEdits?.forEach((fileEdit) => {
+      if (!entry.fileEdits.some(({ path, action }) => path === fileEdit.path && action === fileEdit.action)) {
+        entry.fileEdits.push(fileEdit);
+      }
+    });
+    message.actions?.forEach((action) => {
+      if (!entry.actions.includes(action)) entry.actions.push(action);
+    });
+  });
+
+  return changeLog;
+};
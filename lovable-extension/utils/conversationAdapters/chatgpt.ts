@@ -0,0 +1,39 @@
+import type { ConversationAdapter, Message } from './types';
+import { attachmentsOf, textOf } from './dom';
+
+/**
+ * ChatGPT. Every turn carries data-message-author-role; responses render their
+ * markdown in a `.markdown` element next to the action buttons.
+ */
+export const chatgptAdapter: ConversationAdapter = {
+  id: 'chatgpt',
+  name: 'ChatGPT',
+  matches: [{ host: 'chatgpt.com' }, { host: 'chat.openai.com' }],
+  versions: [
+    {
+      id: 'author-role',
+      detect: (document) => document.querySelector('[data-message-author-role]') !== null,
+      extract: (document) => {
+        const messages: Message[] = [];
+
+        document.querySelectorAll('[data-message-author-role="user"], [data-message-author-role="assistant"]')
+          .forEach((turn) => {
+            const isUser = turn.getAttribute('data-message-author-role') === 'user';
+            const content = turn.querySelector(isUser ? '.whitespace-pre-wrap' : '.markdown') || turn;
+            const text = textOf(content);
+            const attachments = attachmentsOf(turn);
+            if (!text && attachments.length === 0) return;
+
+            messages.push({
+              sender: isUser ? 'user' : 'ai',
+              text,
+              messageId: turn.getAttribute('data-message-id') || undefined,
+              ...(attachments.length > 0 && { attachments }),
+            });
+          });
+
+        return messages;
+      },
+    },
+  ],
+};
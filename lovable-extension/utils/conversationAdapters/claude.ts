@@ -0,0 +1,42 @@
+import type { AdapterDomVersion, ConversationAdapter, Message } from './types';
+import { attachmentsOf, textOf } from './dom';
+
+const USER_SELECTOR = '[data-testid="user-message"]';
+
+// Versions differ only in how responses are marked
+const claudeVersion = (id: string, responseSelector: string): AdapterDomVersion => ({
+  id,
+  detect: (document) => document.querySelector(responseSelector) !== null,
+  extract: (document) => {
+    const messages: Message[] = [];
+
+    document.querySelectorAll(`${USER_SELECTOR}, ${responseSelector}`).forEach((element) => {
+      const isUser = element.matches(USER_SELECTOR);
+      const text = textOf(element);
+      const attachments = isUser ? attachmentsOf(element) : [];
+      if (!text && attachments.length === 0) return;
+
+      messages.push({
+        sender: isUser ? 'user' : 'ai',
+        text,
+        ...(attachments.length > 0 && { attachments }),
+      });
+    });
+
+    return messages;
+  },
+});
+
+/**
+ * Claude. Prompts are marked with data-testid="user-message"; responses were
+ * `.font-claude-message` before being renamed to `.font-claude-response`.
+ */
+export const claudeAdapter: ConversationAdapter = {
+  id: 'claude',
+  name: 'Claude',
+  matches: [{ host: 'claude.ai' }],
+  versions: [
+    claudeVersion('font-claude-response', '.font-claude-response'),
+    claudeVersion('font-claude-message', '.font-claude-message'),
+  ],
+};
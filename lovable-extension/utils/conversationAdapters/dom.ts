@@ -0,0 +1,55 @@
+/**
+ * DOM helpers shared by the conversation adapters. They only use the standard
+ * DOM, so adapters also run against HTML fixtures outside the browser.
+ */
+
+import type { MessageAttachment } from './types';
+
+// Rendered text where the DOM supports it, so block elements stay on separate lines
+export const textOf = (element: Element | null | undefined): string =>
+  ((element as HTMLElement | null)?.innerText ?? element?.textContent ?? '').trim();
+
+// Text of an element's direct children joined by spaces, so "<span>Edited</span><span>a.ts</span>" reads "Edited a.ts"
+export const phraseOf = (element: Element): string =>
+  Array.from(element.childNodes)
+    .map((node) => node.textContent?.trim() || '')
+    .filter(Boolean)
+    .join(' ');
+
+export const timeOf = (element: Element): string | undefined => {
+  const datetime = element.querySelector('time[datetime]')?.getAttribute('datetime');
+  return datetime && !isNaN(Date.parse(datetime)) ? new Date(datetime).toISOString() : undefined;
+};
+
+// Crockford base32, used by ULIDs such as Lovable's message IDs (umsg_01J...)
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// The first 10 characters of a ULID are its creation time in milliseconds
+export const timeFromUlid = (value: string): string | undefined => {
+  const ulid = value.toUpperCase();
+  if (!/^[0-9A-HJKMNP-TV-Z]{26}$/.test(ulid)) return undefined;
+
+  const time = Array.from(ulid.substring(0, 10))
+    .reduce((result, char) => result * 32 + ULID_ALPHABET.indexOf(char), 0);
+  // Anything outside this range is an ID that merely looks like a ULID
+  if (time < Date.UTC(2020, 0, 1) || time > Date.now() + 24 * 60 * 60 * 1000) return undefined;
+  return new Date(time).toISOString();
+};
+
+export const attachmentsOf = (content: Element): MessageAttachment[] => {
+  const attachments: MessageAttachment[] = [];
+  content.querySelectorAll<HTMLImageElement>('img[src]').forEach((img) => {
+    const url = img.getAttribute('src') || '';
+    // Skip icons and avatars
+    if (url.startsWith('data:image/svg') || (img.naturalWidth > 0 && img.naturalWidth < 48)) return;
+    attachments.push({ type: 'image', url: img.src || url, name: img.getAttribute('alt') || undefined });
+  });
+  content.querySelectorAll<HTMLAnchorElement>('a[href][download]').forEach((link) => {
+    attachments.push({
+      type: 'file',
+      url: link.href || link.getAttribute('href')!,
+      name: link.getAttribute('download') || link.textContent?.trim() || undefined,
+    });
+  });
+  return attachments;
+};
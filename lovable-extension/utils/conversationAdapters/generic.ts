@@ -0,0 +1,56 @@
+import type { ConversationAdapter, Message } from './types';
+import { textOf } from './dom';
+
+// Attributes and classes chat applications commonly mark their turns with
+const USER_SELECTORS = [
+  '[data-message-author-role="user"]',
+  '[data-role="user"]',
+  '.user-message',
+  '.human-message',
+];
+
+const AI_SELECTORS = [
+  '[data-message-author-role="assistant"]',
+  '[data-role="assistant"]',
+  '.ai-message',
+  '.assistant-message',
+  '.bot-message',
+];
+
+const USER_SELECTOR = USER_SELECTORS.join(', ');
+const AI_SELECTOR = AI_SELECTORS.join(', ');
+
+/**
+ * Fallback for sites without an adapter. It only reads elements that are
+ * explicitly marked as user or assistant turns and finds nothing otherwise,
+ * rather than guessing from the page layout.
+ */
+export const genericAdapter: ConversationAdapter = {
+  id: 'generic',
+  name: 'Generic chat',
+  matches: [],
+  versions: [
+    {
+      id: 'role-markers',
+      detect: (document) => document.querySelector(`${USER_SELECTOR}, ${AI_SELECTOR}`) !== null,
+      extract: (document) => {
+        const messages: Message[] = [];
+
+        document.querySelectorAll(`${USER_SELECTOR}, ${AI_SELECTOR}`).forEach((element) => {
+          // A marked turn can wrap another marked element, e.g. .user-message[data-role="user"] > .user-message
+          if (element.parentElement?.closest(`${USER_SELECTOR}, ${AI_SELECTOR}`)) return;
+
+          const text = textOf(element);
+          if (!text) return;
+
+          messages.push({
+            sender: element.matches(USER_SELECTOR) ? 'user' : 'ai',
+            text,
+          });
+        });
+
+        return messages;
+      },
+    },
+  ],
+};
@@ -0,0 +1,119 @@
+/**
+ * Checks the adapters against saved pages, so selector breakage shows up
+ * before a release instead of as empty conversations. A fixture is a saved
+ * page (`<adapter>/<dom version>.html`) and the conversation expected from it
+ * (`<adapter>/<dom version>.json`). The DOM parser is passed in, so the
+ * harness runs in Node (see scripts/checkConversationAdapters.ts) as well as
+ * in the browser with DOMParser.
+ */
+
+import type { Message } from './types';
+import { extractConversation, getConversationAdapters } from './index';
+
+export interface FixtureExpectation {
+  url: string;
+  // "<adapter id>/<DOM version id>" that must handle the page
+  adapter: string;
+  // Fields left out are not checked. Attachments are given by URL, file edits
+  // as "<action> <path>" and code blocks by their language and path.
+  messages: Array<Pick<Message, 'sender'> & Partial<Pick<Message, 'text' | 'messageId' | 'timestamp' | 'actions'>> & {
+    attachments?: string[];
+    fileEdits?: string[];
+    codeBlocks?: Array<{ language?: string; path?: string }>;
+  }>;
+}
+
+export interface AdapterFixture {
+  name: string;
+  html: string;
+  expected: FixtureExpectation;
+}
+
+export interface FixtureResult {
+  name: string;
+  adapter?: string;
+  failures: string[];
+}
+
+// innerText differs between browsers and DOM implementations in whitespace only
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const checkAdapterFixture = (
+  fixture: AdapterFixture,
+  parseHTML: (html: string) => Document
+): FixtureResult => {
+  const { expected } = fixture;
+  const failures: string[] = [];
+
+  let conversation;
+  try {
+    conversation = extractConversation(parseHTML(fixture.html), expected.url);
+  } catch (error) {
+    return {
+      name: fixture.name,
+      failures: [`extraction threw: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (conversation.adapter !== expected.adapter) {
+    failures.push(`handled by ${conversation.adapter || 'no adapter'}, expected ${expected.adapter}`);
+  }
+
+  const messages = conversation.mergedMessages;
+  if (messages.length !== expected.messages.length) {
+    failures.push(`found ${messages.length} messages, expected ${expected.messages.length}`);
+  }
+
+  expected.messages.forEach((want, index) => {
+    const got = messages[index];
+    const label = `message ${index + 1}`;
+    if (!got) return;
+
+    if (got.sender !== want.sender) {
+      failures.push(`${label}: sender ${got.sender}, expected ${want.sender}`);
+    }
+    if (want.text !== undefined && normalize(got.text) !== normalize(want.text)) {
+      failures.push(`${label}: text "${normalize(got.text)}", expected "${normalize(want.text)}"`);
+    }
+    if (want.messageId !== undefined && got.messageId !== want.messageId) {
+      failures.push(`${label}: message ID ${got.messageId}, expected ${want.messageId}`);
+    }
+    if (want.timestamp !== undefined && got.timestamp !== want.timestamp) {
+      failures.push(`${label}: timestamp ${got.timestamp}, expected ${want.timestamp}`);
+    }
+    if (want.attachments !== undefined) {
+      const urls = (got.attachments || []).map(({ url }) => url);
+      if (urls.join('\n') !== want.attachments.join('\n')) {
+        failures.push(`${label}: attachments [${urls.join(', ')}], expected [${want.attachments.join(', ')}]`);
+      }
+    }
+    if (want.fileEdits !== undefined) {
+      const edits = (got.fileEdits || []).map(({ action, path }) => `${action} ${path}`);
+      if (edits.join('\n') !== want.fileEdits.join('\n')) {
+        failures.push(`${label}: file edits [${edits.join(', ')}], expected [${want.fileEdits.join(', ')}]`);
+      }
+    }
+    if (want.codeBlocks !== undefined) {
+      const describe = (blocks: Array<{ language?: string; path?: string }>) =>
+        blocks.map(({ language, path }) => `${language || '?'}:${path || '?'}`).join(', ');
+      if (describe(got.codeBlocks || []) !== describe(want.codeBlocks)) {
+        failures.push(`${label}: code blocks [${describe(got.codeBlocks || [])}], expected [${describe(want.codeBlocks)}]`);
+      }
+    }
+    if (want.actions !== undefined && (got.actions || []).join('\n') !== want.actions.join('\n')) {
+      failures.push(`${label}: actions [${(got.actions || []).join(', ')}], expected [${want.actions.join(', ')}]`);
+    }
+  });
+
+  return { name: fixture.name, adapter: conversation.adapter, failures };
+};
+
+// Every DOM version of every adapter needs a fixture, or its selectors go unchecked
+export const uncoveredDomVersions = (fixtures: AdapterFixture[]): string[] => {
+  const covered = new Set(fixtures.map(({ expected }) => expected.adapter));
+  return getConversationAdapters().flatMap((adapter) =>
+    adapter.versions
+      .map((version) => `${adapter.id}/${version.id}`)
+      .filter((id) => !covered.has(id))
+  );
+};
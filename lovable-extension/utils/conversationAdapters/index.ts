@@ -0,0 +1,86 @@
+/**
+ * Registry of per-site conversation adapters. The adapter whose URL rules
+ * match the page extracts its messages; pages of other sites use the generic
+ * adapter.
+ */
+
+import type { ConversationAdapter, ConversationData, Message } from './types';
+import { lovableAdapter } from './lovable';
+import { chatgptAdapter } from './chatgpt';
+import { claudeAdapter } from './claude';
+import { perplexityAdapter } from './perplexity';
+import { genericAdapter } from './generic';
+
+const adapters: ConversationAdapter[] = [
+  lovableAdapter,
+  chatgptAdapter,
+  claudeAdapter,
+  perplexityAdapter,
+];
+
+export const getConversationAdapters = (): ConversationAdapter[] => [...adapters, genericAdapter];
+
+// Adapters registered later take precedence, so a site's adapter can be replaced
+export const registerConversationAdapter = (adapter: ConversationAdapter): void => {
+  const index = adapters.findIndex(({ id }) => id === adapter.id);
+  if (index !== -1) adapters.splice(index, 1);
+  adapters.unshift(adapter);
+};
+
+export const adapterMatchesUrl = (adapter: ConversationAdapter, value: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  return adapter.matches.some(({ host, path }) =>
+    (url.hostname === host || url.hostname.endsWith(`.${host}`)) && (!path || path.test(url.pathname))
+  );
+};
+
+export const findConversationAdapter = (url: string): ConversationAdapter =>
+  adapters.find((adapter) => adapterMatchesUrl(adapter, url)) || genericAdapter;
+
+const toConversationData = (messages: Message[], adapter?: string): Omit<ConversationData, 'url' | 'title'> => ({
+  userMessages: messages.filter((message) => message.sender === 'user'),
+  aiMessages: messages.filter((message) => message.sender === 'ai'),
+  mergedMessages: messages,
+  adapter,
+});
+
+/**
+ * Extracts the conversation from a page. When the site changed its markup and
+ * none of its adapter's DOM versions is found, the generic adapter is tried;
+ * `adapter` in the result shows which one was used.
+ */
+export const extractConversation = (document: Document, url: string): ConversationData => {
+  const adapter = findConversationAdapter(url);
+  const candidates = adapter === genericAdapter ? [genericAdapter] : [adapter, genericAdapter];
+
+  for (const candidate of candidates) {
+    const version = candidate.versions.find(({ detect }) => detect(document));
+    if (version) {
+      return {
+        ...toConversationData(version.extract(document), `${candidate.id}/${version.id}`),
+        url,
+        title: document.title,
+      };
+    }
+  }
+
+  return { ...toConversationData([]), url, title: document.title };
+};
+
+export type {
+  AdapterDomVersion,
+  CodeBlock,
+  ConversationAdapter,
+  ConversationData,
+  FileEdit,
+  FileEditAction,
+  Message,
+  MessageAttachment,
+  UrlMatchRule,
+} from './types';
@@ -0,0 +1,166 @@
+import type { CodeBlock, ConversationAdapter, FileEdit, FileEditAction, Message } from './types';
+import { attachmentsOf, phraseOf, textOf, timeFromUlid, timeOf } from './dom';
+
+const MESSAGE_SELECTOR = 'div[data-message-id^="umsg_"], div[data-message-id^="aimsg_"]';
+
+// Replies list the files they changed as chips such as "Edited src/App.tsx"
+const FILE_EDIT_PATTERN = /^(Created|Edited|Updated|Modified|Deleted|Removed|Renamed)\s+([\w@~.\-/]+\.\w+)$/i;
+
+const FILE_EDIT_ACTIONS: Record<string, FileEditAction> = {
+  created: 'created',
+  edited: 'edited',
+  updated: 'edited',
+  modified: 'edited',
+  deleted: 'deleted',
+  removed: 'deleted',
+  renamed: 'renamed',
+};
+
+// Other steps are summarised the same way, e.g. "Installed @dnd-kit/core" or "Ran SQL migration"
+const ACTION_PATTERN = /^(Installed|Uninstalled|Added dependency|Removed dependency|Ran|Executed|Applied|Deployed|Connected|Restored|Reverted)\s+\S.{0,150}$/;
+
+// Action chips are never part of the reply's prose, which can start with the same verbs
+const PROSE_SELECTOR = 'p, li, pre, blockquote, h1, h2, h3, h4, h5, h6';
+
+const fileEditOf = (element: Element): FileEdit | undefined => {
+  const match = phraseOf(element).match(FILE_EDIT_PATTERN);
+  return match ? { path: match[2], action: FILE_EDIT_ACTIONS[match[1].toLowerCase()] } : undefined;
+};
+
+/**
+ * Picks the changed files, code blocks and action summaries out of a reply.
+ * Chips are matched on the innermost element whose children read as one, so
+ * a wrapper around a chip is not counted again.
+ */
+const replyDetailsOf = (content: Element): Pick<Message, 'fileEdits' | 'codeBlocks' | 'actions'> => {
+  const fileEdits: FileEdit[] = [];
+  const actions: string[] = [];
+
+  content.querySelectorAll('*').forEach((element) => {
+    if (element.closest('pre')) return;
+    const innermost = (test: (child: Element) => boolean) => !Array.from(element.children).some(test);
+
+    const fileEdit = fileEditOf(element);
+    if (fileEdit) {
+      if (innermost((child) => fileEditOf(child) !== undefined)
+        && !fileEdits.some(({ path, action }) => path === fileEdit.path && action === fileEdit.action)) {
+        fileEdits.push(fileEdit);
+      }
+      return;
+    }
+
+    const phrase = phraseOf(element);
+    if (!element.closest(PROSE_SELECTOR)
+      && ACTION_PATTERN.test(phrase)
+      && innermost((child) => ACTION_PATTERN.test(phraseOf(child)))
+      && !actions.includes(phrase)) {
+      actions.push(phrase);
+    }
+  });
+
+  const codeBlocks: CodeBlock[] = Array.from(content.querySelectorAll('pre')).flatMap((pre) => {
+    const code = (pre.querySelector('code') || pre).textContent?.replace(/\n$/, '') || '';
+    if (!code.trim()) return [];
+
+    const language = pre.querySelector('code[class*="language-"]')?.getAttribute('class')
+      ?.match(/language-([\w+#-]+)/)?.[1];
+    // Code edits show the file above the code, either as a chip or as the bare path
+    const header = pre.previousElementSibling;
+    const path = pre.getAttribute('data-file-path')
+      || (header && (fileEditOf(header)?.path || phraseOf(header).match(/^[\w@~.\-/]+\.\w+$/)?.[0]))
+      || undefined;
+
+    return [{ code, ...(language && { language }), ...(path && { path }) }];
+  });
+
+  return {
+    ...(fileEdits.length > 0 && { fileEdits }),
+    ...(codeBlocks.length > 0 && { codeBlocks }),
+    ...(actions.length > 0 && { actions }),
+  };
+};
+
+// Adds a later part's details to a message, skipping ones it already has
+const mergeReplyDetails = (message: Message, details: Pick<Message, 'fileEdits' | 'codeBlocks' | 'actions'>) => {
+  details.fileEdits?.forEach((fileEdit) => {
+    if (!message.fileEdits?.some(({ path, action }) => path === fileEdit.path && action === fileEdit.action)) {
+      message.fileEdits = [...(message.fileEdits || []), fileEdit];
+    }
+  });
+  details.codeBlocks?.forEach((codeBlock) => {
+    if (!message.codeBlocks?.some(({ code }) => code === codeBlock.code)) {
+      message.codeBlocks = [...(message.codeBlocks || []), codeBlock];
+    }
+  });
+  details.actions?.forEach((action) => {
+    if (!message.actions?.includes(action)) {
+      message.actions = [...(message.actions || []), action];
+    }
+  });
+};
+
+/**
+ * Lovable editor chat. Prompts are `umsg_...` and responses `aimsg_...`
+ * elements; a message rendered in several parts (elements sharing its
+ * data-message-id) is returned once, with the text of its parts joined.
+ * Replies also carry the files they changed, their code blocks and actions.
+ */
+export const lovableAdapter: ConversationAdapter = {
+  id: 'lovable',
+  name: 'Lovable',
+  matches: [{ host: 'lovable.dev', path: /^\/projects\// }],
+  versions: [
+    {
+      id: 'message-ids',
+      detect: (document) => document.querySelector(MESSAGE_SELECTOR) !== null,
+      extract: (document) => {
+        const messagesById = new Map<string, Message>();
+        const messages: Message[] = [];
+
+        document.querySelectorAll(MESSAGE_SELECTOR).forEach((messageDiv) => {
+          const messageId = messageDiv.getAttribute('data-message-id') || '';
+          const isUser = messageId.startsWith('umsg_');
+
+          // Responses keep their content in the second child, after the avatar
+          const content = isUser ? messageDiv : messageDiv.querySelector(':scope > div:nth-child(2)');
+          if (!content) return;
+
+          const text = isUser ? content.textContent?.trim() || '' : textOf(content);
+          const attachments = attachmentsOf(content);
+          const details = isUser ? {} : replyDetailsOf(content);
+
+          // Skip empty or invisible elements
+          if (!text && attachments.length === 0) return;
+
+          const existing = messagesById.get(messageId);
+          if (existing) {
+            // Another part of the same message; identical copies of a part are skipped
+            if (text && !existing.text.includes(text)) {
+              existing.text = existing.text ? `${existing.text}\n\n${text}` : text;
+            }
+            attachments.forEach((attachment) => {
+              if (!existing.attachments?.some(({ url }) => url === attachment.url)) {
+                existing.attachments = [...(existing.attachments || []), attachment];
+              }
+            });
+            mergeReplyDetails(existing, details);
+            return;
+          }
+
+          const message: Message = {
+            sender: isUser ? 'user' : 'ai',
+            text,
+            timestamp: timeOf(messageDiv) || timeFromUlid(messageId.substring(messageId.indexOf('_') + 1)),
+            messageId,
+            ...(attachments.length > 0 && { attachments }),
+            ...details,
+          };
+          messagesById.set(messageId, message);
+          messages.push(message);
+        });
+
+        return messages;
+      },
+    },
+  ],
+};
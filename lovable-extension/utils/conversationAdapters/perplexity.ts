@@ -0,0 +1,40 @@
+import type { ConversationAdapter, Message } from './types';
+import { textOf } from './dom';
+
+const QUERY_SELECTOR = '[class*="group/query"]';
+const ANSWER_SELECTOR = '.prose';
+
+/**
+ * Perplexity. A thread is a list of queries, each followed by its answer in a
+ * `.prose` block; sources and related questions are not part of the answer.
+ */
+export const perplexityAdapter: ConversationAdapter = {
+  id: 'perplexity',
+  name: 'Perplexity',
+  matches: [{ host: 'perplexity.ai', path: /^\/search\// }],
+  versions: [
+    {
+      id: 'query-prose',
+      detect: (document) =>
+        document.querySelector(QUERY_SELECTOR) !== null && document.querySelector(ANSWER_SELECTOR) !== null,
+      extract: (document) => {
+        const messages: Message[] = [];
+
+        document.querySelectorAll(`${QUERY_SELECTOR}, ${ANSWER_SELECTOR}`).forEach((element) => {
+          // Answers can contain nested .prose blocks
+          if (element.parentElement?.closest(ANSWER_SELECTOR)) return;
+
+          const text = textOf(element);
+          if (!text) return;
+
+          messages.push({
+            sender: element.matches(QUERY_SELECTOR) ? 'user' : 'ai',
+            text,
+          });
+        });
+
+        return messages;
+      },
+    },
+  ],
+};
@@ -0,0 +1,70 @@
+export interface MessageAttachment {
+  type: 'image' | 'file';
+  url: string;
+  name?: string;
+}
+
+export type FileEditAction = 'created' | 'edited' | 'deleted' | 'renamed';
+
+// A file the AI changed while answering, e.g. Lovable's "Edited src/App.tsx"
+export interface FileEdit {
+  path: string;
+  action: FileEditAction;
+}
+
+export interface CodeBlock {
+  code: string;
+  language?: string;
+  // File the code belongs to, when the reply shows it
+  path?: string;
+}
+
+export interface Message {
+  sender: 'user' | 'ai';
+  text: string;
+  // ISO 8601 time the message was sent
+  timestamp?: string;
+  // The site's own ID for the message, e.g. Lovable's data-message-id (umsg_... or aimsg_...)
+  messageId?: string;
+  attachments?: MessageAttachment[];
+  // Structured parts of AI replies; the text still contains them as plain text
+  fileEdits?: FileEdit[];
+  codeBlocks?: CodeBlock[];
+  // Summaries of other things the AI did, e.g. "Installed @dnd-kit/core"
+  actions?: string[];
+}
+
+export interface ConversationData {
+  userMessages: Message[];
+  aiMessages: Message[];
+  mergedMessages: Message[];
+  url?: string;
+  title?: string;
+  // Adapter and DOM version that extracted the messages, e.g. "lovable/message-ids"
+  adapter?: string;
+}
+
+/**
+ * One supported markup of a site. Sites change their DOM without notice, so an
+ * adapter lists the versions it knows, newest first, and the first one whose
+ * `detect` passes extracts the messages.
+ */
+export interface AdapterDomVersion {
+  id: string;
+  detect: (document: Document) => boolean;
+  // Messages in page order
+  extract: (document: Document) => Message[];
+}
+
+export interface UrlMatchRule {
+  // Matches the host and its subdomains
+  host: string;
+  path?: RegExp;
+}
+
+export interface ConversationAdapter {
+  id: string;
+  name: string;
+  matches: UrlMatchRule[];
+  versions: AdapterDomVersion[];
+}
@@ -1,234 +1,224 @@
 /**
- * Utility to extract HTML content from Lovable iframe for AI test generation
+ * Reads the rendered DOM of the Lovable preview iframe for AI test and document generation
  */
 
+import { lovableProjectIdFromUrl } from './lovableProject';
+
+const chrome = (window as any).chrome;
+
+// Preview frames are served from id-preview--PROJECT_ID.lovable.app
+const PREVIEW_HOST = /^id-preview--[\w-]+\.lovable\.app$/;
+
+// The API condenses the page for the model itself; this only keeps requests well under its 10 MB body limit
+const MAX_HTML_LENGTH = 2000000;
+
 export interface IframeInfo {
   url: string;
   projectId: string;
-  token: string;
+  // Path, query and hash the preview is showing, e.g. /settings?tab=billing
+  route: string;
+  tabId: number;
+  frameId: number;
+}
+
+export interface PageStructure {
+  hasNavigation: boolean;
+  hasForm: boolean;
+  hasButtons: boolean;
+  hasModal: boolean;
+  components: string[];
+}
+
+export interface IframeCapture extends IframeInfo {
+  title: string;
+  // Cleaned HTML of the rendered page, not the HTML the server sent
+  html: string;
+  structure: PageStructure;
+}
+
+// Raised when the preview cannot be read; the message says why and is meant for the user
+export class IframeCaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IframeCaptureError';
+  }
+}
+
+interface RenderedPage {
+  url: string;
+  title: string;
+  html: string;
+  structure: PageStructure;
 }
 
+const isPreviewUrl = (value: string): boolean => {
+  try {
+    return PREVIEW_HOST.test(new URL(value).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const routeOf = (value: string): string => {
+  const url = new URL(value);
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
 export class IframeContentReader {
   /**
-   * Extract iframe information from the DOM
+   * Finds the preview frame in the active tab: the iframe in the Lovable
+   * editor, or the tab itself when the preview is opened on its own
    */
-  static getIframeInfo(): IframeInfo | null {
-    try {
-      const iframe = document.getElementById('static-preview-panel') as HTMLIFrameElement;
-      if (!iframe || !iframe.src) {
-        console.warn('Lovable iframe not found or has no src');
-        return null;
-      }
-
-      const url = new URL(iframe.src);
-      const token = url.searchParams.get('__lovable_token');
-      
-      if (!token) {
-        console.warn('No Lovable token found in iframe URL');
-        return null;
-      }
-
-      // Extract project ID from the URL (format: https://id-preview--PROJECT_ID.lovable.app)
-      const hostname = url.hostname;
-      const projectIdMatch = hostname.match(/id-preview--([^.]+)\.lovable\.app/);
-      const projectId = projectIdMatch ? projectIdMatch[1] : '';
-
-      return {
-        url: iframe.src,
-        projectId,
-        token
-      };
-    } catch (error) {
-      console.error('Error extracting iframe info:', error);
-      return null;
+  static async getIframeInfo(): Promise<IframeInfo | null> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) {
+      throw new IframeCaptureError('No active tab found');
     }
-  }
 
-  /**
-   * Extract HTML content from the iframe
-   * Note: Due to CORS restrictions, we cannot directly access iframe content
-   * We'll need to use a different approach
-   */
-  static async getIframeHTML(): Promise<string> {
+    let frames: Array<{ frameId: number; result?: string }>;
     try {
-      const iframeInfo = this.getIframeInfo();
-      if (!iframeInfo) {
-        throw new Error('Cannot access iframe information');
-      }
-
-      // Try to fetch the content directly
-      const response = await fetch(iframeInfo.url, {
-        method: 'GET',
-        mode: 'cors'
+      frames = await chrome.scripting.executeScript({
+        target: { tabId: tab.id, allFrames: true },
+        func: () => window.location.href,
       });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch iframe content: ${response.status}`);
-      }
-
-      const html = await response.text();
-      return this.cleanHTML(html);
     } catch (error) {
-      console.error('Error fetching iframe content:', error);
-      
-      // Fallback: return a simplified structure description
-      return this.generateFallbackHTML();
+      console.error('Error listing frames:', error);
+      throw new IframeCaptureError('The extension cannot read this tab. Open your project in the Lovable editor.');
     }
+
+    const frame = frames.find(({ result }) => typeof result === 'string' && isPreviewUrl(result));
+    if (!frame) return null;
+
+    return {
+      url: frame.result!,
+      projectId: lovableProjectIdFromUrl(frame.result) || '',
+      route: routeOf(frame.result!),
+      tabId: tab.id,
+      frameId: frame.frameId,
+    };
   }
 
   /**
-   * Clean and optimize HTML for AI processing
+   * Captures the page the preview is rendering, including the current route.
+   * Throws an IframeCaptureError when there is no preview to read.
    */
-  private static cleanHTML(html: string): string {
+  static async capturePreview(): Promise<IframeCapture> {
+    const iframeInfo = await this.getIframeInfo();
+    if (!iframeInfo) {
+      throw new IframeCaptureError('No Lovable preview found in this tab. Open your project in the Lovable editor with the preview showing.');
+    }
+
+    let results: Array<{ result?: RenderedPage }>;
     try {
-      // Create a temporary DOM element to parse HTML
-      const tempDiv = document.createElement('div');
-      tempDiv.innerHTML = html;
-
-      // Remove script tags
-      const scripts = tempDiv.querySelectorAll('script');
-      scripts.forEach(script => script.remove());
-
-      // Remove style tags (keep class attributes)
-      const styles = tempDiv.querySelectorAll('style');
-      styles.forEach(style => style.remove());
-
-      // Remove comments
-      const walker = document.createTreeWalker(
-        tempDiv,
-        NodeFilter.SHOW_COMMENT,
-        null
-      );
-      
-      const comments: Node[] = [];
-      let node;
-      while (node = walker.nextNode()) {
-        comments.push(node);
-      }
-      comments.forEach(comment => {
-        if (comment.parentNode) {
-          comment.parentNode.removeChild(comment);
-        }
+      results = await chrome.scripting.executeScript({
+        target: { tabId: iframeInfo.tabId, frameIds: [iframeInfo.frameId] },
+        func: (): RenderedPage => {
+          const count = (selector: string) => document.querySelectorAll(selector).length;
+          const landmarks: Array<[string, string]> = [
+            ['Header', 'header, [role="banner"]'],
+            ['Navigation', 'nav, [role="navigation"]'],
+            ['Sidebar', 'aside, [role="complementary"]'],
+            ['Main Content Area', 'main, [role="main"]'],
+            ['Forms', 'form'],
+            ['Inputs', 'input:not([type="hidden"]), textarea, select'],
+            ['Buttons', 'button, [role="button"], input[type="button"], input[type="submit"]'],
+            ['Tables', 'table, [role="table"], [role="grid"]'],
+            ['Tabs', '[role="tablist"]'],
+            ['Dialogs', 'dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]'],
+            ['Footer', 'footer, [role="contentinfo"]'],
+          ];
+
+          return {
+            url: window.location.href,
+            title: document.title,
+            html: document.documentElement.outerHTML,
+            structure: {
+              hasNavigation: count('nav, [role="navigation"]') > 0,
+              hasForm: count('form, input:not([type="hidden"]), textarea, select') > 0,
+              hasButtons: count('button, [role="button"], input[type="button"], input[type="submit"]') > 0,
+              hasModal: count('dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]') > 0,
+              components: landmarks.filter(([, selector]) => count(selector) > 0).map(([name]) => name),
+            },
+          };
+        },
       });
+    } catch (error) {
+      console.error('Error reading the preview frame:', error);
+      throw new IframeCaptureError('The Lovable preview could not be read. Wait for it to finish loading and try again.');
+    }
 
-      // Keep only essential attributes
-      const allElements = tempDiv.querySelectorAll('*');
-      allElements.forEach(element => {
-        const allowedAttributes = ['id', 'class', 'type', 'role', 'aria-label', 'placeholder', 'href', 'src', 'alt'];
-        const attributes = Array.from(element.attributes);
-        
-        attributes.forEach(attr => {
-          if (!allowedAttributes.includes(attr.name)) {
-            element.removeAttribute(attr.name);
-          }
-        });
-      });
+    const page = results[0]?.result;
+    if (!page) {
+      throw new IframeCaptureError('The Lovable preview did not return its content. Wait for it to finish loading and try again.');
+    }
 
-      // Get the cleaned HTML
-      let cleanedHTML = tempDiv.innerHTML;
+    const html = this.cleanHTML(page.html);
+    if (!html.trim()) {
+      throw new IframeCaptureError('The Lovable preview is empty. Wait for it to finish loading and try again.');
+    }
 
-      // Limit the size for AI processing (max 10KB)
-      if (cleanedHTML.length > 10000) {
-        cleanedHTML = cleanedHTML.substring(0, 10000) + '...';
-      }
+    return {
+      ...iframeInfo,
+      url: page.url,
+      route: routeOf(page.url),
+      title: page.title,
+      html,
+      structure: page.structure,
+    };
+  }
 
-      return cleanedHTML;
-    } catch (error) {
-      console.error('Error cleaning HTML:', error);
-      return html.substring(0, 5000); // Fallback to first 5KB
-    }
+  /**
+   * Extract HTML content from the iframe
+   */
+  static async getIframeHTML(): Promise<string> {
+    return (await this.capturePreview()).html;
   }
 
   /**
-   * Generate a fallback HTML structure when iframe content is not accessible
+   * Clean and optimize HTML for AI processing
    */
-  private static generateFallbackHTML(): string {
-    try {
-      const iframeInfo = this.getIframeInfo();
-      const projectId = iframeInfo?.projectId || 'unknown';
-      
-      return `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>Lovable Project ${projectId}</title>
-        </head>
-        <body>
-          <div id="app">
-            <header class="app-header">
-              <nav class="navigation">
-                <a href="/" class="nav-link">Home</a>
-                <a href="/about" class="nav-link">About</a>
-                <a href="/contact" class="nav-link">Contact</a>
-              </nav>
-            </header>
-            <main class="main-content">
-              <section class="hero-section">
-                <h1 class="hero-title">Welcome to the Application</h1>
-                <p class="hero-description">This is a Lovable-generated web application.</p>
-                <button class="cta-button">Get Started</button>
-              </section>
-              <section class="features-section">
-                <div class="feature-card">
-                  <h3>Feature 1</h3>
-                  <p>Description of feature 1</p>
-                </div>
-                <div class="feature-card">
-                  <h3>Feature 2</h3>
-                  <p>Description of feature 2</p>
-                </div>
-              </section>
-            </main>
-            <footer class="app-footer">
-              <p>&copy; 2024 Your Application</p>
-            </footer>
-          </div>
-        </body>
-        </html>
-      `;
-    } catch (error) {
-      console.error('Error generating fallback HTML:', error);
-      return '<html><body><h1>Web Application</h1><p>Unable to analyze content</p></body></html>';
+  static cleanHTML(html: string): string {
+    // Parsed into a separate document, so nothing in it loads or runs here
+    const body = new DOMParser().parseFromString(html, 'text/html').body;
+
+    // Remove scripts, styles and other markup without visible content
+    body.querySelectorAll('script, style, noscript, template, svg').forEach(element => element.remove());
+
+    // Remove comments
+    const walker = document.createTreeWalker(body, NodeFilter.SHOW_COMMENT, null);
+    const comments: Node[] = [];
+    let node;
+    while (node = walker.nextNode()) {
+      comments.push(node);
     }
+    comments.forEach(comment => comment.parentNode?.removeChild(comment));
+
+    // Keep only essential attributes, including the ones that label fields and mark them required or disabled
+    const allowedAttributes = [
+      'id', 'class', 'type', 'role', 'aria-label', 'placeholder', 'href', 'src', 'alt', 'name',
+      'for', 'title', 'required', 'disabled', 'aria-disabled', 'aria-modal',
+    ];
+    body.querySelectorAll('*').forEach(element => {
+      Array.from(element.attributes).forEach(attr => {
+        if (!allowedAttributes.includes(attr.name)) {
+          element.removeAttribute(attr.name);
+        }
+      });
+    });
+
+    const cleanedHTML = body.innerHTML;
+    // Cut after a whole tag, never inside one
+    return cleanedHTML.length > MAX_HTML_LENGTH
+      ? cleanedHTML.substring(0, cleanedHTML.lastIndexOf('>', MAX_HTML_LENGTH - 1) + 1)
+      : cleanedHTML;
   }
 
   /**
    * Extract structured information about the page content
    */
-  static analyzePageStructure(): {
-    hasNavigation: boolean;
-    hasForm: boolean;
-    hasButtons: boolean;
-    hasModal: boolean;
-    components: string[];
-  } {
-    try {
-      const iframeInfo = this.getIframeInfo();
-      
-      return {
-        hasNavigation: true, // Assume basic components exist
-        hasForm: true,
-        hasButtons: true,
-        hasModal: false,
-        components: [
-          'Header/Navigation',
-          'Main Content Area',
-          'Buttons',
-          'Forms',
-          'Footer'
-        ]
-      };
-    } catch (error) {
-      console.error('Error analyzing page structure:', error);
-      return {
-        hasNavigation: false,
-        hasForm: false,
-        hasButtons: false,
-        hasModal: false,
-        components: ['Unknown Components']
-      };
-    }
+  static async analyzePageStructure(): Promise<PageStructure> {
+    return (await this.capturePreview()).structure;
   }
 }
 
-export default IframeContentReader; 
\ No newline at end of file
+export default IframeContentReader;
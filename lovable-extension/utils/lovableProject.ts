@@ -0,0 +1,48 @@
+/**
+ * Recognises Lovable projects from the URLs they are opened at
+ */
+
+const chrome = (window as any).chrome;
+
+// Editor (lovable.dev/projects/PROJECT_ID) and preview (id-preview--PROJECT_ID.lovable.app) URLs
+const EDITOR_PATH = /^\/projects\/([\w-]+)/;
+const PREVIEW_HOST = /^id-preview--([\w-]+)\.lovable\.app$/;
+
+export const lovableProjectIdFromUrl = (value?: string): string | null => {
+  if (!value) return null;
+
+  try {
+    const url = new URL(value);
+    if (url.hostname === 'lovable.dev' || url.hostname.endsWith('.lovable.dev')) {
+      return url.pathname.match(EDITOR_PATH)?.[1] || null;
+    }
+    return url.hostname.match(PREVIEW_HOST)?.[1] || null;
+  } catch {
+    return null;
+  }
+};
+
+// Editor tabs are titled "Project name - Lovable"
+export const lovableProjectNameFromTitle = (title?: string): string | undefined => {
+  const name = title?.replace(/\s+[-|–]\s+Lovable$/, '').trim();
+  return name && name !== 'Lovable' ? name.substring(0, 200) : undefined;
+};
+
+export interface LovableTab {
+  lovableProjectId: string;
+  name?: string;
+  url: string;
+}
+
+// The Lovable project open in the active tab, if any
+export const detectLovableTab = async (): Promise<LovableTab | null> => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  const lovableProjectId = lovableProjectIdFromUrl(tab?.url);
+  if (!tab?.url || !lovableProjectId) return null;
+
+  return {
+    lovableProjectId,
+    name: lovableProjectNameFromTitle(tab.title),
+    url: tab.url,
+  };
+};
@@ -0,0 +1,248 @@
+/**
+ * Crawls the app in the Lovable preview. Starting from the route the preview
+ * shows, it follows same-origin links breadth-first, moving the preview
+ * through the app's own client-side router, and captures each page with the
+ * same extraction as captureUIContent. Afterwards the preview is put back on
+ * the route it started on.
+ *
+ * Opening a route can change the app's data or session, so links to routes
+ * such as /logout or /items/1/delete are listed but never opened, and neither
+ * are links marked rel="nofollow" or inside an element with data-no-crawl.
+ */
+
+import { IframeCaptureError, IframeContentReader } from './iframeContentReader';
+import { extractUIContent, type UIContent } from './uiContentReader';
+import type { SiteMapPage } from '../services/api';
+
+const chrome = (window as any).chrome;
+
+export const DEFAULT_CRAWL_DEPTH = 1;
+export const MAX_CRAWL_DEPTH = 3;
+// The API accepts site maps of up to 50 pages
+export const DEFAULT_MAX_PAGES = 20;
+const MAX_PAGES = 50;
+
+// A page counts as rendered once the DOM has not changed for SETTLE_QUIET_MS, or after SETTLE_TIMEOUT_MS
+const SETTLE_QUIET_MS = 500;
+const SETTLE_TIMEOUT_MS = 5000;
+
+// Per page, so a large site map still fits in the prompt
+const MAX_STRUCTURE_LENGTH = 3000;
+const MAX_ITEMS_PER_LIST = 20;
+// The most links per page the API accepts
+const MAX_LINKS_PER_PAGE = 200;
+
+// The preview authenticates with this query parameter; it is not part of the route
+const TOKEN_PARAM = '__lovable_token';
+
+// Files are linked to, but are not pages of the app
+const FILE_PATH = /\.(png|jpe?g|gif|svg|webp|ico|pdf|zip|css|js|json|txt|xml)$/i;
+
+// Routes that sign the user out or change data when opened, matched as a word of the route
+const UNSAFE_ROUTE = /(?:^|[/?#&=._-])(?:log-?out|log-?off|sign-?out|delete|remove|destroy|unsubscribe)(?:$|[/?#&=._-])/i;
+
+export interface CrawlProgress {
+  // Number of the page being captured, starting at 1
+  page: number;
+  // Pages found so far, capped at the page limit
+  found: number;
+  route: string;
+}
+
+export interface CrawlOptions {
+  // Links to follow from the starting page; 0 captures only the page that is showing
+  maxDepth?: number;
+  maxPages?: number;
+  onProgress?: (progress: CrawlProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface CrawledPage {
+  route: string;
+  depth: number;
+  // Routes of the app this page links to
+  links: string[];
+  content: UIContent;
+}
+
+export interface SiteCrawl {
+  startRoute: string;
+  pages: CrawledPage[];
+  // Routes that were found but could not be captured
+  failed: Array<{ route: string; error: string }>;
+}
+
+// Path, query and app hash of a same-origin link; null for other sites, files and in-page anchors
+const toRoute = (href: string, pageUrl: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(href, pageUrl);
+  } catch {
+    return null;
+  }
+  if (url.origin !== new URL(pageUrl).origin || FILE_PATH.test(url.pathname)) return null;
+
+  url.searchParams.delete(TOKEN_PARAM);
+  // Hash routers keep the route after "#/"; any other hash is an anchor on the same page
+  const hash = url.hash.startsWith('#/') ? url.hash : '';
+  return `${url.pathname}${url.search}${hash}`;
+};
+
+/**
+ * Runs in the preview frame: shows `location` through the app's router, the
+ * way its own links do, and resolves with the URL once the page has rendered.
+ * Injected with chrome.scripting, so it must not use anything from outside.
+ */
+const showLocation = async (location: string, quietMs: number, timeoutMs: number): Promise<string> => {
+  const current = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+  if (current !== location) {
+    window.history.pushState(null, '', location);
+    window.dispatchEvent(new PopStateEvent('popstate', { state: null }));
+  }
+
+  await new Promise<void>((resolve) => {
+    let quiet: ReturnType<typeof setTimeout>;
+    const observer = new MutationObserver(() => {
+      clearTimeout(quiet);
+      quiet = setTimeout(done, quietMs);
+    });
+    const limit = setTimeout(() => done(), timeoutMs);
+    function done() {
+      observer.disconnect();
+      clearTimeout(quiet);
+      clearTimeout(limit);
+      resolve();
+    }
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+    quiet = setTimeout(done, quietMs);
+  });
+
+  return window.location.href;
+};
+
+const runInFrame = async <Args extends unknown[], Result>(
+  target: { tabId: number; frameIds: number[] },
+  func: (...args: Args) => Result | Promise<Result>,
+  args: Args
+): Promise<Result> => {
+  const [injection] = await chrome.scripting.executeScript({ target, func, args });
+  if (!injection) {
+    throw new Error('The preview frame is no longer there');
+  }
+  return injection.result as Result;
+};
+
+export const crawlPreview = async ({
+  maxDepth = DEFAULT_CRAWL_DEPTH,
+  maxPages = DEFAULT_MAX_PAGES,
+  onProgress,
+  signal,
+}: CrawlOptions = {}): Promise<SiteCrawl> => {
+  const preview = await IframeContentReader.getIframeInfo();
+  if (!preview) {
+    throw new IframeCaptureError('No Lovable preview found in this tab. Open your project in the Lovable editor with the preview showing.');
+  }
+
+  const target = { tabId: preview.tabId, frameIds: [preview.frameId] };
+  const startUrl = new URL(preview.url);
+  const token = startUrl.searchParams.get(TOKEN_PARAM);
+  const startRoute = toRoute(preview.url, preview.url)!;
+  const pageLimit = Math.min(Math.max(maxPages, 1), MAX_PAGES);
+
+  // Keeps the access token in the address, as the preview was opened with it
+  const locationOf = (route: string) => {
+    if (!token) return route;
+    const url = new URL(route, startUrl.origin);
+    url.searchParams.set(TOKEN_PARAM, token);
+    return `${url.pathname}${url.search}${url.hash}`;
+  };
+
+  const queue: Array<{ route: string; depth: number }> = [{ route: startRoute, depth: 0 }];
+  const found = new Set([startRoute]);
+  const pages: CrawledPage[] = [];
+  const failed: SiteCrawl['failed'] = [];
+
+  try {
+    while (queue.length > 0 && pages.length < pageLimit) {
+      if (signal?.aborted) {
+        throw new DOMException('The crawl was cancelled', 'AbortError');
+      }
+
+      const { route, depth } = queue.shift()!;
+      onProgress?.({ page: pages.length + 1, found: Math.min(found.size, pageLimit), route });
+
+      try {
+        await runInFrame(target, showLocation, [locationOf(route), SETTLE_QUIET_MS, SETTLE_TIMEOUT_MS]);
+        const content = await runInFrame(target, extractUIContent, []);
+
+        // A route that redirects to a page already captured, e.g. to the login page, adds nothing
+        const shownRoute = toRoute(content.url, content.url) || route;
+        if (shownRoute !== route && pages.some((page) => page.route === shownRoute)) continue;
+
+        const routes = content.links
+          .map((link) => ({ route: toRoute(link.href, content.url), noCrawl: link.noCrawl }))
+          .filter((link): link is { route: string; noCrawl: boolean | undefined } => link.route !== null && link.route !== shownRoute);
+        const links = [...new Set(routes.map((link) => link.route))];
+        pages.push({ route: shownRoute, depth, links, content });
+
+        if (depth < maxDepth) {
+          // A route linked both with and without an opt-out is not opened
+          const skipped = new Set(routes.filter((link) => link.noCrawl || UNSAFE_ROUTE.test(link.route)).map((link) => link.route));
+          for (const link of links) {
+            if (found.has(link) || skipped.has(link)) continue;
+            found.add(link);
+            queue.push({ route: link, depth: depth + 1 });
+          }
+        }
+      } catch (error) {
+        console.error(`Error capturing preview route ${route}:`, error);
+        failed.push({ route, error: error instanceof Error ? error.message : 'Capture failed' });
+      }
+    }
+  } finally {
+    // Leave the preview on the page the user had open
+    await runInFrame(target, showLocation, [locationOf(startRoute), 0, SETTLE_TIMEOUT_MS]).catch(() => undefined);
+  }
+
+  if (pages.length === 0) {
+    throw new IframeCaptureError('The Lovable preview could not be read. Wait for it to finish loading and try again.');
+  }
+  return { startRoute, pages, failed };
+};
+
+// One line per kind of UI element, e.g. "Buttons: Save | Cancel"
+export const describePage = (content: UIContent): string => {
+  const lines: string[] = [];
+  const list = (label: string, items: Array<string | undefined>) => {
+    const values = [...new Set(items.map((item) => (item || '').replace(/\s+/g, ' ').trim()).filter(Boolean))];
+    if (values.length > 0) {
+      lines.push(`${label}: ${values.slice(0, MAX_ITEMS_PER_LIST).join(' | ')}`);
+    }
+  };
+
+  list('Headings', content.headings.map(({ level, text }) => `${level} ${text}`));
+  list('Navigation', content.navigation);
+  content.forms.forEach((form, index) => {
+    list(`Form ${index + 1} fields`, form.elements.map(({ label, name, placeholder, type }) => label || placeholder || name || type));
+  });
+  list('Inputs', content.inputs.map(({ label, name, placeholder, type }) => label || placeholder || name || type));
+  list('Buttons', content.buttons.map(({ text }) => text));
+  list('Links', content.links.map(({ text, href }) => (text ? `${text} (${href})` : href)));
+  list('Tables', content.tables.map(({ caption, headers }) => caption || headers.join(', ')));
+
+  const text = content.bodyText.replace(/\s+/g, ' ').trim();
+  if (text) lines.push(`Text: ${text}`);
+
+  const structure = lines.join('\n');
+  return structure.length > MAX_STRUCTURE_LENGTH ? `${structure.substring(0, MAX_STRUCTURE_LENGTH)}...` : structure;
+};
+
+// The crawl in the form the AI generation endpoints take
+export const toSiteMap = (crawl: SiteCrawl): SiteMapPage[] =>
+  crawl.pages.map(({ route, depth, links, content }) => ({
+    route,
+    title: content.title || undefined,
+    depth,
+    links: links.slice(0, MAX_LINKS_PER_PAGE),
+    structure: describePage(content),
+  }));
@@ -63,6 +63,8 @@ export interface LinkData {
   text: string;
   href: string;
   title?: string;
+  // rel="nofollow", or data-no-crawl on the link or around it: crawlers must not open it
+  noCrawl?: boolean;
 }
 
 export interface ImageData {
@@ -114,6 +116,150 @@ export interface ElementData {
   };
 }
 
+/**
+ * Reads the UI of the document it runs in. It is injected with
+ * chrome.scripting, so it must not use anything from outside its own body.
+ */
+export const extractUIContent = (): UIContent => {
+  // Helper function to get element text safely
+  const getElementText = (element: Element): string => {
+    return element.textContent?.trim() || '';
+  };
+
+  // Helper function to get element attribute safely
+  const getElementAttr = (element: Element, attr: string): string => {
+    return element.getAttribute(attr)?.trim() || '';
+  };
+
+  // Get basic page info
+  const url = window.location.href;
+  const title = document.title;
+  const bodyText = document.body.innerText || '';
+
+  // Get form elements and their details
+  const forms = Array.from(document.forms).map(form => {
+    const elements = Array.from(form.elements).map(element => {
+      const input = element as HTMLInputElement;
+      const label = input.labels?.[0]?.textContent?.trim() || '';
+      
+      return {
+        type: input.type || 'unknown',
+        name: input.name || '',
+        placeholder: input.placeholder || '',
+        label,
+        value: input.value || '',
+        required: input.required || false,
+      };
+    });
+
+    return {
+      id: form.id || undefined,
+      action: form.action || undefined,
+      method: form.method || undefined,
+      elements,
+    };
+  });
+
+  // Get navigation elements
+  const navElements = Array.from(document.querySelectorAll('nav, .nav, [role="navigation"]'));
+  const navigation = navElements.map(nav => getElementText(nav));
+
+  // Get headings structure
+  const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).map(h => ({
+    level: h.tagName.toLowerCase(),
+    text: getElementText(h),
+    id: h.id || undefined,
+  }));
+
+  // Get buttons
+  const buttons = Array.from(document.querySelectorAll('button, input[type="button"], input[type="submit"]')).map(btn => ({
+    text: getElementText(btn) || getElementAttr(btn, 'value'),
+    type: getElementAttr(btn, 'type'),
+    className: getElementAttr(btn, 'class'),
+    id: getElementAttr(btn, 'id'),
+  }));
+
+  // Get links
+  const links = Array.from(document.querySelectorAll('a[href]')).map(link => ({
+    text: getElementText(link),
+    href: getElementAttr(link, 'href'),
+    title: getElementAttr(link, 'title'),
+    noCrawl: /(^|\s)nofollow(\s|$)/i.test(getElementAttr(link, 'rel')) || link.closest('[data-no-crawl]') !== null || undefined,
+  }));
+
+  // Get images
+  const images = Array.from(document.querySelectorAll('img')).map(img => ({
+    src: getElementAttr(img, 'src'),
+    alt: getElementAttr(img, 'alt'),
+    title: getElementAttr(img, 'title'),
+  }));
+
+  // Get tables
+  const tables = Array.from(document.querySelectorAll('table')).map(table => {
+    const headers = Array.from(table.querySelectorAll('th')).map(th => getElementText(th));
+    const rows = Array.from(table.querySelectorAll('tr')).map(tr => 
+      Array.from(tr.querySelectorAll('td')).map(td => getElementText(td))
+    ).filter(row => row.length > 0);
+    const caption = table.querySelector('caption');
+
+    return {
+      headers,
+      rows,
+      caption: caption ? getElementText(caption) : undefined,
+    };
+  });
+
+  // Get lists
+  const lists = Array.from(document.querySelectorAll('ul, ol')).map(list => ({
+    type: list.tagName.toLowerCase() as 'ul' | 'ol',
+    items: Array.from(list.querySelectorAll('li')).map(li => getElementText(li)),
+  }));
+
+  // Get all input fields (not in forms)
+  const inputs = Array.from(document.querySelectorAll('input, textarea, select')).map(input => {
+    const inputEl = input as HTMLInputElement;
+    const label = inputEl.labels?.[0]?.textContent?.trim() || '';
+    
+    return {
+      type: inputEl.type || inputEl.tagName.toLowerCase(),
+      name: inputEl.name || '',
+      placeholder: inputEl.placeholder || '',
+      value: inputEl.value || '',
+      label,
+    };
+  });
+
+  // Get metadata
+  const getMetaContent = (name: string): string => {
+    const meta = document.querySelector(`meta[name="${name}"], meta[property="${name}"]`);
+    return meta ? getElementAttr(meta, 'content') : '';
+  };
+
+  const metadata = {
+    description: getMetaContent('description'),
+    keywords: getMetaContent('keywords'),
+    author: getMetaContent('author'),
+    viewport: getMetaContent('viewport'),
+    language: document.documentElement.lang || getMetaContent('language'),
+  };
+
+  return {
+    url,
+    title,
+    bodyText: bodyText.substring(0, 10000), // Limit text length
+    forms,
+    navigation,
+    headings,
+    buttons,
+    links,
+    images,
+    tables,
+    lists,
+    inputs,
+    metadata,
+  };
+};
+
 /**
  * Captures comprehensive UI content from the active tab
  */
@@ -129,144 +275,7 @@ export const captureUIContent = async (): Promise<UIContent> => {
     // Execute script to get comprehensive UI content
     const result = await chrome.scripting.executeScript({
       target: { tabId: tab.id },
-      func: () => {
-        // Helper function to get element text safely
-        const getElementText = (element: Element): string => {
-          return element.textContent?.trim() || '';
-        };
-
-        // Helper function to get element attribute safely
-        const getElementAttr = (element: Element, attr: string): string => {
-          return element.getAttribute(attr)?.trim() || '';
-        };
-
-        // Get basic page info
-        const url = window.location.href;
-        const title = document.title;
-        const bodyText = document.body.innerText || '';
-
-        // Get form elements and their details
-        const forms = Array.from(document.forms).map(form => {
-          const elements = Array.from(form.elements).map(element => {
-            const input = element as HTMLInputElement;
-            const label = input.labels?.[0]?.textContent?.trim() || '';
-            
-            return {
-              type: input.type || 'unknown',
-              name: input.name || '',
-              placeholder: input.placeholder || '',
-              label,
-              value: input.value || '',
-              required: input.required || false,
-            };
-          });
-
-          return {
-            id: form.id || undefined,
-            action: form.action || undefined,
-            method: form.method || undefined,
-            elements,
-          };
-        });
-
-        // Get navigation elements
-        const navElements = Array.from(document.querySelectorAll('nav, .nav, [role="navigation"]'));
-        const navigation = navElements.map(nav => getElementText(nav));
-
-        // Get headings structure
-        const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).map(h => ({
-          level: h.tagName.toLowerCase(),
-          text: getElementText(h),
-          id: h.id || undefined,
-        }));
-
-        // Get buttons
-        const buttons = Array.from(document.querySelectorAll('button, input[type="button"], input[type="submit"]')).map(btn => ({
-          text: getElementText(btn) || getElementAttr(btn, 'value'),
-          type: getElementAttr(btn, 'type'),
-          className: getElementAttr(btn, 'class'),
-          id: getElementAttr(btn, 'id'),
-        }));
-
-        // Get links
-        const links = Array.from(document.querySelectorAll('a[href]')).map(link => ({
-          text: getElementText(link),
-          href: getElementAttr(link, 'href'),
-          title: getElementAttr(link, 'title'),
-        }));
-
-        // Get images
-        const images = Array.from(document.querySelectorAll('img')).map(img => ({
-          src: getElementAttr(img, 'src'),
-          alt: getElementAttr(img, 'alt'),
-          title: getElementAttr(img, 'title'),
-        }));
-
-        // Get tables
-        const tables = Array.from(document.querySelectorAll('table')).map(table => {
-          const headers = Array.from(table.querySelectorAll('th')).map(th => getElementText(th));
-          const rows = Array.from(table.querySelectorAll('tr')).map(tr => 
-            Array.from(tr.querySelectorAll('td')).map(td => getElementText(td))
-          ).filter(row => row.length > 0);
-          const caption = table.querySelector('caption');
-
-          return {
-            headers,
-            rows,
-            caption: caption ? getElementText(caption) : undefined,
-          };
-        });
-
-        // Get lists
-        const lists = Array.from(document.querySelectorAll('ul, ol')).map(list => ({
-          type: list.tagName.toLowerCase() as 'ul' | 'ol',
-          items: Array.from(list.querySelectorAll('li')).map(li => getElementText(li)),
-        }));
-
-        // Get all input fields (not in forms)
-        const inputs = Array.from(document.querySelectorAll('input, textarea, select')).map(input => {
-          const inputEl = input as HTMLInputElement;
-          const label = inputEl.labels?.[0]?.textContent?.trim() || '';
-          
-          return {
-            type: inputEl.type || inputEl.tagName.toLowerCase(),
-            name: inputEl.name || '',
-            placeholder: inputEl.placeholder || '',
-            value: inputEl.value || '',
-            label,
-          };
-        });
-
-        // Get metadata
-        const getMetaContent = (name: string): string => {
-          const meta = document.querySelector(`meta[name="${name}"], meta[property="${name}"]`);
-          return meta ? getElementAttr(meta, 'content') : '';
-        };
-
-        const metadata = {
-          description: getMetaContent('description'),
-          keywords: getMetaContent('keywords'),
-          author: getMetaContent('author'),
-          viewport: getMetaContent('viewport'),
-          language: document.documentElement.lang || getMetaContent('language'),
-        };
-
-        return {
-          url,
-          title,
-          bodyText: bodyText.substring(0, 10000), // Limit text length
-          forms,
-          navigation,
-          headings,
-          buttons,
-          links,
-          images,
-          tables,
-          lists,
-          inputs,
-          metadata,
-        };
-      },
+      func: extractUIContent,
     });
 
     return result[0].result as UIContent;
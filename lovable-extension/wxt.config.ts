@@ -28,14 +28,15 @@ export default defineConfig({
     name: 'Lovable Development Assistant',
     description: 'A comprehensive development tool with feature tracking, testing, documentation, and expert hiring',
     version: '1.0.0',
-    permissions: ['activeTab', 'sidePanel', 'scripting'],
+    permissions: ['activeTab', 'sidePanel', 'scripting', 'storage'],
     host_permissions: ['<all_urls>'],
     action: {},
     side_panel: {
       default_path: 'sidepanel.html'
     },
+    // The backend is chosen on the options page, so the API may be on any https host, or on this computer
     content_security_policy: {
-      extension_pages: "script-src 'self' 'wasm-unsafe-eval' http://localhost:3000; object-src 'self'; connect-src 'self' http://localhost:3000 ws://localhost:3000 http://localhost:3001 http://65.21.182.200:3001;"
+      extension_pages: "script-src 'self' 'wasm-unsafe-eval' http://localhost:3000; object-src 'self'; connect-src 'self' https: http://localhost:* http://127.0.0.1:* ws://localhost:3000;"
     }
   }
 });